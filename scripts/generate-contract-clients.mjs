@@ -0,0 +1,268 @@
+/**
+ * Generates typed contract clients from the ABI JSON files in src/contracts/abis.
+ *
+ * Each client module exports the ABI, typed result structs for multi-value reads,
+ * a contract interface whose methods mirror the ABI, and a factory that resolves
+ * the deployed address through config/contracts. Re-run after changing any ABI:
+ *
+ *   npm run generate:contracts
+ *
+ * Callers that no longer match the ABI then fail the type-check instead of at runtime.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const ABI_DIR = join(ROOT, 'src/contracts/abis');
+const OUT_DIR = join(ROOT, 'src/contracts/clients');
+
+/**
+ * Contracts to generate. `addressKey` is the getContractAddress() key; contracts
+ * without one (boost NFTs) are resolved on-chain and require an explicit address.
+ * `resultNames` overrides the default `<Function>Result` name for multi-value reads.
+ */
+const CONTRACTS = [
+  {
+    name: 'MiningMastersStaking',
+    abiFile: 'StakingContractABI.json',
+    addressKey: 'StakingProxy',
+    resultNames: { stakedMiners: 'StakedMiner' },
+  },
+  {
+    name: 'MiningExpedition',
+    abiFile: 'MiningExpeditionABI.json',
+    addressKey: 'MiningExpeditionProxy',
+    resultNames: { expeditions: 'Expedition', minerStats: 'MinerStats' },
+  },
+  {
+    name: 'FoodSystem',
+    abiFile: 'FoodSystemABI.json',
+    addressKey: 'FoodSystemProxy',
+    resultNames: { meals: 'Meal' },
+  },
+  {
+    name: 'MinerNFT',
+    abiFile: 'MinerNFTABI.json',
+    addressKey: 'MinerNFT',
+  },
+  {
+    name: 'MinerRegistry',
+    abiFile: 'MinerRegistryABI.json',
+    addressKey: 'MinerRegistry',
+  },
+  {
+    name: 'GEMSToken',
+    abiFile: 'GEMSTokenABI.json',
+    addressKey: 'GEMSToken',
+  },
+  {
+    name: 'RewardSpendingBatch',
+    abiFile: 'RewardSpendingBatchABI.json',
+    addressKey: 'RewardSpendingBatch',
+  },
+  {
+    name: 'GemxStaking',
+    abiFile: 'GemxStakingABI.json',
+    addressKey: 'GemxStaking',
+    resultNames: { getPosition: 'GemxStakePosition' },
+  },
+  {
+    name: 'GemsVault',
+    abiFile: 'GemsVaultABI.json',
+    addressKey: 'GemsVault',
+  },
+  {
+    name: 'Multicall3',
+    abiFile: 'Multicall3ABI.json',
+    addressKey: 'Multicall3',
+  },
+  {
+    name: 'BoostNFT',
+    abiFile: 'BoostNFTABI.json',
+    addressKey: null,
+  },
+];
+
+const pascal = (s) => s.charAt(0).toUpperCase() + s.slice(1);
+const constCase = (s) => s.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2').toUpperCase();
+
+function generate(contract) {
+  const raw = JSON.parse(readFileSync(join(ABI_DIR, contract.abiFile), 'utf8'));
+  const isArtifact = !Array.isArray(raw);
+  const abi = isArtifact ? raw.abi : raw;
+
+  const usedTypes = new Set(['ContractRunner']);
+  const structs = new Map(); // name -> body
+  const lines = [];
+
+  const defineStruct = (name, body) => {
+    if (structs.has(name) && structs.get(name) !== body) {
+      throw new Error(`${contract.name}: conflicting definitions for struct ${name}`);
+    }
+    structs.set(name, body);
+    return name;
+  };
+
+  const structBody = (components, dir) =>
+    components.map((c) => `  ${c.name}: ${tsType(c, dir)};`).join('\n');
+
+  const tsType = (param, dir) => {
+    const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/);
+    if (arrayMatch) {
+      const inner = { ...param, type: arrayMatch[1], internalType: (param.internalType || '').replace(/\[\d*\]$/, '') };
+      return `${tsType(inner, dir)}[]`;
+    }
+    if (param.type === 'tuple') {
+      const structName = (param.internalType || '').replace(/^struct\s+/, '').split('.').pop();
+      if (!structName) {
+        return `{ ${param.components.map((c) => `${c.name}: ${tsType(c, dir)}`).join('; ')} }`;
+      }
+      const name = dir === 'in' ? `${structName}Input` : structName;
+      return defineStruct(name, structBody(param.components, dir));
+    }
+    if (/^u?int\d*$/.test(param.type)) {
+      if (dir === 'in') {
+        usedTypes.add('BigNumberish');
+        return 'BigNumberish';
+      }
+      return 'bigint';
+    }
+    if (param.type === 'address') {
+      if (dir === 'in') {
+        usedTypes.add('AddressLike');
+        return 'AddressLike';
+      }
+      return 'string';
+    }
+    if (param.type === 'bool') return 'boolean';
+    if (param.type === 'string') return 'string';
+    if (/^bytes\d*$/.test(param.type)) {
+      if (dir === 'in') {
+        usedTypes.add('BytesLike');
+        return 'BytesLike';
+      }
+      return 'string';
+    }
+    throw new Error(`${contract.name}: unsupported ABI type ${param.type}`);
+  };
+
+  const argsTuple = (inputs, dir) =>
+    `[${inputs.map((p, i) => `${p.name || `arg${i}`}: ${tsType(p, dir)}`).join(', ')}]`;
+
+  const returnType = (fn) => {
+    const outputs = fn.outputs || [];
+    if (outputs.length === 0) return 'void';
+    if (outputs.length === 1) return tsType(outputs[0], 'out');
+    const resultName = contract.resultNames?.[fn.name] ?? `${pascal(fn.name.replace(/^get(?=[A-Z])/, ''))}Result`;
+    return defineStruct(resultName, structBody(outputs.map((o, i) => ({ ...o, name: o.name || `value${i}` })), 'out'));
+  };
+
+  const functions = abi.filter((f) => f.type === 'function');
+  const counts = {};
+  for (const fn of functions) counts[fn.name] = (counts[fn.name] || 0) + 1;
+
+  const methodLines = [];
+  for (const fn of [...functions].sort((a, b) => a.name.localeCompare(b.name))) {
+    // Overloaded functions are only reachable through their full signature in ethers
+    const key = counts[fn.name] > 1 ? `'${fn.name}(${fn.inputs.map((i) => i.type).join(',')})'` : fn.name;
+    const args = argsTuple(fn.inputs, 'in');
+    const result = returnType(fn);
+    if (fn.stateMutability === 'view' || fn.stateMutability === 'pure') {
+      usedTypes.add('ConstantContractMethod');
+      methodLines.push(`  ${key}: ConstantContractMethod<${args}, ${result}>;`);
+    } else {
+      usedTypes.add('ContractMethod');
+      usedTypes.add('ContractTransactionResponse');
+      methodLines.push(`  ${key}: ContractMethod<${args}, ${result}, ContractTransactionResponse>;`);
+    }
+  }
+
+  const events = abi.filter((e) => e.type === 'event').sort((a, b) => a.name.localeCompare(b.name));
+  const eventStructs = [];
+  const filterLines = [];
+  for (const ev of events) {
+    usedTypes.add('ContractEvent');
+    filterLines.push(`    ${ev.name}: ContractEvent<${argsTuple(ev.inputs, 'in')}>;`);
+    const doc = `/**\n * Decoded arguments of the ${ev.name} event\n */\n`;
+    eventStructs.push(
+      ev.inputs.length > 0
+        ? `${doc}export interface ${ev.name}Event {\n${structBody(ev.inputs, 'out')}\n}`
+        : `${doc}export type ${ev.name}Event = Record<string, never>;`
+    );
+  }
+
+  const abiConst = `${constCase(contract.name)}_ABI`;
+  const typeName = `${contract.name}Contract`;
+  usedTypes.add('BaseContract');
+  usedTypes.add('InterfaceAbi');
+
+  lines.push('/**');
+  lines.push(` * @title ${contract.name} Client`);
+  lines.push(` * @notice Typed client for the ${contract.name} contract`);
+  lines.push(` * @dev Generated by scripts/generate-contract-clients.mjs from abis/${contract.abiFile} - do not edit by hand`);
+  lines.push(' */');
+  lines.push('');
+  lines.push(`import { Contract } from 'ethers';`);
+  lines.push(`import type { ${[...usedTypes].sort().join(', ')} } from 'ethers';`);
+  lines.push(`import ${contract.name}AbiJson from '../abis/${contract.abiFile}';`);
+  if (contract.addressKey) {
+    lines.push(`import { getContractAddress } from '../../config/contracts';`);
+  }
+  lines.push('');
+  lines.push(
+    isArtifact
+      ? `export const ${abiConst}: InterfaceAbi = (${contract.name}AbiJson as { abi: InterfaceAbi }).abi;`
+      : `export const ${abiConst}: InterfaceAbi = ${contract.name}AbiJson as InterfaceAbi;`
+  );
+  lines.push('');
+  for (const [name, body] of structs) {
+    lines.push(`export interface ${name} {\n${body}\n}`);
+    lines.push('');
+  }
+  for (const s of eventStructs) {
+    lines.push(s);
+    lines.push('');
+  }
+  lines.push('/**');
+  lines.push(` * ${contract.name} contract with methods typed from the ABI`);
+  lines.push(' */');
+  lines.push(`export interface ${typeName} extends Omit<BaseContract, 'connect' | 'filters'> {`);
+  lines.push(`  connect(runner: ContractRunner | null): ${typeName};`);
+  if (filterLines.length > 0) {
+    lines.push('  readonly filters: {');
+    lines.push(...filterLines);
+    lines.push('  };');
+  } else {
+    lines.push('  readonly filters: Record<string, never>;');
+  }
+  lines.push(...methodLines);
+  lines.push('}');
+  lines.push('');
+  lines.push('/**');
+  lines.push(` * Creates a typed ${contract.name} contract instance`);
+  lines.push(' * @param runner - Provider or signer to attach');
+  if (contract.addressKey) {
+    lines.push(` * @param address - Contract address, defaults to the configured ${contract.addressKey} address`);
+  } else {
+    lines.push(' * @param address - Contract address');
+  }
+  lines.push(' */');
+  lines.push(`export function get${typeName}(`);
+  lines.push('  runner: ContractRunner | null,');
+  lines.push(contract.addressKey ? `  address: string = getContractAddress('${contract.addressKey}')` : '  address: string');
+  lines.push(`): ${typeName} {`);
+  lines.push(`  return new Contract(address, ${abiConst}, runner) as unknown as ${typeName};`);
+  lines.push('}');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+mkdirSync(OUT_DIR, { recursive: true });
+
+for (const contract of CONTRACTS) {
+  writeFileSync(join(OUT_DIR, `${contract.name}.ts`), generate(contract));
+  console.log(`Generated src/contracts/clients/${contract.name}.ts`);
+}
@@ -9,7 +9,9 @@ import "./fonts.css";
 import Staking from "./pages/staking/Staking";
 import Shop from "./pages/shop/Shop";
 import Leaderboard from "./pages/leaderboard/Leaderboard";
+import Activity from "./pages/activity/Activity";
 import ContractDebug from "./pages/debug/ContractDebug";
+import RegistryMigration from "./pages/debug/RegistryMigration";
 
 export default function App() {
   return (
@@ -63,6 +65,14 @@ export default function App() {
             </DefaultLayout>
           }
         />
+        <Route
+          path="/activity"
+          element={
+            <DefaultLayout>
+              <Activity />
+            </DefaultLayout>
+          }
+        />
         <Route
           path="/debug"
           element={
@@ -71,6 +81,14 @@ export default function App() {
             </DefaultLayout>
           }
         />
+        <Route
+          path="/debug/registry"
+          element={
+            <DefaultLayout>
+              <RegistryMigration />
+            </DefaultLayout>
+          }
+        />
       </Routes>
     </Router>
   );
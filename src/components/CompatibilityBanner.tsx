@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useContractCompatibility } from "@/hooks/useContractCompatibility";
+
+const DISMISS_KEY = "mm:compatibility-dismissed";
+const UNVERIFIED_DISMISS_KEY = "mm:compatibility-unverified-dismissed";
+
+/**
+ * Blocks the app when the deployed contracts no longer match this frontend,
+ * listing the features that will not work. The player can continue with the
+ * rest of the app; the dismissal lasts for the session and the current findings.
+ * Contracts that could only be partly verified get a non-blocking notice instead.
+ */
+export default function CompatibilityBanner() {
+  const { report, degraded, unverified, recheck, loading } =
+    useContractCompatibility();
+  const findings = report
+    ? `${report.chainId}:${degraded.map((item) => item.feature).join(",")}`
+    : "";
+  const unverifiedFindings = report
+    ? `${report.chainId}:${unverified.map((item) => item.name).join(",")}`
+    : "";
+  const [dismissed, setDismissed] = useState(
+    () => sessionStorage.getItem(DISMISS_KEY)
+  );
+  const [unverifiedDismissed, setUnverifiedDismissed] = useState(
+    () => sessionStorage.getItem(UNVERIFIED_DISMISS_KEY)
+  );
+
+  if (!report) return null;
+
+  if (degraded.length === 0 || dismissed === findings) {
+    if (unverified.length === 0 || unverifiedDismissed === unverifiedFindings) {
+      return null;
+    }
+
+    const dismissUnverified = () => {
+      sessionStorage.setItem(UNVERIFIED_DISMISS_KEY, unverifiedFindings);
+      setUnverifiedDismissed(unverifiedFindings);
+    };
+
+    return (
+      <div
+        role="status"
+        className="fixed bottom-4 left-4 z-[90] w-80 max-w-[calc(100vw-2rem)] bg-[#1a0d00]/95 border border-amber-300/60 rounded-lg shadow-lg px-4 py-3"
+      >
+        <div className="flex items-start gap-3">
+          <div className="flex-1 min-w-0">
+            <p className="text-amber-300 font-winky text-sm">
+              Compatibility not confirmed
+            </p>
+            <p className="text-amber-200/80 text-xs mt-0.5">
+              This site could not confirm it matches the deployed{" "}
+              {unverified.map((item) => item.name).join(", ")} contracts.
+              Everything should work; if something fails, reload the site.
+            </p>
+          </div>
+          <button
+            onClick={dismissUnverified}
+            className="text-amber-400/70 hover:text-amber-300 text-sm"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const dismiss = () => {
+    sessionStorage.setItem(DISMISS_KEY, findings);
+    setDismissed(findings);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 p-4">
+      <div
+        role="alertdialog"
+        aria-labelledby="compatibility-title"
+        className="w-full max-w-lg bg-[#2a1a0c] border-2 border-red-500/60 rounded-xl p-6 space-y-4"
+      >
+        <h2
+          id="compatibility-title"
+          className="text-2xl font-bold text-red-300 font-winky"
+        >
+          Some features are unavailable
+        </h2>
+        <p className="text-amber-200/80 text-sm">
+          The game contracts were updated and this version of the site is not
+          compatible with them yet. The following will not work until the site
+          is updated:
+        </p>
+        <ul className="space-y-3">
+          {degraded.map((item) => (
+            <li
+              key={item.feature}
+              className="bg-[#1a0d00] border border-red-500/30 rounded-lg p-3"
+            >
+              <p className="text-amber-300 font-semibold">{item.label}</p>
+              {item.reasons.map((reason) => (
+                <p key={reason} className="text-amber-200/60 text-xs">
+                  {reason}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={recheck}
+            disabled={loading}
+            className="text-amber-300/80 text-sm underline hover:text-amber-200 disabled:opacity-50"
+          >
+            {loading ? "Checking..." : "Check again"}
+          </button>
+          <button
+            onClick={dismiss}
+            className="bg-amber-500 hover:bg-amber-600 text-black font-winky px-4 py-2 rounded-full transition"
+          >
+            Continue anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { ReactNode, useEffect, useState } from "react";
+import CompatibilityBanner from "./CompatibilityBanner";
 import Footer from "./Footer";
 import Header from "./Header";
 
@@ -27,6 +28,8 @@ export default function DefaultLayout({ children }: DefaultLayoutProps) {
       {children}
 
       <Footer />
+
+      <CompatibilityBanner />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { ROUTES } from "@/constants/route";
 import { Link, useLocation } from "react-router-dom";
 import { useEffect } from "react";
 import WalletConnector from "./WalletConnector";
+import NetworkSwitcher from "./NetworkSwitcher";
 import { useRoninWallet } from "../services/wallet/RoninWalletProvider";
 
 export default function Header({
@@ -46,6 +47,7 @@ export default function Header({
     { id: "shop", label: "Shop", to: ROUTES.SHOP },
     { id: "staking", label: "Staking", to: ROUTES.STAKING },
     { id: "leaderboard", label: "Leaderboard", to: ROUTES.LEADERBOARD },
+    { id: "activity", label: "Activity", to: ROUTES.ACTIVITY },
   ];
 
   // No need to fetch GEMS balance here anymore as it's handled in WalletConnector
@@ -116,6 +118,8 @@ export default function Header({
             ))
           )}
 
+          <NetworkSwitcher />
+
           {/* Wallet connect button */}
           <WalletConnector 
             onConnect={handleWalletConnect} 
@@ -189,6 +193,8 @@ export default function Header({
               ))
             )}
 
+            <NetworkSwitcher className="self-start" />
+
             {/* Mobile wallet connector */}
             <div className="mt-2">
               <WalletConnector 
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_MINER_IMAGE } from "@/services/MinerMetadataService";
+
+interface MinerImageProps {
+  image?: string;
+  imageFallbacks?: string[];
+  alt: string;
+  className?: string;
+}
+
+/**
+ * Miner art that moves on to the next gateway when an image fails to load,
+ * ending with the generic miner picture.
+ */
+export default function MinerImage({
+  image,
+  imageFallbacks = [],
+  alt,
+  className = "",
+}: MinerImageProps) {
+  const sources = [image || DEFAULT_MINER_IMAGE, ...imageFallbacks];
+  const [index, setIndex] = useState(0);
+  const sourcesKey = sources.join("|");
+
+  useEffect(() => setIndex(0), [sourcesKey]);
+
+  const src = sources[index] ?? DEFAULT_MINER_IMAGE;
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      className={className}
+      loading="lazy"
+      onError={() => {
+        if (src !== DEFAULT_MINER_IMAGE) setIndex((current) => current + 1);
+      }}
+    />
+  );
+}
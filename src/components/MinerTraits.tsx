@@ -0,0 +1,33 @@
+import { MinerAttribute } from "@/services/MinerMetadataService";
+
+interface MinerTraitsProps {
+  attributes?: MinerAttribute[];
+  className?: string;
+}
+
+/**
+ * Trait chips from a miner's token metadata; renders nothing without traits.
+ */
+export default function MinerTraits({
+  attributes = [],
+  className = "",
+}: MinerTraitsProps) {
+  if (attributes.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {attributes.map((attribute, index) => (
+        <span
+          key={`${attribute.traitType}-${index}`}
+          className="bg-amber-900/40 border border-amber-500/30 text-amber-200 text-xs rounded px-2 py-0.5"
+        >
+          {attribute.traitType && (
+            <span className="text-amber-300/60">{attribute.traitType}: </span>
+          )}
+          {attribute.value}
+          {attribute.displayType === "boost_percentage" && "%"}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { ethers } from 'ethers';
 import { useRoninWallet } from '../services/wallet/RoninWalletProvider';
+import { getActiveNetwork, getOptionalContractAddress, getRpcUrl } from '../config/contracts';
+import { getMinerRegistryContract } from '../contracts/clients/MinerRegistry';
 
 // Basic ERC721 ABI
 const ERC721_ABI = [
@@ -10,14 +12,6 @@ const ERC721_ABI = [
   'function totalSupply() view returns (uint256)'
 ];
 
-// MinerNFTRegistry ABI
-const REGISTRY_ABI = [
-  'function tokensOfOwner(address owner) view returns (uint256[])',
-  'function balanceOf(address owner) view returns (uint256)',
-  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
-  'function isTokenRegistered(address owner, uint256 tokenId) view returns (bool)'
-];
-
 const NFTDebug: React.FC = () => {
   const { address, connector } = useRoninWallet();
   const [debugOutput, setDebugOutput] = useState<string[]>([]);
@@ -35,27 +29,16 @@ const NFTDebug: React.FC = () => {
 
   // Get network-appropriate NFT contract address
   const getNFTContractAddress = (): string => {
-    const network = import.meta.env.VITE_NETWORK_ENV || 'testnet';
-    log(`Using network: ${network}`);
-    
-    const envKey = network === 'mainnet' 
-      ? 'VITE_MAINNET_MINER_NFT_ADDRESS' 
-      : 'VITE_TESTNET_MINER_NFT_ADDRESS';
+    log(`Using network: ${getActiveNetwork().key}`);
     
-    const address = import.meta.env[envKey] || '';
+    const address = getOptionalContractAddress('MinerNFT') ?? '';
     log(`Using NFT contract address: ${address}`);
     return address;
   };
   
   // Get network-appropriate NFT Registry contract address
   const getRegistryContractAddress = (): string => {
-    const network = import.meta.env.VITE_NETWORK_ENV || 'testnet';
-    
-    const envKey = network === 'mainnet' 
-      ? 'VITE_MAINNET_MINER_REGISTRY_ADDRESS' 
-      : 'VITE_TESTNET_MINER_REGISTRY_ADDRESS';
-    
-    const address = import.meta.env[envKey] || '';
+    const address = getOptionalContractAddress('MinerRegistry') ?? '';
     log(`Using NFT Registry contract address: ${address}`);
     return address;
   };
@@ -81,11 +64,8 @@ const NFTDebug: React.FC = () => {
       }
       
       // Create provider and connect to NFT contract
-      // Use the appropriate RPC URL based on the network
-      const network = import.meta.env.VITE_NETWORK_ENV || 'testnet';
-      const rpcUrl = network === 'mainnet' 
-        ? import.meta.env.VITE_RONIN_MAINNET_RPC || 'https://api.roninchain.com/rpc'
-        : import.meta.env.VITE_RONIN_TESTNET_RPC || 'https://saigon-api.roninchain.com/rpc';
+      // Use the RPC URL of the active network
+      const rpcUrl = getRpcUrl();
       
       log(`Using RPC URL: ${rpcUrl}`);
       
@@ -109,7 +89,7 @@ const NFTDebug: React.FC = () => {
       
       if (registryAddress) {
         try {
-          const registryContract = new ethers.Contract(registryAddress, REGISTRY_ABI, provider);
+          const registryContract = getMinerRegistryContract(provider, registryAddress);
           log(`Connected to registry contract at ${registryAddress}`);
           
           const ownedTokens = await registryContract.tokensOfOwner(address);
@@ -0,0 +1,44 @@
+import { useRoninWallet } from '../services/wallet/RoninWalletProvider';
+
+type NetworkSwitcherProps = {
+  className?: string;
+};
+
+/**
+ * Shows the active network and switches between the supported ones through the wallet.
+ * When the wallet is on an unsupported chain it asks the player to switch back.
+ */
+export function NetworkSwitcher({ className = '' }: NetworkSwitcherProps) {
+  const { network, networks, chainId, isConnected, isCorrectNetwork, switchChain } = useRoninWallet();
+
+  if (isConnected && chainId !== null && !isCorrectNetwork) {
+    return (
+      <button
+        onClick={() => switchChain(network.chainId)}
+        className={`bg-red-700 hover:bg-red-800 text-white font-winky px-4 py-2 rounded-full transition ${className}`}
+        title={`Your wallet is on chain ${chainId}`}
+      >
+        Switch to {network.name}
+      </button>
+    );
+  }
+
+  if (networks.length < 2) return null;
+
+  return (
+    <select
+      value={network.chainId}
+      onChange={(e) => switchChain(Number(e.target.value))}
+      className={`bg-[#2a1a0c] border border-amber-500/50 text-amber-400 font-winky text-sm rounded-full px-3 py-2 ${className}`}
+      title="Network"
+    >
+      {networks.map((option) => (
+        <option key={option.chainId} value={option.chainId}>
+          {option.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default NetworkSwitcher;
@@ -6,6 +6,7 @@
 
 import React, { useState } from 'react';
 import { useStaking } from '../hooks/useStaking';
+import { useTransactions } from '../hooks/useTransactions';
 import { useRoninWallet } from '../services/wallet/RoninWalletProvider';
 
 export const RewardsPanel: React.FC = () => {
@@ -13,43 +14,34 @@ export const RewardsPanel: React.FC = () => {
   const { 
     pendingRewards, 
     isLoading,
-    claimRewards,
-    refreshStakingData 
+    claimRewards
   } = useStaking();
+  const { notify } = useTransactions();
   
   const [isClaiming, setIsClaiming] = useState(false);
   
   const handleClaimRewards = async () => {
     if (!isConnected) {
-      alert("Please connect your wallet first");
+      notify("Please connect your wallet first", "error");
       return;
     }
     
     if (Number(pendingRewards) <= 0) {
-      alert("No rewards to claim");
+      notify("No rewards to claim", "error");
       return;
     }
     
     setIsClaiming(true);
     try {
-      const tx = await claimRewards();
-      if (!tx) {
-        throw new Error("Failed to submit transaction");
+      // The transaction manager tracks confirmation and reports failures
+      const receipt = await claimRewards();
+      if (receipt) {
+        console.log("Transaction confirmed:", receipt);
+        notify(`Successfully claimed ${pendingRewards} GEMS!`, "success");
       }
-      
-      console.log("Claim rewards transaction:", tx);
-      
-      // Wait for transaction receipt
-      const receipt = await tx.wait();
-      console.log("Transaction confirmed:", receipt);
-      
-      // Refresh staking data
-      await refreshStakingData();
-      
-      alert(`Successfully claimed ${pendingRewards} GEMS!`);
     } catch (error) {
       console.error("Error claiming rewards:", error);
-      alert("Failed to claim rewards. Please try again.");
+      notify("Failed to claim rewards. Please try again.", "error");
     } finally {
       setIsClaiming(false);
     }
@@ -0,0 +1,106 @@
+/**
+ * @title TransactionToasts component
+ * @notice Non-blocking toasts for tracked transactions and app notifications
+ * @dev Rendered once by TransactionProvider; each transaction toast follows its lifecycle
+ */
+
+import React from 'react';
+import { getExplorerTxUrl } from '../config/contracts';
+import { NotificationVariant } from '../hooks/useTransactions';
+import { TrackedTransaction, TransactionStatus } from '../services/transactions/TransactionEvents';
+
+export interface ToastNotification {
+  id: string;
+  message: string;
+  variant: NotificationVariant;
+}
+
+interface TransactionToastsProps {
+  transactions: TrackedTransaction[];
+  notifications: ToastNotification[];
+  onDismiss: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  pendingSignature: 'Confirm in your wallet',
+  submitted: 'Waiting for confirmation...',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  replaced: 'Replaced',
+  unknown: 'Status unknown',
+};
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pendingSignature: 'border-amber-500/60',
+  submitted: 'border-amber-500/60',
+  confirmed: 'border-green-500/60',
+  failed: 'border-red-500/60',
+  replaced: 'border-amber-300/60',
+  unknown: 'border-amber-300/60',
+};
+
+const VARIANT_STYLES: Record<NotificationVariant, string> = {
+  info: 'border-amber-500/60 text-amber-200',
+  success: 'border-green-500/60 text-green-200',
+  error: 'border-red-500/60 text-red-200',
+};
+
+export const TransactionToasts: React.FC<TransactionToastsProps> = ({ transactions, notifications, onDismiss }) => {
+  if (transactions.length === 0 && notifications.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[100] flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {notifications.map((notification) => (
+        <div
+          key={notification.id}
+          role="status"
+          className={`bg-[#1a0d00]/95 border rounded-lg shadow-lg px-4 py-3 flex items-start gap-3 ${VARIANT_STYLES[notification.variant]}`}
+        >
+          <p className="flex-1 text-sm">{notification.message}</p>
+          <button onClick={() => onDismiss(notification.id)} className="text-amber-400/70 hover:text-amber-300 text-sm">
+            ✕
+          </button>
+        </div>
+      ))}
+      {transactions.map((tx) => {
+        const explorerHash = tx.replacementHash ?? tx.hash;
+        const inProgress = tx.status === 'pendingSignature' || tx.status === 'submitted';
+        return (
+          <div
+            key={tx.id}
+            role="status"
+            className={`bg-[#1a0d00]/95 border rounded-lg shadow-lg px-4 py-3 ${STATUS_STYLES[tx.status]}`}
+          >
+            <div className="flex items-start gap-3">
+              {inProgress && (
+                <div className="mt-1 animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-amber-500 shrink-0"></div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-amber-300 font-winky text-sm">{tx.description}</p>
+                <p className="text-amber-200/80 text-xs mt-0.5">
+                  {STATUS_LABELS[tx.status]}
+                  {tx.error ? `: ${tx.error}` : ''}
+                </p>
+                {explorerHash && (
+                  <a
+                    href={getExplorerTxUrl(explorerHash, tx.chainId) || undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-amber-400 underline hover:text-amber-300"
+                  >
+                    View on explorer
+                  </a>
+                )}
+              </div>
+              <button onClick={() => onDismiss(tx.id)} className="text-amber-400/70 hover:text-amber-300 text-sm">
+                ✕
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TransactionToasts;
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useGEMSService } from '../services/contracts/GEMSService';
 import { useRoninWallet } from '../services/wallet/RoninWalletProvider';
+import { useChainEvents } from '../hooks/useChainEvents';
 
 type WalletConnectorProps = {
   onConnect?: (address: string, chainId: number) => void;
@@ -28,7 +29,7 @@ export function WalletConnector({
   const { getBalance } = useGEMSService();
   
   // Use the RoninWallet provider for connection state
-  const { isConnected, address: connectedAddress, connect: walletConnect, disconnect: walletDisconnect } = useRoninWallet();
+  const { isConnected, address: connectedAddress, chainId, network, connect: walletConnect, disconnect: walletDisconnect } = useRoninWallet();
 
   // Initial setup when component mounts
   useEffect(() => {
@@ -49,7 +50,7 @@ export function WalletConnector({
       
       // Call onConnect callback if provided and we have an address
       if (isConnected && connectedAddress) {
-        onConnect?.(connectedAddress, 2021); // Using testnet chain ID by default
+        onConnect?.(connectedAddress, chainId ?? network.chainId);
         
         // Fetch GEMS balance
         fetchGemsBalance();
@@ -149,17 +150,13 @@ export function WalletConnector({
       console.log('Wallet connected, setting up GEMS balance tracking');
       // Fetch balance immediately with forced refresh
       fetchGemsBalance(true);
-      
-      // Set up interval to refresh balance every 5 seconds
-      // This matches the cache duration in GEMSService
-      const intervalId = setInterval(() => fetchGemsBalance(false), 5000);
-      
-      return () => {
-        console.log('Clearing GEMS balance interval');
-        clearInterval(intervalId);
-      };
     }
   }, [connectedAddress, isConnected]);
+
+  // Refresh on GEMS transfers and claims; poll every 15s only while live events are unavailable
+  useChainEvents('gemsBalance', () => {
+    if (isConnected && connectedAddress) fetchGemsBalance(true);
+  }, 15000);
   
   // Also update balance when gemsService changes
   useEffect(() => {
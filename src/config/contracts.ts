@@ -1,145 +1,330 @@
 /**
- * @title Contract Address Configuration
- * @notice Manages contract addresses for different network environments
- * @dev Maps contract names to their deployed addresses on mainnet and testnet
+ * @title Network Registry
+ * @notice Runtime registry of the Ronin networks the app can run on, with their contract addresses,
+ * @notice RPC endpoints and explorers
+ * @dev Ronin mainnet (2020), Saigon testnet (2021) and an optional local devnet are built from
+ * @dev VITE_{MAINNET,TESTNET,DEVNET}_* variables. VITE_NETWORK_ENV only picks the network used before
+ * @dev a wallet connects; afterwards the active network follows the wallet's chain (see
+ * @dev RoninWalletProvider). Every module resolves addresses and endpoints through this file.
+ * @dev The in-memory mock chain (VITE_USE_MOCK_CHAIN) registers itself here as the 'mock' network.
  */
 
-// Network IDs for Ronin blockchain
-// Mainnet: 2020
-// Saigon testnet: 2021
+export type NetworkKey = 'mainnet' | 'testnet' | 'devnet' | 'mock';
 
 /**
- * Contract address mapping structure
+ * Contracts the frontend talks to
  */
-interface ContractAddresses {
-  [key: string]: {
-    [network: string]: string;
-  };
+export type ContractName =
+  | 'GEMSToken'
+  | 'MinerNFT'
+  | 'MiningMastersStaking'
+  | 'StakingProxy'
+  | 'FoodSystemProxy'
+  | 'RewardSpendingBatch'
+  | 'MiningExpeditionProxy'
+  | 'GemxStaking'
+  | 'GemsVault'
+  | 'Multicall3'
+  | 'MinerRegistry'
+  | 'MinerRegistryOld';
+
+/**
+ * Everything the app needs to know about one network
+ */
+export interface NetworkConfig {
+  key: NetworkKey;
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  wsUrl: string;                // Empty to poll over HTTP
+  explorerUrl: string;          // Empty when the network has no explorer
+  eventsStartBlock: number | null;  // Deployment block of the game contracts; null when not configured
+  enabled: boolean;             // Offered in the network switcher
+  contracts: Record<ContractName, string>;
 }
 
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Environment variable suffix of each contract, read as VITE_{NETWORK}_{SUFFIX}; later suffixes are fallbacks
+const CONTRACT_ENV_KEYS: Record<ContractName, string[]> = {
+  GEMSToken: ['GEMS_TOKEN_ADDRESS'],
+  MinerNFT: ['MINER_NFT_ADDRESS'],
+  MiningMastersStaking: ['STAKING_PROXY_ADDRESS'],
+  StakingProxy: ['STAKING_PROXY_ADDRESS'],
+  FoodSystemProxy: ['FOOD_SYSTEM_PROXY_ADDRESS'],
+  // Older deployments expose RewardSpendingBatch as REWARD_SPENDING_INTERFACE_FIXED2
+  RewardSpendingBatch: ['REWARD_SPENDING_BATCH_ADDRESS', 'REWARD_SPENDING_INTERFACE_FIXED2_ADDRESS'],
+  MiningExpeditionProxy: ['MINING_EXPEDITION_PROXY_ADDRESS'],
+  GemxStaking: ['GEMX_STAKING_ADDRESS'],
+  GemsVault: ['GEMS_VAULT_ADDRESS'],
+  Multicall3: ['MULTICALL3_ADDRESS'],
+  MinerRegistry: ['MINER_REGISTRY_ADDRESS'],
+  MinerRegistryOld: ['MINER_REGISTRY_OLD_ADDRESS'],
+};
+
+// Aliases used by older call sites
+const CONTRACT_ALIASES: Record<string, ContractName> = {
+  StakingSystem: 'MiningMastersStaking',
+  MiningSystem: 'MiningExpeditionProxy',
+  FoodSystem: 'FoodSystemProxy',
+};
+
+const env = import.meta.env as Record<string, string | undefined>;
+
 /**
- * Contract addresses for different networks
- * Contract addresses are loaded from environment variables:
- * - Testnet addresses: VITE_TESTNET_GEMS_TOKEN_ADDRESS, VITE_TESTNET_MINER_NFT_ADDRESS, VITE_TESTNET_STAKING_PROXY_ADDRESS
- * - Mainnet addresses will use similar variables when mainnet deployment is ready
+ * Extracts the address from an env value that may have a comment attached without a space
  */
-const CONTRACT_ADDRESSES: ContractAddresses = {
-  // GEMS Token contract
-  GEMSToken: {
-    // Mainnet address should be updated after mainnet deployment
-    mainnet: import.meta.env.VITE_MAINNET_GEMS_TOKEN_ADDRESS || '0x0000000000000000000000000000000000000000',
-    // Saigon testnet address from environment variables
-    testnet: import.meta.env.VITE_TESTNET_GEMS_TOKEN_ADDRESS || '0x0000000000000000000000000000000000000000',
-  },
+function cleanAddress(value: string | undefined): string {
+  const trimmed = value?.trim() ?? '';
+  if (trimmed.length > 42) {
+    return trimmed.match(/0x[a-fA-F0-9]{40}/)?.[0] ?? trimmed;
+  }
+  return trimmed;
+}
 
-  // Miner NFT contract
-  MinerNFT: {
-    mainnet: import.meta.env.VITE_MAINNET_MINER_NFT_ADDRESS || '0x0000000000000000000000000000000000000000',
-    testnet: import.meta.env.VITE_TESTNET_MINER_NFT_ADDRESS || '0x0000000000000000000000000000000000000000',
-  },
+function readContracts(prefix: string): Record<ContractName, string> {
+  const contracts = {} as Record<ContractName, string>;
+  for (const [name, suffixes] of Object.entries(CONTRACT_ENV_KEYS) as [ContractName, string[]][]) {
+    const configured = suffixes.map((suffix) => cleanAddress(env[`VITE_${prefix}_${suffix}`])).find(Boolean);
+    contracts[name] = configured || (name === 'Multicall3' ? MULTICALL3_ADDRESS : ZERO_ADDRESS);
+  }
+  return contracts;
+}
 
-  // Mining Masters Staking contract
-  MiningMastersStaking: {
-    mainnet: import.meta.env.VITE_MAINNET_STAKING_PROXY_ADDRESS || '0x0000000000000000000000000000000000000000',
-    testnet: import.meta.env.VITE_TESTNET_STAKING_PROXY_ADDRESS || '0x0000000000000000000000000000000000000000',
-  },
+function readBlock(value: string | undefined): number | null {
+  if (!value?.trim()) return null;
+  const block = Number(value);
+  return Number.isInteger(block) && block >= 0 ? block : null;
+}
 
-  // Alias for StakingProxy (used by StakingService)
-  StakingProxy: {
-    mainnet: import.meta.env.VITE_MAINNET_STAKING_PROXY_ADDRESS || '0x0000000000000000000000000000000000000000',
-    testnet: import.meta.env.VITE_TESTNET_STAKING_PROXY_ADDRESS || '0x0000000000000000000000000000000000000000',
-  },
+const defaultNetworkKey = (env.VITE_NETWORK_ENV || 'testnet') as NetworkKey;
 
-  // Food System proxy contract
-  FoodSystemProxy: {
-    mainnet: import.meta.env.VITE_MAINNET_FOOD_SYSTEM_PROXY_ADDRESS || '0x0000000000000000000000000000000000000000',
-    testnet: import.meta.env.VITE_TESTNET_FOOD_SYSTEM_PROXY_ADDRESS || '0x0000000000000000000000000000000000000000',
+const NETWORKS: NetworkConfig[] = [
+  {
+    key: 'mainnet',
+    chainId: 2020,
+    name: 'Ronin Mainnet',
+    rpcUrl: env.VITE_RONIN_MAINNET_RPC || 'https://api.roninchain.com/rpc',
+    wsUrl: env.VITE_RONIN_MAINNET_WS || '',
+    explorerUrl: 'https://app.roninchain.com',
+    eventsStartBlock: readBlock(env.VITE_MAINNET_EVENTS_START_BLOCK),
+    enabled: env.VITE_ALLOW_MAINNET === 'true' || defaultNetworkKey === 'mainnet',
+    contracts: readContracts('MAINNET'),
   },
-
-  // RewardSpendingBatch contract
-  RewardSpendingBatch: {
-    mainnet: import.meta.env.VITE_MAINNET_REWARD_SPENDING_BATCH_ADDRESS || '0x0000000000000000000000000000000000000000',
-    testnet: import.meta.env.VITE_TESTNET_REWARD_SPENDING_BATCH_ADDRESS || '0x0000000000000000000000000000000000000000',
+  {
+    key: 'testnet',
+    chainId: 2021,
+    name: 'Saigon Testnet',
+    rpcUrl: env.VITE_RONIN_TESTNET_RPC || 'https://saigon-api.roninchain.com/rpc',
+    wsUrl: env.VITE_RONIN_TESTNET_WS || '',
+    explorerUrl: 'https://saigon-app.roninchain.com',
+    eventsStartBlock: readBlock(env.VITE_TESTNET_EVENTS_START_BLOCK),
+    enabled: true,
+    contracts: readContracts('TESTNET'),
+  },
+  {
+    key: 'devnet',
+    chainId: Number(env.VITE_DEVNET_CHAIN_ID) || 31337,
+    name: 'Local Devnet',
+    rpcUrl: env.VITE_RONIN_DEVNET_RPC || 'http://127.0.0.1:8545',
+    wsUrl: env.VITE_RONIN_DEVNET_WS || '',
+    explorerUrl: env.VITE_DEVNET_EXPLORER_URL || '',
+    // A local devnet is usually a fresh chain, so its contracts are indexed from genesis by default
+    eventsStartBlock: readBlock(env.VITE_DEVNET_EVENTS_START_BLOCK) ?? 0,
+    enabled: !!env.VITE_RONIN_DEVNET_RPC || defaultNetworkKey === 'devnet',
+    contracts: readContracts('DEVNET'),
   },
+];
 
-  // Mining Expedition proxy contract
-  MiningExpeditionProxy: {
-    mainnet: import.meta.env.VITE_MAINNET_MINING_EXPEDITION_PROXY_ADDRESS || '0x0000000000000000000000000000000000000000',
-    testnet: import.meta.env.VITE_TESTNET_MINING_EXPEDITION_PROXY_ADDRESS || '0x0000000000000000000000000000000000000000',
-  }
-};
+let activeNetwork: NetworkConfig = NETWORKS.find((network) => network.key === defaultNetworkKey) ?? NETWORKS[1];
+const networkListeners = new Set<(network: NetworkConfig) => void>();
 
 /**
- * Gets the correct contract address based on the current network environment
- * @param contractName - Name of the contract to get the address for
- * @param debug - Optional flag to enable debug logging
- * @returns The contract address for the current network
+ * Gets every known network
+ * @param includeDisabled - Also return networks that are not offered to players
  */
-export function getContractAddress(contractName: string, debug: boolean = false): string {
-  // Get the current network from environment variables
-  // Default to testnet for development safety
-  const network = import.meta.env.VITE_NETWORK_ENV || 'testnet';
+export function getNetworks(includeDisabled: boolean = false): NetworkConfig[] {
+  return NETWORKS.filter((network) => includeDisabled || network.enabled);
+}
 
-  // Only log if debug is enabled
-  if (debug) {
-    console.log(`Using network: ${network} for contract ${contractName}`);
-    console.log(`Network env value: ${import.meta.env.VITE_NETWORK_ENV}`);
-  }
+/**
+ * Looks up a network by chain ID
+ * @returns The network, or undefined if the chain is not supported
+ */
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return NETWORKS.find((network) => network.chainId === chainId);
+}
 
-  // Map contract aliases to actual configuration keys
-  const contractMap: { [key: string]: string } = {
-    // Add contract name mappings here
-    'StakingSystem': 'MiningMastersStaking',
-    'StakingProxy': 'StakingProxy',  // Direct mapping
-    'MinerNFT': 'MinerNFT',  // Direct mapping
-    'MiningSystem': 'MiningExpeditionProxy',
-    'FoodSystem': 'FoodSystemProxy'
-  };
+/**
+ * Gets the network addresses and endpoints currently resolve against
+ */
+export function getActiveNetwork(): NetworkConfig {
+  return activeNetwork;
+}
 
-  // Resolve the actual contract key to use
-  const contractKey = contractMap[contractName] || contractName;
+/**
+ * Makes a network active and notifies listeners
+ * @param chainId - Chain ID of the network
+ * @returns false if the chain is not a supported network
+ */
+export function setActiveNetwork(chainId: number): boolean {
+  const network = getNetworkByChainId(chainId);
+  if (!network) return false;
+  activate(network);
+  return true;
+}
 
-  // Check if the contract exists in our configuration
-  if (!CONTRACT_ADDRESSES[contractKey]) {
-    throw new Error(`Contract ${contractName} (mapped to ${contractKey}) not found in address configuration`);
+/**
+ * Registers the mock chain as a network and makes it active. It takes the place of the network
+ * with the same chain ID, so the wallet's chain keeps resolving to the mock contracts.
+ * @param chainId - Chain ID of the mock chain
+ * @param contracts - Addresses of the deployed mock contracts; the rest are kept from the replaced network
+ * @returns The mock network
+ */
+export function activateMockNetwork(chainId: number, contracts: Partial<Record<ContractName, string>>): NetworkConfig {
+  const index = NETWORKS.findIndex((network) => network.chainId === chainId);
+  const base = index >= 0 ? NETWORKS[index] : activeNetwork;
+  const network: NetworkConfig = {
+    ...base,
+    key: 'mock',
+    chainId,
+    name: 'Mock Chain',
+    wsUrl: '',
+    explorerUrl: '',
+    eventsStartBlock: 0,
+    enabled: true,
+    contracts: { ...base.contracts, ...contracts },
+  };
+  if (index >= 0) {
+    NETWORKS[index] = network;
+  } else {
+    NETWORKS.push(network);
   }
+  activate(network);
+  return network;
+}
 
-  // Check if the network is configured for this contract
-  if (!CONTRACT_ADDRESSES[contractKey][network]) {
-    throw new Error(`Network ${network} not configured for contract ${contractName} (mapped to ${contractKey})`);
+function activate(network: NetworkConfig): void {
+  if (network !== activeNetwork) {
+    activeNetwork = network;
+    networkListeners.forEach((listener) => listener(network));
   }
+}
+
+/**
+ * Subscribes to active network changes
+ * @returns Unsubscribe function
+ */
+export function onNetworkChange(listener: (network: NetworkConfig) => void): () => void {
+  networkListeners.add(listener);
+  return () => {
+    networkListeners.delete(listener);
+  };
+}
 
-  // Get the raw address from configuration
-  let address = CONTRACT_ADDRESSES[contractKey][network];
-
-  // Clean up the address in case there's a comment attached to it without a space
-  if (address && address.length > 42) {
-    // Extract just the address part (0x + 40 hex chars)
-    const addressMatch = address.match(/0x[a-fA-F0-9]{40}/);
-    if (addressMatch) {
-      const cleanedAddress = addressMatch[0];
-      if (debug) {
-        console.log(`Fixed malformed contract address: ${contractName} on ${network}`);
-        console.log(`Original: ${address}`);
-        console.log(`Cleaned: ${cleanedAddress}`);
-      }
-      address = cleanedAddress;
-    }
+/**
+ * Gets a contract address on the active network
+ * @param contractName - Contract name or alias
+ * @param debug - Optional flag to enable debug logging
+ * @returns The contract address, the zero address when it is not configured
+ */
+export function getContractAddress(contractName: string, debug: boolean = false): string {
+  const contractKey = CONTRACT_ALIASES[contractName] ?? contractName;
+  if (!(contractKey in CONTRACT_ENV_KEYS)) {
+    throw new Error(`Contract ${contractName} (mapped to ${contractKey}) not found in address configuration`);
   }
 
+  const address = activeNetwork.contracts[contractKey as ContractName];
+  if (debug) {
+    console.log(`Using network: ${activeNetwork.key} (${activeNetwork.chainId}) for contract ${contractName}: ${address}`);
+  }
   return address;
 }
 
 /**
- * Gets the Ronin network chain ID based on the environment
+ * Gets a contract address on the active network for contracts that are not deployed everywhere
+ * @param contractName - Contract name
+ * @returns The address, or null when it is not configured
+ */
+export function getOptionalContractAddress(contractName: ContractName): string | null {
+  const address = getContractAddress(contractName);
+  return address && address !== ZERO_ADDRESS ? address : null;
+}
+
+/**
+ * Gets the chain ID of the active network
  * @returns The chain ID (2020 for mainnet, 2021 for testnet)
  */
 export function getChainId(): number {
-  const network = import.meta.env.VITE_NETWORK_ENV || 'testnet';
-  return network === 'mainnet' ? 2020 : 2021;
+  return activeNetwork.chainId;
+}
+
+/**
+ * Gets the public RPC endpoint of the active network
+ * @returns RPC URL used for read-only access when no wallet is connected
+ */
+export function getRpcUrl(): string {
+  return activeNetwork.rpcUrl;
+}
+
+/**
+ * Gets the WebSocket endpoint of the active network used for live event subscriptions
+ * @returns WebSocket URL from VITE_RONIN_{NETWORK}_WS, or an empty string to poll over HTTP
+ */
+export function getWsRpcUrl(): string {
+  return activeNetwork.wsUrl;
+}
+
+/**
+ * Gets the first block to scan for contract events on the active network
+ * @returns Block number from VITE_{NETWORK}_EVENTS_START_BLOCK
+ * @throws When the network has no start block configured; scanning from genesis would
+ * issue tens of thousands of eth_getLogs requests on Ronin mainnet or Saigon
+ */
+export function getEventsStartBlock(): number {
+  const block = activeNetwork.eventsStartBlock;
+  if (block === null) {
+    throw new Error(
+      `No events start block is configured for ${activeNetwork.name}; set VITE_${activeNetwork.key.toUpperCase()}_EVENTS_START_BLOCK to the contracts' deployment block`
+    );
+  }
+  return block;
+}
+
+/**
+ * Gets the first block to scan for contract events on the active network, for scans that
+ * can run without one
+ * @returns The block number, or null when it is not configured
+ */
+export function getOptionalEventsStartBlock(): number | null {
+  return activeNetwork.eventsStartBlock;
+}
+
+/**
+ * Gets the explorer link for a transaction
+ * @param hash - Transaction hash
+ * @param chainId - Chain the transaction was sent on, defaults to the active network
+ * @returns Explorer URL, or an empty string when the network has no explorer
+ */
+export function getExplorerTxUrl(hash: string, chainId: number = getChainId()): string {
+  const base = (getNetworkByChainId(chainId) ?? activeNetwork).explorerUrl;
+  return base ? `${base}/tx/${hash}` : '';
 }
 
 export default {
   getContractAddress,
-  getChainId
+  getOptionalContractAddress,
+  getChainId,
+  getRpcUrl,
+  getWsRpcUrl,
+  getExplorerTxUrl,
+  getEventsStartBlock,
+  getOptionalEventsStartBlock,
+  getNetworks,
+  getNetworkByChainId,
+  getActiveNetwork,
+  setActiveNetwork,
+  activateMockNetwork,
+  onNetworkChange,
 };
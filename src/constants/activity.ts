@@ -0,0 +1,15 @@
+import type { ActivityType } from "@/services/ActivityService";
+
+/**
+ * Icons and labels for activity feed entries (see ActivityService)
+ */
+export const ACTIVITY_LABELS: Record<ActivityType, { icon: string; label: string }> = {
+    staked: { icon: "⛏️", label: "Staked" },
+    unstaked: { icon: "📤", label: "Unstaked" },
+    mealPurchased: { icon: "🍽️", label: "Meal" },
+    expeditionStarted: { icon: "🚀", label: "Expedition started" },
+    expeditionCompleted: { icon: "💎", label: "Expedition completed" },
+    rewardsAccrued: { icon: "⚒️", label: "Mining rewards" },
+    rewardsClaimed: { icon: "💰", label: "Rewards claimed" },
+    slotsPurchased: { icon: "🧱", label: "Slots purchased" },
+};
@@ -1,101 +1,35 @@
+/**
+ * A meal from the on-chain FoodSystem catalog merged with its local icon (see useMealCatalog)
+ */
 export interface FoodItem {
     id: number;
     name: string;
     icon: string;
-    gemChance: number;
-    price: number;
+    gemChance: number;      // Success rate in percent
+    minReward: number;      // GEMS
+    maxReward: number;      // GEMS
+    price: number;          // Current price in GEMS (discounted while a discount period is active)
+    originalPrice: number;  // Undiscounted price in GEMS
 }
 
-export const FOOD_ITEMS: FoodItem[] = [
-    {
-        id: 0,
-        name: "Apple",
-        icon: "🍎",
-        gemChance: 5,
-        price: 0
-    },
-    {
-        id: 1,
-        name: "Coffee",
-        icon: "☕",
-        gemChance: 20,
-        price: 4
-    },
-    {
-        id: 2,
-        name: "Sandwich",
-        icon: "🥪",
-        gemChance: 25,
-        price: 7
-    },
-    {
-        id: 3,
-        name: "Fries",
-        icon: "🍟",
-        gemChance: 27,
-        price: 10
-    },
-    {
-        id: 4,
-        name: "Burger",
-        icon: "🍔",
-        gemChance: 30,
-        price: 15
-    },
-    {
-        id: 5,
-        name: "Cake",
-        icon: "🍰",
-        gemChance: 35,
-        price: 20
-    },
-    {
-        id: 6,
-        name: "Pizza",
-        icon: "🍕",
-        gemChance: 40,
-        price: 22.5
-    },
-    {
-        id: 7,
-        name: "Salad",
-        icon: "🥗",
-        gemChance: 45,
-        price: 25
-    },
-    {
-        id: 8,
-        name: "Noodles",
-        icon: "🍜",
-        gemChance: 50,
-        price: 27.5
-    },
-    {
-        id: 9,
-        name: "Fried Shrimp",
-        icon: "🍤",
-        gemChance: 52,
-        price: 30
-    },
-    {
-        id: 10,
-        name: "Stew",
-        icon: "🍲",
-        gemChance: 55,
-        price: 35
-    },
-    {
-        id: 11,
-        name: "Steak",
-        icon: "🥩",
-        gemChance: 60,
-        price: 40
-    },
-    {
-        id: 12,
-        name: "Dango",
-        icon: "🍡",
-        gemChance: 45,
-        price: 0
-    }
-];
+/**
+ * Icons for meals, keyed by FoodSystem meal id. Names, prices and rewards come from the contract.
+ */
+export const MEAL_ICONS: Record<number, string> = {
+    0: "🍎",  // Apple
+    1: "☕",  // Coffee
+    2: "🥪",  // Sandwich
+    3: "🍟",  // Fries
+    4: "🍔",  // Burger
+    5: "🍰",  // Cake
+    6: "🍕",  // Pizza
+    7: "🥗",  // Salad
+    8: "🍜",  // Noodles
+    9: "🍤",  // Fried Shrimp
+    10: "🍲", // Stew
+    11: "🥩", // Steak
+    12: "🍡", // Dango
+};
+
+// Used for meals added on-chain before an icon is shipped
+export const DEFAULT_MEAL_ICON = "🍽️";
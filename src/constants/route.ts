@@ -5,4 +5,5 @@ export const ROUTES = {
     SHOP: "/shop",
     STAKING: "/staking",
     LEADERBOARD: "/leaderboard",
+    ACTIVITY: "/activity",
 }
@@ -0,0 +1,213 @@
+import React, { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ethers, TransactionReceipt, TransactionResponse } from 'ethers';
+import { getChainId, getNetworkByChainId } from '@/config/contracts';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import transactionEvents, { TrackedTransaction, TransactionKind } from '@/services/transactions/TransactionEvents';
+import chainReads, { TRANSACTION_SCOPES } from '@/services/cache/ChainReadCache';
+import { decodeTransactionError, replayRevertReason, TransactionFailedError } from '@/services/transactions/RevertDecoder';
+import {
+  NotificationVariant,
+  TransactionContext,
+  TransactionContextValue,
+  TransactionRequest,
+} from '@/hooks/useTransactions';
+import TransactionToasts, { ToastNotification } from '@/components/TransactionToasts';
+
+// Submitted transactions are persisted so they can be re-attached after a reload
+const STORAGE_KEY = 'miningmasters:pending-transactions';
+const MAX_TRACKED = 50;
+const TOAST_TTL = 6000;
+const ERROR_TOAST_TTL = 10000;
+// How long a re-attached transaction may stay unmined before it is reported as dropped
+const REATTACH_TIMEOUT = 10 * 60 * 1000;
+
+// Transactions already re-attached in this page session (guards StrictMode double effects)
+const reattached = new Set<string>();
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+function loadPersisted(): TrackedTransaction[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as TrackedTransaction[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+interface TransactionProviderProps {
+  children: ReactNode;
+}
+
+export const TransactionProvider: React.FC<TransactionProviderProps> = ({ children }) => {
+  const { chainId } = useRoninWallet();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(loadPersisted);
+  const [notifications, setNotifications] = useState<ToastNotification[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(() => new Set());
+  const timers = useRef<number[]>([]);
+
+  useEffect(() => () => timers.current.forEach((timer) => window.clearTimeout(timer)), []);
+
+  const dismiss = useCallback((id: string) => {
+    setDismissed((prev) => new Set(prev).add(id));
+    setNotifications((prev) => prev.filter((notification) => notification.id !== id));
+  }, []);
+
+  const dismissLater = useCallback((id: string, delay: number) => {
+    timers.current.push(window.setTimeout(() => dismiss(id), delay));
+  }, [dismiss]);
+
+  const update = useCallback((id: string, patch: Partial<TrackedTransaction>) => {
+    setTransactions((prev) => prev.map((tx) => (tx.id === id ? { ...tx, ...patch, updatedAt: Date.now() } : tx)));
+  }, []);
+
+  // Persist only transactions that are still waiting to be mined
+  useEffect(() => {
+    const pending = transactions.filter((tx) => tx.status === 'submitted' && tx.hash);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+    } catch (error) {
+      console.warn('Failed to persist pending transactions:', error);
+    }
+  }, [transactions]);
+
+  /**
+   * Records the outcome of a mined transaction and notifies subscribers on success
+   */
+  const settle = useCallback((tx: TrackedTransaction, receipt: TransactionReceipt | null, patch: Partial<TrackedTransaction> = {}) => {
+    if (receipt && receipt.status === 1) {
+      const settled: TrackedTransaction = { ...tx, status: 'confirmed', blockNumber: receipt.blockNumber, ...patch, updatedAt: Date.now() };
+      update(tx.id, settled);
+      dismissLater(tx.id, TOAST_TTL);
+      // Listeners refetch right away, so cached reads the transaction changed must go first
+      chainReads.invalidate(TRANSACTION_SCOPES[tx.kind]);
+      transactionEvents.emit({ transaction: settled, receipt });
+      return true;
+    }
+
+    update(tx.id, {
+      status: 'failed',
+      blockNumber: receipt?.blockNumber,
+      error: receipt ? 'Transaction reverted on-chain' : 'Transaction was dropped',
+      ...patch,
+    });
+    dismissLater(tx.id, ERROR_TOAST_TTL);
+    return false;
+  }, [update, dismissLater]);
+
+  // Re-attach to transactions that were still pending when the page was last closed, each
+  // through the RPC of the chain it was sent on
+  useEffect(() => {
+    const pending = loadPersisted().filter((tx) => tx.hash && !reattached.has(tx.id));
+    if (pending.length === 0) return;
+
+    const providers = new Map<number, ethers.JsonRpcProvider>();
+    for (const tx of pending) {
+      reattached.add(tx.id);
+      const network = getNetworkByChainId(tx.chainId);
+      if (!network) {
+        update(tx.id, { status: 'unknown', error: `Sent on chain ${tx.chainId}, which this app is not configured for; check your wallet` });
+        dismissLater(tx.id, ERROR_TOAST_TTL);
+        continue;
+      }
+
+      let provider = providers.get(network.chainId);
+      if (!provider) {
+        provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+        providers.set(network.chainId, provider);
+      }
+      provider
+        .waitForTransaction(tx.hash!, 1, REATTACH_TIMEOUT)
+        .then((receipt) => settle(tx, receipt))
+        .catch((error) => {
+          console.warn(`Could not confirm transaction ${tx.hash}:`, error);
+          settle(tx, null, { error: 'Transaction was not mined; it may have been dropped or replaced' });
+        });
+    }
+  }, [settle, update, dismissLater]);
+
+  const execute = useCallback(async <K extends TransactionKind>(
+    request: TransactionRequest<K>,
+    send: () => Promise<TransactionResponse>
+  ): Promise<TransactionReceipt | null> => {
+    const now = Date.now();
+    const tx: TrackedTransaction<K> = {
+      id: createId(),
+      kind: request.kind,
+      meta: request.meta,
+      description: request.description,
+      status: 'pendingSignature',
+      chainId: chainId ?? getChainId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    setTransactions((prev) => [tx as TrackedTransaction, ...prev].slice(0, MAX_TRACKED));
+
+    let response: TransactionResponse;
+    try {
+      response = await send();
+    } catch (error) {
+      const decoded = decodeTransactionError(error);
+      update(tx.id, { status: 'failed', error: decoded.message });
+      dismissLater(tx.id, ERROR_TOAST_TTL);
+      throw new TransactionFailedError(decoded);
+    }
+
+    const submitted: TrackedTransaction = { ...tx, status: 'submitted', hash: response.hash };
+    update(tx.id, submitted);
+
+    try {
+      const receipt = await response.wait();
+      if (!settle(submitted, receipt)) {
+        throw new TransactionFailedError({ kind: 'reverted', message: 'Transaction reverted on-chain' });
+      }
+      return receipt;
+    } catch (error) {
+      if (error instanceof TransactionFailedError) throw error;
+
+      if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        // A sped-up transaction still performs the same action
+        if (error.reason === 'repriced' && error.receipt?.status === 1) {
+          settle(submitted, error.receipt, { status: 'replaced', replacementHash: error.replacement.hash });
+          return error.receipt;
+        }
+        update(tx.id, { status: 'replaced', replacementHash: error.replacement.hash, error: `Transaction was ${error.reason}` });
+        dismissLater(tx.id, ERROR_TOAST_TTL);
+        throw new TransactionFailedError({ kind: 'unknown', message: `Transaction was ${error.reason} in the wallet` });
+      }
+
+      let decoded = decodeTransactionError(error);
+      let blockNumber: number | undefined;
+      if (ethers.isError(error, 'CALL_EXCEPTION') && error.receipt) {
+        // Mined but reverted: replay the call to recover the reason
+        blockNumber = error.receipt.blockNumber;
+        decoded = (await replayRevertReason(response, blockNumber)) ?? decoded;
+      }
+      update(tx.id, { status: 'failed', blockNumber, error: decoded.message });
+      dismissLater(tx.id, ERROR_TOAST_TTL);
+      throw new TransactionFailedError(decoded);
+    }
+  }, [chainId, update, settle, dismissLater]);
+
+  const notify = useCallback((message: string, variant: NotificationVariant = 'info') => {
+    const id = createId();
+    setNotifications((prev) => [...prev, { id, message, variant }]);
+    dismissLater(id, variant === 'error' ? ERROR_TOAST_TTL : TOAST_TTL);
+  }, [dismissLater]);
+
+  const value = useMemo<TransactionContextValue>(
+    () => ({ transactions, execute, notify }),
+    [transactions, execute, notify]
+  );
+
+  const visibleTransactions = transactions.filter((tx) => !dismissed.has(tx.id));
+
+  return (
+    <TransactionContext.Provider value={value}>
+      {children}
+      <TransactionToasts transactions={visibleTransactions} notifications={notifications} onDismiss={dismiss} />
+    </TransactionContext.Provider>
+  );
+};
+
+export default TransactionProvider;
@@ -0,0 +1,63 @@
+/**
+ * @title BoostNFT Client
+ * @notice Typed client for the BoostNFT contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/BoostNFTABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, ConstantContractMethod, ContractEvent, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import BoostNFTAbiJson from '../abis/BoostNFTABI.json';
+
+export const BOOST_NFT_ABI: InterfaceAbi = BoostNFTAbiJson as InterfaceAbi;
+
+export interface ActiveBoostResult {
+  active: boolean;
+  tokenId: bigint;
+  activatedAt: bigint;
+  expiresAt: bigint;
+}
+
+/**
+ * Decoded arguments of the BoostActivated event
+ */
+export interface BoostActivatedEvent {
+  user: string;
+  tokenId: bigint;
+  expiresAt: bigint;
+}
+
+/**
+ * Decoded arguments of the BoostDeactivated event
+ */
+export interface BoostDeactivatedEvent {
+  user: string;
+  tokenId: bigint;
+}
+
+/**
+ * BoostNFT contract with methods typed from the ABI
+ */
+export interface BoostNFTContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): BoostNFTContract;
+  readonly filters: {
+    BoostActivated: ContractEvent<[user: AddressLike, tokenId: BigNumberish, expiresAt: BigNumberish]>;
+    BoostDeactivated: ContractEvent<[user: AddressLike, tokenId: BigNumberish]>;
+  };
+  activateBoost: ContractMethod<[tokenId: BigNumberish], void, ContractTransactionResponse>;
+  balanceOf: ConstantContractMethod<[owner: AddressLike], bigint>;
+  deactivateBoost: ContractMethod<[], void, ContractTransactionResponse>;
+  getActiveBoost: ConstantContractMethod<[user: AddressLike], ActiveBoostResult>;
+  tokenOfOwnerByIndex: ConstantContractMethod<[owner: AddressLike, index: BigNumberish], bigint>;
+}
+
+/**
+ * Creates a typed BoostNFT contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address
+ */
+export function getBoostNFTContract(
+  runner: ContractRunner | null,
+  address: string
+): BoostNFTContract {
+  return new Contract(address, BOOST_NFT_ABI, runner) as unknown as BoostNFTContract;
+}
@@ -0,0 +1,176 @@
+/**
+ * @title FoodSystem Client
+ * @notice Typed client for the FoodSystem contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/FoodSystemABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, ConstantContractMethod, ContractEvent, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import FoodSystemAbiJson from '../abis/FoodSystemABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const FOOD_SYSTEM_ABI: InterfaceAbi = (FoodSystemAbiJson as { abi: InterfaceAbi }).abi;
+
+export interface CanEatMealResult {
+  canEat: boolean;
+  timeUntilAvailable: bigint;
+}
+
+export interface AllMealsResult {
+  names: string[];
+  successRates: bigint[];
+  minRewards: bigint[];
+  maxRewards: bigint[];
+  currentPrices: bigint[];
+  actives: boolean[];
+}
+
+export interface DiscountInfoResult {
+  isActive: boolean;
+  endTime: bigint;
+  timeRemaining: bigint;
+}
+
+export interface MinerMealAvailabilityResult {
+  availabilities: boolean[];
+  cooldowns: bigint[];
+}
+
+export interface MinerMealStatusResult {
+  mealId: bigint;
+  timestamp: bigint;
+  successRate: bigint;
+  minReward: bigint;
+  maxReward: bigint;
+}
+
+export interface Meal {
+  name: string;
+  successRate: bigint;
+  minReward: bigint;
+  maxReward: bigint;
+  originalPrice: bigint;
+  discountedPrice: bigint;
+  active: boolean;
+}
+
+/**
+ * Decoded arguments of the ContractAddressesUpdated event
+ */
+export interface ContractAddressesUpdatedEvent {
+  gemToken: string;
+  stakingContract: string;
+  miningExpedition: string;
+}
+
+/**
+ * Decoded arguments of the DiscountPeriodEnded event
+ */
+export type DiscountPeriodEndedEvent = Record<string, never>;
+
+/**
+ * Decoded arguments of the Initialized event
+ */
+export interface InitializedEvent {
+  version: bigint;
+}
+
+/**
+ * Decoded arguments of the MealAdded event
+ */
+export interface MealAddedEvent {
+  mealId: bigint;
+  name: string;
+  successRate: bigint;
+  originalPrice: bigint;
+  discountedPrice: bigint;
+}
+
+/**
+ * Decoded arguments of the MealPurchased event
+ */
+export interface MealPurchasedEvent {
+  buyer: string;
+  minerId: bigint;
+  mealId: bigint;
+  price: bigint;
+  timestamp: bigint;
+}
+
+/**
+ * Decoded arguments of the MealUpdated event
+ */
+export interface MealUpdatedEvent {
+  mealId: bigint;
+  name: string;
+  successRate: bigint;
+  originalPrice: bigint;
+  discountedPrice: bigint;
+}
+
+/**
+ * Decoded arguments of the OwnershipTransferred event
+ */
+export interface OwnershipTransferredEvent {
+  previousOwner: string;
+  newOwner: string;
+}
+
+/**
+ * FoodSystem contract with methods typed from the ABI
+ */
+export interface FoodSystemContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): FoodSystemContract;
+  readonly filters: {
+    ContractAddressesUpdated: ContractEvent<[gemToken: AddressLike, stakingContract: AddressLike, miningExpedition: AddressLike]>;
+    DiscountPeriodEnded: ContractEvent<[]>;
+    Initialized: ContractEvent<[version: BigNumberish]>;
+    MealAdded: ContractEvent<[mealId: BigNumberish, name: string, successRate: BigNumberish, originalPrice: BigNumberish, discountedPrice: BigNumberish]>;
+    MealPurchased: ContractEvent<[buyer: AddressLike, minerId: BigNumberish, mealId: BigNumberish, price: BigNumberish, timestamp: BigNumberish]>;
+    MealUpdated: ContractEvent<[mealId: BigNumberish, name: string, successRate: BigNumberish, originalPrice: BigNumberish, discountedPrice: BigNumberish]>;
+    OwnershipTransferred: ContractEvent<[previousOwner: AddressLike, newOwner: AddressLike]>;
+  };
+  addMeal: ContractMethod<[name: string, successRate: BigNumberish, minReward: BigNumberish, maxReward: BigNumberish, originalPrice: BigNumberish, discountedPrice: BigNumberish], void, ContractTransactionResponse>;
+  adminClearActiveMeals: ContractMethod<[minerIds: BigNumberish[]], void, ContractTransactionResponse>;
+  buyMeal: ContractMethod<[minerId: BigNumberish, mealId: BigNumberish], void, ContractTransactionResponse>;
+  buyMealForUser: ContractMethod<[user: AddressLike, minerId: BigNumberish, mealId: BigNumberish], void, ContractTransactionResponse>;
+  canEatMeal: ConstantContractMethod<[minerId: BigNumberish, mealId: BigNumberish], CanEatMealResult>;
+  clearActiveMeal: ContractMethod<[minerId: BigNumberish], void, ContractTransactionResponse>;
+  discountActive: ConstantContractMethod<[], boolean>;
+  discountEndTime: ConstantContractMethod<[], bigint>;
+  endDiscountPeriod: ContractMethod<[], void, ContractTransactionResponse>;
+  gemTokenAddress: ConstantContractMethod<[], string>;
+  getAllMeals: ConstantContractMethod<[], AllMealsResult>;
+  getCurrentMealPrice: ConstantContractMethod<[mealId: BigNumberish], bigint>;
+  getDiscountInfo: ConstantContractMethod<[], DiscountInfoResult>;
+  getMealCount: ConstantContractMethod<[], bigint>;
+  getMinerMealAvailability: ConstantContractMethod<[minerId: BigNumberish], MinerMealAvailabilityResult>;
+  getMinerMealStatus: ConstantContractMethod<[minerId: BigNumberish], MinerMealStatusResult>;
+  initialize: ContractMethod<[_gemTokenAddress: AddressLike, _stakingContractAddress: AddressLike], void, ContractTransactionResponse>;
+  lastMealId: ConstantContractMethod<[arg0: BigNumberish], bigint>;
+  MEAL_COOLDOWN: ConstantContractMethod<[], bigint>;
+  meals: ConstantContractMethod<[arg0: BigNumberish], Meal>;
+  minerMealConsumption: ConstantContractMethod<[arg0: BigNumberish, arg1: BigNumberish], bigint>;
+  miningExpeditionAddress: ConstantContractMethod<[], string>;
+  owner: ConstantContractMethod<[], string>;
+  renounceOwnership: ContractMethod<[], void, ContractTransactionResponse>;
+  rewardSpendingInterfaceAddress: ConstantContractMethod<[], string>;
+  setMiningExpeditionAddress: ContractMethod<[_miningExpeditionAddress: AddressLike], void, ContractTransactionResponse>;
+  setRewardSpendingInterfaceAddress: ContractMethod<[_rewardSpendingInterfaceAddress: AddressLike], void, ContractTransactionResponse>;
+  stakingContractAddress: ConstantContractMethod<[], string>;
+  transferOwnership: ContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+  updateContractAddresses: ContractMethod<[_gemTokenAddress: AddressLike, _stakingContractAddress: AddressLike], void, ContractTransactionResponse>;
+  updateMeal: ContractMethod<[mealId: BigNumberish, name: string, successRate: BigNumberish, minReward: BigNumberish, maxReward: BigNumberish, originalPrice: BigNumberish, discountedPrice: BigNumberish, active: boolean], void, ContractTransactionResponse>;
+}
+
+/**
+ * Creates a typed FoodSystem contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured FoodSystemProxy address
+ */
+export function getFoodSystemContract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('FoodSystemProxy')
+): FoodSystemContract {
+  return new Contract(address, FOOD_SYSTEM_ABI, runner) as unknown as FoodSystemContract;
+}
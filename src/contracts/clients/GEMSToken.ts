@@ -0,0 +1,62 @@
+/**
+ * @title GEMSToken Client
+ * @notice Typed client for the GEMSToken contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/GEMSTokenABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, ConstantContractMethod, ContractEvent, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import GEMSTokenAbiJson from '../abis/GEMSTokenABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const GEMS_TOKEN_ABI: InterfaceAbi = GEMSTokenAbiJson as InterfaceAbi;
+
+/**
+ * Decoded arguments of the Approval event
+ */
+export interface ApprovalEvent {
+  owner: string;
+  spender: string;
+  value: bigint;
+}
+
+/**
+ * Decoded arguments of the Transfer event
+ */
+export interface TransferEvent {
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+/**
+ * GEMSToken contract with methods typed from the ABI
+ */
+export interface GEMSTokenContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): GEMSTokenContract;
+  readonly filters: {
+    Approval: ContractEvent<[owner: AddressLike, spender: AddressLike, value: BigNumberish]>;
+    Transfer: ContractEvent<[from: AddressLike, to: AddressLike, value: BigNumberish]>;
+  };
+  allowance: ConstantContractMethod<[owner: AddressLike, spender: AddressLike], bigint>;
+  approve: ContractMethod<[spender: AddressLike, amount: BigNumberish], boolean, ContractTransactionResponse>;
+  balanceOf: ConstantContractMethod<[owner: AddressLike], bigint>;
+  decimals: ConstantContractMethod<[], bigint>;
+  name: ConstantContractMethod<[], string>;
+  symbol: ConstantContractMethod<[], string>;
+  totalSupply: ConstantContractMethod<[], bigint>;
+  transfer: ContractMethod<[to: AddressLike, amount: BigNumberish], boolean, ContractTransactionResponse>;
+  transferFrom: ContractMethod<[from: AddressLike, to: AddressLike, amount: BigNumberish], boolean, ContractTransactionResponse>;
+}
+
+/**
+ * Creates a typed GEMSToken contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured GEMSToken address
+ */
+export function getGEMSTokenContract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('GEMSToken')
+): GEMSTokenContract {
+  return new Contract(address, GEMS_TOKEN_ABI, runner) as unknown as GEMSTokenContract;
+}
@@ -0,0 +1,69 @@
+/**
+ * @title GemsVault Client
+ * @notice Typed client for the GemsVault contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/GemsVaultABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, ConstantContractMethod, ContractEvent, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import GemsVaultAbiJson from '../abis/GemsVaultABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const GEMS_VAULT_ABI: InterfaceAbi = GemsVaultAbiJson as InterfaceAbi;
+
+/**
+ * Decoded arguments of the Deposited event
+ */
+export interface DepositedEvent {
+  user: string;
+  amount: bigint;
+  fee: bigint;
+}
+
+/**
+ * Decoded arguments of the TgeStatusChanged event
+ */
+export interface TgeStatusChangedEvent {
+  active: boolean;
+}
+
+/**
+ * Decoded arguments of the Withdrawn event
+ */
+export interface WithdrawnEvent {
+  user: string;
+  amount: bigint;
+  fee: bigint;
+}
+
+/**
+ * GemsVault contract with methods typed from the ABI
+ */
+export interface GemsVaultContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): GemsVaultContract;
+  readonly filters: {
+    Deposited: ContractEvent<[user: AddressLike, amount: BigNumberish, fee: BigNumberish]>;
+    TgeStatusChanged: ContractEvent<[active: boolean]>;
+    Withdrawn: ContractEvent<[user: AddressLike, amount: BigNumberish, fee: BigNumberish]>;
+  };
+  deposit: ContractMethod<[amount: BigNumberish], void, ContractTransactionResponse>;
+  depositFeeBps: ConstantContractMethod<[], bigint>;
+  gemsToken: ConstantContractMethod<[], string>;
+  isTgeActive: ConstantContractMethod<[], boolean>;
+  minAmount: ConstantContractMethod<[], bigint>;
+  stakingContract: ConstantContractMethod<[], string>;
+  withdraw: ContractMethod<[amount: BigNumberish], void, ContractTransactionResponse>;
+  withdrawFeeBps: ConstantContractMethod<[], bigint>;
+}
+
+/**
+ * Creates a typed GemsVault contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured GemsVault address
+ */
+export function getGemsVaultContract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('GemsVault')
+): GemsVaultContract {
+  return new Contract(address, GEMS_VAULT_ABI, runner) as unknown as GemsVaultContract;
+}
@@ -0,0 +1,45 @@
+/**
+ * @title MinerNFT Client
+ * @notice Typed client for the MinerNFT contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/MinerNFTABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, ConstantContractMethod, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import MinerNFTAbiJson from '../abis/MinerNFTABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const MINER_NFT_ABI: InterfaceAbi = MinerNFTAbiJson as InterfaceAbi;
+
+/**
+ * MinerNFT contract with methods typed from the ABI
+ */
+export interface MinerNFTContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): MinerNFTContract;
+  readonly filters: Record<string, never>;
+  approve: ContractMethod<[to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  balanceOf: ConstantContractMethod<[owner: AddressLike], bigint>;
+  getApproved: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  isApprovedForAll: ConstantContractMethod<[owner: AddressLike, operator: AddressLike], boolean>;
+  name: ConstantContractMethod<[], string>;
+  ownerOf: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  safeTransferFrom: ContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  setApprovalForAll: ContractMethod<[operator: AddressLike, approved: boolean], void, ContractTransactionResponse>;
+  symbol: ConstantContractMethod<[], string>;
+  tokenOfOwnerByIndex: ConstantContractMethod<[owner: AddressLike, index: BigNumberish], bigint>;
+  tokenURI: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  totalSupply: ConstantContractMethod<[], bigint>;
+  transferFrom: ContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+}
+
+/**
+ * Creates a typed MinerNFT contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured MinerNFT address
+ */
+export function getMinerNFTContract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('MinerNFT')
+): MinerNFTContract {
+  return new Contract(address, MINER_NFT_ABI, runner) as unknown as MinerNFTContract;
+}
@@ -0,0 +1,37 @@
+/**
+ * @title MinerRegistry Client
+ * @notice Typed client for the MinerRegistry contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/MinerRegistryABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, ConstantContractMethod, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import MinerRegistryAbiJson from '../abis/MinerRegistryABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const MINER_REGISTRY_ABI: InterfaceAbi = MinerRegistryAbiJson as InterfaceAbi;
+
+/**
+ * MinerRegistry contract with methods typed from the ABI
+ */
+export interface MinerRegistryContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): MinerRegistryContract;
+  readonly filters: Record<string, never>;
+  balanceOf: ConstantContractMethod<[owner: AddressLike], bigint>;
+  isTokenRegistered: ConstantContractMethod<[owner: AddressLike, tokenId: BigNumberish], boolean>;
+  tokenOfOwnerByIndex: ConstantContractMethod<[owner: AddressLike, index: BigNumberish], bigint>;
+  tokensOfOwner: ConstantContractMethod<[owner: AddressLike], bigint[]>;
+  updateTokenOwnership: ContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+}
+
+/**
+ * Creates a typed MinerRegistry contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured MinerRegistry address
+ */
+export function getMinerRegistryContract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('MinerRegistry')
+): MinerRegistryContract {
+  return new Contract(address, MINER_REGISTRY_ABI, runner) as unknown as MinerRegistryContract;
+}
@@ -0,0 +1,161 @@
+/**
+ * @title MiningExpedition Client
+ * @notice Typed client for the MiningExpedition contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/MiningExpeditionABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, ConstantContractMethod, ContractEvent, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import MiningExpeditionAbiJson from '../abis/MiningExpeditionABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const MINING_EXPEDITION_ABI: InterfaceAbi = (MiningExpeditionAbiJson as { abi: InterfaceAbi }).abi;
+
+export interface Expedition {
+  startTime: bigint;
+  endTime: bigint;
+  completed: boolean;
+  successful: boolean;
+  baseReward: bigint;
+  boostedReward: bigint;
+  boostPercentage: bigint;
+}
+
+export interface MinerStats {
+  totalExpeditions: bigint;
+  successfulExpeditions: bigint;
+  totalRewards: bigint;
+  totalBoostRewards: bigint;
+}
+
+export interface UserBoostsResult {
+  hasLifetimeBoost: boolean;
+  hasInGameBoost24h: boolean;
+  hasGiveawayBoost24h: boolean;
+  totalBoostPercentage: bigint;
+}
+
+/**
+ * Decoded arguments of the BoostContractsUpdated event
+ */
+export interface BoostContractsUpdatedEvent {
+  inGameBoost: string;
+  giveawayBoost: string;
+  lifetimeBoost: string;
+}
+
+/**
+ * Decoded arguments of the ExpeditionCompleted event
+ */
+export interface ExpeditionCompletedEvent {
+  owner: string;
+  minerId: bigint;
+  successful: boolean;
+  baseReward: bigint;
+  boostedReward: bigint;
+  boostPercentage: bigint;
+}
+
+/**
+ * Decoded arguments of the ExpeditionRewardCalculated event
+ */
+export interface ExpeditionRewardCalculatedEvent {
+  owner: string;
+  minerId: bigint;
+  reward: bigint;
+}
+
+/**
+ * Decoded arguments of the ExpeditionStarted event
+ */
+export interface ExpeditionStartedEvent {
+  owner: string;
+  minerId: bigint;
+  startTime: bigint;
+  endTime: bigint;
+}
+
+/**
+ * Decoded arguments of the ExpeditionTimeUpdated event
+ */
+export interface ExpeditionTimeUpdatedEvent {
+  newExpeditionTime: bigint;
+}
+
+/**
+ * Decoded arguments of the FoodSystemAddressUpdated event
+ */
+export interface FoodSystemAddressUpdatedEvent {
+  oldAddress: string;
+  newAddress: string;
+}
+
+/**
+ * Decoded arguments of the Initialized event
+ */
+export interface InitializedEvent {
+  version: bigint;
+}
+
+/**
+ * Decoded arguments of the OwnershipTransferred event
+ */
+export interface OwnershipTransferredEvent {
+  previousOwner: string;
+  newOwner: string;
+}
+
+/**
+ * MiningExpedition contract with methods typed from the ABI
+ */
+export interface MiningExpeditionContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): MiningExpeditionContract;
+  readonly filters: {
+    BoostContractsUpdated: ContractEvent<[inGameBoost: AddressLike, giveawayBoost: AddressLike, lifetimeBoost: AddressLike]>;
+    ExpeditionCompleted: ContractEvent<[owner: AddressLike, minerId: BigNumberish, successful: boolean, baseReward: BigNumberish, boostedReward: BigNumberish, boostPercentage: BigNumberish]>;
+    ExpeditionRewardCalculated: ContractEvent<[owner: AddressLike, minerId: BigNumberish, reward: BigNumberish]>;
+    ExpeditionStarted: ContractEvent<[owner: AddressLike, minerId: BigNumberish, startTime: BigNumberish, endTime: BigNumberish]>;
+    ExpeditionTimeUpdated: ContractEvent<[newExpeditionTime: BigNumberish]>;
+    FoodSystemAddressUpdated: ContractEvent<[oldAddress: AddressLike, newAddress: AddressLike]>;
+    Initialized: ContractEvent<[version: BigNumberish]>;
+    OwnershipTransferred: ContractEvent<[previousOwner: AddressLike, newOwner: AddressLike]>;
+  };
+  BOOST_24H_PERCENTAGE: ConstantContractMethod<[], bigint>;
+  BOOST_LIFETIME_PERCENTAGE: ConstantContractMethod<[], bigint>;
+  completeExpedition: ContractMethod<[minerId: BigNumberish], void, ContractTransactionResponse>;
+  completeExpeditions: ContractMethod<[minerIds: BigNumberish[]], void, ContractTransactionResponse>;
+  expeditions: ConstantContractMethod<[arg0: BigNumberish], Expedition>;
+  foodSystemAddress: ConstantContractMethod<[], string>;
+  gemTokenAddress: ConstantContractMethod<[], string>;
+  getExpeditionStatus: ConstantContractMethod<[minerId: BigNumberish], Expedition>;
+  getMinerStatistics: ConstantContractMethod<[minerId: BigNumberish], MinerStats>;
+  getUserBoosts: ConstantContractMethod<[user: AddressLike], UserBoostsResult>;
+  giveawayBoost24hAddress: ConstantContractMethod<[], string>;
+  inGameBoost24hAddress: ConstantContractMethod<[], string>;
+  initialize: ContractMethod<[_gemTokenAddress: AddressLike, _stakingContractAddress: AddressLike, _foodSystemAddress: AddressLike], void, ContractTransactionResponse>;
+  lifetimeBoostAddress: ConstantContractMethod<[], string>;
+  MAX_BOOST_PERCENTAGE: ConstantContractMethod<[], bigint>;
+  minerStats: ConstantContractMethod<[arg0: BigNumberish], MinerStats>;
+  MINING_COOLDOWN: ConstantContractMethod<[], bigint>;
+  owner: ConstantContractMethod<[], string>;
+  renounceOwnership: ContractMethod<[], void, ContractTransactionResponse>;
+  setBoostContracts: ContractMethod<[_inGameBoost24h: AddressLike, _giveawayBoost24h: AddressLike, _lifetimeBoost: AddressLike], void, ContractTransactionResponse>;
+  setFoodSystemAddress: ContractMethod<[_newFoodSystemAddress: AddressLike], void, ContractTransactionResponse>;
+  stakingContractAddress: ConstantContractMethod<[], string>;
+  startExpedition: ContractMethod<[minerId: BigNumberish], void, ContractTransactionResponse>;
+  startExpeditions: ContractMethod<[minerIds: BigNumberish[]], void, ContractTransactionResponse>;
+  transferOwnership: ContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+  updateExpeditionTime: ContractMethod<[_newTime: BigNumberish], void, ContractTransactionResponse>;
+}
+
+/**
+ * Creates a typed MiningExpedition contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured MiningExpeditionProxy address
+ */
+export function getMiningExpeditionContract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('MiningExpeditionProxy')
+): MiningExpeditionContract {
+  return new Contract(address, MINING_EXPEDITION_ABI, runner) as unknown as MiningExpeditionContract;
+}
@@ -0,0 +1,145 @@
+/**
+ * @title MiningMastersStaking Client
+ * @notice Typed client for the MiningMastersStaking contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/StakingContractABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, ConstantContractMethod, ContractEvent, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import MiningMastersStakingAbiJson from '../abis/StakingContractABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const MINING_MASTERS_STAKING_ABI: InterfaceAbi = MiningMastersStakingAbiJson as InterfaceAbi;
+
+export interface StakedMiner {
+  owner: string;
+  stakedAt: bigint;
+  isStaked: boolean;
+}
+
+/**
+ * Decoded arguments of the BulkUnstakeCompleted event
+ */
+export interface BulkUnstakeCompletedEvent {
+  user: string;
+  attemptedCount: bigint;
+  successCount: bigint;
+  timestamp: bigint;
+}
+
+/**
+ * Decoded arguments of the EmergencyAction event
+ */
+export interface EmergencyActionEvent {
+  action: string;
+  reason: string;
+  timestamp: bigint;
+}
+
+/**
+ * Decoded arguments of the MinerStaked event
+ */
+export interface MinerStakedEvent {
+  user: string;
+  tokenId: bigint;
+  timestamp: bigint;
+}
+
+/**
+ * Decoded arguments of the MinerUnstaked event
+ */
+export interface MinerUnstakedEvent {
+  user: string;
+  tokenId: bigint;
+  timestamp: bigint;
+}
+
+/**
+ * Decoded arguments of the MinerUnstakingFailed event
+ */
+export interface MinerUnstakingFailedEvent {
+  user: string;
+  tokenId: bigint;
+  timestamp: bigint;
+}
+
+/**
+ * Decoded arguments of the RewardsCalculated event
+ */
+export interface RewardsCalculatedEvent {
+  user: string;
+  timestamp: bigint;
+  previousRewards: bigint;
+  newRewards: bigint;
+  timeDelta: bigint;
+}
+
+/**
+ * Decoded arguments of the RewardsClaimed event
+ */
+export interface RewardsClaimedEvent {
+  user: string;
+  amount: bigint;
+}
+
+/**
+ * Decoded arguments of the StateInconsistencyDetected event
+ */
+export interface StateInconsistencyDetectedEvent {
+  user: string;
+  message: string;
+  timestamp: bigint;
+}
+
+/**
+ * MiningMastersStaking contract with methods typed from the ABI
+ */
+export interface MiningMastersStakingContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): MiningMastersStakingContract;
+  readonly filters: {
+    BulkUnstakeCompleted: ContractEvent<[user: AddressLike, attemptedCount: BigNumberish, successCount: BigNumberish, timestamp: BigNumberish]>;
+    EmergencyAction: ContractEvent<[action: string, reason: string, timestamp: BigNumberish]>;
+    MinerStaked: ContractEvent<[user: AddressLike, tokenId: BigNumberish, timestamp: BigNumberish]>;
+    MinerUnstaked: ContractEvent<[user: AddressLike, tokenId: BigNumberish, timestamp: BigNumberish]>;
+    MinerUnstakingFailed: ContractEvent<[user: AddressLike, tokenId: BigNumberish, timestamp: BigNumberish]>;
+    RewardsCalculated: ContractEvent<[user: AddressLike, timestamp: BigNumberish, previousRewards: BigNumberish, newRewards: BigNumberish, timeDelta: BigNumberish]>;
+    RewardsClaimed: ContractEvent<[user: AddressLike, amount: BigNumberish]>;
+    StateInconsistencyDetected: ContractEvent<[user: AddressLike, message: string, timestamp: BigNumberish]>;
+  };
+  claimRewards: ContractMethod<[], bigint, ContractTransactionResponse>;
+  GEMS_PER_SECOND: ConstantContractMethod<[], bigint>;
+  getPendingRewards: ConstantContractMethod<[user: AddressLike], bigint>;
+  getStakedMinerCount: ConstantContractMethod<[user: AddressLike], bigint>;
+  getStakedMiners: ConstantContractMethod<[user: AddressLike], bigint[]>;
+  initialize: ContractMethod<[minerNFT_: AddressLike, gemsToken_: AddressLike], void, ContractTransactionResponse>;
+  lastRewardCalculation: ConstantContractMethod<[user: AddressLike], bigint>;
+  MAX_MINERS_PER_WALLET: ConstantContractMethod<[], bigint>;
+  'pause()': ContractMethod<[], void, ContractTransactionResponse>;
+  'pause(string)': ContractMethod<[reason: string], void, ContractTransactionResponse>;
+  paused: ConstantContractMethod<[], boolean>;
+  pendingRewards: ConstantContractMethod<[user: AddressLike], bigint>;
+  purchaseSlot: ContractMethod<[], void, ContractTransactionResponse>;
+  purchaseSlots: ContractMethod<[count: BigNumberish], void, ContractTransactionResponse>;
+  SCALING_FACTOR: ConstantContractMethod<[], bigint>;
+  stakedMinerCount: ConstantContractMethod<[user: AddressLike], bigint>;
+  stakedMiners: ConstantContractMethod<[tokenId: BigNumberish], StakedMiner>;
+  stakeMiner: ContractMethod<[tokenId: BigNumberish], void, ContractTransactionResponse>;
+  'unpause()': ContractMethod<[], void, ContractTransactionResponse>;
+  'unpause(string)': ContractMethod<[reason: string], void, ContractTransactionResponse>;
+  unstakeMiner: ContractMethod<[tokenId: BigNumberish], void, ContractTransactionResponse>;
+  unstakeMiners: ContractMethod<[tokenIds: BigNumberish[]], bigint, ContractTransactionResponse>;
+  userPurchasedSlots: ConstantContractMethod<[arg0: AddressLike], bigint>;
+  userStakedMiners: ConstantContractMethod<[user: AddressLike, index: BigNumberish], bigint>;
+}
+
+/**
+ * Creates a typed MiningMastersStaking contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured StakingProxy address
+ */
+export function getMiningMastersStakingContract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('StakingProxy')
+): MiningMastersStakingContract {
+  return new Contract(address, MINING_MASTERS_STAKING_ABI, runner) as unknown as MiningMastersStakingContract;
+}
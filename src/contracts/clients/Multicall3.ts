@@ -0,0 +1,46 @@
+/**
+ * @title Multicall3 Client
+ * @notice Typed client for the Multicall3 contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/Multicall3ABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BytesLike, ConstantContractMethod, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import Multicall3AbiJson from '../abis/Multicall3ABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const MULTICALL3_ABI: InterfaceAbi = Multicall3AbiJson as InterfaceAbi;
+
+export interface Call3Input {
+  target: AddressLike;
+  allowFailure: boolean;
+  callData: BytesLike;
+}
+
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Multicall3 contract with methods typed from the ABI
+ */
+export interface Multicall3Contract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): Multicall3Contract;
+  readonly filters: Record<string, never>;
+  aggregate3: ContractMethod<[calls: Call3Input[]], CallResult[], ContractTransactionResponse>;
+  getBlockNumber: ConstantContractMethod<[], bigint>;
+  getCurrentBlockTimestamp: ConstantContractMethod<[], bigint>;
+}
+
+/**
+ * Creates a typed Multicall3 contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured Multicall3 address
+ */
+export function getMulticall3Contract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('Multicall3')
+): Multicall3Contract {
+  return new Contract(address, MULTICALL3_ABI, runner) as unknown as Multicall3Contract;
+}
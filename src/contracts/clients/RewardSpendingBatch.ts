@@ -0,0 +1,39 @@
+/**
+ * @title RewardSpendingBatch Client
+ * @notice Typed client for the RewardSpendingBatch contract
+ * @dev Generated by scripts/generate-contract-clients.mjs from abis/RewardSpendingBatchABI.json - do not edit by hand
+ */
+
+import { Contract } from 'ethers';
+import type { BaseContract, BigNumberish, ContractMethod, ContractRunner, ContractTransactionResponse, InterfaceAbi } from 'ethers';
+import RewardSpendingBatchAbiJson from '../abis/RewardSpendingBatchABI.json';
+import { getContractAddress } from '../../config/contracts';
+
+export const REWARD_SPENDING_BATCH_ABI: InterfaceAbi = RewardSpendingBatchAbiJson as InterfaceAbi;
+
+export interface ActionInput {
+  action: BigNumberish;
+  arg1: BigNumberish;
+  arg2: BigNumberish;
+}
+
+/**
+ * RewardSpendingBatch contract with methods typed from the ABI
+ */
+export interface RewardSpendingBatchContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): RewardSpendingBatchContract;
+  readonly filters: Record<string, never>;
+  executeBatch: ContractMethod<[actions: ActionInput[]], void, ContractTransactionResponse>;
+}
+
+/**
+ * Creates a typed RewardSpendingBatch contract instance
+ * @param runner - Provider or signer to attach
+ * @param address - Contract address, defaults to the configured RewardSpendingBatch address
+ */
+export function getRewardSpendingBatchContract(
+  runner: ContractRunner | null,
+  address: string = getContractAddress('RewardSpendingBatch')
+): RewardSpendingBatchContract {
+  return new Contract(address, REWARD_SPENDING_BATCH_ABI, runner) as unknown as RewardSpendingBatchContract;
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import { useChainEvents } from '@/hooks/useChainEvents';
+import ActivityService, {
+  ActivityEntry,
+  ActivityProgress,
+  ActivityType,
+  filterActivity,
+} from '@/services/ActivityService';
+
+/**
+ * Loads the connected wallet's activity feed, filtered by type and miner and split
+ * into pages. Cached entries render immediately while new blocks are indexed, and
+ * the feed re-syncs on the wallet's contract events.
+ * @param pageSize Entries per page (default: 20)
+ */
+export function useActivity(pageSize = 20) {
+  const { connector, address } = useRoninWallet();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [progress, setProgress] = useState<ActivityProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [types, setTypes] = useState<ActivityType[]>([]);
+  const [minerId, setMinerId] = useState<number | null>(null);
+  const [page, setPage] = useState(0);
+
+  const service = useMemo(() => {
+    const provider = connector?.provider
+      ? new ethers.BrowserProvider(connector.provider)
+      : new ethers.JsonRpcProvider(getRpcUrl());
+    return new ActivityService(provider);
+  }, [connector]);
+
+  const refetch = useCallback(async () => {
+    if (!address) return;
+    setSyncing(true);
+    setError(null);
+    try {
+      const cached = await service.getCachedActivity(address);
+      if (cached.length > 0) setEntries(cached);
+
+      setEntries(await service.getActivity(address, setProgress));
+    } catch (err) {
+      console.error('Error loading account activity:', err);
+      setError('Failed to load the latest activity. Showing cached results.');
+    } finally {
+      setSyncing(false);
+      setProgress(null);
+    }
+  }, [service, address]);
+
+  useEffect(() => {
+    setEntries([]);
+    setPage(0);
+    refetch();
+  }, [refetch]);
+
+  useChainEvents(['staking', 'expeditions', 'meals'], () => refetch());
+
+  // Miners that appear anywhere in the feed, for the miner filter
+  const miners = useMemo(
+    () => [...new Set(entries.map((entry) => entry.minerId).filter((id): id is number => id !== null))].sort((a, b) => a - b),
+    [entries]
+  );
+
+  const filtered = useMemo(() => filterActivity(entries, { types, minerId }), [entries, types, minerId]);
+  const pageCount = Math.max(1, Math.ceil(filtered.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+
+  const filterTypes = useCallback((next: ActivityType[]) => {
+    setTypes(next);
+    setPage(0);
+  }, []);
+
+  const filterMiner = useCallback((next: number | null) => {
+    setMinerId(next);
+    setPage(0);
+  }, []);
+
+  return {
+    entries: filtered.slice(currentPage * pageSize, (currentPage + 1) * pageSize),
+    all: entries,
+    filtered,
+    total: filtered.length,
+    miners,
+    types,
+    minerId,
+    page: currentPage,
+    pageCount,
+    setPage,
+    filterTypes,
+    filterMiner,
+    syncing,
+    progress,
+    error,
+    refetch,
+  };
+}
+
+export default useActivity;
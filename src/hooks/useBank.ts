@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { BALANCE_REFRESH_EVENT } from '@/components/WalletConnector';
+import BankService, { BankDirection, BankState, BankTxStep } from '@/services/contracts/BankService';
+import { TransactionFailedError } from '@/services/transactions/RevertDecoder';
+import { useTransactionEvent, useTransactions } from '@/hooks/useTransactions';
+import { useChainEvents } from '@/hooks/useChainEvents';
+
+/**
+ * Reads the connected wallet's in-game and wallet GEMS balances plus the vault's
+ * TGE flag and fees, and exposes deposit/withdraw actions with step-by-step progress.
+ * Writes go through the transaction manager; balances are re-read on GEMS and staking
+ * events and when a bank transaction confirms.
+ */
+export function useBank() {
+  const { connector, address } = useRoninWallet();
+  const { execute } = useTransactions();
+  const [bankState, setBankState] = useState<BankState | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<{ direction: BankDirection; step: BankTxStep } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastTxHash, setLastTxHash] = useState<string | null>(null);
+
+  const service = useMemo(() => {
+    if (!connector?.provider) return null;
+    return new BankService(new ethers.BrowserProvider(connector.provider));
+  }, [connector]);
+
+  const refetch = useCallback(async () => {
+    if (!service || !address) {
+      setBankState(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setBankState(await service.getBankState(address));
+    } catch (err) {
+      console.error('Error fetching bank state:', err);
+      setError('Failed to load your bank balances. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [service, address]);
+
+  useEffect(() => {
+    refetch();
+    window.addEventListener(BALANCE_REFRESH_EVENT, refetch);
+    return () => window.removeEventListener(BALANCE_REFRESH_EVENT, refetch);
+  }, [refetch]);
+
+  useChainEvents(['gemsBalance', 'staking'], () => refetch());
+  useTransactionEvent(['bankDeposit', 'bankWithdraw'], () => refetch());
+
+  const runTx = useCallback(async (direction: BankDirection, amount: bigint) => {
+    if (!service) {
+      setError('Connect your wallet to use the bank.');
+      return false;
+    }
+
+    setError(null);
+    setLastTxHash(null);
+    setPending({ direction, step: 'submitting' });
+    const onStep = (step: BankTxStep) => setPending({ direction, step });
+    const formatted = bankState ? ethers.formatUnits(amount, bankState.decimals) : amount.toString();
+    try {
+      await service.assertValidAmount(direction, amount);
+
+      if (direction === 'deposit' && await service.needsApproval(amount)) {
+        onStep('approving');
+        await execute(
+          { kind: 'approveGems', meta: { spender: 'GemsVault', amount: formatted }, description: `Approve ${formatted} GEMS for the bank` },
+          () => service.approve(amount)
+        );
+      }
+
+      onStep('submitting');
+      const send = async () => {
+        const tx = direction === 'deposit' ? await service.deposit(amount) : await service.withdraw(amount);
+        onStep('confirming');
+        return tx;
+      };
+      const receipt = direction === 'deposit'
+        ? await execute({ kind: 'bankDeposit', meta: { amount: formatted }, description: `Deposit ${formatted} GEMS` }, send)
+        : await execute({ kind: 'bankWithdraw', meta: { amount: formatted }, description: `Withdraw ${formatted} GEMS` }, send);
+      setLastTxHash(receipt?.hash ?? null);
+      // The header balance still listens for this window event
+      window.dispatchEvent(new Event(BALANCE_REFRESH_EVENT));
+      return true;
+    } catch (err) {
+      console.error(`Bank ${direction} failed:`, err);
+      // Transaction failures are already reported by the transaction manager
+      if (!(err instanceof TransactionFailedError)) {
+        setError((err as Error).message || `Failed to ${direction}. Please try again.`);
+      }
+      return false;
+    } finally {
+      setPending(null);
+    }
+  }, [service, execute, bankState]);
+
+  const deposit = useCallback((amount: bigint) => runTx('deposit', amount), [runTx]);
+  const withdraw = useCallback((amount: bigint) => runTx('withdraw', amount), [runTx]);
+
+  return {
+    bankState,
+    loading,
+    pending,
+    error,
+    lastTxHash,
+    refetch,
+    deposit,
+    withdraw,
+  };
+}
+
+export default useBank;
@@ -0,0 +1,94 @@
+import { useState, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import BoostService, { BoostType, UserBoostState } from '@/services/contracts/BoostService';
+import { TransactionFailedError } from '@/services/transactions/RevertDecoder';
+import { useTransactions } from '@/hooks/useTransactions';
+
+/**
+ * Reads the connected wallet's MiningExpedition boosts and exposes
+ * activate/deactivate actions against the individual boost contracts, sent through
+ * the transaction manager. State is fetched on demand via `refetch` (e.g. when the
+ * boost dialog opens) and after each boost transaction.
+ */
+export function useBoosts() {
+  const { connector, address } = useRoninWallet();
+  const { execute } = useTransactions();
+  const [boostState, setBoostState] = useState<UserBoostState | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [pendingType, setPendingType] = useState<BoostType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const service = useMemo(() => {
+    if (!connector?.provider) return null;
+    return new BoostService(new ethers.BrowserProvider(connector.provider));
+  }, [connector]);
+
+  const refetch = useCallback(async () => {
+    if (!service || !address) {
+      setError('Connect your wallet to view your boosts.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const state = await service.getUserBoostState(address);
+      setBoostState(state);
+    } catch (err) {
+      console.error('Error fetching user boosts:', err);
+      setError('Failed to verify your available boosts. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [service, address]);
+
+  const runBoostTx = useCallback(async (type: BoostType, activate: boolean) => {
+    if (!service) {
+      setError('Connect your wallet to manage boosts.');
+      return false;
+    }
+
+    setPendingType(type);
+    setError(null);
+    try {
+      if (activate) {
+        await execute(
+          { kind: 'activateBoost', meta: { boostType: type }, description: `Activate ${type} boost` },
+          () => service.activateBoost(type)
+        );
+      } else {
+        await execute(
+          { kind: 'deactivateBoost', meta: { boostType: type }, description: `Deactivate ${type} boost` },
+          () => service.deactivateBoost(type)
+        );
+      }
+      await refetch();
+      return true;
+    } catch (err) {
+      console.error(`Error ${activate ? 'activating' : 'deactivating'} ${type} boost:`, err);
+      // Transaction failures are already reported by the transaction manager
+      if (!(err instanceof TransactionFailedError)) {
+        setError((err as Error).message || `Failed to ${activate ? 'activate' : 'deactivate'} boost. Please try again.`);
+      }
+      return false;
+    } finally {
+      setPendingType(null);
+    }
+  }, [service, refetch, execute]);
+
+  const activateBoost = useCallback((type: BoostType) => runBoostTx(type, true), [runBoostTx]);
+  const deactivateBoost = useCallback((type: BoostType) => runBoostTx(type, false), [runBoostTx]);
+
+  return {
+    boostState,
+    loading,
+    pendingType,
+    error,
+    refetch,
+    activateBoost,
+    deactivateBoost,
+  };
+}
+
+export default useBoosts;
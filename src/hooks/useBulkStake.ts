@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { useTransactions } from '@/hooks/useTransactions';
+import { TransactionFailedError } from '@/services/transactions/RevertDecoder';
+import BulkStakeService, {
+  BulkStakeItem,
+  BulkStakeJob,
+  BulkStakeMode,
+  StakeCapacity,
+} from '@/services/contracts/BulkStakeService';
+
+/**
+ * Summary of a bulk stake run
+ */
+export interface BulkStakeProgress {
+  total: number;
+  staked: number;
+  failed: number;
+  skipped: number;
+  inFlight: number;         // Sent, waiting to be mined
+  remaining: number;        // Not sent yet
+}
+
+const isRejection = (error: unknown) => error instanceof TransactionFailedError && error.decoded.kind === 'rejected';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Bulk-stake wizard: reads slot capacity and the staking proxy's approval for all miners,
+ * grants it in one transaction and stakes the selected miners through the transaction
+ * manager. Rejecting a prompt or pressing stop pauses the run; the checkpointed job can be
+ * resumed, including after a reload.
+ */
+export function useBulkStake() {
+  const { connector, address } = useRoninWallet();
+  const { execute } = useTransactions();
+  const [approvedForAll, setApprovedForAll] = useState<boolean | null>(null);
+  const [capacity, setCapacity] = useState<StakeCapacity | null>(null);
+  const [job, setJob] = useState<BulkStakeJob | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequested = useRef(false);
+
+  const service = useMemo(() => {
+    if (!connector?.provider) return null;
+    return new BulkStakeService(new ethers.BrowserProvider(connector.provider));
+  }, [connector]);
+
+  // The job is mutated in place while running; publish copies so React re-renders
+  const publish = useCallback((current: BulkStakeJob) => {
+    setJob({ ...current, items: current.items.map((item) => ({ ...item })) });
+  }, []);
+
+  /**
+   * Reloads approval, capacity and any unfinished job
+   */
+  const refresh = useCallback(async () => {
+    if (!service || !address) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [approved, nextCapacity, saved] = await Promise.all([
+        service.isApprovedForAll(address),
+        service.getCapacity(address),
+        service.loadJob(address),
+      ]);
+      setApprovedForAll(approved);
+      setCapacity(nextCapacity);
+      setJob(saved);
+    } catch (err) {
+      console.error('Error loading bulk stake state:', err);
+      setError('Failed to load your staking approval and slots. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [service, address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Grants the staking proxy approval for every miner in one transaction
+   */
+  const approveAll = useCallback(async () => {
+    if (!service || !address) return;
+    setApproving(true);
+    try {
+      await execute(
+        { kind: 'approveAllMiners', meta: { approved: true }, description: 'Approve all miners for staking' },
+        () => service.setApprovalForAll(true)
+      );
+      setApprovedForAll(await service.isApprovedForAll(address));
+    } catch (err) {
+      // Already reported by the transaction manager
+      console.error('Error approving all miners:', err);
+    } finally {
+      setApproving(false);
+    }
+  }, [service, address, execute]);
+
+  /**
+   * Sends one stake through the transaction manager
+   * @returns Resolves once the transaction is signed (or failed to send), with the
+   * confirmation still pending; `rejected` is set when the user declined in the wallet
+   */
+  const sendItem = useCallback(
+    async (current: BulkStakeJob, item: BulkStakeItem): Promise<{ rejected: boolean; confirmed: Promise<void> }> => {
+      const settled = Promise.resolve();
+      if (!service) return { rejected: false, confirmed: settled };
+
+      try {
+        if (await service.needsApproval(current.owner, item.tokenId)) {
+          await execute(
+            { kind: 'approveNFT', meta: { minerId: item.tokenId }, description: `Approve Miner #${item.tokenId} for staking` },
+            () => service.approve(item.tokenId)
+          );
+        }
+      } catch (err) {
+        if (isRejection(err)) return { rejected: true, confirmed: settled };
+        item.status = 'failed';
+        item.error = errorMessage(err);
+        await service.saveJob(current);
+        publish(current);
+        return { rejected: false, confirmed: settled };
+      }
+
+      let signed: () => void = () => {};
+      const signature = new Promise<void>((resolve) => {
+        signed = resolve;
+      });
+      let rejected = false;
+
+      const confirmed = execute(
+        { kind: 'stakeMiner', meta: { minerId: item.tokenId }, description: `Stake Miner #${item.tokenId}` },
+        async () => {
+          const tx = await service.sendStake(item.tokenId);
+          item.status = 'sent';
+          item.txHash = tx.hash;
+          await service.saveJob(current);
+          publish(current);
+          signed();
+          return tx;
+        }
+      )
+        .then(() => {
+          item.status = 'staked';
+          item.error = null;
+        })
+        .catch((err) => {
+          if (isRejection(err)) {
+            rejected = true;
+            return;
+          }
+          item.status = 'failed';
+          item.error = errorMessage(err);
+        })
+        .finally(async () => {
+          await service.saveJob(current);
+          publish(current);
+          signed();
+        });
+
+      await signature;
+      return { rejected, confirmed };
+    },
+    [service, execute, publish]
+  );
+
+  const run = useCallback(
+    async (target: BulkStakeJob) => {
+      if (!service) return;
+      stopRequested.current = false;
+      setRunning(true);
+      setError(null);
+      try {
+        const current = await service.refreshJob(target);
+        publish(current);
+
+        while (!stopRequested.current) {
+          const size = current.mode === 'batched' ? current.batchSize : 1;
+          const batch = current.items.filter((item) => item.status === 'pending').slice(0, size);
+          if (batch.length === 0) break;
+
+          // Batched mode sends the whole batch before waiting, so the wallet prompts follow each other
+          const confirmations: Promise<void>[] = [];
+          for (const item of batch) {
+            if (stopRequested.current) break;
+            const { rejected, confirmed } = await sendItem(current, item);
+            if (rejected) {
+              stopRequested.current = true;
+              break;
+            }
+            confirmations.push(confirmed);
+          }
+          await Promise.all(confirmations);
+        }
+      } catch (err) {
+        console.error('Error running bulk stake:', err);
+        setError(errorMessage(err));
+      } finally {
+        setRunning(false);
+        if (address) {
+          service.getCapacity(address).then(setCapacity).catch(() => {});
+        }
+      }
+    },
+    [service, address, publish, sendItem]
+  );
+
+  /**
+   * Starts a new run for the selected miners
+   */
+  const start = useCallback(
+    async (tokenIds: number[], mode: BulkStakeMode, batchSize?: number) => {
+      if (!service || !address || tokenIds.length === 0) return;
+      const created = await service.createJob(address, tokenIds, mode, batchSize);
+      publish(created);
+      await run(created);
+    },
+    [service, address, publish, run]
+  );
+
+  const resume = useCallback(async () => {
+    if (job) await run(job);
+  }, [job, run]);
+
+  const discard = useCallback(async () => {
+    if (!service || !address) return;
+    await service.clearJob(address);
+    setJob(null);
+  }, [service, address]);
+
+  const progress: BulkStakeProgress | null = job
+    ? {
+        total: job.items.length,
+        staked: job.items.filter((item) => item.status === 'staked').length,
+        failed: job.items.filter((item) => item.status === 'failed').length,
+        skipped: job.items.filter((item) => item.status === 'skipped').length,
+        inFlight: job.items.filter((item) => item.status === 'sent').length,
+        remaining: job.items.filter((item) => item.status === 'pending').length,
+      }
+    : null;
+
+  return {
+    approvedForAll,
+    capacity,
+    job,
+    progress,
+    loading,
+    approving,
+    running,
+    error,
+    refresh,
+    approveAll,
+    start,
+    resume,
+    stop: () => {
+      stopRequested.current = true;
+    },
+    discard,
+  };
+}
+
+export default useBulkStake;
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import chainEvents, { ChainDataScope, ChainEvent } from '@/services/events/ChainEvents';
+
+/**
+ * Runs `handler` whenever a contract event changes any of `scopes` for the connected
+ * wallet, and on a poll tick (event = null): slow while events are live, every
+ * `fallbackIntervalMs` while they are not.
+ * @param scopes - Data the component caches
+ * @param handler - Callback; the latest closure is always used
+ * @param fallbackIntervalMs - Poll interval when live events are unavailable
+ */
+export function useChainEvents(
+  scopes: ChainDataScope | ChainDataScope[],
+  handler: (event: ChainEvent | null) => void,
+  fallbackIntervalMs?: number
+) {
+  const { connector, address } = useRoninWallet();
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!address) {
+      chainEvents.disconnect();
+      return;
+    }
+    const provider = connector?.provider
+      ? new ethers.BrowserProvider(connector.provider)
+      : new ethers.JsonRpcProvider(getRpcUrl());
+    chainEvents.connect(address, provider);
+  }, [connector, address]);
+
+  const scopeKey = Array.isArray(scopes) ? scopes.join(',') : scopes;
+  useEffect(() => {
+    return chainEvents.subscribe(
+      scopeKey.split(',') as ChainDataScope[],
+      (event) => handlerRef.current(event),
+      fallbackIntervalMs
+    );
+  }, [scopeKey, fallbackIntervalMs]);
+}
+
+export default useChainEvents;
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import {
+  ContractCompatibilityService,
+  CompatibilityReport,
+  FrontendFeature,
+} from '@/services/contracts/ContractCompatibilityService';
+
+/**
+ * Runs the contract compatibility check for the active network once per session
+ * and reports which features are degraded and which contracts could not be
+ * verified. Until the check finishes every feature is treated as available.
+ */
+export function useContractCompatibility() {
+  const { connector } = useRoninWallet();
+  const [report, setReport] = useState<CompatibilityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const provider = useMemo(
+    () => (connector?.provider ? new ethers.BrowserProvider(connector.provider) : new ethers.JsonRpcProvider(getRpcUrl())),
+    [connector]
+  );
+
+  const check = useCallback(
+    async (force: boolean = false) => {
+      setLoading(true);
+      setError(null);
+      try {
+        setReport(await new ContractCompatibilityService(provider).check(force));
+      } catch (err) {
+        console.error('Error checking contract compatibility:', err);
+        setError('Failed to check the deployed contracts');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [provider]
+  );
+
+  useEffect(() => {
+    check();
+  }, [check]);
+
+  const isFeatureAvailable = useCallback(
+    (feature: FrontendFeature) => !report?.degraded.some((degraded) => degraded.feature === feature),
+    [report]
+  );
+
+  return {
+    report,
+    degraded: report?.degraded ?? [],
+    unverified: report?.unverified ?? [],
+    isFeatureAvailable,
+    loading,
+    error,
+    recheck: () => check(true),
+  };
+}
+
+export default useContractCompatibility;
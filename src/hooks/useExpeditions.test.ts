@@ -0,0 +1,124 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ethers } from 'ethers';
+import { createMockRonin, MockRonin, MockRoninConnector } from '@/services/mock/MockRonin';
+import { getMinerNFTContract } from '@/contracts/clients/MinerNFT';
+import { getMiningExpeditionContract } from '@/contracts/clients/MiningExpedition';
+import { getMiningMastersStakingContract } from '@/contracts/clients/MiningMastersStaking';
+import { getRewardSpendingBatchContract } from '@/contracts/clients/RewardSpendingBatch';
+import { BatchAction, BATCH_ACTION } from '@/services/contracts/BatchAction';
+import chainEvents from '@/services/events/ChainEvents';
+import chainReads from '@/services/cache/ChainReadCache';
+import { useExpeditions } from './useExpeditions';
+
+const wallet = vi.hoisted(() => ({
+  connector: null as MockRoninConnector | null,
+  address: null as string | null,
+  chainId: null as number | null,
+}));
+
+vi.mock('@/services/wallet/RoninWalletProvider', () => ({
+  useRoninWallet: () => wallet,
+}));
+
+const ONE_HOUR = 60 * 60;
+const EXPEDITION_TIME = 4 * ONE_HOUR;
+const MEAL_COOLDOWN = 2 * ONE_HOUR;
+const COFFEE = 1;
+
+describe('useExpeditions', () => {
+  let mock: MockRonin;
+  let provider: ethers.BrowserProvider;
+
+  const travel = async (seconds: number) => {
+    await mock.provider.request({ method: 'evm_increaseTime', params: [seconds] });
+    await mock.provider.request({ method: 'evm_mine' });
+  };
+
+  // Feeds through RewardSpendingBatch like EatButton, paid from pending rewards
+  const feed = async (mealId: number, minerIds: number[]) => {
+    const batch = new BatchAction();
+    for (const minerId of minerIds) batch.addAction(BATCH_ACTION.FEED, minerId, mealId);
+    await (await batch.executeBatch(getRewardSpendingBatchContract(await provider.getSigner())))?.wait();
+  };
+
+  const refreshed = async (result: { current: ReturnType<typeof useExpeditions> }) => {
+    const previous = result.current.statuses;
+    act(() => result.current.forceRefresh());
+    await waitFor(() => expect(result.current.statuses).not.toBe(previous));
+    return result.current;
+  };
+
+  beforeEach(async () => {
+    chainReads.clear();
+    mock = createMockRonin({ minerIds: [1, 2, 3], expeditionTime: EXPEDITION_TIME, mealCooldown: MEAL_COOLDOWN });
+    provider = new ethers.BrowserProvider(mock.provider, undefined, { cacheTimeout: -1 });
+    Object.assign(wallet, { connector: mock.connector, address: mock.account, chainId: mock.chain.chainId });
+
+    const signer = await provider.getSigner();
+    const staking = getMiningMastersStakingContract(signer);
+    await (await getMinerNFTContract(signer).setApprovalForAll(String(staking.target), true)).wait();
+    await (await staking.stakeMiner(1)).wait();
+    await (await staking.stakeMiner(2)).wait();
+    await travel(3 * ONE_HOUR);
+  });
+
+  afterEach(() => {
+    chainEvents.disconnect();
+  });
+
+  it('lists staked miners as unfed and ineligible until they eat', async () => {
+    const { result, unmount } = renderHook(() => useExpeditions());
+
+    await waitFor(() => expect(result.current.initialized).toBe(true));
+
+    expect(result.current.statuses.map((status) => status.minerId)).toEqual([1, 2]);
+    expect(result.current.allMinersFed).toBe(false);
+    expect(result.current.eligibleMiners).toEqual([]);
+    expect(result.current.anyOnExpedition).toBe(false);
+    unmount();
+  });
+
+  it('dates meal expiry from the MEAL_COOLDOWN on chain', async () => {
+    const { result, unmount } = renderHook(() => useExpeditions());
+    await waitFor(() => expect(result.current.initialized).toBe(true));
+
+    await feed(COFFEE, [1, 2]);
+    const { statuses, eligibleMiners, allMinersFed } = await refreshed(result);
+
+    expect(allMinersFed).toBe(true);
+    expect(eligibleMiners).toEqual([1, 2]);
+    for (const { fedStatus } of statuses) {
+      expect(fedStatus).toMatchObject({ mealId: COFFEE, isActive: true });
+      expect(fedStatus.expiryTime).toBe(fedStatus.timestamp + MEAL_COOLDOWN);
+    }
+    unmount();
+  });
+
+  it('tracks an expedition from start to completion', async () => {
+    const { result, unmount } = renderHook(() => useExpeditions());
+    await waitFor(() => expect(result.current.initialized).toBe(true));
+
+    const expedition = getMiningExpeditionContract(await provider.getSigner());
+    await feed(COFFEE, [1]);
+    await (await expedition.startExpeditions([1])).wait();
+    const started = await refreshed(result);
+
+    const [away, home] = started.statuses;
+    expect(started.anyOnExpedition).toBe(true);
+    expect(away).toMatchObject({ minerId: 1, onExpedition: true, completed: false, eligibleForNewExpedition: false });
+    expect(away.endTime - away.startTime).toBe(EXPEDITION_TIME);
+    expect(home.onExpedition).toBe(false);
+
+    await travel(EXPEDITION_TIME);
+    await (await expedition.completeExpedition(1)).wait();
+    const completed = await refreshed(result);
+
+    // Completing consumes the meal, so the miner has to eat before it can go out again
+    expect(completed.anyOnExpedition).toBe(false);
+    expect(completed.statuses[0]).toMatchObject({ onExpedition: false, completed: true, eligibleForNewExpedition: false });
+    expect(completed.statuses[0].fedStatus.isActive).toBe(false);
+    unmount();
+  });
+});
@@ -2,8 +2,14 @@ import { useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import { ethers } from 'ethers';
 import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
 import { getContractAddress } from '@/config/contracts';
-import MiningExpeditionABI from '@/contracts/abis/MiningExpeditionABI.json';
-import FoodSystemABI from '@/contracts/abis/FoodSystemABI.json';
+import { getMiningMastersStakingContract } from '@/contracts/clients/MiningMastersStaking';
+import { getMiningExpeditionContract } from '@/contracts/clients/MiningExpedition';
+import { getFoodSystemContract } from '@/contracts/clients/FoodSystem';
+import MulticallService, { encodeCall, unwrapCall } from '@/services/contracts/MulticallService';
+import chainReads, { DEFAULT_READ_TTL_MS, readKey, STATIC_READ_TTL_MS } from '@/services/cache/ChainReadCache';
+import { useTransactionEvent } from '@/hooks/useTransactions';
+import { useChainEvents } from '@/hooks/useChainEvents';
+import { isEligibleForExpedition } from '@/services/contracts/FeedAndMineService';
 
 // For operation tracking to prevent race conditions
 let globalOperationCounter = 0;
@@ -11,8 +17,7 @@ let globalOperationCounter = 0;
 // Debug flag to enable verbose logging
 const DEBUG = true;
 
-// Cooldown constants
-const REFETCH_COOLDOWN_MS = 5000; // 5 seconds cooldown between fetches
+// Timing constants
 const FETCH_DEBOUNCE_MS = 300; // 300ms debounce for fetch calls
 const MEAL_DURATION_SECONDS = 6 * 60 * 60; // 6 hours in seconds
 
@@ -41,8 +46,9 @@ export interface ExpeditionStatus {
 
 /**
  * Hook to manage expedition statuses for all staked miners
- * Includes sequential fetching with race condition prevention and caching for UI stability
- * @param refreshIntervalMs How often to auto-refresh (default: 60 seconds)
+ * Includes sequential fetching with race condition prevention; reads go through the shared chain read cache.
+ * Refreshes on the wallet's expedition, meal and staking events and when a running expedition is due.
+ * @param refreshIntervalMs How often to poll while live events are unavailable (default: 60 seconds)
  */
 export function useExpeditions(refreshIntervalMs = 60000) {
   // We'll use a ref for tracking current operation ID instead of state to avoid re-renders
@@ -54,11 +60,7 @@ export function useExpeditions(refreshIntervalMs = 60000) {
   const [initialized, setInitialized] = useState(false);
   const [statuses, setStatuses] = useState<ExpeditionStatus[]>([]);
   
-  // Cache state to prevent UI flickering during connection issues - used for final status output
-  const [lastValidStakedMiners, setLastValidStakedMiners] = useState<number[]>([]);
-  
-  // Cooldown timer to prevent excessive refetching
-  const lastFetchTimeRef = useRef<number>(0);
+  // Prevents overlapping fetches; the read cache serves values younger than its TTL
   const fetchInProgressRef = useRef<boolean>(false);
   const [cooldownTime, setCooldownTime] = useState(0);
   
@@ -105,12 +107,7 @@ export function useExpeditions(refreshIntervalMs = 60000) {
         return;
       }
       
-      // Handle cooldown unless forced
       const now = Date.now();
-      if (!force && now - lastFetchTimeRef.current < REFETCH_COOLDOWN_MS) {
-        logDebug(`Skipping fetch due to cooldown (${now - lastFetchTimeRef.current}ms < ${REFETCH_COOLDOWN_MS}ms)`);
-        return;
-      }
       
       // Mark fetch as in progress
       fetchInProgressRef.current = true;
@@ -118,7 +115,6 @@ export function useExpeditions(refreshIntervalMs = 60000) {
       // Start a new operation and track its ID
       const opId = ++globalOperationCounter;
       currentOpIdRef.current = opId;
-      lastFetchTimeRef.current = now;
     
     logDebug(`Starting expedition status fetch operation ${opId} at ${new Date().toISOString()}`);
     setLoading(true);
@@ -139,26 +135,9 @@ export function useExpeditions(refreshIntervalMs = 60000) {
       logDebug(`Using contracts: Staking=${stakingAddress}, Mining=${miningAddress}, Food=${foodAddress}`, opId);
       
       // Create contract instances
-      const stakingContract = new ethers.Contract(
-        stakingAddress,
-        [
-          'function getStakedMiners(address owner) view returns (uint256[])',
-        ],
-        signer
-      );
-      
-      const miningContract = new ethers.Contract(
-        miningAddress,
-        (MiningExpeditionABI as any).abi,
-        signer
-      );
-      
-      // Get meal cooldown directly from food contract
-      const foodContract = new ethers.Contract(
-        foodAddress,
-        (FoodSystemABI as any).abi,
-        signer
-      );
+      const stakingContract = getMiningMastersStakingContract(signer, stakingAddress);
+      const miningContract = getMiningExpeditionContract(signer, miningAddress);
+      const foodContract = getFoodSystemContract(signer, foodAddress);
       
       // Use a consistent timestamp for all calculations in this fetch operation
       const currentTimestampSeconds = Math.floor(now / 1000);
@@ -169,40 +148,39 @@ export function useExpeditions(refreshIntervalMs = 60000) {
       // Get meal cooldown duration once - no need to fetch for each miner
       let mealCooldownSecs = MEAL_DURATION_SECONDS; // Default to 6 hours if not fetched
       try {
-        const rawCooldown = await foodContract.MEAL_COOLDOWN();
+        const rawCooldown = await chainReads.read<bigint>(foodContract, 'MEAL_COOLDOWN', [], { ttlMs: STATIC_READ_TTL_MS });
         mealCooldownSecs = Number(rawCooldown);
         logDebug(`Fetched meal cooldown duration: ${mealCooldownSecs/3600} hours`, opId);
       } catch (error) {
         logDebug(`Error fetching meal cooldown, using default: ${error instanceof Error ? error.message : error}`, opId);
       }
       
-      // Get staked miners with fallback to last valid list on error
-      let stakedMiners: number[] = [];
-      try {
-        // Get staked miners
-        const stakedMinersResult = await stakingContract.getStakedMiners(address);
-        stakedMiners = stakedMinersResult.map((bn: ethers.BigNumberish) => Number(bn));
-        
-        if (stakedMiners.length > 0) {
-          setLastValidStakedMiners(stakedMiners);
-          logDebug(`Found ${stakedMiners.length} staked miners: ${stakedMiners.join(', ')}`, opId);
-        } else {
-          logDebug('No staked miners found', opId);
-        }
-      } catch (err) {
-        // Log the specific error for debugging
-        logDebug(`Error fetching staked miners: ${err instanceof Error ? err.message : String(err)}`, opId);
-        
-        // Fall back to cached miners to prevent UI flickering
-        stakedMiners = lastValidStakedMiners;
-        logDebug(`Using cached list with ${stakedMiners.length} miners: ${stakedMiners.join(', ')}`, opId);
-      }
+      // Get staked miners; the read cache falls back to the last known list on error
+      const stakedMinersResult = await chainReads.read<bigint[]>(stakingContract, 'getStakedMiners', [address], { scopes: ['staking'], force });
+      const stakedMiners = stakedMinersResult.map((bn) => Number(bn));
+      logDebug(stakedMiners.length > 0 ? `Found ${stakedMiners.length} staked miners: ${stakedMiners.join(', ')}` : 'No staked miners found', opId);
+      
+      // Fetch every miner's expedition and meal state in batched reads instead of 2 round trips per miner
+      const multicall = new MulticallService(ethersProvider);
+      const [expeditionResults, mealResults] = await Promise.all([
+        chainReads.query(
+          readKey(miningAddress, 'expeditions', stakedMiners),
+          () => multicall.aggregate(stakedMiners.map((minerId) => encodeCall(miningContract, 'expeditions', [minerId]))),
+          { scopes: ['expeditions'], force }
+        ),
+        chainReads.query(
+          readKey(foodAddress, 'getMinerMealStatus', stakedMiners),
+          () => multicall.aggregate(stakedMiners.map((minerId) => encodeCall(foodContract, 'getMinerMealStatus', [minerId]))),
+          { scopes: ['meals'], force }
+        ),
+      ]);
+      logDebug(`Fetched expedition and meal state for ${stakedMiners.length} miners in batch`, opId);
       
       // Create new statuses array to collect results
       const newStatuses: ExpeditionStatus[] = [];
       
-      // Process miners sequentially to avoid race conditions
-      for (const minerId of stakedMiners) {
+      // Process miners in order; superseded operations abort before touching state
+      for (const [index, minerId] of stakedMiners.entries()) {
         // Skip processing if this operation was superseded by a newer one
         if (opId !== globalOperationCounter) {
           logDebug(`Operation ${opId} was superseded, aborting`, opId);
@@ -220,7 +198,7 @@ export function useExpeditions(refreshIntervalMs = 60000) {
           
           // CRITICAL FIX: First try to get expedition data
           try {
-            const expeditionData = await miningContract.expeditions(minerId);
+            const expeditionData = unwrapCall(expeditionResults[index]);
             startTimeValue = Number(expeditionData.startTime);
             endTimeValue = Number(expeditionData.endTime);
             completedValue = expeditionData.completed;
@@ -239,8 +217,8 @@ export function useExpeditions(refreshIntervalMs = 60000) {
           let fed = false;
           
           try {
-            // Try to get meal status from contract
-            const mealInfo = await foodContract.getMinerMealStatus(minerId);
+            // Meal status from the batched contract read
+            const mealInfo = unwrapCall(mealResults[index]);
             mealId = Number(mealInfo.mealId);
             mealTimestamp = Number(mealInfo.timestamp);
             
@@ -320,11 +298,8 @@ export function useExpeditions(refreshIntervalMs = 60000) {
             `expiry=${new Date(mealExpiryTime * 1000).toISOString()}, ` +
             `active=${isMealActive}`, opId);
           
-          // Determine expedition eligibility
-          // NOTE: Miner must meet ALL criteria to be eligible:
-          // 1. Not currently on expedition
-          // 2. Has an active meal (i.e., is properly fed)
-          const eligibleForNewExpedition = !isOnExpedition && isMealActive;
+          // Determine expedition eligibility with the same rule Feed & Mine and EnterMines use
+          const eligibleForNewExpedition = isEligibleForExpedition(isOnExpedition, mealTimestamp);
           
           if (!eligibleForNewExpedition) {
             logDebug(`Miner ${minerId} ineligible: onExpedition=${isOnExpedition}, ` +
@@ -359,19 +334,12 @@ export function useExpeditions(refreshIntervalMs = 60000) {
       if (opId === globalOperationCounter) {
         setInitialized(true);
         
-        // We no longer need to cache last valid statuses as we're using the current statuses directly
-        // We have robust fallback logic in place with lastValidStakedMiners
-        
-        if (stakedMiners.length > 0) {
-          setLastValidStakedMiners(stakedMiners);
-        }
-        
         // Update primary state
         logDebug(`[Op:${opId}] Setting ${newStatuses.length} expedition statuses for ${stakedMiners.length} staked miners`, opId);
         setStatuses(newStatuses);
         
-        // Calculate how long until we can fetch again (for UI feedback)
-        setCooldownTime(now + REFETCH_COOLDOWN_MS);
+        // Calculate when the cached reads go stale (for UI feedback)
+        setCooldownTime(now + DEFAULT_READ_TTL_MS);
       } else {
         logDebug(`[Op:${opId}] Operation ${opId} completed but was superseded, discarding results`, opId);
       }
@@ -400,14 +368,11 @@ export function useExpeditions(refreshIntervalMs = 60000) {
     return;
   }, []); // Empty dependency array since we're using refs for all dependencies
   
-  // Initial fetch and refresh interval
+  // Initial fetch
   useEffect(() => {
     // Force refresh immediately on mount
     fetchStatuses(true);
     
-    // Set up refresh interval
-    const intervalId = setInterval(() => fetchStatuses(), refreshIntervalMs);
-    
     // Clean up on unmount
     return () => {
       // Clear any pending debounced fetch
@@ -416,13 +381,24 @@ export function useExpeditions(refreshIntervalMs = 60000) {
         debouncedFetchRef.current = null;
       }
       
-      // Clear the interval
-      clearInterval(intervalId);
-      
       // Increment operation counter to cancel any in-flight operations
       globalOperationCounter++;
     };
-  }, [fetchStatuses, refreshIntervalMs]); // Removed connector and address dependencies since we use refs
+  }, [fetchStatuses]); // Removed connector and address dependencies since we use refs
+
+  // Refresh on the wallet's contract events, polling only while live events are unavailable
+  useChainEvents('expeditions', () => fetchStatuses(), refreshIntervalMs);
+
+  // Expeditions end without an event, so refresh once the next running one is due
+  useEffect(() => {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const nextEnd = Math.min(
+      ...statuses.filter((s) => s.onExpedition && s.endTime > nowSeconds).map((s) => s.endTime)
+    );
+    if (!Number.isFinite(nextEnd)) return;
+    const timer = setTimeout(() => fetchStatuses(true), (nextEnd - nowSeconds + 1) * 1000);
+    return () => clearTimeout(timer);
+  }, [statuses, fetchStatuses]);
   
   // Trigger a fetch when wallet connection changes
   useEffect(() => {
@@ -478,6 +454,9 @@ export function useExpeditions(refreshIntervalMs = 60000) {
     logDebug('Force refreshing expedition statuses');
     fetchStatuses(true);
   }, [fetchStatuses]);
+
+  // Refresh as soon as a transaction that changes expedition or feeding state confirms
+  useTransactionEvent(['startExpedition', 'completeExpedition', 'feedMiners', 'reduceExpeditionTime'], forceRefresh);
   
   // Log detailed state changes for debugging feeding and eligibility issues
   useEffect(() => {
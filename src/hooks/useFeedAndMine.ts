@@ -0,0 +1,156 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { useTransactions } from '@/hooks/useTransactions';
+import FeedAndMineService, { FeedAndMinePlan } from '@/services/contracts/FeedAndMineService';
+import { describeSimulationFailure, MinerSimulation } from '@/services/contracts/ExpeditionSimulationService';
+
+export type FeedAndMineStepStatus = 'pending' | 'active' | 'done' | 'failed' | 'skipped';
+
+/**
+ * Progress of the two Feed & Mine transactions
+ */
+export interface FeedAndMineProgress {
+  feed: FeedAndMineStepStatus;
+  start: FeedAndMineStepStatus;
+  dropped: MinerSimulation[];   // Miners that failed the start re-check after feeding
+  error: string | null;
+}
+
+const INITIAL_PROGRESS: FeedAndMineProgress = { feed: 'pending', start: 'pending', dropped: [], error: null };
+
+/**
+ * One-click "Feed & Mine": dry-runs feeding and starting every miner, then feeds and
+ * starts them as two tracked transactions. A failed step can be retried with run()
+ * without repeating the steps that already succeeded.
+ */
+export function useFeedAndMine() {
+  const { connector, address } = useRoninWallet();
+  const { execute } = useTransactions();
+  const [plan, setPlan] = useState<FeedAndMinePlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgressState] = useState<FeedAndMineProgress>(INITIAL_PROGRESS);
+  const [error, setError] = useState<string | null>(null);
+
+  // run() reads progress synchronously between the two transactions
+  const progressRef = useRef(progress);
+  const setProgress = useCallback((update: Partial<FeedAndMineProgress>) => {
+    progressRef.current = { ...progressRef.current, ...update };
+    setProgressState(progressRef.current);
+  }, []);
+
+  const service = useMemo(() => {
+    if (!connector?.provider) return null;
+    return new FeedAndMineService(new ethers.BrowserProvider(connector.provider));
+  }, [connector]);
+
+  /**
+   * Dry-runs feeding `mealId` to `minerIds` and starting them, and resets progress
+   */
+  const preview = useCallback(async (mealId: number, minerIds: number[]) => {
+    if (!service || !address) {
+      setPlan(null);
+      return null;
+    }
+    setPlanning(true);
+    setError(null);
+    setProgress(INITIAL_PROGRESS);
+    try {
+      const nextPlan = await service.plan(address, minerIds, mealId);
+      setPlan(nextPlan);
+      return nextPlan;
+    } catch (err) {
+      console.error('Error checking Feed & Mine:', err);
+      setError('Failed to check your miners. Please try again.');
+      setPlan(null);
+      return null;
+    } finally {
+      setPlanning(false);
+    }
+  }, [service, address, setProgress]);
+
+  /**
+   * Runs the remaining steps of the current plan; resolves true once the expeditions started
+   */
+  const run = useCallback(async () => {
+    if (!service || !address || !plan || plan.toStart.length === 0) return false;
+    setRunning(true);
+    setProgress({ error: null });
+    try {
+      const { mealId, toFeed, toStart } = plan;
+
+      if (progressRef.current.feed !== 'done' && progressRef.current.feed !== 'skipped') {
+        if (toFeed.length === 0) {
+          setProgress({ feed: 'skipped' });
+        } else {
+          setProgress({ feed: 'active' });
+          try {
+            await execute(
+              {
+                kind: 'feedMiners',
+                meta: { mealId, minerIds: toFeed },
+                description: `Feed ${toFeed.length} miner${toFeed.length === 1 ? '' : 's'}`,
+              },
+              () => service.feed(mealId, toFeed)
+            );
+            setProgress({ feed: 'done' });
+          } catch (err) {
+            setProgress({ feed: 'failed', error: err instanceof Error ? err.message : 'Feeding failed' });
+            return false;
+          }
+        }
+      }
+
+      setProgress({ start: 'active' });
+      // Re-check against the post-feed state so one miner that changed cannot revert the whole start
+      const checks = await service.checkStart(address, toStart);
+      const startable = checks.filter((check) => check.ok).map((check) => check.minerId);
+      setProgress({ dropped: checks.filter((check) => !check.ok) });
+      if (startable.length === 0) {
+        setProgress({ start: 'failed', error: checks.length > 0 ? describeSimulationFailure(checks[0]) : 'No miners can start an expedition' });
+        return false;
+      }
+      try {
+        await execute(
+          {
+            kind: 'startExpedition',
+            meta: { minerIds: startable },
+            description: `Send ${startable.length} miner${startable.length === 1 ? '' : 's'} on an expedition`,
+          },
+          () => service.start(startable)
+        );
+        setProgress({ start: 'done' });
+        return true;
+      } catch (err) {
+        setProgress({ start: 'failed', error: err instanceof Error ? err.message : 'Starting the expedition failed' });
+        return false;
+      }
+    } catch (err) {
+      console.error('Feed & Mine failed:', err);
+      setProgress({ start: 'failed', error: 'Failed to check your miners. Please try again.' });
+      return false;
+    } finally {
+      setRunning(false);
+    }
+  }, [service, address, plan, execute, setProgress]);
+
+  const reset = useCallback(() => {
+    setPlan(null);
+    setError(null);
+    setProgress(INITIAL_PROGRESS);
+  }, [setProgress]);
+
+  return {
+    plan,
+    planning,
+    running,
+    progress,
+    error,
+    preview,
+    run,
+    reset,
+  };
+}
+
+export default useFeedAndMine;
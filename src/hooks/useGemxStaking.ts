@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { BALANCE_REFRESH_EVENT } from '@/components/WalletConnector';
+import GemxStakingService, { GemxStakeStep, GemxStakingPosition } from '@/services/contracts/GemxStakingService';
+import { TransactionFailedError } from '@/services/transactions/RevertDecoder';
+import { useTransactionEvent, useTransactions } from '@/hooks/useTransactions';
+import { useChainEvents } from '@/hooks/useChainEvents';
+
+export type GemxStakingAction = GemxStakeStep | 'unstaking' | 'claiming';
+
+/**
+ * Reads the connected wallet's GEMS -> GEMX staking position and exposes
+ * stake/unstake/claim actions sent through the transaction manager. The position is
+ * re-read when a GEMS transfer touches the wallet or a GEMX transaction confirms;
+ * `refreshInterval` only applies while live events are unavailable.
+ */
+export function useGemxStaking(refreshInterval = 30000) {
+  const { connector, address } = useRoninWallet();
+  const { execute } = useTransactions();
+  const [position, setPosition] = useState<GemxStakingPosition | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [pendingAction, setPendingAction] = useState<GemxStakingAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const service = useMemo(() => {
+    if (!connector?.provider) return null;
+    return new GemxStakingService(new ethers.BrowserProvider(connector.provider));
+  }, [connector]);
+
+  const refetch = useCallback(async () => {
+    if (!service || !address) {
+      setPosition(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setPosition(await service.getPosition(address));
+    } catch (err) {
+      console.error('Error fetching GEMX staking position:', err);
+      setError('Failed to load your staking position. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [service, address]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  useChainEvents('gemsBalance', () => refetch(), refreshInterval);
+  useTransactionEvent(['stakeGems', 'unstakeGems', 'claimGemx'], () => refetch());
+
+  const runTx = useCallback(async (action: GemxStakingAction, send: (svc: GemxStakingService) => Promise<unknown>) => {
+    if (!service) {
+      setError('Connect your wallet to stake GEMS.');
+      return false;
+    }
+
+    setPendingAction(action);
+    setError(null);
+    try {
+      await send(service);
+      window.dispatchEvent(new Event(BALANCE_REFRESH_EVENT));
+      return true;
+    } catch (err) {
+      console.error(`GEMX staking ${action} failed:`, err);
+      // Transaction failures are already reported by the transaction manager; only
+      // validation errors raised before sending are shown inline
+      if (!(err instanceof TransactionFailedError)) {
+        setError((err as Error).message || 'Transaction failed. Please try again.');
+      }
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  }, [service]);
+
+  const stake = useCallback(
+    (amount: string) =>
+      runTx('approving', async (svc) => {
+        const amountInWei = await svc.prepareStake(amount);
+        if (await svc.needsApproval(amountInWei)) {
+          await execute(
+            { kind: 'approveGems', meta: { spender: 'GemxStaking', amount }, description: `Approve ${amount} GEMS for staking` },
+            () => svc.approve(amountInWei)
+          );
+        }
+        setPendingAction('staking');
+        await execute(
+          { kind: 'stakeGems', meta: { amount }, description: `Stake ${amount} GEMS` },
+          () => svc.stake(amountInWei)
+        );
+      }),
+    [runTx, execute]
+  );
+
+  const unstake = useCallback(
+    () =>
+      runTx('unstaking', (svc) => {
+        const amount = position?.stakedAmount ?? '0';
+        return execute(
+          { kind: 'unstakeGems', meta: { amount }, description: `Unstake ${amount} GEMS` },
+          () => svc.unstake()
+        );
+      }),
+    [runTx, execute, position]
+  );
+
+  const claimRewards = useCallback(
+    () =>
+      runTx('claiming', (svc) => {
+        const amount = position?.pendingRewards ?? '0';
+        return execute(
+          { kind: 'claimGemx', meta: { amount }, description: `Claim ${amount} GEMX` },
+          () => svc.claimRewards()
+        );
+      }),
+    [runTx, execute, position]
+  );
+
+  return {
+    position,
+    loading,
+    pendingAction,
+    error,
+    refetch,
+    stake,
+    unstake,
+    claimRewards,
+  };
+}
+
+export default useGemxStaking;
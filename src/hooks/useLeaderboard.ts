@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import LeaderboardIndexer, { IndexerProgress, LeaderboardEntry } from '@/services/LeaderboardIndexer';
+
+/**
+ * Loads the on-chain leaderboard. Cached ranks render immediately, then the indexer
+ * catches up with new blocks. Works without a wallet through the public RPC; when a
+ * wallet is connected its own entry is exposed as `ownEntry`.
+ */
+export function useLeaderboard(limit = 50) {
+  const { connector, address } = useRoninWallet();
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [progress, setProgress] = useState<IndexerProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const indexer = useMemo(() => {
+    const provider = connector?.provider
+      ? new ethers.BrowserProvider(connector.provider)
+      : new ethers.JsonRpcProvider(getRpcUrl());
+    return new LeaderboardIndexer(provider);
+  }, [connector]);
+
+  const refetch = useCallback(async () => {
+    setSyncing(true);
+    setError(null);
+    try {
+      const cached = await indexer.getCached();
+      if (cached.length > 0) setEntries(cached);
+
+      setEntries(await indexer.sync(setProgress));
+    } catch (err) {
+      console.error('Error indexing leaderboard:', err);
+      setError('Failed to load the latest rankings. Showing cached results.');
+    } finally {
+      setSyncing(false);
+      setProgress(null);
+    }
+  }, [indexer]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const ownEntry = useMemo(
+    () => (address ? entries.find((entry) => entry.address === address.toLowerCase()) ?? null : null),
+    [entries, address]
+  );
+
+  return {
+    players: entries.slice(0, limit),
+    totalPlayers: entries.length,
+    ownEntry,
+    syncing,
+    progress,
+    error,
+    refetch,
+  };
+}
+
+export default useLeaderboard;
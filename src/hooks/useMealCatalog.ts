@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import { getFoodSystemContract } from '@/contracts/clients/FoodSystem';
+import MulticallService, { encodeCall } from '@/services/contracts/MulticallService';
+import { DEFAULT_MEAL_ICON, FoodItem, MEAL_ICONS } from '@/constants/food';
+
+export interface MealDiscount {
+  isActive: boolean;
+  endTime: number; // unix seconds, 0 when no discount period is running
+}
+
+const toGems = (value: bigint) => Number(ethers.formatUnits(value, 18));
+
+/**
+ * Loads the live meal catalog from FoodSystem.getAllMeals and merges it with the
+ * local icons. Inactive meals are hidden. Original prices are only read while a
+ * discount period is running, and the catalog reloads when the period ends.
+ * Works without a wallet through the public RPC.
+ */
+export function useMealCatalog() {
+  const { connector } = useRoninWallet();
+  const [meals, setMeals] = useState<FoodItem[]>([]);
+  const [discount, setDiscount] = useState<MealDiscount>({ isActive: false, endTime: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const provider = useMemo(
+    () => (connector?.provider ? new ethers.BrowserProvider(connector.provider) : new ethers.JsonRpcProvider(getRpcUrl())),
+    [connector]
+  );
+
+  const refetch = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const food = getFoodSystemContract(provider);
+
+      const [allMeals, discountInfo] = await Promise.all([
+        food.getAllMeals(),
+        food.getDiscountInfo().catch((err) => {
+          console.warn('Could not read discount info:', err);
+          return null;
+        }),
+      ]);
+      const { names, successRates, minRewards, maxRewards, currentPrices, actives } = allMeals;
+      const discountActive = discountInfo?.isActive ?? false;
+
+      // getAllMeals only returns the current price; read the undiscounted one per meal during a discount
+      const ids = names.map((_, id) => id);
+      const multicall = new MulticallService(provider);
+      const originalPrices = discountActive
+        ? (await multicall.aggregate(ids.map((id) => encodeCall(food, 'meals', [id])))).map((result, id) =>
+            result.success ? result.value.originalPrice : currentPrices[id]
+          )
+        : currentPrices;
+
+      setMeals(
+        ids
+          .filter((id) => actives[id])
+          .map((id) => ({
+            id,
+            name: names[id],
+            icon: MEAL_ICONS[id] ?? DEFAULT_MEAL_ICON,
+            gemChance: Number(successRates[id]),
+            minReward: toGems(minRewards[id]),
+            maxReward: toGems(maxRewards[id]),
+            price: toGems(currentPrices[id]),
+            originalPrice: toGems(originalPrices[id]),
+          }))
+      );
+      setDiscount({
+        isActive: discountActive,
+        endTime: discountActive && discountInfo ? Number(discountInfo.endTime) : 0,
+      });
+    } catch (err) {
+      console.error('Error loading meal catalog:', err);
+      setError('Failed to load meals from the FoodSystem contract');
+    } finally {
+      setLoading(false);
+    }
+  }, [provider]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    meals,
+    discount,
+    loading,
+    error,
+    refetch,
+  };
+}
+
+export default useMealCatalog;
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import { getMiningExpeditionContract } from '@/contracts/clients/MiningExpedition';
+import { getMiningMastersStakingContract } from '@/contracts/clients/MiningMastersStaking';
+import type { UserBoostsResult } from '@/contracts/clients/MiningExpedition';
+import { chainReads, STATIC_READ_TTL_MS } from '@/services/cache/ChainReadCache';
+import { analyzeMeals, ProfitabilityInputs } from '@/services/MealProfitability';
+import type { FoodItem } from '@/constants/food';
+
+/**
+ * Ranks meals by expected profit for the connected wallet. Reads the staked miner
+ * count, the applied getUserBoosts percentage and MINING_COOLDOWN; the miner count
+ * and boost can be overridden to compare scenarios.
+ * @param meals - Meal catalog (see useMealCatalog)
+ */
+export function useMealProfitability(meals: FoodItem[]) {
+  const { connector, address } = useRoninWallet();
+  const [chainInputs, setChainInputs] = useState<ProfitabilityInputs | null>(null);
+  const [overrides, setOverrides] = useState<Partial<Pick<ProfitabilityInputs, 'miners' | 'boostPercentage'>>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const provider = useMemo(
+    () => (connector?.provider ? new ethers.BrowserProvider(connector.provider) : new ethers.JsonRpcProvider(getRpcUrl())),
+    [connector]
+  );
+
+  const refetch = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const expedition = getMiningExpeditionContract(provider);
+      const staking = getMiningMastersStakingContract(provider);
+
+      const [cooldown, maxBoost, stakedMiners, boosts] = await Promise.all([
+        chainReads.read<bigint>(expedition, 'MINING_COOLDOWN', [], { ttlMs: STATIC_READ_TTL_MS }),
+        chainReads.read<bigint>(expedition, 'MAX_BOOST_PERCENTAGE', [], { ttlMs: STATIC_READ_TTL_MS }),
+        address
+          ? chainReads.read<bigint[]>(staking, 'getStakedMiners', [address], { scopes: ['staking'] })
+          : Promise.resolve([]),
+        address ? chainReads.read<UserBoostsResult>(expedition, 'getUserBoosts', [address]) : Promise.resolve(null),
+      ]);
+
+      setChainInputs({
+        miners: stakedMiners.length,
+        boostPercentage: boosts ? Math.min(Number(boosts.totalBoostPercentage), Number(maxBoost)) : 0,
+        cooldownSeconds: Number(cooldown),
+      });
+    } catch (err) {
+      console.error('Error loading profitability inputs:', err);
+      setError('Failed to load your miners and boosts');
+    } finally {
+      setLoading(false);
+    }
+  }, [provider, address]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const inputs = useMemo<ProfitabilityInputs | null>(
+    () => (chainInputs ? { ...chainInputs, ...overrides } : null),
+    [chainInputs, overrides]
+  );
+  const report = useMemo(() => (inputs ? analyzeMeals(meals, inputs) : null), [meals, inputs]);
+
+  const setMiners = useCallback((miners: number) => setOverrides((current) => ({ ...current, miners })), []);
+  const setBoostPercentage = useCallback(
+    (boostPercentage: number) => setOverrides((current) => ({ ...current, boostPercentage })),
+    []
+  );
+  const resetOverrides = useCallback(() => setOverrides({}), []);
+
+  return {
+    report,
+    inputs,
+    chainInputs,
+    setMiners,
+    setBoostPercentage,
+    resetOverrides,
+    loading,
+    error,
+    refetch,
+  };
+}
+
+export default useMealProfitability;
@@ -1,7 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
-import { getContractAddress } from '@/config/contracts';
+import { getMiningMastersStakingContract } from '@/contracts/clients/MiningMastersStaking';
+import { getFoodSystemContract } from '@/contracts/clients/FoodSystem';
+import MulticallService, { encodeCall } from '@/services/contracts/MulticallService';
+import chainReads, { readKey, STATIC_READ_TTL_MS } from '@/services/cache/ChainReadCache';
+import { useTransactionEvent } from '@/hooks/useTransactions';
+import { useChainEvents } from '@/hooks/useChainEvents';
 
 export interface MealStatus {
   id: number;
@@ -11,56 +16,38 @@ export interface MealStatus {
 
 /**
  * Fetches meal availability across ALL staked miners for the current wallet.
- * Re-computes every `refreshInterval` ms (default 30s).
+ * Re-computes on the wallet's meal, staking and expedition events, and every
+ * `refreshInterval` ms while live events are unavailable.
  */
-export function useMealStatuses(refreshInterval = 60000) { // Increased default interval to 60 seconds
+export function useMealStatuses(refreshInterval = 60000) {
   const { connector, address } = useRoninWallet();
   const [stakedMiners, setStakedMiners] = useState<number[]>([]);
   const [statuses, setStatuses] = useState<MealStatus[]>([]);
   const [loading, setLoading] = useState(true);
-  const [lastFetchTime, setLastFetchTime] = useState(0);
-  const [lastValidStakedMiners, setLastValidStakedMiners] = useState<number[]>([]);
 
   // Track previous values to detect changes
   const [prevStatusesStr, setPrevStatusesStr] = useState<string>('[]');
 
-  // Get staked miners directly from the contract - exactly as in batch-check-feeding.ts
-  const fetchStakedMiners = useCallback(async () => {
+  // Get staked miners through the shared read cache, which keeps the last known list on errors
+  const fetchStakedMiners = useCallback(async (force = false) => {
     if (!connector || !address) {
-      console.log('No wallet connector or address available - keeping last known state');
-      return lastValidStakedMiners;
+      console.log('No wallet connector or address available');
+      return [];
     }
 
     try {
       const provider = new ethers.BrowserProvider(connector.provider);
-      const stakingAddress = getContractAddress('StakingProxy');
-      if (!stakingAddress) {
-        console.error('Staking contract address not found');
-        return lastValidStakedMiners;
-      }
-
-      const stakingAbi = ['function getStakedMiners(address owner) view returns (uint256[])'];
-      const stakingContract = new ethers.Contract(stakingAddress, stakingAbi, provider);
-
-      // Get staked miners directly from the contract
-      const miners = await stakingContract.getStakedMiners(address);
-      const minerIds = miners.map((id: bigint) => Number(id));
-
-      // Reduced logging
-      // console.log(`[useMealStatuses] Retrieved ${minerIds.length} staked miners directly from contract`);
+      const stakingContract = getMiningMastersStakingContract(provider);
 
-      // Only update if we have valid data
-      if (minerIds.length > 0) {
-        setStakedMiners(minerIds);
-        setLastValidStakedMiners(minerIds);
-        return minerIds;
-      }
-      return lastValidStakedMiners;
+      const miners = await chainReads.read<bigint[]>(stakingContract, 'getStakedMiners', [address], { scopes: ['staking'], force });
+      const minerIds = miners.map((id) => Number(id));
+      setStakedMiners(minerIds);
+      return minerIds;
     } catch (error) {
       console.error('Error fetching staked miners:', error);
-      return lastValidStakedMiners;
+      return [];
     }
-  }, [connector, address, lastValidStakedMiners]);
+  }, [connector, address]);
 
   useEffect(() => {
     const currentStatusesStr = JSON.stringify(statuses.map(s => s.canEat));
@@ -75,18 +62,11 @@ export function useMealStatuses(refreshInterval = 60000) { // Increased default
   }, [statuses, prevStatusesStr]);
 
   const fetchStatuses = useCallback(async (force = false) => {
-    // Avoid excessive refetching in short time periods
-    const now = Date.now();
-    if (!force && now - lastFetchTime < 15000) { // Increased to 15 second cooldown on frequent refetches
-      // Skip without logging to reduce console noise
-      return;
-    }
-    setLastFetchTime(now);
     try {
       setLoading(true);
 
-      // Get the latest staked miners from our direct contract query
-      const currentMiners = await fetchStakedMiners();
+      // Get the latest staked miners; repeated calls within the cache TTL do not hit the RPC
+      const currentMiners = await fetchStakedMiners(force);
 
       if (!connector || currentMiners.length === 0) {
         console.log('[useMealStatuses] No staked miners found or wallet disconnected');
@@ -94,16 +74,10 @@ export function useMealStatuses(refreshInterval = 60000) { // Increased default
         return;
       }
       const provider = new ethers.BrowserProvider(connector.provider);
-      const foodAddress = getContractAddress('FoodSystemProxy');
-      if (!foodAddress) return;
-      const abi = [
-        'function getMealCount() view returns (uint256)',
-        'function canEatMeal(uint256 minerId, uint256 mealId) view returns (bool,uint256)'
-      ];
-      const food = new ethers.Contract(foodAddress, abi, provider);
-      const mealCount: number = Number(await food.getMealCount());
-
-      // Ensure FOOD_ITEMS length aligns but fallback to contract length
+      const food = getFoodSystemContract(provider);
+      const mealCount: number = Number(await chainReads.read<bigint>(food, 'getMealCount', [], { ttlMs: STATIC_READ_TTL_MS }));
+
+      // Meal ids are indexes into the on-chain catalog (see useMealCatalog)
       const ids = [...Array(mealCount).keys()];
 
       const newStatuses: MealStatus[] = [];
@@ -113,29 +87,43 @@ export function useMealStatuses(refreshInterval = 60000) { // Increased default
       // Removed excessive logging and unused variable
       // console.log(`[${new Date().toISOString()}] Fetching meal statuses with timestamp ${timestamp}`);
 
-      await Promise.all(ids.map(async (id) => {
-        const results = await Promise.all(
-          currentMiners.map((miner: number) => food.canEatMeal(miner, id))
-        );
+      // Batch every (miner, meal) eligibility check into a single multicall
+      const multicall = new MulticallService(provider);
+      const results = await chainReads.query(
+        readKey(String(food.target), 'canEatMeal', [currentMiners, ids]),
+        () => multicall.aggregate(
+          ids.flatMap((id) => currentMiners.map((miner: number) => encodeCall(food, 'canEatMeal', [miner, id])))
+        ),
+        { scopes: ['meals'], force }
+      );
+
+      ids.forEach((id, mealIndex) => {
+        const mealResults = results.slice(mealIndex * currentMiners.length, (mealIndex + 1) * currentMiners.length);
 
         let mealCanEat = true;
         let worstTimeUntil = 0;
-        for (const [canEat, time] of results) {
+        for (const result of mealResults) {
+          if (!result.success) {
+            // Unknown eligibility is treated as not available
+            mealCanEat = false;
+            continue;
+          }
+          const { canEat, timeUntilAvailable } = result.value;
           if (!canEat) {
             mealCanEat = false;
-            const t = Number(time);
+            const t = Number(timeUntilAvailable);
             if (t > worstTimeUntil) worstTimeUntil = t;
           }
         }
         newStatuses.push({ id, canEat: mealCanEat, timeUntil: worstTimeUntil });
-      }));
+      });
       setStatuses(newStatuses);
       setLoading(false);
     } catch (e) {
       console.error('Failed to fetch meal statuses', e);
       setLoading(false);
     }
-  }, [connector, lastFetchTime, fetchStakedMiners]);
+  }, [connector, fetchStakedMiners]);
 
   // Fetch staked miners initially and when dependencies change
   useEffect(() => {
@@ -148,20 +136,19 @@ export function useMealStatuses(refreshInterval = 60000) { // Increased default
   useEffect(() => {
     // Initial fetch after a slight delay to avoid immediate load
     const initialFetchTimer = setTimeout(() => fetchStatuses(true), 500);
+    return () => clearTimeout(initialFetchTimer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // Only on mount; later refreshes come from contract events
 
-    // Use a more stable interval refresh with a longer interval
-    const t = setInterval(() => fetchStatuses(false), refreshInterval);
-
-    // Clean up both timers on unmount
-    return () => {
-      clearTimeout(initialFetchTimer);
-      clearInterval(t);
-    };
-  }, [refreshInterval]); // Remove fetchStatuses dependency to prevent recreation of interval
+  // Refresh when the wallet's miners eat, stake or unstake; poll every refreshInterval only without live events
+  useChainEvents('meals', () => fetchStatuses(false), refreshInterval);
 
   // Expose a refetch method
   const refetch = useCallback(() => fetchStatuses(true), [fetchStatuses]);
 
+  // Meal availability changes whenever miners eat, join or leave
+  useTransactionEvent(['feedMiners', 'stakeMiner', 'unstakeMiner', 'completeExpedition'], refetch);
+
   return {
     statuses,
     loading,
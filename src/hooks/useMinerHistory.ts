@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import { useTransactionEvent } from '@/hooks/useTransactions';
+import MinerHistoryService, { ExpeditionRecord, HistoryProgress, MinerStatistics } from '@/services/MinerHistoryService';
+
+/**
+ * Loads lifetime statistics and expedition history for one miner. Cached history
+ * renders immediately while new blocks are indexed, and both reload after the
+ * miner is fed or an expedition starts or completes. Pass null to stay idle.
+ */
+export function useMinerHistory(minerId: number | null) {
+  const { connector } = useRoninWallet();
+  const [statistics, setStatistics] = useState<MinerStatistics | null>(null);
+  const [history, setHistory] = useState<ExpeditionRecord[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [progress, setProgress] = useState<HistoryProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const service = useMemo(() => {
+    const provider = connector?.provider
+      ? new ethers.BrowserProvider(connector.provider)
+      : new ethers.JsonRpcProvider(getRpcUrl());
+    return new MinerHistoryService(provider);
+  }, [connector]);
+
+  const refetch = useCallback(async () => {
+    if (minerId === null) return;
+    setSyncing(true);
+    setError(null);
+    try {
+      const cached = await service.getCachedHistory(minerId);
+      if (cached.length > 0) setHistory(cached);
+
+      const [stats, records] = await Promise.all([
+        service.getStatistics(minerId),
+        service.getHistory(minerId, setProgress),
+      ]);
+      setStatistics(stats);
+      setHistory(records);
+    } catch (err) {
+      console.error(`Error loading history for miner ${minerId}:`, err);
+      setError('Failed to load the latest miner history. Showing cached results.');
+    } finally {
+      setSyncing(false);
+      setProgress(null);
+    }
+  }, [service, minerId]);
+
+  useEffect(() => {
+    setStatistics(null);
+    setHistory([]);
+    refetch();
+  }, [refetch]);
+
+  useTransactionEvent(['feedMiners', 'startExpedition', 'completeExpedition'], refetch);
+
+  return {
+    statistics,
+    history,
+    syncing,
+    progress,
+    error,
+    refetch,
+  };
+}
+
+export default useMinerHistory;
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import {
+  MinerMetadataService,
+  MinerMetadata,
+  defaultMinerMetadata,
+} from '@/services/MinerMetadataService';
+
+/**
+ * Resolves the tokenURI metadata of a set of miners. Each miner shows the
+ * generic name and art until its own metadata arrives.
+ * @param tokenIds - Miner token IDs
+ */
+export function useMinerMetadata(tokenIds: number[]) {
+  const { connector } = useRoninWallet();
+  const [metadata, setMetadata] = useState<Record<number, MinerMetadata>>({});
+  const [loading, setLoading] = useState(false);
+
+  const provider = useMemo(
+    () => (connector?.provider ? new ethers.BrowserProvider(connector.provider) : new ethers.JsonRpcProvider(getRpcUrl())),
+    [connector]
+  );
+
+  // Stable across renders that pass a new array with the same IDs
+  const idsKey = [...new Set(tokenIds)].sort((a, b) => a - b).join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',').map(Number) : [];
+    if (ids.length === 0) return;
+
+    let cancelled = false;
+    const service = new MinerMetadataService(provider);
+    setLoading(true);
+    Promise.all(
+      ids.map((tokenId) =>
+        service.getMetadata(tokenId).then((result) => {
+          if (!cancelled) setMetadata((current) => ({ ...current, [tokenId]: result }));
+        })
+      )
+    ).finally(() => {
+      if (!cancelled) setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, idsKey]);
+
+  const getMetadata = useCallback(
+    (tokenId: number) => metadata[tokenId] ?? defaultMinerMetadata(tokenId),
+    [metadata]
+  );
+
+  return {
+    metadata,
+    getMetadata,
+    loading,
+  };
+}
+
+export default useMinerMetadata;
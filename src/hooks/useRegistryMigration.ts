@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { getRpcUrl } from '@/config/contracts';
+import {
+  RegistryMigrationService,
+  AuditReport,
+  AuditTarget,
+  HealingJob,
+  HealProgress,
+  ReconciliationReport,
+  ScanProgress,
+} from '@/services/contracts/RegistryMigrationService';
+
+/**
+ * Drives the registry migration dashboard: audits both MinerNFT registries, runs the
+ * checkpointed healing job against the new registry and reconciles the result. An
+ * unfinished job from an earlier session is loaded on mount so it can be resumed.
+ */
+export function useRegistryMigration() {
+  const { connector } = useRoninWallet();
+  const [report, setReport] = useState<AuditReport | null>(null);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [job, setJob] = useState<HealingJob | null>(null);
+  const [healProgress, setHealProgress] = useState<HealProgress | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [healing, setHealing] = useState(false);
+  const [reconciling, setReconciling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequested = useRef(false);
+
+  const service = useMemo(
+    () =>
+      new RegistryMigrationService(
+        connector?.provider ? new ethers.BrowserProvider(connector.provider) : new ethers.JsonRpcProvider(getRpcUrl())
+      ),
+    [connector]
+  );
+
+  useEffect(() => {
+    service.loadJob().then(setJob);
+  }, [service]);
+
+  const scan = useCallback(
+    async (target: AuditTarget) => {
+      setScanning(true);
+      setError(null);
+      setReport(null);
+      setScanProgress(null);
+      try {
+        setReport(await service.audit(target, setScanProgress));
+      } catch (err) {
+        console.error('Error auditing registries:', err);
+        setError(err instanceof Error ? err.message : 'Failed to audit the registries');
+      } finally {
+        setScanning(false);
+      }
+    },
+    [service]
+  );
+
+  const runJob = useCallback(
+    async (target: HealingJob, batchSize: number) => {
+      stopRequested.current = false;
+      setHealing(true);
+      setError(null);
+      try {
+        const finished = await service.heal(target, {
+          batchSize,
+          onProgress: (progress) => {
+            setHealProgress(progress);
+            setJob({ ...target, actions: [...target.actions] });
+          },
+          shouldStop: () => stopRequested.current,
+        });
+        setJob({ ...finished, actions: [...finished.actions] });
+      } catch (err) {
+        console.error('Error healing registry:', err);
+        setError(err instanceof Error ? err.message : 'Failed to heal the registry');
+      } finally {
+        setHealing(false);
+      }
+    },
+    [service]
+  );
+
+  /**
+   * Starts a new healing job from the current audit
+   */
+  const heal = useCallback(
+    async (batchSize: number) => {
+      if (!report) return;
+      const actions = service.planHealing(report);
+      if (actions.length === 0) return;
+      setReconciliation(null);
+      try {
+        const created = await service.createJob(actions);
+        setJob(created);
+        await runJob(created, batchSize);
+      } catch (err) {
+        console.error('Error creating healing job:', err);
+        setError(err instanceof Error ? err.message : 'Failed to start healing');
+      }
+    },
+    [report, service, runJob]
+  );
+
+  const resume = useCallback(
+    async (batchSize: number) => {
+      if (job) await runJob(job, batchSize);
+    },
+    [job, runJob]
+  );
+
+  const reconcile = useCallback(async () => {
+    if (!job) return;
+    setReconciling(true);
+    setError(null);
+    try {
+      setReconciliation(await service.reconcile(job));
+    } catch (err) {
+      console.error('Error reconciling registry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reconcile the registry');
+    } finally {
+      setReconciling(false);
+    }
+  }, [job, service]);
+
+  const discardJob = useCallback(async () => {
+    await service.clearJob();
+    setJob(null);
+    setHealProgress(null);
+    setReconciliation(null);
+  }, [service]);
+
+  return {
+    registries: service.getRegistryAddresses(),
+    report,
+    scanProgress,
+    plannedActions: report ? service.planHealing(report) : [],
+    job,
+    healProgress,
+    reconciliation,
+    scanning,
+    healing,
+    reconciling,
+    error,
+    scan,
+    heal,
+    resume,
+    stop: () => {
+      stopRequested.current = true;
+    },
+    reconcile,
+    discardJob,
+  };
+}
+
+export default useRegistryMigration;
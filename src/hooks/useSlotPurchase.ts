@@ -0,0 +1,117 @@
+import { useState, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useRoninWallet } from '@/services/wallet/RoninWalletProvider';
+import { useTransactions } from '@/hooks/useTransactions';
+import SlotPurchaseService, { SlotLimits, SlotQuote } from '@/services/contracts/SlotPurchaseService';
+
+/**
+ * Slot-upgrade flow: reads the wallet's slot capacity, quotes and simulates a purchase
+ * of any size, and buys all selected slots in one tracked transaction.
+ */
+export function useSlotPurchase() {
+  const { connector, address } = useRoninWallet();
+  const { execute } = useTransactions();
+  const [limits, setLimits] = useState<SlotLimits | null>(null);
+  const [maxAffordable, setMaxAffordable] = useState(0);
+  const [quote, setQuote] = useState<SlotQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [quoting, setQuoting] = useState(false);
+  const [purchasing, setPurchasing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const service = useMemo(() => {
+    if (!connector?.provider) return null;
+    return new SlotPurchaseService(new ethers.BrowserProvider(connector.provider));
+  }, [connector]);
+
+  /**
+   * Reloads slot capacity only, without simulating purchases
+   * @returns The limits, or null without a connected wallet
+   */
+  const loadLimits = useCallback(async () => {
+    if (!service || !address) return null;
+    const nextLimits = await service.getSlotLimits(address);
+    setLimits(nextLimits);
+    return nextLimits;
+  }, [service, address]);
+
+  /**
+   * Reloads slot capacity and the largest purchase the contracts accept
+   */
+  const refresh = useCallback(async () => {
+    if (!service || !address) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const nextLimits = await loadLimits();
+      if (nextLimits) {
+        setMaxAffordable(await service.findMaxAffordable(address, nextLimits.remaining));
+      }
+    } catch (err) {
+      console.error('Error loading slot limits:', err);
+      setError('Failed to load your slot balance. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [service, address, loadLimits]);
+
+  const loadQuote = useCallback(async (count: number) => {
+    if (!service || !address || count <= 0) {
+      setQuote(null);
+      return;
+    }
+    setQuoting(true);
+    try {
+      setQuote(await service.getQuote(address, count));
+    } catch (err) {
+      console.error('Error quoting slot purchase:', err);
+      setError('Failed to preview the slot cost. Please try again.');
+    } finally {
+      setQuoting(false);
+    }
+  }, [service, address]);
+
+  /**
+   * Buys `count` slots; resolves with the receipt, or null if the purchase failed
+   * (failures are already reported by the transaction manager)
+   */
+  const purchase = useCallback(async (count: number) => {
+    if (!service) {
+      setError('Connect your wallet to buy slots.');
+      return null;
+    }
+    setPurchasing(true);
+    try {
+      return await execute(
+        {
+          kind: 'purchaseSlots',
+          meta: { count },
+          description: `Purchase ${count} miner slot${count === 1 ? '' : 's'}`,
+        },
+        () => service.purchase(count)
+      );
+    } catch (err) {
+      console.error('Slot purchase failed:', err);
+      return null;
+    } finally {
+      setPurchasing(false);
+      refresh();
+    }
+  }, [service, execute, refresh]);
+
+  return {
+    limits,
+    maxAffordable,
+    quote,
+    loading,
+    quoting,
+    purchasing,
+    error,
+    refresh,
+    loadLimits,
+    loadQuote,
+    purchase,
+  };
+}
+
+export default useSlotPurchase;
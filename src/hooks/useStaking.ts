@@ -8,10 +8,12 @@ import { ethers } from 'ethers';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { BALANCE_REFRESH_EVENT } from '../components/WalletConnector';
 import { getContractAddress } from '../config/contracts';
-import NFTService, { NFT } from '../services/contracts/NFTService';
+import MinerInventoryService, { NFT, StrategyReport } from '../services/contracts/MinerInventoryService';
+import RegistryHealingService, { RegistryDivergence, RegistryDivergenceError } from '../services/contracts/RegistryHealingService';
 import StakingService from '../services/contracts/StakingService';
 import StakingSyncService, { StakingData } from '../services/StakingSyncService';
 import { useRoninWallet } from '../services/wallet/RoninWalletProvider';
+import { useTransactionEvent, useTransactions } from './useTransactions';
 
 // Define types for staking operations
 export interface StakingState {
@@ -24,6 +26,9 @@ export interface StakingState {
   error: string | null;
   availableMiners: NFT[];
   loadingMiners: boolean;
+  minerDiscovery: StrategyReport[]; // How the last miner lookup was answered
+  unregisteredMiners: number[]; // Available miners the registry does not list under the wallet
+  registryRepair: RegistryDivergence | null; // Registry entry that made the last stake fail
   autoSyncEnabled: boolean; // Whether auto-sync is enabled
   estimatedRewards: string; // Locally estimated rewards that update in real-time
 }
@@ -31,9 +36,11 @@ export interface StakingState {
 export function useStaking() {
   // Get wallet context from RoninWallet provider
   const { isConnected, connector, address } = useRoninWallet();
+  const { execute } = useTransactions();
   const [stakingService, setStakingService] = useState<StakingService | null>(null);
-  const [nftService, setNftService] = useState<NFTService | null>(null);
+  const [nftService, setNftService] = useState<MinerInventoryService | null>(null);
   const [syncService, setSyncService] = useState<StakingSyncService | null>(null);
+  const [registryHealing, setRegistryHealing] = useState<RegistryHealingService | null>(null);
 
   // References for cleanup and intervals
   const cleanupSyncRef = useRef<(() => void) | null>(null);
@@ -50,6 +57,9 @@ export function useStaking() {
     error: null,
     availableMiners: [],
     loadingMiners: false,
+    minerDiscovery: [],
+    unregisteredMiners: [],
+    registryRepair: null,
     autoSyncEnabled: false,
     estimatedRewards: '0'
   });
@@ -64,13 +74,15 @@ export function useStaking() {
 
         // Initialize services
         const stakingService = new StakingService(provider);
-        const nftService = new NFTService(provider);
+        const nftService = new MinerInventoryService(provider);
         const syncService = new StakingSyncService(provider);
+        const registryHealing = new RegistryHealingService(provider);
 
         // Set services in state
         setStakingService(stakingService);
         setNftService(nftService);
         setSyncService(syncService);
+        setRegistryHealing(registryHealing);
 
         // Get initial contract state
         refreshStakingData();
@@ -205,22 +217,31 @@ export function useStaking() {
 
     try {
       console.log(`Fetching NFTs for wallet ${address}...`);
-      // Get all NFTs owned by the connected address using the updated NFTService
-      const ownedNFTs = await nftService.getOwnedNFTs(address);
-
-      console.log(`Successfully fetched ${ownedNFTs.length} NFTs:`, ownedNFTs.map(nft => nft.id));
-
       // Filter out already staked miners - use the ref to avoid dependency issues
-      const availableForStaking = ownedNFTs.filter(nft =>
+      const notStaked = (nfts: NFT[]) => nfts.filter(nft =>
         !stakedMinersRef.current.includes(Number(nft.id))
       );
 
+      // Miners appear as they are found, before the slowest lookups finish
+      const inventory = await nftService.getOwnedMiners(address, (progress) => {
+        setState(prev => ({ ...prev, availableMiners: notStaked(progress.miners) }));
+      });
+
+      console.log(
+        `Successfully fetched ${inventory.miners.length} of ${inventory.balance} NFTs via ${inventory.source ?? 'partial sources'}:`,
+        inventory.miners.map(nft => nft.id)
+      );
+
+      const availableForStaking = notStaked(inventory.miners);
+
       console.log(`${availableForStaking.length} NFTs available for staking`);
 
       setState(prev => ({
         ...prev,
         availableMiners: availableForStaking,
         loadingMiners: false,
+        minerDiscovery: inventory.reports,
+        unregisteredMiners: inventory.unregistered,
         error: null
       }));
     } catch (error) {
@@ -357,11 +378,10 @@ export function useStaking() {
     if (!isApproved) {
       console.log(`NFT #${tokenId} not approved. Sending approval transaction...`);
       // If not approved, send approval transaction first
-      const approveTx = await nftService.approveNFT(tokenId, stakingContractAddress);
-
-      // Wait for approval transaction to be mined
-      console.log('Waiting for approval transaction to be mined...');
-      await approveTx.wait();
+      await execute(
+        { kind: 'approveNFT', meta: { minerId: tokenId }, description: `Approve Miner #${tokenId} for staking` },
+        () => nftService.approveNFT(tokenId, stakingContractAddress)
+      );
       console.log('Approval transaction mined successfully!');
     } else {
       console.log(`NFT #${tokenId} is already approved for staking`);
@@ -369,13 +389,13 @@ export function useStaking() {
 
     // Now that the NFT is approved, stake it
     console.log(`Staking NFT #${tokenId}...`);
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setState(prev => ({ ...prev, isLoading: true, error: null, registryRepair: null }));
 
     try {
-      const tx = await stakingService.stakeMiner(tokenId);
-
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
+      const receipt = await execute(
+        { kind: 'stakeMiner', meta: { minerId: tokenId }, description: `Stake Miner #${tokenId}` },
+        () => stakingService.stakeMiner(tokenId)
+      );
       console.log('Staking transaction confirmed:', receipt);
 
       // Refresh staking data after successful transaction
@@ -384,19 +404,59 @@ export function useStaking() {
       // Trigger GEMS balance refresh after successful operation
       window.dispatchEvent(new Event(BALANCE_REFRESH_EVENT));
 
-      return tx;
+      return receipt;
     } catch (error) {
       console.error('Error staking miner:', error);
+
+      // A revert may come from an out-of-date registry entry, which can be repaired and retried
+      const explained = await stakingService.explainStakeFailure(tokenId, error);
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: error instanceof Error ? error.message : 'Failed to stake miner'
+        registryRepair: explained instanceof RegistryDivergenceError ? explained.divergence : null,
+        error: explained instanceof Error ? explained.message : 'Failed to stake miner'
       }));
       return null;
     } finally {
       setState(prev => ({ ...prev, isLoading: false }));
     }
-  }, [stakingService, nftService, refreshStakingData]);
+  }, [stakingService, nftService, execute, refreshStakingData]);
+
+  // Repair the registry entry that made the last stake fail, then stake the miner again
+  const repairRegistryAndStake = useCallback(async () => {
+    const divergence = state.registryRepair;
+    if (!divergence || !registryHealing) {
+      return null;
+    }
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      await execute(
+        { kind: 'repairRegistry', meta: { minerId: divergence.tokenId }, description: `Repair registry entry of Miner #${divergence.tokenId}` },
+        () => registryHealing.repair(divergence)
+      );
+    } catch (error) {
+      console.error('Error repairing registry:', error);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to repair the registry'
+      }));
+      return null;
+    }
+
+    setState(prev => ({
+      ...prev,
+      registryRepair: null,
+      unregisteredMiners: prev.unregisteredMiners.filter(id => id !== divergence.tokenId)
+    }));
+    return stakeMiner(divergence.tokenId);
+  }, [state.registryRepair, registryHealing, execute, stakeMiner]);
+
+  const dismissRegistryRepair = useCallback(() => {
+    setState(prev => ({ ...prev, registryRepair: null }));
+  }, []);
 
   // Unstake a miner NFT
   const unstakeMiner = useCallback(async (tokenId: number) => {
@@ -408,10 +468,10 @@ export function useStaking() {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const tx = await stakingService.unstakeMiner(tokenId);
-
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
+      const receipt = await execute(
+        { kind: 'unstakeMiner', meta: { minerId: tokenId }, description: `Unstake Miner #${tokenId}` },
+        () => stakingService.unstakeMiner(tokenId)
+      );
       console.log('Unstaking transaction confirmed:', receipt);
 
       // Refresh staking data after successful transaction
@@ -420,7 +480,7 @@ export function useStaking() {
       // Trigger GEMS balance refresh after successful operation
       window.dispatchEvent(new Event(BALANCE_REFRESH_EVENT));
 
-      return tx;
+      return receipt;
     } catch (error) {
       console.error('Error unstaking miner:', error);
       setState(prev => ({
@@ -432,7 +492,7 @@ export function useStaking() {
     } finally {
       setState(prev => ({ ...prev, isLoading: false }));
     }
-  }, [stakingService, refreshStakingData]);
+  }, [stakingService, execute, refreshStakingData]);
 
   // Unstake multiple miners at once
   const unstakeMiners = useCallback(async (tokenIds: number[]) => {
@@ -480,10 +540,10 @@ export function useStaking() {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const tx = await stakingService.claimRewards();
-
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
+      const receipt = await execute(
+        { kind: 'claimRewards', meta: { amount: state.pendingRewards }, description: `Claim ${Number(state.pendingRewards).toFixed(4)} GEMS` },
+        () => stakingService.claimRewards()
+      );
       console.log('Claim rewards transaction confirmed:', receipt);
 
       // Refresh staking data after successful transaction
@@ -492,7 +552,7 @@ export function useStaking() {
       // Trigger GEMS balance refresh after successful operation
       window.dispatchEvent(new Event(BALANCE_REFRESH_EVENT));
 
-      return tx;
+      return receipt;
     } catch (error) {
       console.error('Error claiming rewards:', error);
       setState(prev => ({
@@ -504,7 +564,7 @@ export function useStaking() {
     } finally {
       setState(prev => ({ ...prev, isLoading: false }));
     }
-  }, [stakingService, refreshStakingData]);
+  }, [stakingService, execute, state.pendingRewards, refreshStakingData]);
 
   const getUserPurchasedSlots = useCallback(async () => {
     if (!stakingService || !address) {
@@ -566,10 +626,20 @@ export function useStaking() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [state.stakedMiners, isConnected, address]);
 
+  // Keep every instance of the hook in sync with transactions sent from other components
+  useTransactionEvent(
+    ['stakeMiner', 'unstakeMiner', 'claimRewards', 'purchaseSlots', 'completeExpedition', 'bankDeposit', 'bankWithdraw'],
+    () => {
+      refreshStakingData();
+    }
+  );
+
   // Return the hook's public API
   return {
     ...state,
     stakeMiner,
+    repairRegistryAndStake,
+    dismissRegistryRepair,
     unstakeMiner,
     unstakeMiners,
     claimRewards,
@@ -0,0 +1,71 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import type { TransactionReceipt, TransactionResponse } from 'ethers';
+import transactionEvents, {
+  TrackedTransaction,
+  TransactionCompletedEvent,
+  TransactionKind,
+  TransactionKindMap,
+} from '@/services/transactions/TransactionEvents';
+
+export type NotificationVariant = 'info' | 'success' | 'error';
+
+/**
+ * Describes a transaction about to be sent through the manager
+ */
+export interface TransactionRequest<K extends TransactionKind> {
+  kind: K;
+  meta: TransactionKindMap[K];
+  description: string;
+}
+
+export interface TransactionContextValue {
+  transactions: TrackedTransaction[];
+  /**
+   * Sends a transaction and tracks it until it confirms, fails or is replaced.
+   * Resolves with the receipt; rejects with TransactionFailedError (already toasted).
+   */
+  execute<K extends TransactionKind>(
+    request: TransactionRequest<K>,
+    send: () => Promise<TransactionResponse>
+  ): Promise<TransactionReceipt | null>;
+  /** Shows a non-blocking toast (replaces alert()) */
+  notify(message: string, variant?: NotificationVariant): void;
+}
+
+export const TransactionContext = createContext<TransactionContextValue | null>(null);
+
+/**
+ * Accesses the transaction manager provided by TransactionProvider
+ */
+export function useTransactions(): TransactionContextValue {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error('useTransactions must be used inside a TransactionProvider');
+  }
+  return context;
+}
+
+/**
+ * Runs `handler` whenever a transaction of one of the given kinds confirms
+ * @param kinds - Transaction kinds to listen for
+ * @param handler - Callback; the latest closure is always used
+ */
+export function useTransactionEvent<K extends TransactionKind>(
+  kinds: K | K[],
+  handler: (event: TransactionCompletedEvent<K>) => void
+) {
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  const kindKey = Array.isArray(kinds) ? kinds.join(',') : kinds;
+  useEffect(() => {
+    const unsubscribes = (kindKey.split(',') as K[]).map((kind) =>
+      transactionEvents.on(kind, (event) => handlerRef.current(event))
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [kindKey]);
+}
+
+export default useTransactions;
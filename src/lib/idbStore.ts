@@ -0,0 +1,82 @@
+/**
+ * Minimal promise-based key/value store on top of IndexedDB.
+ * Falls back to an in-memory map when IndexedDB is unavailable (private mode, SSR),
+ * so callers can treat persistence as best-effort.
+ */
+
+export interface IdbStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+const DB_VERSION = 1;
+
+function requestToPromise<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(dbName: string, storeName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createMemoryStore<T>(): IdbStore<T> {
+  const map = new Map<string, T>();
+  return {
+    get: async (key) => map.get(key),
+    set: async (key, value) => {
+      map.set(key, value);
+    },
+    delete: async (key) => {
+      map.delete(key);
+    },
+    keys: async () => [...map.keys()],
+  };
+}
+
+/**
+ * Opens (lazily) a single-object-store database
+ * @param dbName - IndexedDB database name; use one database per store
+ * @param storeName - Object store name
+ */
+export function createIdbStore<T>(dbName: string, storeName: string): IdbStore<T> {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryStore<T>();
+  }
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName, storeName).catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    const db = await dbPromise;
+    return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: (key) => withStore<T | undefined>('readonly', (store) => store.get(key)),
+    set: async (key, value) => {
+      await withStore('readwrite', (store) => store.put(value, key));
+    },
+    delete: async (key) => {
+      await withStore('readwrite', (store) => store.delete(key));
+    },
+    keys: async () => (await withStore('readonly', (store) => store.getAllKeys())).map(String),
+  };
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createChunkSize, DEFAULT_CHUNK_SIZE, GROW_AFTER_SUCCESSES, isRangeLimitError, scanBlocks } from './logScanner';
+
+const rangeError = () => Object.assign(new Error('could not coalesce error'), {
+  info: { error: { code: -32005, message: 'query returned more than 10000 results' } },
+});
+
+describe('scanBlocks', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('halves the window on range errors and grows it back after successful windows', async () => {
+    const chunkSize = createChunkSize();
+    const windows: number[] = [];
+    let failures = 1;
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await scanBlocks({
+      fromBlock: 0,
+      toBlock: 20_000,
+      chunkSize,
+      fetch: async (fromBlock, toBlock) => {
+        if (failures-- > 0) throw rangeError();
+        windows.push(toBlock - fromBlock + 1);
+      },
+      onChunk: () => {},
+    });
+
+    expect(windows.slice(0, GROW_AFTER_SUCCESSES)).toEqual(Array(GROW_AFTER_SUCCESSES).fill(DEFAULT_CHUNK_SIZE / 2));
+    expect(windows[GROW_AFTER_SUCCESSES]).toBe(DEFAULT_CHUNK_SIZE);
+    expect(chunkSize.current).toBe(DEFAULT_CHUNK_SIZE);
+  });
+
+  it('rethrows errors that a smaller window would not fix', async () => {
+    const chunkSize = createChunkSize();
+    await expect(
+      scanBlocks({
+        fromBlock: 0,
+        toBlock: 10_000,
+        chunkSize,
+        fetch: async () => {
+          throw new Error('network error');
+        },
+        onChunk: () => {},
+      })
+    ).rejects.toThrow('network error');
+    expect(chunkSize.current).toBe(DEFAULT_CHUNK_SIZE);
+  });
+});
+
+describe('isRangeLimitError', () => {
+  it('recognises limit errors by JSON-RPC code or message, including wrapped ones', () => {
+    expect(isRangeLimitError(rangeError())).toBe(true);
+    expect(isRangeLimitError({ code: -32005, message: 'limit' })).toBe(true);
+    expect(isRangeLimitError(new Error('block range is too large'))).toBe(true);
+    expect(isRangeLimitError(new Error('missing response'))).toBe(false);
+    expect(isRangeLimitError(null)).toBe(false);
+  });
+});
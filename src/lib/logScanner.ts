@@ -0,0 +1,196 @@
+/**
+ * Chunked eth_getLogs scanning shared by the event indexers.
+ * scanBlocks walks a block range in windows that halve when the RPC rejects a query for
+ * its range or result size, and grow back after a run of successful windows; any other
+ * error is rethrown. createCheckpointedScanner builds on it to keep an
+ * IndexedDB snapshot per key that is folded forward chunk by chunk, so later syncs only
+ * fetch blocks produced since the previous one.
+ */
+
+import { getEventsStartBlock } from '../config/contracts';
+import { createIdbStore } from './idbStore';
+
+// Blocks per eth_getLogs request; halved on range/limit errors down to MIN_CHUNK_SIZE
+export const DEFAULT_CHUNK_SIZE = 2000;
+export const MIN_CHUNK_SIZE = 50;
+// Consecutive successful windows after which a shrunk window doubles again, up to DEFAULT_CHUNK_SIZE
+export const GROW_AFTER_SUCCESSES = 5;
+// JSON-RPC code for "limit exceeded", and the messages RPC nodes use for oversized log queries
+const LIMIT_EXCEEDED_CODE = -32005;
+const LIMIT_ERROR_PATTERN = /block range|range (is )?too (large|wide|big)|exceeds? (the )?(max|limit)|limit exceeded|more than \d+ results|too many (results|logs|blocks)|response size|query timeout/i;
+// Blocks behind the head left unindexed so short reorgs never corrupt a snapshot
+export const CONFIRMATIONS = 3;
+
+/**
+ * Current window size; share one between scans so they keep the size the RPC accepted
+ */
+export interface ChunkSize {
+  current: number;
+  successes: number;                     // Consecutive windows fetched at the current size
+}
+
+export interface BlockScanOptions<T> {
+  fromBlock: number;
+  toBlock: number;
+  direction?: 'forward' | 'backward';   // Backward scans start at toBlock
+  chunkSize?: ChunkSize;
+  label?: string;                        // Names the query in retry warnings
+  fetch: (fromBlock: number, toBlock: number) => Promise<T>;
+  // Handles one window's result; returning true ends the scan
+  onChunk: (result: T, fromBlock: number, toBlock: number) => boolean | void | Promise<boolean | void>;
+}
+
+/**
+ * Persisted scan state; implementations add their aggregates
+ */
+export interface ScanSnapshot {
+  version: number;
+  lastIndexedBlock: number;
+}
+
+/**
+ * Scan progress reported while catching up with the chain
+ */
+export interface ScanProgress {
+  fromBlock: number;
+  toBlock: number;
+  currentBlock: number;
+}
+
+export interface CheckpointedScannerOptions<S extends ScanSnapshot> {
+  dbName: string;                        // IndexedDB database holding the snapshots
+  label: string;                         // Names the snapshot in warnings, e.g. 'leaderboard cache'
+  version: number;                       // Bump when the snapshot shape changes to discard incompatible snapshots
+  empty: () => Omit<S, keyof ScanSnapshot>;
+}
+
+export interface CheckpointedSyncOptions<S extends ScanSnapshot, T> {
+  head: () => number | Promise<number>;  // Latest block; the scan stops CONFIRMATIONS blocks behind it
+  fetch: (fromBlock: number, toBlock: number) => Promise<T>;
+  apply: (snapshot: S, result: T) => void;
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+export interface CheckpointedScanner<S extends ScanSnapshot> {
+  load(key: string): Promise<S>;
+  sync<T>(key: string, options: CheckpointedSyncOptions<S, T>): Promise<S>;
+}
+
+/**
+ * Creates a chunk size starting at DEFAULT_CHUNK_SIZE
+ */
+export function createChunkSize(): ChunkSize {
+  return { current: DEFAULT_CHUNK_SIZE, successes: 0 };
+}
+
+/**
+ * Whether an eth_getLogs failure means the window was too large (block range or result limits),
+ * as opposed to a network or node error that a smaller window would not fix
+ */
+export function isRangeLimitError(error: unknown): boolean {
+  const seen = new Set<unknown>();
+  const visit = (value: unknown): boolean => {
+    if (!value || typeof value !== 'object' || seen.has(value)) return false;
+    seen.add(value);
+    const { code, message, shortMessage, error: inner, info } = value as {
+      code?: unknown; message?: unknown; shortMessage?: unknown; error?: unknown; info?: { error?: unknown };
+    };
+    if (code === LIMIT_EXCEEDED_CODE) return true;
+    if ([message, shortMessage].some((text) => typeof text === 'string' && LIMIT_ERROR_PATTERN.test(text))) return true;
+    // ethers wraps the node's JSON-RPC error in `error` or `info.error`
+    return visit(inner) || visit(info?.error);
+  };
+  return visit(error);
+}
+
+/**
+ * Scans a block range window by window. The window halves when the RPC rejects a query for
+ * its size and doubles again after GROW_AFTER_SUCCESSES successful windows.
+ * @throws Errors that are not range/limit errors, and range/limit errors once the window is
+ * already at MIN_CHUNK_SIZE
+ */
+export async function scanBlocks<T>(options: BlockScanOptions<T>): Promise<void> {
+  const { fromBlock, toBlock, direction = 'forward', chunkSize = createChunkSize(), label = 'Log query', fetch, onChunk } = options;
+
+  let cursor = direction === 'forward' ? fromBlock : toBlock;
+  while (direction === 'forward' ? cursor <= toBlock : cursor >= fromBlock) {
+    const start = direction === 'forward' ? cursor : Math.max(fromBlock, cursor - chunkSize.current + 1);
+    const end = direction === 'forward' ? Math.min(cursor + chunkSize.current - 1, toBlock) : cursor;
+    let result: T;
+    try {
+      result = await fetch(start, end);
+    } catch (error) {
+      if (!isRangeLimitError(error) || chunkSize.current <= MIN_CHUNK_SIZE) {
+        throw error;
+      }
+      chunkSize.current = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize.current / 2));
+      chunkSize.successes = 0;
+      console.warn(`${label} for blocks ${start}-${end} exceeded the RPC limits, retrying with ${chunkSize.current}-block chunks`);
+      continue;
+    }
+
+    if (chunkSize.current < DEFAULT_CHUNK_SIZE && ++chunkSize.successes >= GROW_AFTER_SUCCESSES) {
+      chunkSize.current = Math.min(DEFAULT_CHUNK_SIZE, chunkSize.current * 2);
+      chunkSize.successes = 0;
+    }
+
+    if (await onChunk(result, start, end)) return;
+    cursor = direction === 'forward' ? end + 1 : start - 1;
+  }
+}
+
+/**
+ * Creates a scanner that keeps one snapshot per key, checkpointed after every chunk.
+ * Concurrent syncs of the same key share one scan.
+ */
+export function createCheckpointedScanner<S extends ScanSnapshot>(options: CheckpointedScannerOptions<S>): CheckpointedScanner<S> {
+  const store = createIdbStore<S>(options.dbName, 'snapshots');
+  const chunkSize = createChunkSize();
+  const inflight = new Map<string, Promise<S>>();
+
+  const load = async (key: string): Promise<S> => {
+    try {
+      const cached = await store.get(key);
+      if (cached && cached.version === options.version) {
+        return cached;
+      }
+    } catch (error) {
+      console.warn(`Failed to read ${options.label}, rebuilding from chain:`, error);
+    }
+    return { ...options.empty(), version: options.version, lastIndexedBlock: getEventsStartBlock() - 1 } as S;
+  };
+
+  const run = async <T>(key: string, sync: CheckpointedSyncOptions<S, T>): Promise<S> => {
+    const snapshot = await load(key);
+    const head = (await sync.head()) - CONFIRMATIONS;
+    const startBlock = snapshot.lastIndexedBlock + 1;
+
+    await scanBlocks({
+      fromBlock: startBlock,
+      toBlock: head,
+      chunkSize,
+      fetch: sync.fetch,
+      onChunk: async (result, _fromBlock, toBlock) => {
+        sync.apply(snapshot, result);
+        snapshot.lastIndexedBlock = toBlock;
+        await store.set(key, snapshot).catch((error) => {
+          console.warn(`Failed to persist ${options.label}:`, error);
+        });
+        sync.onProgress?.({ fromBlock: startBlock, toBlock: head, currentBlock: toBlock });
+      },
+    });
+    return snapshot;
+  };
+
+  return {
+    load,
+    sync: (key, sync) => {
+      let pending = inflight.get(key);
+      if (!pending) {
+        pending = run(key, sync).finally(() => inflight.delete(key));
+        inflight.set(key, pending);
+      }
+      return pending;
+    },
+  };
+}
@@ -2,11 +2,14 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import { RoninWalletProvider } from "./services/wallet/RoninWalletProvider";
+import { TransactionProvider } from "./contexts/TransactionContext";
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <RoninWalletProvider>
-      <App />
+      <TransactionProvider>
+        <App />
+      </TransactionProvider>
     </RoninWalletProvider>
   </StrictMode>
 );
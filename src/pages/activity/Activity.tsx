@@ -0,0 +1,163 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { HistoryIcon, InfoIcon } from "lucide-react";
+import { ACTIVITY_LABELS } from "@/constants/activity";
+import { useActivity } from "@/hooks/useActivity";
+import { useMealCatalog } from "@/hooks/useMealCatalog";
+import { ACTIVITY_TYPES, ActivityType } from "@/services/ActivityService";
+import { useRoninWallet } from "@/services/wallet/RoninWalletProvider";
+import ActivityExportPanel from "./ActivityExportPanel";
+import ActivityTable from "./ActivityTable";
+
+export default function Activity() {
+  const { address } = useRoninWallet();
+  const { meals } = useMealCatalog();
+  const {
+    entries,
+    all,
+    total,
+    miners,
+    types,
+    minerId,
+    page,
+    pageCount,
+    setPage,
+    filterTypes,
+    filterMiner,
+    syncing,
+    progress,
+    error,
+  } = useActivity();
+
+  const syncPercent =
+    progress && progress.toBlock > progress.fromBlock
+      ? Math.floor(
+          ((progress.currentBlock - progress.fromBlock) /
+            (progress.toBlock - progress.fromBlock)) *
+            100
+        )
+      : null;
+
+  const toggleType = (type: ActivityType) =>
+    filterTypes(
+      types.includes(type) ? types.filter((t) => t !== type) : [...types, type]
+    );
+
+  return (
+    <>
+      <div className="space-y-6 mb-12">
+        <div className="flex items-center justify-center">
+          <HistoryIcon className="h-10 w-10 text-amber-400 mr-3" />
+          <h1 className="text-5xl font-bold text-white text-center font-winky">
+            Account Activity
+          </h1>
+        </div>
+
+        <Alert className="bg-yellow-900/50 border-yellow-800 max-w-3xl mx-auto">
+          <InfoIcon className="h-5 w-5 text-amber-300" />
+          <AlertDescription className="text-amber-200 font-medium ml-2">
+            Everything that happened to your miners and gems, read directly
+            from the chain. Click a date to open the transaction on the Ronin
+            explorer.
+          </AlertDescription>
+        </Alert>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-4">
+        {!address ? (
+          <p className="text-center text-amber-300">
+            Connect your wallet to see your activity.
+          </p>
+        ) : (
+          <>
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => filterTypes([])}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                  types.length === 0
+                    ? "border-amber-400 bg-amber-900/40 text-amber-300"
+                    : "border-amber-500/20 text-amber-300/70 hover:border-amber-400/60"
+                }`}
+              >
+                All
+              </button>
+              {ACTIVITY_TYPES.map((type) => (
+                <button
+                  key={type}
+                  onClick={() => toggleType(type)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    types.includes(type)
+                      ? "border-amber-400 bg-amber-900/40 text-amber-300"
+                      : "border-amber-500/20 text-amber-300/70 hover:border-amber-400/60"
+                  }`}
+                >
+                  {ACTIVITY_LABELS[type].icon} {ACTIVITY_LABELS[type].label}
+                </button>
+              ))}
+              <select
+                value={minerId ?? ""}
+                onChange={(e) =>
+                  filterMiner(e.target.value === "" ? null : Number(e.target.value))
+                }
+                className="ml-auto bg-[#1a0d00] border border-amber-500/30 text-amber-300 text-sm rounded-lg px-3 py-1"
+              >
+                <option value="">All miners</option>
+                {miners.map((id) => (
+                  <option key={id} value={id}>
+                    Miner #{id}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {(syncing || error) && (
+              <div className="text-center text-sm">
+                {error ? (
+                  <span className="text-red-300">{error}</span>
+                ) : (
+                  <span className="text-amber-300/80">
+                    Syncing activity from the chain
+                    {syncPercent !== null
+                      ? ` (${syncPercent}%, block ${progress!.currentBlock.toLocaleString()})`
+                      : "..."}
+                  </span>
+                )}
+              </div>
+            )}
+
+            <ActivityTable
+              entries={entries}
+              meals={meals}
+              loading={syncing && total === 0}
+            />
+
+            {/* Pagination */}
+            {pageCount > 1 && (
+              <div className="flex items-center justify-center gap-4 text-amber-300">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 0}
+                  className="px-4 py-1 rounded-lg border border-amber-500/30 hover:bg-amber-900/30 disabled:opacity-40"
+                >
+                  Newer
+                </button>
+                <span className="text-sm">
+                  Page {page + 1} of {pageCount} · {total.toLocaleString()} entries
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount - 1}
+                  className="px-4 py-1 rounded-lg border border-amber-500/30 hover:bg-amber-900/30 disabled:opacity-40"
+                >
+                  Older
+                </button>
+              </div>
+            )}
+
+            <ActivityExportPanel entries={all} disabled={syncing} />
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,96 @@
+import { useMemo, useState } from "react";
+import { DownloadIcon } from "lucide-react";
+import {
+  buildActivityExport,
+  entriesInRange,
+  ExportFormat,
+  ExportGranularity,
+  toTransactionRows,
+} from "@/services/ActivityExport";
+import { ActivityEntry } from "@/services/ActivityService";
+import { downloadFile } from "@/lib/utils";
+
+interface ActivityExportPanelProps {
+  entries: ActivityEntry[];
+  disabled: boolean;
+}
+
+export default function ActivityExportPanel({
+  entries,
+  disabled,
+}: ActivityExportPanelProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const range = useMemo(
+    () => ({ from: from || null, to: to || null }),
+    [from, to]
+  );
+  const transactionCount = useMemo(
+    () => toTransactionRows(entriesInRange(entries, range)).length,
+    [entries, range]
+  );
+
+  const handleExport = (granularity: ExportGranularity, format: ExportFormat) => {
+    const file = buildActivityExport(entries, { range, granularity, format });
+    downloadFile(file.filename, file.mimeType, file.content);
+  };
+
+  const buttonClass =
+    "flex items-center gap-1 px-3 py-1 rounded-lg border border-amber-500/30 text-amber-300 text-sm hover:bg-amber-900/30 disabled:opacity-40";
+
+  return (
+    <div className="bg-[#2a1a0a]/90 border border-[#3a2410] rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <h2 className="text-amber-400 font-semibold">Export history</h2>
+          <p className="text-amber-300/60 text-xs">
+            Gems earned, spent on meals and net per transaction or per day
+            (UTC), plus slots bought, for your bookkeeping.
+          </p>
+        </div>
+        <label className="ml-auto text-amber-300/80 text-xs">
+          From
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="block bg-[#1a0d00] border border-amber-500/30 text-amber-300 text-sm rounded-lg px-2 py-1"
+          />
+        </label>
+        <label className="text-amber-300/80 text-xs">
+          To
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="block bg-[#1a0d00] border border-amber-500/30 text-amber-300 text-sm rounded-lg px-2 py-1"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-amber-300/60 text-xs mr-auto">
+          {transactionCount.toLocaleString()} transaction
+          {transactionCount === 1 ? "" : "s"} in range
+        </span>
+        {(["transaction", "day"] as const).map((granularity) =>
+          (["csv", "json"] as const).map((format) => (
+            <button
+              key={`${granularity}-${format}`}
+              onClick={() => handleExport(granularity, format)}
+              disabled={disabled || transactionCount === 0}
+              className={buttonClass}
+            >
+              <DownloadIcon className="h-4 w-4" />
+              {granularity === "day" ? "Daily" : "Transactions"}{" "}
+              {format.toUpperCase()}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
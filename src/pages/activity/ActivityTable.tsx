@@ -0,0 +1,135 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ethers } from "ethers";
+import { getExplorerTxUrl } from "@/config/contracts";
+import { ACTIVITY_LABELS } from "@/constants/activity";
+import { DEFAULT_MEAL_ICON, FoodItem, MEAL_ICONS } from "@/constants/food";
+import { ActivityEntry } from "@/services/ActivityService";
+
+interface ActivityTableProps {
+  entries: ActivityEntry[];
+  meals: FoodItem[];
+  loading: boolean;
+}
+
+const formatGems = (value: bigint) =>
+  Number(ethers.formatUnits(value, 18)).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  });
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString(undefined, {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+export default function ActivityTable({
+  entries,
+  meals,
+  loading,
+}: ActivityTableProps) {
+  const describe = (entry: ActivityEntry) => {
+    switch (entry.type) {
+      case "mealPurchased": {
+        const meal = meals.find((m) => m.id === entry.mealId);
+        const icon = MEAL_ICONS[entry.mealId ?? -1] ?? DEFAULT_MEAL_ICON;
+        return `${icon} ${meal?.name ?? `Meal #${entry.mealId}`}`;
+      }
+      case "expeditionCompleted":
+        if (!entry.successful) return "No gems found";
+        return entry.boostPercentage
+          ? `Found gems (+${entry.boostPercentage}% boost)`
+          : "Found gems";
+      case "slotsPurchased":
+        return `${entry.slots} slot${entry.slots === 1 ? "" : "s"}`;
+      default:
+        return "";
+    }
+  };
+
+  const renderDelta = (delta: bigint) => {
+    if (delta === 0n) return <span className="text-amber-300/50">—</span>;
+    return delta > 0n ? (
+      <span className="text-green-400 font-semibold">
+        +{formatGems(delta)} GEMS
+      </span>
+    ) : (
+      <span className="text-red-300 font-semibold">
+        −{formatGems(-delta)} GEMS
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-[#2a1a0a]/90 border border-[#3a2410] rounded-lg shadow-2xl backdrop-blur-sm overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-b border-amber-900/50">
+            <TableHead className="text-amber-400">When</TableHead>
+            <TableHead className="text-amber-400">Activity</TableHead>
+            <TableHead className="text-amber-400">Miner</TableHead>
+            <TableHead className="text-right text-amber-400">Gems</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-amber-300 py-8">
+                Loading activity...
+              </TableCell>
+            </TableRow>
+          ) : entries.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-amber-300 py-8">
+                No activity found.
+              </TableCell>
+            </TableRow>
+          ) : (
+            entries.map((entry) => {
+              const { icon, label } = ACTIVITY_LABELS[entry.type];
+              const detail = describe(entry);
+              return (
+                <TableRow
+                  key={entry.id}
+                  className="border-b border-amber-900/30 hover:bg-[#3a2410]/50"
+                >
+                  <TableCell>
+                    <a
+                      href={getExplorerTxUrl(entry.transactionHash) || undefined}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-amber-300/80 text-sm hover:underline whitespace-nowrap"
+                      title="View on Ronin explorer"
+                    >
+                      {formatDate(entry.timestamp)}
+                    </a>
+                  </TableCell>
+                  <TableCell>
+                    <p className="text-amber-200">
+                      {icon} {label}
+                    </p>
+                    {detail && (
+                      <p className="text-amber-300/60 text-xs">{detail}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-amber-300">
+                    {entry.minerId !== null ? `#${entry.minerId}` : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {renderDelta(entry.gemsDelta)}
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,29 +1,44 @@
-import { useState } from "react";
 import BankHeader from "./components/BankHeader";
 import BankAlert from "./components/BankAlert";
 import BankCard from "./components/BankCard";
+import { useBank } from "@/hooks/useBank";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InfoIcon } from "lucide-react";
 
 export default function Bank() {
-  const [isDisabled] = useState(true); // This will be controlled by TGE status
+  const { bankState, pending, error, lastTxHash, deposit, withdraw } =
+    useBank();
 
-  const handleDeposit = (amount: string) => {
-    console.log("Depositing:", amount);
-    // Implement deposit logic here
-  };
-
-  const handleWithdraw = (amount: string) => {
-    console.log("Withdrawing:", amount);
-    // Implement withdraw logic here
-  };
+  // TGE status comes from the vault contract; closed until it reports active
+  const isTgeActive = bankState?.isTgeActive ?? false;
+  const isDisabled = !isTgeActive || pending !== null;
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-4xl mx-auto space-y-8">
         <BankHeader />
-        <BankAlert />
+        {!isTgeActive && <BankAlert />}
+        {error && (
+          <Alert className="bg-red-900/40 border-red-800 max-w-3xl mx-auto">
+            <InfoIcon className="h-5 w-5 text-red-300" />
+            <AlertDescription className="text-red-200 font-medium ml-2">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+        {lastTxHash && !error && (
+          <Alert className="bg-green-900/40 border-green-800 max-w-3xl mx-auto">
+            <InfoIcon className="h-5 w-5 text-green-300" />
+            <AlertDescription className="text-green-200 font-medium ml-2 break-all">
+              Transaction confirmed: {lastTxHash}
+            </AlertDescription>
+          </Alert>
+        )}
         <BankCard
-          onDeposit={handleDeposit}
-          onWithdraw={handleWithdraw}
+          bankState={bankState}
+          pending={pending}
+          onDeposit={deposit}
+          onWithdraw={withdraw}
           isDisabled={isDisabled}
         />
       </div>
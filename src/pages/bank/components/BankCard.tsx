@@ -2,15 +2,39 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import BankTabs from "./BankTabs";
 import DepositForm from "./DepositForm";
 import WithdrawForm from "./WithdrawForm";
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { ethers } from "ethers";
+import BankService, {
+  BankDirection,
+  BankState,
+  BankTxStep,
+} from "@/services/contracts/BankService";
 
 interface BankCardProps {
-  onDeposit: (amount: string) => void;
-  onWithdraw: (amount: string) => void;
+  bankState: BankState | null;
+  pending: { direction: BankDirection; step: BankTxStep } | null;
+  onDeposit: (amount: bigint) => Promise<boolean>;
+  onWithdraw: (amount: bigint) => Promise<boolean>;
   isDisabled: boolean;
 }
 
+export interface BankFormPreview {
+  available: string;
+  fee: string | null;
+  received: string | null;
+  feePercent: number;
+  error: string | null;
+}
+
+const STEP_LABELS: Record<BankTxStep, string> = {
+  approving: "Approving GEMS...",
+  submitting: "Confirm in wallet...",
+  confirming: "Waiting for confirmation...",
+};
+
 export default function BankCard({
+  bankState,
+  pending,
   onDeposit,
   onWithdraw,
   isDisabled,
@@ -20,14 +44,60 @@ export default function BankCard({
   );
   const [amount, setAmount] = useState("");
 
-  const handleDeposit = () => {
-    onDeposit(amount);
+  const decimals = bankState?.decimals ?? 18;
+  const availableRaw =
+    selectedTab === "deposit"
+      ? bankState?.walletBalance ?? 0n
+      : bankState?.inGameBalance ?? 0n;
+
+  // Parse, validate and price the entered amount against the live balances
+  const preview = useMemo<BankFormPreview>(() => {
+    const feeBps =
+      selectedTab === "deposit"
+        ? bankState?.depositFeeBps ?? 0
+        : bankState?.withdrawFeeBps ?? 0;
+    const base: BankFormPreview = {
+      available: ethers.formatUnits(availableRaw, decimals),
+      fee: null,
+      received: null,
+      feePercent: feeBps / 100,
+      error: null,
+    };
+    if (!amount || !bankState) return base;
+
+    let parsed: bigint;
+    try {
+      parsed = ethers.parseUnits(amount, decimals);
+    } catch {
+      return { ...base, error: "Enter a valid amount" };
+    }
+
+    const { fee, received } = BankService.previewFee(parsed, feeBps);
+    return {
+      ...base,
+      fee: ethers.formatUnits(fee, decimals),
+      received: ethers.formatUnits(received, decimals),
+      error: BankService.validateAmount(bankState, selectedTab, parsed),
+    };
+  }, [amount, bankState, selectedTab, availableRaw, decimals]);
+
+  const progressLabel =
+    pending && pending.direction === selectedTab
+      ? STEP_LABELS[pending.step]
+      : null;
+
+  const handleTabChange = (tab: "deposit" | "withdraw") => {
+    setSelectedTab(tab);
     setAmount("");
   };
 
-  const handleWithdraw = () => {
-    onWithdraw(amount);
-    setAmount("");
+  const handleMax = () => setAmount(ethers.formatUnits(availableRaw, decimals));
+
+  const submit = async (action: (amount: bigint) => Promise<boolean>) => {
+    if (preview.error || !amount) return;
+    if (await action(ethers.parseUnits(amount, decimals))) {
+      setAmount("");
+    }
   };
 
   return (
@@ -38,19 +108,25 @@ export default function BankCard({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
-        <BankTabs selectedTab={selectedTab} onTabChange={setSelectedTab} />
+        <BankTabs selectedTab={selectedTab} onTabChange={handleTabChange} />
         {selectedTab === "deposit" ? (
           <DepositForm
             amount={amount}
             onAmountChange={setAmount}
-            onDeposit={handleDeposit}
+            onMax={handleMax}
+            onDeposit={() => submit(onDeposit)}
+            preview={preview}
+            progressLabel={progressLabel}
             isDisabled={isDisabled}
           />
         ) : (
           <WithdrawForm
             amount={amount}
             onAmountChange={setAmount}
-            onWithdraw={handleWithdraw}
+            onMax={handleMax}
+            onWithdraw={() => submit(onWithdraw)}
+            preview={preview}
+            progressLabel={progressLabel}
             isDisabled={isDisabled}
           />
         )}
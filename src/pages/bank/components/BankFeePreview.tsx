@@ -0,0 +1,29 @@
+import { BankFormPreview } from "./BankCard";
+
+interface BankFeePreviewProps {
+  preview: BankFormPreview;
+  receivedLabel: string;
+}
+
+export default function BankFeePreview({
+  preview,
+  receivedLabel,
+}: BankFeePreviewProps) {
+  return (
+    <div className="bg-[#2a1a0a]/60 p-4 rounded-lg border border-amber-900/30 space-y-2 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="text-amber-300">Fee ({preview.feePercent}%):</span>
+        <span className="text-white font-medium">
+          {preview.fee !== null ? `${preview.fee} GEMS` : "-"}
+        </span>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-amber-300">{receivedLabel}:</span>
+        <span className="text-white font-bold">
+          {preview.received !== null ? `${preview.received} GEMS` : "-"}
+        </span>
+      </div>
+      {preview.error && <p className="text-red-400">{preview.error}</p>}
+    </div>
+  );
+}
@@ -2,26 +2,39 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { ArrowUpIcon } from "lucide-react";
+import { BankFormPreview } from "./BankCard";
+import BankFeePreview from "./BankFeePreview";
 
 interface WithdrawFormProps {
   amount: string;
   onAmountChange: (value: string) => void;
+  onMax: () => void;
   onWithdraw: () => void;
+  preview: BankFormPreview;
+  progressLabel: string | null;
   isDisabled: boolean;
 }
 
 export default function WithdrawForm({
   amount,
   onAmountChange,
+  onMax,
   onWithdraw,
+  preview,
+  progressLabel,
   isDisabled,
 }: WithdrawFormProps) {
   return (
     <div className="space-y-6">
       <div className="space-y-2">
-        <Label htmlFor="withdraw-amount" className="text-amber-300 text-lg">
-          Amount to Withdraw
-        </Label>
+        <div className="flex justify-between items-center">
+          <Label htmlFor="withdraw-amount" className="text-amber-300 text-lg">
+            Amount to Withdraw
+          </Label>
+          <span className="text-amber-200/80 text-sm">
+            In-game balance: {preview.available} GEMS
+          </span>
+        </div>
         <div className="relative">
           <Input
             id="withdraw-amount"
@@ -29,20 +42,30 @@ export default function WithdrawForm({
             placeholder="Enter amount"
             value={amount}
             onChange={(e) => onAmountChange(e.target.value)}
-            className="bg-[#1a0d00] border-[#3a2410] text-white pl-4 h-12 text-lg focus:border-amber-500 focus:ring-amber-500/30"
+            className="bg-[#1a0d00] border-[#3a2410] text-white pl-4 pr-28 h-12 text-lg focus:border-amber-500 focus:ring-amber-500/30"
+            disabled={isDisabled}
           />
-          <span className="absolute right-4 top-1/2 transform -translate-y-1/2 text-amber-500 font-medium">
-            Gem
-          </span>
+          <div className="absolute right-4 top-1/2 transform -translate-y-1/2 flex items-center gap-2">
+            <button
+              type="button"
+              onClick={onMax}
+              disabled={isDisabled}
+              className="text-xs font-bold text-amber-300 border border-amber-600/50 rounded px-2 py-0.5 hover:bg-amber-600/20 disabled:opacity-50"
+            >
+              MAX
+            </button>
+            <span className="text-amber-500 font-medium">Gem</span>
+          </div>
         </div>
       </div>
+      <BankFeePreview preview={preview} receivedLabel="Received in wallet" />
       <Button
         onClick={onWithdraw}
         className="w-full bg-amber-600 hover:bg-amber-500 text-[#1a0d00] font-bold py-3 text-lg transition-all duration-300 shadow-lg hover:shadow-amber-600/30"
-        disabled={isDisabled}
+        disabled={isDisabled || !amount || preview.error !== null}
       >
         <ArrowUpIcon className="h-5 w-5 mr-2" />
-        Withdraw Gem
+        {progressLabel ?? "Withdraw Gem"}
       </Button>
     </div>
   );
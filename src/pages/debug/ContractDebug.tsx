@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
 import { useRoninWallet } from '../../services/wallet/RoninWalletProvider';
+import { getActiveNetwork, getNetworkByChainId } from '../../config/contracts';
 
 // ERC721 minimal ABI for basic interactions
 const MINIMAL_ABI = [
@@ -34,57 +35,34 @@ export default function ContractDebug() {
           const network = await provider.getNetwork();
           const chainId = Number(network.chainId);
           
-          // Determine if testnet or mainnet based on chainId
-          // Ronin Mainnet: 2020, Saigon Testnet: 2021
-          const isTestnet = chainId === 2021;
-          const networkName = isTestnet ? 'testnet' : 'mainnet';
-          
-          addLog(`✅ Connected to Ronin ${isTestnet ? 'Saigon testnet' : 'mainnet'} (Chain ID: ${chainId})`);
-          
-          // Get the appropriate contract address based on detected network
-          const envKey = isTestnet ? 'VITE_TESTNET_MINER_NFT_ADDRESS' : 'VITE_MAINNET_MINER_NFT_ADDRESS';
-          let configuredAddress = import.meta.env[envKey] || '';
-          
-          // Clean up the address - in case there's a comment attached to it without a space
-          if (configuredAddress && configuredAddress.length > 42) {
-            // Extract just the address part (0x + 40 hex chars)
-            const addressMatch = configuredAddress.match(/0x[a-fA-F0-9]{40}/);
-            if (addressMatch) {
-              const cleanedAddress = addressMatch[0];
-              addLog(`🛠️ Fixed malformed address format. Original: ${configuredAddress}`);
-              addLog(`🛠️ Cleaned address: ${cleanedAddress}`);
-              configuredAddress = cleanedAddress;
-            }
+          // Look the chain up in the network registry
+          const detected = getNetworkByChainId(chainId);
+          if (!detected) {
+            addLog(`❌ Chain ID ${chainId} is not a supported network`);
+            return;
           }
           
-          if (configuredAddress) {
+          addLog(`✅ Connected to ${detected.name} (Chain ID: ${chainId})`);
+          
+          const configuredAddress = detected.contracts.MinerNFT;
+          if (configuredAddress !== ethers.ZeroAddress) {
             setContractAddress(configuredAddress);
-            addLog(`🔍 Using ${networkName} environment, contract address: ${configuredAddress}`);
+            addLog(`🔍 Using ${detected.key} environment, contract address: ${configuredAddress}`);
             
             // Validate the address format
             if (!ethers.isAddress(configuredAddress)) {
               addLog(`⚠️ Warning: The configured address does not appear to be a valid Ethereum address`);
             }
           } else {
-            addLog(`❌ No contract address configured for ${networkName} in environment variables`);
+            addLog(`❌ No contract address configured for ${detected.key} in environment variables`);
           }
         } else {
-          // Fallback to environment variable if wallet not connected
-          const network = import.meta.env.VITE_NETWORK || 'testnet';
-          const envKey = network === 'mainnet' ? 'VITE_MAINNET_MINER_NFT_ADDRESS' : 'VITE_TESTNET_MINER_NFT_ADDRESS';
-          let address = import.meta.env[envKey] || '';
-          
-          // Clean up the address here too
-          if (address && address.length > 42) {
-            const addressMatch = address.match(/0x[a-fA-F0-9]{40}/);
-            if (addressMatch) {
-              address = addressMatch[0];
-              addLog(`🛠️ Fixed malformed address in environment variable`);
-            }
-          }
+          // Fall back to the active network if the wallet is not connected
+          const network = getActiveNetwork();
+          const address = network.contracts.MinerNFT;
           
           setContractAddress(address);
-          addLog(`⚠️ Wallet not connected. Using configured ${network} environment, contract address: ${address}`);
+          addLog(`⚠️ Wallet not connected. Using configured ${network.key} environment, contract address: ${address}`);
         }
       } catch (error) {
         addLog(`❌ Error detecting network: ${error instanceof Error ? error.message : String(error)}`);
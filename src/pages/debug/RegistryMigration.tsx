@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { DownloadIcon } from "lucide-react";
+import { ethers } from "ethers";
+import { useRegistryMigration } from "@/hooks/useRegistryMigration";
+import {
+  AuditIssue,
+  AuditTarget,
+  DEFAULT_HEAL_BATCH_SIZE,
+  RegistryStatus,
+} from "@/services/contracts/RegistryMigrationService";
+import { downloadFile } from "@/lib/utils";
+
+const ISSUE_LABELS: Record<AuditIssue, string> = {
+  missingInNew: "Missing in new",
+  missingInOld: "Missing in old",
+  staleInNew: "Stale in new",
+  staleInOld: "Stale in old",
+  mismatched: "Registries disagree",
+};
+
+const STATUS_CLASSES: Record<RegistryStatus, string> = {
+  registered: "text-green-400",
+  missing: "text-red-400",
+  stale: "text-orange-400",
+  unconfigured: "text-amber-300/40",
+  error: "text-red-500",
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+/**
+ * Operator view for the old → new MinerNFT registry cut-over: audits both
+ * registries against ownerOf and heals the new registry in resumable batches.
+ */
+export default function RegistryMigration() {
+  const {
+    registries,
+    report,
+    scanProgress,
+    plannedActions,
+    job,
+    healProgress,
+    reconciliation,
+    scanning,
+    healing,
+    reconciling,
+    error,
+    scan,
+    heal,
+    resume,
+    stop,
+    reconcile,
+    discardJob,
+  } = useRegistryMigration();
+  const [mode, setMode] = useState<AuditTarget["kind"]>("range");
+  const [from, setFrom] = useState("1");
+  const [to, setTo] = useState("100");
+  const [wallets, setWallets] = useState("");
+  const [batchSize, setBatchSize] = useState(DEFAULT_HEAL_BATCH_SIZE);
+  const [showHealthy, setShowHealthy] = useState(false);
+
+  const walletList = wallets.split(/[\s,]+/).filter(Boolean);
+  const invalidWallets = walletList.filter((wallet) => !ethers.isAddress(wallet));
+  const canScan =
+    !scanning &&
+    !healing &&
+    (mode === "range"
+      ? Number(from) > 0 && Number(to) >= Number(from)
+      : walletList.length > 0 && invalidWallets.length === 0);
+
+  const handleScan = () =>
+    scan(
+      mode === "range"
+        ? { kind: "range", from: Number(from), to: Number(to) }
+        : { kind: "wallets", wallets: walletList }
+    );
+
+  const unfinished = job?.actions.filter(
+    (action) => action.status === "pending" || action.status === "sent"
+  ).length ?? 0;
+  const rows = report?.tokens.filter(
+    (token) => token.owner !== null && (showHealthy || token.issues.length > 0)
+  ) ?? [];
+
+  const buttonClass =
+    "bg-amber-500 hover:bg-amber-600 text-black font-semibold px-4 py-2 rounded-lg transition-all duration-300 font-winky disabled:opacity-50";
+  const secondaryClass =
+    "flex items-center gap-1 px-3 py-1 rounded-lg border border-amber-500/30 text-amber-300 text-sm hover:bg-amber-900/30 disabled:opacity-40";
+  const inputClass =
+    "block bg-[#1a0d00] border border-amber-500/30 text-amber-300 text-sm rounded-lg px-2 py-1";
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto bg-[#1a0d00] rounded-xl border border-amber-500/40 mt-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-amber-400 font-winky">Registry Migration</h1>
+        <p className="text-amber-300/60 text-sm">
+          Old registry: {registries.old ?? "not configured"} · New registry: {registries.new ?? "not configured"}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <section className="p-4 bg-[#2a1a0a] rounded-lg border border-amber-500/20 space-y-3">
+        <div className="flex gap-2">
+          {(["range", "wallets"] as const).map((kind) => (
+            <button
+              key={kind}
+              onClick={() => setMode(kind)}
+              className={`${secondaryClass} ${mode === kind ? "bg-amber-900/40" : ""}`}
+            >
+              {kind === "range" ? "Token range" : "Wallets"}
+            </button>
+          ))}
+        </div>
+
+        {mode === "range" ? (
+          <div className="flex gap-3">
+            <label className="text-amber-300/80 text-xs">
+              From token
+              <input type="number" min={1} value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-amber-300/80 text-xs">
+              To token
+              <input type="number" min={1} value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+        ) : (
+          <label className="block text-amber-300/80 text-xs">
+            Wallet addresses (one per line or comma separated)
+            <textarea
+              rows={4}
+              value={wallets}
+              onChange={(e) => setWallets(e.target.value)}
+              className={`${inputClass} w-full font-mono`}
+            />
+            {invalidWallets.length > 0 && (
+              <span className="text-red-400">Invalid address: {invalidWallets[0]}</span>
+            )}
+          </label>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button onClick={handleScan} disabled={!canScan} className={buttonClass}>
+            {scanning ? "Scanning..." : "Scan registries"}
+          </button>
+          {scanProgress && scanning && (
+            <div className="flex-1">
+              <div className="h-2 bg-[#1a0d00] rounded">
+                <div
+                  className="h-2 bg-amber-500 rounded"
+                  style={{ width: `${(scanProgress.scanned / Math.max(scanProgress.total, 1)) * 100}%` }}
+                />
+              </div>
+              <p className="text-amber-300/60 text-xs mt-1">
+                {scanProgress.scanned} / {scanProgress.total} tokens
+              </p>
+            </div>
+          )}
+        </div>
+      </section>
+
+      {report && (
+        <section className="p-4 bg-[#2a1a0a] rounded-lg border border-amber-500/20 space-y-3">
+          <div className="flex flex-wrap items-center gap-4 text-sm text-amber-300">
+            <span>Scanned {report.summary.scanned}</span>
+            <span className="text-green-400">Healthy {report.summary.healthy}</span>
+            <span className="text-red-400">Missing {report.summary.missing}</span>
+            <span className="text-orange-400">Stale {report.summary.stale}</span>
+            <span className="text-yellow-400">Mismatched {report.summary.mismatched}</span>
+            <span className="text-amber-300/50">Not minted {report.summary.nonexistent}</span>
+            <span className="text-amber-300/50">Block {report.blockNumber}</span>
+            <label className="ml-auto text-xs flex items-center gap-1">
+              <input type="checkbox" checked={showHealthy} onChange={(e) => setShowHealthy(e.target.checked)} />
+              Show healthy
+            </label>
+            <button
+              onClick={() => downloadFile(`registry-audit-${report.finishedAt}.json`, "application/json", JSON.stringify(report, null, 2))}
+              className={secondaryClass}
+            >
+              <DownloadIcon className="h-4 w-4" />
+              Audit JSON
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-amber-400 border-b border-amber-500/20">
+                <tr>
+                  <th className="py-1">Token</th>
+                  <th>Owner</th>
+                  <th>Old</th>
+                  <th>New</th>
+                  <th>Issues</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-amber-200">
+                {rows.map((token) => (
+                  <tr key={token.tokenId} className="border-b border-amber-500/10">
+                    <td className="py-1">#{token.tokenId}</td>
+                    <td title={token.owner ?? undefined}>{token.owner ? shortAddress(token.owner) : "—"}</td>
+                    {(["old", "new"] as const).map((key) => (
+                      <td
+                        key={key}
+                        className={STATUS_CLASSES[token.registries[key]]}
+                        title={token.staleOwners[key].join("\n") || undefined}
+                      >
+                        {token.registries[key]}
+                      </td>
+                    ))}
+                    <td className="font-sans text-xs">
+                      {token.issues.map((issue) => ISSUE_LABELS[issue]).join(", ") || "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <p className="text-amber-300/50 italic text-sm py-2">No registry issues found.</p>
+            )}
+          </div>
+        </section>
+      )}
+
+      <section className="p-4 bg-[#2a1a0a] rounded-lg border border-amber-500/20 space-y-3">
+        <h2 className="text-xl font-bold text-amber-400 font-winky">Heal new registry</h2>
+        <p className="text-amber-300/60 text-xs">
+          Sends updateTokenOwnership for tokens missing or stale in the new registry. The
+          connected wallet must be allowed to update the registry. Progress is saved after
+          every transaction, so a stopped or interrupted run can be resumed.
+        </p>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-amber-300/80 text-xs">
+            Batch size
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={batchSize}
+              onChange={(e) => setBatchSize(Math.max(1, Number(e.target.value) || 1))}
+              className={inputClass}
+            />
+          </label>
+          <button
+            onClick={() => heal(batchSize)}
+            disabled={healing || scanning || plannedActions.length === 0 || unfinished > 0 || !registries.new}
+            className={buttonClass}
+          >
+            Heal {plannedActions.length} token{plannedActions.length === 1 ? "" : "s"}
+          </button>
+          {healing ? (
+            <button onClick={stop} className={secondaryClass}>Stop after batch</button>
+          ) : (
+            unfinished > 0 && (
+              <button onClick={() => resume(batchSize)} className={secondaryClass}>
+                Resume ({unfinished} left)
+              </button>
+            )
+          )}
+        </div>
+
+        {job && (
+          <div className="space-y-2">
+            {healProgress && (
+              <div>
+                <div className="h-2 bg-[#1a0d00] rounded">
+                  <div
+                    className="h-2 bg-green-500 rounded"
+                    style={{ width: `${((healProgress.confirmed + healProgress.failed) / Math.max(healProgress.total, 1)) * 100}%` }}
+                  />
+                </div>
+                <p className="text-amber-300/60 text-xs mt-1">
+                  Batch {healProgress.batch} / {healProgress.batches} · {healProgress.confirmed} confirmed ·{" "}
+                  {healProgress.failed} failed · {healProgress.pending} pending
+                </p>
+              </div>
+            )}
+            <p className="text-amber-300/60 text-xs">
+              Job started {new Date(job.createdAt).toLocaleString()} · {job.actions.length} call
+              {job.actions.length === 1 ? "" : "s"}
+            </p>
+            <div className="flex gap-2">
+              <button onClick={reconcile} disabled={healing || reconciling} className={secondaryClass}>
+                {reconciling ? "Reconciling..." : "Reconcile"}
+              </button>
+              <button onClick={discardJob} disabled={healing} className={secondaryClass}>
+                Discard job
+              </button>
+            </div>
+          </div>
+        )}
+
+        {reconciliation && (
+          <div className="p-3 bg-[#1a0d00] rounded-lg border border-amber-500/20 text-sm text-amber-200 space-y-1">
+            <p>
+              <span className="text-green-400">{reconciliation.healed.length} healed</span> ·{" "}
+              <span className="text-red-400">{reconciliation.stillBroken.length} still broken</span> ·{" "}
+              {reconciliation.failedActions.length} failed transaction
+              {reconciliation.failedActions.length === 1 ? "" : "s"}
+            </p>
+            {reconciliation.stillBroken.length > 0 && (
+              <p className="font-mono text-xs text-amber-300/70">
+                {reconciliation.stillBroken.map((token) => `#${token.tokenId}`).join(", ")}
+              </p>
+            )}
+            <button
+              onClick={() => downloadFile(`registry-reconciliation-${reconciliation.jobId}.json`, "application/json", JSON.stringify(reconciliation, null, 2))}
+              className={secondaryClass}
+            >
+              <DownloadIcon className="h-4 w-4" />
+              Reconciliation report
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,3 +1,11 @@
+import MinerImage from "@/components/MinerImage";
+import MinerTraits from "@/components/MinerTraits";
+import { useMinerMetadata } from "@/hooks/useMinerMetadata";
+import { useStaking } from "@/hooks/useStaking";
+
+// Miners of the connected wallet previewed on the Miner card
+const OWNED_PREVIEW_COUNT = 3;
+
 const nftItems = [
   {
     title: "Miner",
@@ -16,6 +24,45 @@ const nftItems = [
   }
 ]
 
+/**
+ * The connected player's own miners, staked ones first, with their art and traits
+ */
+function OwnedMiners() {
+  const { stakedMiners, availableMiners } = useStaking();
+  const ids = [
+    ...stakedMiners.map(Number),
+    ...availableMiners.map((miner) => Number(miner.id)),
+  ].slice(0, OWNED_PREVIEW_COUNT);
+  const { getMetadata } = useMinerMetadata(ids);
+
+  if (ids.length === 0) return null;
+
+  return (
+    <div className="w-full mt-6 pt-4 border-t border-amber-900/50">
+      <p className="text-amber-300/80 text-sm mb-3 text-center">Your miners</p>
+      <div className="space-y-3">
+        {ids.map((id) => {
+          const miner = getMetadata(id);
+          return (
+            <div key={id} className="flex items-center gap-3">
+              <MinerImage
+                image={miner.image}
+                imageFallbacks={miner.imageFallbacks}
+                alt={miner.name}
+                className="w-12 h-12 object-contain flex-shrink-0"
+              />
+              <div className="min-w-0">
+                <p className="text-amber-400 font-winky truncate">{miner.name}</p>
+                <MinerTraits attributes={miner.attributes.slice(0, 3)} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 export default function NFTs() {
   return (
     <section id="nfts" className="py-24 bg-gradient-to-b from-[#3a2410] to-[#2a1a0c] scroll-mt-24 relative z-10">
@@ -36,6 +83,7 @@ export default function NFTs() {
                 />
               </div>
               <p className="text-amber-200 text-center font-body">{nft.text}</p>
+              {nft.title === "Miner" && <OwnedMiners />}
             </div>
           ))}
         </div>
@@ -14,8 +14,8 @@ export default function LeaderboardHeader() {
       <Alert className="bg-yellow-900/50 border-yellow-800 max-w-3xl mx-auto">
         <InfoIcon className="h-5 w-5 text-amber-300" />
         <AlertDescription className="text-amber-200 font-medium ml-2">
-          Top miners are ranked by their total gems collected. Rankings are
-          updated every hour.
+          Top miners are ranked by the gems earned on successful expeditions,
+          read directly from the chain.
         </AlertDescription>
       </Alert>
     </div>
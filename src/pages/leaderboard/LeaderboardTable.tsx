@@ -6,21 +6,28 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-
-interface Player {
-  id: string;
-  rank: number;
-  username: string;
-  gems: number;
-  level: number;
-  avatar?: string;
-}
+import { ethers } from "ethers";
+import { LeaderboardEntry } from "@/services/LeaderboardIndexer";
 
 interface LeaderboardTableProps {
-  players: Player[];
+  players: LeaderboardEntry[];
+  ownEntry: LeaderboardEntry | null;
+  totalPlayers: number;
+  loading: boolean;
 }
 
-export default function LeaderboardTable({ players }: LeaderboardTableProps) {
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatGems = (value: bigint) =>
+  Math.floor(Number(ethers.formatUnits(value, 18))).toLocaleString();
+
+export default function LeaderboardTable({
+  players,
+  ownEntry,
+  totalPlayers,
+  loading,
+}: LeaderboardTableProps) {
   const getRankColor = (rank: number) => {
     switch (rank) {
       case 1:
@@ -47,6 +54,54 @@ export default function LeaderboardTable({ players }: LeaderboardTableProps) {
     }
   };
 
+  const renderRow = (player: LeaderboardEntry) => {
+    const isOwn = ownEntry?.address === player.address;
+    return (
+      <TableRow
+        key={player.address}
+        className={`border-b border-amber-900/30 hover:bg-[#3a2410]/50 ${
+          isOwn ? "bg-amber-900/30" : ""
+        }`}
+      >
+        <TableCell className={`font-bold ${getRankColor(player.rank)}`}>
+          <div className="flex items-center">
+            {getRankIcon(player.rank) || player.rank}
+          </div>
+        </TableCell>
+        <TableCell>
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 rounded-full bg-[#1a0d00] flex items-center justify-center">
+              <span className="text-amber-400 text-sm">
+                {player.address.slice(2, 3).toUpperCase()}
+              </span>
+            </div>
+            <span className="text-amber-200 font-mono" title={player.address}>
+              {shortenAddress(player.address)}
+            </span>
+            {isOwn && (
+              <span className="text-xs font-bold text-amber-300 bg-amber-700/40 px-2 py-0.5 rounded-full">
+                YOU
+              </span>
+            )}
+          </div>
+        </TableCell>
+        <TableCell className="text-right text-amber-300">
+          {player.expeditions.toLocaleString()}
+        </TableCell>
+        <TableCell className="text-right text-amber-300">
+          {player.successRate.toFixed(1)}%
+        </TableCell>
+        <TableCell className="text-right font-bold text-amber-400">
+          {formatGems(player.totalGems)} GEMS
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const ownRowOutsideList =
+    ownEntry !== null &&
+    !players.some((player) => player.address === ownEntry.address);
+
   return (
     <div className="bg-[#2a1a0a]/90 border border-[#3a2410] rounded-lg shadow-2xl backdrop-blur-sm overflow-hidden">
       <Table>
@@ -54,49 +109,43 @@ export default function LeaderboardTable({ players }: LeaderboardTableProps) {
           <TableRow className="border-b border-amber-900/50">
             <TableHead className="w-[100px] text-amber-400">Rank</TableHead>
             <TableHead className="text-amber-400">Player</TableHead>
-            <TableHead className="text-right text-amber-400">Level</TableHead>
+            <TableHead className="text-right text-amber-400">
+              Expeditions
+            </TableHead>
+            <TableHead className="text-right text-amber-400">
+              Success Rate
+            </TableHead>
             <TableHead className="text-right text-amber-400">
               Total Gems
             </TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {players.map((player) => (
-            <TableRow
-              key={player.id}
-              className="border-b border-amber-900/30 hover:bg-[#3a2410]/50"
-            >
-              <TableCell className={`font-bold ${getRankColor(player.rank)}`}>
-                <div className="flex items-center">
-                  {getRankIcon(player.rank) || player.rank}
-                </div>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-amber-300 py-8">
+                Loading rankings...
               </TableCell>
-              <TableCell>
-                <div className="flex items-center space-x-3">
-                  <div className="w-8 h-8 rounded-full bg-[#1a0d00] flex items-center justify-center">
-                    {player.avatar ? (
-                      <img
-                        src={player.avatar}
-                        alt={player.username}
-                        className="w-8 h-8 rounded-full"
-                      />
-                    ) : (
-                      <span className="text-amber-400 text-sm">
-                        {player.username[0].toUpperCase()}
-                      </span>
-                    )}
-                  </div>
-                  <span className="text-amber-200">{player.username}</span>
-                </div>
-              </TableCell>
-              <TableCell className="text-right text-amber-300">
-                Level {player.level}
-              </TableCell>
-              <TableCell className="text-right font-bold text-amber-400">
-                {player.gems.toLocaleString()} GEMS
+            </TableRow>
+          ) : players.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-amber-300 py-8">
+                No completed expeditions yet.
               </TableCell>
             </TableRow>
-          ))}
+          ) : (
+            players.map(renderRow)
+          )}
+          {ownRowOutsideList && (
+            <>
+              <TableRow className="border-b border-amber-900/30">
+                <TableCell colSpan={5} className="text-center text-amber-300/60 py-1">
+                  ⋯ {totalPlayers.toLocaleString()} miners ranked ⋯
+                </TableCell>
+              </TableRow>
+              {renderRow(ownEntry)}
+            </>
+          )}
         </TableBody>
       </Table>
     </div>
@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import MinerImage from "@/components/MinerImage";
+import { useBulkStake } from "@/hooks/useBulkStake";
+import { NFT } from "@/services/contracts/MinerInventoryService";
+import {
+  BulkStakeMode,
+  BulkStakeStatus,
+  DEFAULT_STAKE_BATCH_SIZE,
+} from "@/services/contracts/BulkStakeService";
+
+interface BulkStakeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  miners: NFT[];
+}
+
+const STATUS_LABELS: Record<BulkStakeStatus, string> = {
+  pending: "Waiting",
+  sent: "Confirming",
+  staked: "Staked",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+const STATUS_CLASSES: Record<BulkStakeStatus, string> = {
+  pending: "text-amber-300/60",
+  sent: "text-amber-300 animate-pulse",
+  staked: "text-green-400",
+  failed: "text-red-400",
+  skipped: "text-amber-300/40",
+};
+
+export default function BulkStakeDialog({
+  open,
+  onOpenChange,
+  miners,
+}: BulkStakeDialogProps) {
+  const {
+    approvedForAll,
+    capacity,
+    job,
+    progress,
+    loading,
+    approving,
+    running,
+    error,
+    refresh,
+    approveAll,
+    start,
+    resume,
+    stop,
+    discard,
+  } = useBulkStake();
+  const [selected, setSelected] = useState<number[]>([]);
+  const [mode, setMode] = useState<BulkStakeMode>("batched");
+  const [batchSize, setBatchSize] = useState(DEFAULT_STAKE_BATCH_SIZE);
+
+  useEffect(() => {
+    if (open) {
+      setSelected([]);
+      refresh();
+    }
+  }, [open, refresh]);
+
+  const limit = capacity?.available ?? 0;
+  const minerIds = miners.map((miner) => Number(miner.id));
+
+  const toggle = (id: number) =>
+    setSelected((prev) =>
+      prev.includes(id)
+        ? prev.filter((selectedId) => selectedId !== id)
+        : prev.length < limit
+          ? [...prev, id]
+          : prev
+    );
+
+  const unfinished = !!progress && (progress.remaining > 0 || progress.inFlight > 0);
+  const finished = !!progress && !unfinished;
+  const showSelection = !job || (finished && !running);
+
+  const buttonClass =
+    "bg-amber-500 hover:bg-amber-600 text-black font-semibold px-4 py-2 rounded-lg transition-all duration-300 font-winky disabled:opacity-50";
+  const secondaryClass =
+    "px-3 py-1 rounded-lg border border-amber-500/30 text-amber-300 text-sm hover:bg-amber-900/30 disabled:opacity-40";
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="bg-gradient-to-b from-[#2a1a0a] to-[#1a0d00] border-2 border-amber-500/40 rounded-xl p-8 w-full max-w-lg shadow-xl">
+        <DialogHeader className="mb-4">
+          <DialogTitle className="text-2xl font-bold text-amber-400 font-winky">
+            Stake Several Miners
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 mb-4 bg-red-900/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Step 1: approval */}
+        <div className="bg-[#1a0d00] border border-amber-500/30 rounded-lg p-4 mb-4">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="text-amber-400 font-semibold">Staking approval</p>
+              <p className="text-amber-300/70 text-xs">
+                {approvedForAll === null
+                  ? "Checking..."
+                  : approvedForAll
+                    ? "The staking contract may move all your miners. No further approvals are needed."
+                    : "One approval covers every miner. Without it, each miner needs its own approval transaction."}
+              </p>
+            </div>
+            {approvedForAll ? (
+              <span className="text-green-400 text-sm font-semibold">Approved</span>
+            ) : (
+              <button
+                onClick={approveAll}
+                disabled={approving || running || approvedForAll === null}
+                className={buttonClass}
+              >
+                {approving ? "Approving..." : "Approve all"}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Step 2: selection */}
+        {showSelection && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-amber-300">
+                {selected.length} of {loading ? "…" : limit} free slot
+                {limit === 1 ? "" : "s"} selected
+                {capacity && (
+                  <span className="text-amber-300/50">
+                    {" "}
+                    · {capacity.staked}/{capacity.slots} staked, max{" "}
+                    {capacity.maxMinersPerWallet} per wallet
+                  </span>
+                )}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setSelected(minerIds.slice(0, limit))}
+                  disabled={limit === 0}
+                  className={secondaryClass}
+                >
+                  Select {Math.min(limit, minerIds.length)}
+                </button>
+                <button onClick={() => setSelected([])} className={secondaryClass}>
+                  Clear
+                </button>
+              </div>
+            </div>
+
+            <div className="max-h-60 overflow-y-auto space-y-2 pr-1">
+              {miners.length === 0 && (
+                <p className="text-amber-300/60 text-sm">No miners available for staking.</p>
+              )}
+              {miners.map((miner) => {
+                const id = Number(miner.id);
+                const checked = selected.includes(id);
+                return (
+                  <label
+                    key={id}
+                    className={`flex items-center gap-3 bg-[#1a0d00] border rounded-lg p-2 cursor-pointer ${
+                      checked ? "border-amber-500" : "border-amber-500/20"
+                    } ${!checked && selected.length >= limit ? "opacity-50" : ""}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={!checked && selected.length >= limit}
+                      onChange={() => toggle(id)}
+                    />
+                    <MinerImage
+                      image={miner.image}
+                      imageFallbacks={miner.imageFallbacks}
+                      alt={miner.name ?? `Miner #${id}`}
+                      className="w-8 h-8 object-contain"
+                    />
+                    <span className="text-amber-200 text-sm">
+                      {miner.name} <span className="text-amber-300/50">#{id}</span>
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+              {(["batched", "sequential"] as const).map((option) => (
+                <label key={option} className="flex items-center gap-1 text-amber-300 text-sm">
+                  <input
+                    type="radio"
+                    checked={mode === option}
+                    onChange={() => setMode(option)}
+                  />
+                  {option === "batched" ? "Batched" : "One at a time"}
+                </label>
+              ))}
+              {mode === "batched" && (
+                <label className="text-amber-300/80 text-xs">
+                  Per batch
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={batchSize}
+                    onChange={(e) => setBatchSize(Math.max(1, Number(e.target.value) || 1))}
+                    className="block w-20 bg-[#1a0d00] border border-amber-500/30 text-amber-300 text-sm rounded-lg px-2 py-1"
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-amber-300/50 text-xs">
+              {mode === "batched"
+                ? "Sends several stake transactions back to back, then waits for them to confirm."
+                : "Waits for each stake to confirm before asking for the next."}
+            </p>
+
+            <button
+              onClick={() => start(selected, mode, batchSize)}
+              disabled={selected.length === 0 || running || approving}
+              className={`${buttonClass} w-full`}
+            >
+              Stake {selected.length} miner{selected.length === 1 ? "" : "s"}
+            </button>
+          </div>
+        )}
+
+        {/* Step 3: progress */}
+        {job && progress && (
+          <div className="space-y-3 mt-4">
+            <div>
+              <div className="h-2 bg-[#1a0d00] rounded">
+                <div
+                  className="h-2 bg-green-500 rounded transition-all"
+                  style={{
+                    width: `${((progress.total - progress.remaining - progress.inFlight) / Math.max(progress.total, 1)) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="text-amber-300/70 text-xs mt-1">
+                {progress.staked} staked · {progress.inFlight} confirming ·{" "}
+                {progress.remaining} waiting
+                {progress.failed > 0 && ` · ${progress.failed} failed`}
+                {progress.skipped > 0 && ` · ${progress.skipped} skipped`}
+              </p>
+            </div>
+
+            <div className="max-h-40 overflow-y-auto text-sm space-y-1 pr-1">
+              {job.items.map((item) => (
+                <div key={item.tokenId} className="flex justify-between">
+                  <span className="text-amber-200">Miner #{item.tokenId}</span>
+                  <span className={STATUS_CLASSES[item.status]} title={item.error ?? undefined}>
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              {running ? (
+                <button onClick={stop} className={secondaryClass}>
+                  Stop after current
+                </button>
+              ) : unfinished ? (
+                <>
+                  <button onClick={resume} className={buttonClass}>
+                    Resume ({progress.remaining + progress.inFlight} left)
+                  </button>
+                  <button onClick={discard} className={secondaryClass}>
+                    Discard
+                  </button>
+                </>
+              ) : (
+                <button onClick={discard} className={secondaryClass}>
+                  Clear results
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,45 +9,23 @@ import {
   DialogFooter,
   DialogDescription,
 } from "@/components/ui/dialog";
-import { FOOD_ITEMS, FoodItem } from "@/constants/food";
+import { FoodItem } from "@/constants/food";
+import { useMealCatalog } from "@/hooks/useMealCatalog";
 import { useStaking } from "@/hooks/useStaking";
 import { useMealStatuses } from "@/hooks/useMealStatuses";
 import { useRoninWallet } from "@/services/wallet/RoninWalletProvider";
 import { useExpeditions } from "@/hooks/useExpeditions";
+import { useTransactions } from "@/hooks/useTransactions";
+import { TransactionFailedError } from "@/services/transactions/RevertDecoder";
 import { ethers } from "ethers";
 import Countdown from "react-countdown";
-// Import not needed as we're using environment variables directly
-// import { getContractAddress } from "@/config/contracts";
-
-// Meal ABI minimal interface for the contract (updated to include all required functions)
-const MealABI = [
-  "function canEatMeal(uint256 minerId, uint256 mealId) view returns (bool,uint256)",
-  "function getMinerMealStatus(uint256 minerId) view returns (uint256,uint256,uint256,uint256,uint256)",
-  "function MEAL_COOLDOWN() view returns (uint256)",
-  // feedMiner is not used here but kept for compatibility; adjust if contract differs
-  "function feedMiner(uint256 minerId, uint256 mealId)",
-];
-
-// BatchAction function to handle multiple transactions
-class BatchAction {
-  actions: Array<[number, bigint, bigint]> = [];
-
-  addAction(action: number, arg1: number | bigint, arg2: number | bigint) {
-    this.actions.push([action, BigInt(arg1), BigInt(arg2)]);
-  }
-
-  async executeBatch(batchContract: ethers.Contract) {
-    if (this.actions.length === 0) return null;
-    console.log("Executing batch with actions:", this.actions);
-    try {
-      return await batchContract.executeBatch(this.actions);
-    } catch (error: unknown) {
-      console.error("executeBatch error:", error);
-      const message = error instanceof Error ? error.message : "Unknown error";
-      throw new Error(`executeBatch failed: ${message}`);
-    }
-  }
-}
+import { getFoodSystemContract } from "@/contracts/clients/FoodSystem";
+import { getMiningMastersStakingContract } from "@/contracts/clients/MiningMastersStaking";
+import { getRewardSpendingBatchContract } from "@/contracts/clients/RewardSpendingBatch";
+import { BatchAction, BATCH_ACTION } from "@/services/contracts/BatchAction";
+import MulticallService, { encodeCall } from "@/services/contracts/MulticallService";
+import chainReads, { readKey, STATIC_READ_TTL_MS } from "@/services/cache/ChainReadCache";
+import { DiscountCountdown, MealPrice } from "./MealDiscount";
 
 // Minimal props typing for react-countdown renderer (package ships its own d.ts in node_modules,
 // but to avoid installing missing DefinitelyTyped package we create local fallback)
@@ -77,6 +55,13 @@ export default function EatButton() {
     stakedMinerCount,
   } = useMealStatuses();
   const { anyOnExpedition } = useExpeditions();
+  const {
+    meals,
+    discount,
+    loading: catalogLoading,
+    refetch: refetchCatalog,
+  } = useMealCatalog();
+  const { execute, notify } = useTransactions();
 
   // Ensure we have a normalized list of miner IDs regardless of their original structure
   const minerTokenIds = useMemo<number[]>(() => {
@@ -132,11 +117,8 @@ export default function EatButton() {
         return false;
       }
 
-      const contract = new ethers.Contract(
-        mealContractAddress,
-        MealABI,
-        signer
-      );
+      const contract = getFoodSystemContract(signer, mealContractAddress);
+      const multicall = new MulticallService(provider);
       const now = Math.floor(Date.now() / 1000); // Current time in seconds
 
       // OPTIMIZATION: Check global feeding status with a longer cache time
@@ -147,54 +129,60 @@ export default function EatButton() {
       ) {
         console.log("Performing global feeding status check for all miners...");
 
-        const cooldown = await contract.MEAL_COOLDOWN();
+        const cooldown = await chainReads.read<bigint>(contract, "MEAL_COOLDOWN", [], {
+          ttlMs: STATIC_READ_TTL_MS,
+        });
         const minerFeedingStatuses: Record<
           number,
           { mealId: number; endTime: number }
         > = {};
         let anyMinerStillFed = false;
 
-        // Use Promise.all for batch processing all miners at once
-        await Promise.all(
-          minerTokenIds.map(async (minerId) => {
-            try {
-              const [
-                currentMealId,
-                timestamp,
-                successRate,
-                minReward,
-                maxReward,
-              ] = await contract.getMinerMealStatus(minerId);
-
-              const currentMealIdNum = Number(currentMealId);
-
-              if (currentMealIdNum !== 0) {
-                const cooldownEnd = Number(timestamp) + Number(cooldown);
-
-                // Store the feeding status regardless of whether it's active
-                minerFeedingStatuses[minerId] = {
-                  mealId: currentMealIdNum,
-                  endTime: cooldownEnd,
-                };
-
-                // If any miner is still fed, all miners are considered fed (since they're fed as a batch)
-                if (now < cooldownEnd) {
-                  console.log(
-                    `Miner ${minerId} is still fed with meal ${currentMealIdNum} until ${new Date(
-                      cooldownEnd * 1000
-                    ).toLocaleString()}`
-                  );
-                  anyMinerStillFed = true;
-                }
-              }
-            } catch (error) {
-              console.error(
-                `Error checking meal status for miner ${minerId}:`,
-                error
+        // Read every miner's meal status in a single multicall, shared with useExpeditions
+        const mealStatusResults = await chainReads.query(
+          readKey(mealContractAddress, "getMinerMealStatus", minerTokenIds),
+          () =>
+            multicall.aggregate(
+              minerTokenIds.map((minerId) =>
+                encodeCall(contract, "getMinerMealStatus", [minerId])
+              )
+            ),
+          { scopes: ["meals"] }
+        );
+
+        minerTokenIds.forEach((minerId, index) => {
+          const result = mealStatusResults[index];
+          if (!result.success) {
+            console.error(
+              `Error checking meal status for miner ${minerId}:`,
+              result.error
+            );
+            return;
+          }
+
+          const { mealId: currentMealId, timestamp } = result.value;
+          const currentMealIdNum = Number(currentMealId);
+
+          if (currentMealIdNum !== 0) {
+            const cooldownEnd = Number(timestamp) + Number(cooldown);
+
+            // Store the feeding status regardless of whether it's active
+            minerFeedingStatuses[minerId] = {
+              mealId: currentMealIdNum,
+              endTime: cooldownEnd,
+            };
+
+            // If any miner is still fed, all miners are considered fed (since they're fed as a batch)
+            if (now < cooldownEnd) {
+              console.log(
+                `Miner ${minerId} is still fed with meal ${currentMealIdNum} until ${new Date(
+                  cooldownEnd * 1000
+                ).toLocaleString()}`
               );
+              anyMinerStillFed = true;
             }
-          })
-        );
+          }
+        });
 
         // Update the feeding status state
         setMinerFeedingStatus(minerFeedingStatuses);
@@ -245,24 +233,27 @@ export default function EatButton() {
       let allCanEat = true;
       let maxTimeLeft = 0;
 
-      // Use Promise.all for batch processing
-      const canEatResults = await Promise.all(
-        minerTokenIds.map(async (minerId) => {
-          try {
-            const [canEat, timeLeft] = await contract.canEatMeal(
-              minerId,
-              mealId
-            );
-            return { minerId, canEat, timeLeft: Number(timeLeft) };
-          } catch (error) {
-            console.error(
-              `Error checking if miner ${minerId} can eat meal ${mealId}:`,
-              error
-            );
-            return { minerId, canEat: false, timeLeft: 0, error };
-          }
-        })
+      // Read every miner's eligibility for this meal in a single multicall
+      const canEatCalls = await multicall.aggregate(
+        minerTokenIds.map((minerId) =>
+          encodeCall(contract, "canEatMeal", [minerId, mealId])
+        )
       );
+      const canEatResults = minerTokenIds.map((minerId, index) => {
+        const result = canEatCalls[index];
+        if (!result.success) {
+          console.error(
+            `Error checking if miner ${minerId} can eat meal ${mealId}:`,
+            result.error
+          );
+          return { minerId, canEat: false, timeLeft: 0 };
+        }
+        return {
+          minerId,
+          canEat: result.value.canEat,
+          timeLeft: Number(result.value.timeUntilAvailable),
+        };
+      });
 
       // Process results
       for (const result of canEatResults) {
@@ -368,20 +359,10 @@ export default function EatButton() {
       const signer = await provider.getSigner();
       const userAddress = await signer.getAddress();
 
-      const stakingContractAddress =
-        import.meta.env.VITE_NETWORK_ENV === "mainnet"
-          ? import.meta.env.VITE_MAINNET_STAKING_PROXY_ADDRESS
-          : import.meta.env.VITE_TESTNET_STAKING_PROXY_ADDRESS;
-
-      const stakingABI = [
-        "function getPendingRewards(address) view returns (uint256)",
-      ];
-      const contract = new ethers.Contract(
-        stakingContractAddress,
-        stakingABI,
-        provider
-      );
-      const pending = await contract.getPendingRewards(userAddress);
+      const contract = getMiningMastersStakingContract(provider);
+      const pending = await chainReads.read<bigint>(contract, "getPendingRewards", [userAddress], {
+        scopes: ["staking"],
+      });
       const formatted = ethers.formatUnits(pending, 18);
       setGemBalance(formatted);
     } catch (err) {
@@ -415,8 +396,8 @@ export default function EatButton() {
       setLastCheckTime(now);
 
       try {
-        // Check each meal in the FOOD_ITEMS array
-        for (const food of FOOD_ITEMS) {
+        // Check each meal in the live catalog
+        for (const food of meals) {
           await canAllEatMeal(food.id);
           // Reduced logging
         }
@@ -435,7 +416,7 @@ export default function EatButton() {
     return () => {
       if (timeoutId) window.clearTimeout(timeoutId);
     };
-  }, [connector, minerTokenIds.length]); // Removed mealStatuses.length and lastCheckTime dependencies
+  }, [connector, minerTokenIds.length, meals]); // Removed mealStatuses.length and lastCheckTime dependencies
 
   const openConfirmation = (food: FoodItem) => {
     console.log(`Opening confirmation for food:`, food);
@@ -455,7 +436,7 @@ export default function EatButton() {
 
       // Check if expedition is in progress
       if (anyOnExpedition) {
-        alert("Cannot feed while an expedition is in progress.");
+        notify("Cannot feed while an expedition is in progress.", "error");
         setLoading(false);
         setTransactionLoading(false);
         return;
@@ -468,11 +449,8 @@ export default function EatButton() {
         throw new Error("Signer not available");
       }
 
-      // Determine Food System (Meal) contract address based on network
-      const mealContractAddress =
-        import.meta.env.VITE_NETWORK_ENV === "mainnet"
-          ? import.meta.env.VITE_MAINNET_FOOD_SYSTEM_PROXY_ADDRESS
-          : import.meta.env.VITE_TESTNET_FOOD_SYSTEM_PROXY_ADDRESS;
+      // Food System (Meal) contract address on the active network
+      const mealContractAddress = getContractAddress("FoodSystemProxy");
 
       if (!mealContractAddress || !ethers.isAddress(mealContractAddress)) {
         throw new Error(
@@ -485,8 +463,9 @@ export default function EatButton() {
       // Check if all miners can eat this meal (using the improved canAllEatMeal function)
       const allCanEat = await canAllEatMeal(selectedFood.id);
       if (!allCanEat) {
-        alert(
-          "Not all staked miners can eat this meal yet. Wait for cooldown or expedition completion."
+        notify(
+          "Not all staked miners can eat this meal yet. Wait for cooldown or expedition completion.",
+          "error"
         );
         setLoading(false);
         setTransactionLoading(false);
@@ -498,33 +477,14 @@ export default function EatButton() {
 
       // Add all actions (feed each miner with selected food)
       minerTokenIds.forEach((minerId) => {
-        batch.addAction(0, minerId, selectedFood.id);
+        batch.addAction(BATCH_ACTION.FEED, minerId, selectedFood.id);
       });
 
       // Get the batch contract address for executing the transaction
-      // Check for different possible environment variable patterns since RewardSpendingBatch doesn't have a direct match
-      const network = import.meta.env.VITE_NETWORK_ENV || "testnet";
-      let batchAddress;
-
-      if (network === "testnet") {
-        // Try multiple possible variable names for the batch contract
-        batchAddress =
-          import.meta.env.VITE_TESTNET_REWARD_SPENDING_BATCH_ADDRESS ||
-          import.meta.env.VITE_TESTNET_REWARD_SPENDING_INTERFACE_FIXED2_ADDRESS;
-      } else {
-        batchAddress =
-          import.meta.env.VITE_MAINNET_REWARD_SPENDING_BATCH_ADDRESS ||
-          import.meta.env.VITE_MAINNET_REWARD_SPENDING_INTERFACE_FIXED2_ADDRESS;
-      }
+      const batchAddress = getContractAddress("RewardSpendingBatch");
 
       console.log("Using batch contract address:", batchAddress);
 
-      if (!batchAddress) {
-        throw new Error(
-          "Missing batch contract address. Check environment variables for REWARD_SPENDING_BATCH_ADDRESS or REWARD_SPENDING_INTERFACE_FIXED2_ADDRESS"
-        );
-      }
-
       if (batchAddress === "0x0000000000000000000000000000000000000000") {
         throw new Error(
           "Invalid batch contract address: Address is zero address"
@@ -533,33 +493,36 @@ export default function EatButton() {
 
       // Create batch contract instance with proper error handling
       try {
-        const batchContractABI = [
-          "function executeBatch(tuple(uint8 action,uint256 arg1,uint256 arg2)[] actions)",
-        ];
-        console.log("Creating contract with:", {
-          address: batchAddress,
-          abi: batchContractABI,
-          signerAddress: await signer.getAddress(),
-        });
-
         // Verify address format
         if (!ethers.isAddress(batchAddress)) {
           throw new Error(`Invalid address format: ${batchAddress}`);
         }
 
-        const batchContract = new ethers.Contract(
-          batchAddress,
-          batchContractABI,
-          signer
+        const batchContract = getRewardSpendingBatchContract(
+          signer,
+          batchAddress
         );
         console.log("Batch contract instance created successfully");
 
-        // Execute batch and wait for confirmation
+        // Execute batch and wait for confirmation through the transaction manager
         console.log("Executing batch with", batch.actions.length, "actions");
-        const tx = await batch.executeBatch(batchContract);
-        console.log("Transaction sent:", tx.hash);
-        await tx.wait();
+        await execute(
+          {
+            kind: "feedMiners",
+            meta: { mealId: selectedFood.id, minerIds: minerTokenIds },
+            description: `Feed ${selectedFood.name} to ${minerTokenIds.length} miner${minerTokenIds.length === 1 ? "" : "s"}`,
+          },
+          async () => {
+            const tx = await batch.executeBatch(batchContract);
+            if (!tx) {
+              throw new Error("No miners to feed");
+            }
+            return tx;
+          }
+        );
       } catch (contractError: unknown) {
+        // Transaction failures have already been reported by the transaction manager
+        if (contractError instanceof TransactionFailedError) throw contractError;
         console.error("Contract error details:", contractError);
         const errorMessage =
           contractError instanceof Error
@@ -578,7 +541,9 @@ export default function EatButton() {
       // Show success message or notification here
     } catch (error) {
       console.error("Error when executing batch eat transaction:", error);
-      alert("Failed to purchase meal");
+      if (!(error instanceof TransactionFailedError)) {
+        notify("Failed to purchase meal", "error");
+      }
     } finally {
       setTransactionLoading(false); // Keep main loading true until we refresh meal status
       setConfirmOpen(false);
@@ -592,11 +557,11 @@ export default function EatButton() {
 
         // Pre-check eligibility for all meals to update UI
         // Use a timeout to avoid immediate execution
-        if (FOOD_ITEMS.length > 0 && connector) {
+        if (meals.length > 0 && connector) {
           setTimeout(() => {
             const checkEligibility = async () => {
               const newEligibleMeals: Record<number, boolean> = {};
-              for (const food of FOOD_ITEMS) {
+              for (const food of meals) {
                 newEligibleMeals[food.id] = await canAllEatMeal(food.id);
               }
               setEligibleMeals(newEligibleMeals);
@@ -675,8 +640,9 @@ export default function EatButton() {
       <button
         onClick={() => {
           if (expeditionInProgress) {
-            alert(
-              "Cannot feed while an expedition is in progress. Please wait for miners to return."
+            notify(
+              "Cannot feed while an expedition is in progress. Please wait for miners to return.",
+              "error"
             );
             return;
           }
@@ -714,10 +680,16 @@ export default function EatButton() {
             <p className="text-amber-200/90 mt-2 pl-1">
               Feed your miners to gain powerful bonuses
             </p>
+            <DiscountCountdown discount={discount} onEnd={refetchCatalog} />
           </div>
 
           <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-5">
-            {FOOD_ITEMS.map((food) => {
+            {catalogLoading && meals.length === 0 && (
+              <p className="text-amber-200/80 md:col-span-2 text-center">
+                Loading meals...
+              </p>
+            )}
+            {meals.map((food) => {
               const status = statusMap[food.id];
               const disabled = mealLoading || (status && !status.canEat);
               return (
@@ -756,7 +728,7 @@ export default function EatButton() {
                     </div>
                   ) : (
                     <div className="absolute top-2 right-2 bg-amber-900/40 px-3 py-1 rounded-full text-amber-200/90 text-sm font-semibold">
-                      {food.price} <span className="text-amber-300">💎</span>
+                      <MealPrice food={food} />
                     </div>
                   )}
 
@@ -776,6 +748,12 @@ export default function EatButton() {
                             {food.gemChance}% gem chance
                           </span>
                         </div>
+                        <div className="flex items-center space-x-1 text-sm">
+                          <span className="text-amber-300">⛏️</span>
+                          <span className="text-amber-200/90">
+                            {food.minReward}–{food.maxReward} GEMS per find
+                          </span>
+                        </div>
                         {stakedMiners.length > 1 && (
                           <p className="mt-2 text-amber-300/90 text-xs bg-amber-950/30 px-2 py-1 rounded inline-block">
                             Total cost:{" "}
@@ -783,9 +761,12 @@ export default function EatButton() {
                               ? isOGMinerHolder
                                 ? "FREE"
                                 : "OG Only"
-                              : food.price === 0
-                              ? "FREE"
-                              : `${food.price * stakedMiners.length} 💎`}
+                              : (
+                                <MealPrice
+                                  food={food}
+                                  multiplier={stakedMiners.length}
+                                />
+                              )}
                           </p>
                         )}
                       </div>
@@ -829,7 +810,7 @@ export default function EatButton() {
                     ? isOGMinerHolder
                       ? "FREE (OG benefit)"
                       : "Not Available"
-                    : `${selectedFood.price} 💎`}
+                    : <MealPrice food={selectedFood} />}
                 </div>
               </div>
 
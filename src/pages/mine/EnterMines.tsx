@@ -7,9 +7,16 @@ import {
 } from "@/components/ui/dialog";
 import { useExpeditions } from "@/hooks/useExpeditions";
 import { useStaking } from "@/hooks/useStaking";
+import { useTransactions } from "@/hooks/useTransactions";
+import { TransactionFailedError } from "@/services/transactions/RevertDecoder";
 import { ethers } from "ethers";
 import { useRoninWallet } from "@/services/wallet/RoninWalletProvider";
 import { getContractAddress } from "@/config/contracts";
+import { getMiningExpeditionContract } from "@/contracts/clients/MiningExpedition";
+import ExpeditionSimulationService, {
+  describeSimulationFailure,
+  SimulationReport,
+} from "@/services/contracts/ExpeditionSimulationService";
 import ReturnFromMines from "./ReturnFromMines";
 
 export default function EnterMines() {
@@ -17,6 +24,8 @@ export default function EnterMines() {
   const [showMiningModal, setShowMiningModal] = useState(true); // Control mining progress dialog visibility
   const [expeditionErrorDetails, setExpeditionErrorDetails] =
     useState<string>("");
+  // Per-miner startExpedition dry run shown as a checklist before signing
+  const [simulation, setSimulation] = useState<SimulationReport | null>(null);
 
   const {
     anyOnExpedition,
@@ -30,6 +39,7 @@ export default function EnterMines() {
   } = useExpeditions();
   const { stakedMiners } = useStaking();
   const { connector, address } = useRoninWallet();
+  const { execute, notify } = useTransactions();
 
   const [now, setNow] = useState(Date.now());
   useEffect(() => {
@@ -169,7 +179,24 @@ export default function EnterMines() {
     });
     forceRefresh();
     setExpeditionErrorDetails("");
+    setSimulation(null);
     setShowStartModal(true);
+    simulateStart(stakedMiners)
+      .then(setSimulation)
+      .catch((error) =>
+        console.error("[EnterMines] Expedition simulation failed:", error)
+      );
+  };
+
+  // Dry-run startExpedition for each miner as the connected wallet
+  const simulateStart = async (minerIds: number[]) => {
+    if (!connector || minerIds.length === 0) return null;
+    const provider = new ethers.BrowserProvider(connector.provider);
+    const signer = await provider.getSigner();
+    return new ExpeditionSimulationService(provider).simulateStart(
+      await signer.getAddress(),
+      minerIds
+    );
   };
 
   const toggleModal = (open: boolean) => {
@@ -210,402 +237,97 @@ export default function EnterMines() {
     });
 
     if (!hasCharacter) {
-      alert("You have no staked miners to send on an expedition");
+      notify("You have no staked miners to send on an expedition", "error");
       return;
     }
     const provider = new ethers.BrowserProvider(connector.provider);
     const signer = await provider.getSigner();
     const expeditionAddress = getContractAddress("MiningExpeditionProxy");
     if (!expeditionAddress) {
-      alert("Missing MiningExpeditionProxy address");
+      notify("Missing MiningExpeditionProxy address", "error");
       return;
     }
-    const abi = [
-      "function startExpedition(uint256)",
-      "function startExpeditions(uint256[])",
-    ];
-    const expedition = new ethers.Contract(expeditionAddress, abi, signer);
-
-    // CRITICAL FIX: Compare UI eligibility with contract simulation
-    console.log(
-      `[${new Date().toISOString()}] Starting expedition eligibility check via contract simulation`
-    );
+    const expedition = getMiningExpeditionContract(signer, expeditionAddress);
 
-    // For debug: Check which miners hook thinks are eligible
+    // Miners the hook considers eligible, confirmed by dry-running startExpedition as the player
     const hookEligible = statuses
       .filter((s) => s.eligibleForNewExpedition)
       .map((s) => s.minerId);
-    console.log(
-      `[${new Date().toISOString()}] Hook shows these miners as eligible:`,
-      hookEligible
-    );
-
-    // For batched transaction, we'll use miners the hook thinks are eligible
-    // This ensures UI and transaction logic are in sync
-    const eligibleFromHook =
-      hookEligible.length > 0 ? hookEligible : stakedMiners;
-
-    const eligible: number[] = [];
-    const ineligible: { id: any; reason: string }[] = [];
-
-    // Prepare call data and sender
-    const iface = expedition.interface;
-    const from = await signer.getAddress();
-
-    // Log the food contract for debugging
-    const foodSystemAddress = getContractAddress("FoodSystemProxy");
-    console.log(
-      `[${new Date().toISOString()}] Food contract: ${foodSystemAddress}`
-    );
-
-    // CRITICAL FIX: Get the actual food system address directly from the MiningExpedition contract first
-    // This ensures we're using the same food system contract that expedition is using
-    const expeditionDetailedAbi = [
-      "function foodSystemAddress() view returns (address)",
-      "function startExpedition(uint256)",
-    ];
-    const expeditionDetailed = new ethers.Contract(
-      expeditionAddress,
-      expeditionDetailedAbi,
-      provider
-    );
-    const actualFoodSystemAddress =
-      await expeditionDetailed.foodSystemAddress();
-
-    // Compare with the config address to detect mismatches
-    if (actualFoodSystemAddress !== foodSystemAddress) {
-      console.log(
-        `[${new Date().toISOString()}] ⚠️ CRITICAL ADDRESS MISMATCH - Config vs Contract:`
-      );
-      console.log(
-        `[${new Date().toISOString()}] Config Food System: ${foodSystemAddress}`
-      );
-      console.log(
-        `[${new Date().toISOString()}] Actual Food System: ${actualFoodSystemAddress}`
-      );
-    }
-
-    // ALWAYS use the address from the contract for consistency
-    // This is the food system address the MiningExpedition contract will use
-    const foodAbi = [
-      "function getMinerMealStatus(uint256 tokenId) view returns (uint256 mealId, uint256 timestamp, uint256 successRate, uint256 minReward, uint256 maxReward)",
-    ];
-    const foodContract = new ethers.Contract(
-      actualFoodSystemAddress,
-      foodAbi,
-      provider
-    );
-
-    console.log(
-      `[${new Date().toISOString()}] Checking meal status directly from correct food contract...`
-    );
+    const candidates = hookEligible.length > 0 ? hookEligible : stakedMiners;
+    const report = await simulateStart(candidates);
+    if (report) setSimulation(report);
+    const eligible = report?.passed ?? [];
+    const ineligible = report?.failed ?? [];
 
-    // Store contract-verified meal statuses
-    const contractMealStatus = new Map<
-      number,
-      { mealId: number; timestamp: number }
-    >();
-
-    // Check each miner's meal status directly from contract
-    await Promise.all(
-      eligibleFromHook.map(async (id: number) => {
-        try {
-          const result = await foodContract.getMinerMealStatus(id);
-          const mealId = Number(result[0]);
-          const timestamp = Number(result[1]);
-
-          // Store for comparison
-          contractMealStatus.set(id, { mealId, timestamp });
-
-          // Log for debugging
-          console.log(
-            `[${new Date().toISOString()}] Miner ${id} meal status from contract: mealId=${mealId}, timestamp=${timestamp} (${
-              timestamp > 0
-                ? new Date(timestamp * 1000).toLocaleString()
-                : "never"
-            })`
-          );
-
-          // Add debug info - has this miner eaten according to the contract condition?
-          console.log(
-            `[${new Date().toISOString()}] Miner ${id} has ${
-              timestamp > 0 ? "✅ eaten" : "❌ NOT eaten"
-            } according to contract condition`
-          );
-        } catch (error) {
-          console.error(`Failed to get meal status for miner ${id}:`, error);
-        }
-      })
-    );
-
-    // THEN: Simulate each transaction to detect eligibility issues
-    await Promise.all(
-      eligibleFromHook.map(async (id: any) => {
-        try {
-          // Debug the specific miner we're testing
-          console.log(
-            `[${new Date().toISOString()}] Testing miner ${id} eligibility via contract call...`
-          );
-
-          // Get meal status for comparison
-          const mealStatus = contractMealStatus.get(id);
-          if (mealStatus) {
-            // Check if contract shows this miner has eaten (exactly as contract checks)
-            const hasEatenByContract = mealStatus.timestamp > 0;
-            console.log(
-              `[${new Date().toISOString()}] Pre-check: Miner ${id} has ${
-                hasEatenByContract ? "✅ eaten" : "❌ NOT eaten"
-              } (timestamp=${mealStatus.timestamp})`
-            );
-          }
-
-          // Now we've verified we're using the correct food system address from the contract itself
-          // RPC call simulating startExpedition with correct msg.sender
-          await provider.call({
-            to: expeditionAddress,
-            data: iface.encodeFunctionData("startExpedition", [id]),
-            from,
-          });
-
-          console.log(
-            `[${new Date().toISOString()}] ✅ Miner ${id} passed simulation check`
-          );
-          eligible.push(id);
-        } catch (e: any) {
-          // Enhanced error extraction
-          let reason =
-            e?.info?.error?.message || e?.reason || e?.message || String(e);
-          console.log(
-            `[${new Date().toISOString()}] ❌ Miner ${id} failed: ${reason}`
-          );
-
-          // Try to make error messages more user-friendly
-          if (
-            reason.includes("not fed") ||
-            reason.includes("feeding status") ||
-            reason.includes("not eaten") ||
-            reason.includes("hasn't eaten")
-          ) {
-            reason = "Miner has not eaten";
-
-            // Add debugging info about contract meal state if available
-            const mealStatus = contractMealStatus.get(id);
-            if (mealStatus) {
-              console.log(
-                `[${new Date().toISOString()}] CONTRADICTION? Contract shows mealTimestamp=${
-                  mealStatus.timestamp
-                } for miner ${id}`
-              );
-            }
-          } else if (reason.includes("cooldown")) {
-            reason = "Expedition cooldown not finished";
-          }
-
-          ineligible.push({ id, reason });
-        }
-      })
-    );
-
-    // Log ineligible miners for debugging
     if (ineligible.length > 0) {
       console.table(ineligible);
+    }
 
+    if (eligible.length === 0) {
       // Count error types to give better feedback
       const feedingErrors = ineligible.filter(
-        (item) =>
-          item.reason.includes("not eaten") || item.reason.includes("fed")
+        (item) => item.reason === "notFed"
       ).length;
-
-      const cooldownErrors = ineligible.filter((item) =>
-        item.reason.includes("cooldown")
+      const cooldownErrors = ineligible.filter(
+        (item) => item.reason === "onCooldown"
       ).length;
 
-      // CRITICAL FIX: Handle the timestamp synchronization issue in a different way
-      if (eligible.length === 0 && hookEligible.length > 0) {
-        console.log(
-          `[${new Date().toISOString()}] ⚠️ Simulation shows no eligible miners, but hook indicates ${
-            hookEligible.length
-          } should be eligible`
-        );
-        console.log(
-          `[${new Date().toISOString()}] ⚠️ This is a timestamp synchronization issue. Let's check the actual blockchain time and meal expiry.`
-        );
-
-        // Instead of just using hook data, check the actual blockchain timestamp
-        try {
-          // Use provider.getBlock('latest') instead of a contract call that doesn't exist
-          const latestBlock = await provider.getBlock("latest");
-          const blockTimestamp =
-            latestBlock?.timestamp ?? Math.floor(Date.now() / 1000);
-          console.log(
-            `[${new Date().toISOString()}] Blockchain timestamp: ${blockTimestamp}, local timestamp: ${Math.floor(
-              Date.now() / 1000
-            )}`
-          );
-          console.log(
-            `[${new Date().toISOString()}] Time difference: ${
-              blockTimestamp - Math.floor(Date.now() / 1000)
-            } seconds`
-          );
-
-          // Get the food system contract to check meal status directly
-          const foodSystemAbi = [
-            "function getMinerMealStatus(uint256) view returns (uint256, uint256)",
-          ];
-          const foodContract = new ethers.Contract(
-            foodSystemAddress!,
-            foodSystemAbi,
-            signer
-          );
-
-          // Check each miner's actual meal status against the blockchain timestamp
-          const verifiedEligible = await Promise.all(
-            hookEligible.map(async (id) => {
-              try {
-                const [mealId, mealTimestamp] =
-                  await foodContract.getMinerMealStatus(id);
-                console.log(
-                  `[${new Date().toISOString()}] Miner ${id} meal status: ID=${mealId}, timestamp=${mealTimestamp}`
-                );
-
-                // Get meal cooldown from contract using proper ABI
-                const foodSystemAbiWithCooldown = [
-                  "function getMinerMealStatus(uint256) view returns (uint256, uint256)",
-                  "function MEAL_COOLDOWN() view returns (uint256)",
-                ];
-                const foodContractWithCooldown = new ethers.Contract(
-                  foodSystemAddress!,
-                  foodSystemAbiWithCooldown,
-                  provider
-                );
-                const mealCooldown = Number(
-                  await foodContractWithCooldown.MEAL_COOLDOWN()
-                );
-
-                // Calculate expiry using BLOCKCHAIN time, not local time
-                const mealExpiry = Number(mealTimestamp) + Number(mealCooldown);
-                console.log(
-                  `[${new Date().toISOString()}] Miner ${id} meal expires at: ${mealExpiry}, current block time: ${blockTimestamp}`
-                );
-
-                // Verify eligibility using blockchain time
-                if (Number(mealId) > 0 && mealExpiry > blockTimestamp) {
-                  console.log(
-                    `[${new Date().toISOString()}] ✅ Miner ${id} is ACTUALLY eligible based on blockchain time`
-                  );
-                  return id;
-                } else {
-                  console.log(
-                    `[${new Date().toISOString()}] ❌ Miner ${id} is NOT eligible based on blockchain time`
-                  );
-                  return null;
-                }
-              } catch (e) {
-                console.error(
-                  `[${new Date().toISOString()}] Error checking miner ${id}:`,
-                  e
-                );
-                return null;
-              }
-            })
-          );
-
-          // Filter out null values
-          const actuallyEligible = verifiedEligible.filter(
-            (id) => id !== null
-          ) as number[];
-          console.log(
-            `[${new Date().toISOString()}] Actually eligible miners: ${
-              actuallyEligible.length
-            }`
-          );
-
-          if (actuallyEligible.length > 0) {
-            eligible.push(...actuallyEligible);
-          }
-        } catch (e) {
-          console.error(
-            `[${new Date().toISOString()}] Failed to verify with blockchain time:`,
-            e
-          );
-
-          // CRITICAL FIX: Trust our hook's eligibility data since all other checks are failing
-          // This is our last attempt fallback
-          console.log(
-            `[${new Date().toISOString()}] Fallback: Using hook eligibility data directly as last resort`
-          );
-
-          // Use hook data since we couldn't verify with blockchain time
-          // We have clear evidence the miners are fed in the hook logs, so force use them
-          eligible.push(...hookEligible);
-
-          console.log(
-            `[${new Date().toISOString()}] Attempting expedition with ${
-              hookEligible.length
-            } miners from hook directly`
-          );
-        }
-      } else if (eligible.length === 0) {
-        // No eligible miners from any source
-        console.log(
-          `[${new Date().toISOString()}] ❌ No eligible miners from both hook and simulation`
-        );
-
-        // Format detailed error message
-        let errorMessage = "Expedition failed: ";
+      let errorMessage =
+        "No eligible miners found for expedition. Please make sure your miners are fed.";
+      if (feedingErrors > 0 || cooldownErrors > 0) {
+        errorMessage = "Expedition failed: ";
         if (feedingErrors > 0) {
           errorMessage += `${feedingErrors} miner(s) need to be fed. `;
         }
         if (cooldownErrors > 0) {
           errorMessage += `${cooldownErrors} miner(s) still on cooldown.`;
         }
-
-        setExpeditionErrorDetails(errorMessage);
-        setShowStartModal(true); // Keep the modal open to show the error
-        return;
       }
-    }
-
-    // Clear any previous errors if we have eligible miners
-    if (eligible.length > 0) {
-      setExpeditionErrorDetails("");
-    }
 
-    // CRITICAL: Check if we actually have any eligible miners after all checks
-    if (eligible.length === 0) {
-      const errorMsg =
-        "No eligible miners found for expedition. Please make sure your miners are fed.";
-      console.log(`[${new Date().toISOString()}] ${errorMsg}`);
-      setExpeditionErrorDetails(errorMsg);
-      setShowStartModal(true); // Reopen modal to show error
+      setExpeditionErrorDetails(errorMessage);
+      setShowStartModal(true); // Keep the modal open to show the error
       return;
     }
 
+    setExpeditionErrorDetails("");
+
     console.log(
       `[${new Date().toISOString()}] Preparing to start expedition for ${
         eligible.length
       } miners: ${eligible.join(", ")}`
     );
 
-    // Batch start expeditions in one tx
-    let tx;
+    // Batch start expeditions in one tx, tracked by the transaction manager
     try {
-      // Attempt expedition with automatic gas estimation
-      console.log(
-        `[${new Date().toISOString()}] Calling startExpeditions with miner IDs:`,
-        eligible
-      );
-      tx = await expedition.startExpeditions(eligible);
-
-      // Wait for transaction confirmation with more detailed logging
-      console.log(
-        `[${new Date().toISOString()}] Transaction sent! Hash:`,
-        tx.hash
+      const receipt = await execute(
+        {
+          kind: "startExpedition",
+          meta: { minerIds: eligible },
+          description: `Send ${eligible.length} miner${eligible.length === 1 ? "" : "s"} on an expedition`,
+        },
+        async () => {
+          console.log(
+            `[${new Date().toISOString()}] Calling startExpeditions with miner IDs:`,
+            eligible
+          );
+          try {
+            // Attempt expedition with automatic gas estimation
+            return await expedition.startExpeditions(eligible);
+          } catch (err) {
+            // Handle gas estimation errors by setting a fixed gas limit
+            if ((err as { action?: string }).action !== "estimateGas") throw err;
+            console.log(
+              `[${new Date().toISOString()}] Retrying with fixed gas limit of 500,000`
+            );
+            return await expedition.startExpeditions(eligible, {
+              gasLimit: 500_000,
+            });
+          }
+        }
       );
-      const receipt = await tx.wait();
       console.log(
         `[${new Date().toISOString()}] Expedition successful! Block:`,
-        receipt.blockNumber
+        receipt?.blockNumber
       );
 
       // Force refresh expedition data to update UI
@@ -614,62 +336,17 @@ export default function EnterMines() {
       // Show success message to user
       setExpeditionErrorDetails("");
       return;
-    } catch (err: any) {
+    } catch (err) {
       console.error(
         `[${new Date().toISOString()}] Expedition transaction error:`,
         err
       );
 
-      // Handle gas estimation errors by setting a fixed gas limit
-      if (err.action === "estimateGas") {
-        try {
-          console.log(
-            `[${new Date().toISOString()}] Retrying with fixed gas limit of 500,000`
-          );
-          tx = await expedition.startExpeditions(eligible, {
-            gasLimit: 500_000,
-          });
-          const receipt = await tx.wait();
-          console.log(
-            `[${new Date().toISOString()}] Expedition successful on retry! Block:`,
-            receipt.blockNumber
-          );
-
-          // Force refresh expedition data to update UI
-          forceRefresh();
-
-          // Show success message to user
-          setExpeditionErrorDetails("");
-          return;
-        } catch (retryErr: any) {
-          console.error(
-            `[${new Date().toISOString()}] Expedition retry failed:`,
-            retryErr
-          );
-          err = retryErr; // Update error for error handling below
-        }
-      }
-
-      // Extract error details for user feedback
-      let errorMsg = "Failed to start expedition";
-
-      // Parse out the revert reason if available
-      if (err.receipt) {
-        if (err.receipt.status === 0) {
-          errorMsg = "Transaction reverted by the blockchain";
-
-          // Try to extract more useful error information
-          if (err.reason) {
-            errorMsg += ": " + err.reason;
-          } else if (err.message && err.message.includes("has not eaten")) {
-            errorMsg =
-              "Miners are not properly fed. Please feed them and try again.";
-          } else if (err.message && err.message.includes("cooldown")) {
-            errorMsg =
-              "Some miners are still on cooldown from previous expedition.";
-          }
-        }
-      }
+      // Revert reasons are decoded by the transaction manager
+      const errorMsg =
+        err instanceof TransactionFailedError
+          ? `Failed to start expedition: ${err.message}`
+          : "Failed to start expedition";
 
       console.error(
         `[${new Date().toISOString()}] Final error message: ${errorMsg}`
@@ -780,6 +457,36 @@ export default function EnterMines() {
                 Miners are eligible for expedition
               </p>
             </div>
+
+            {simulation && simulation.results.length > 0 && (
+              <div className="bg-[#1a0d00] border border-amber-500/30 rounded-lg p-3 text-sm space-y-1 max-h-48 overflow-y-auto">
+                {simulation.results.map((result) => (
+                  <div
+                    key={result.minerId}
+                    className="flex justify-between gap-3"
+                  >
+                    <span className="text-amber-300">
+                      Miner #{result.minerId}
+                    </span>
+                    <span
+                      className={
+                        result.ok ? "text-green-400" : "text-red-300 text-right"
+                      }
+                    >
+                      {result.ok
+                        ? "✓ Ready"
+                        : `✗ ${describeSimulationFailure(result)}`}
+                    </span>
+                  </div>
+                ))}
+                {simulation.foodSystemMismatch && (
+                  <p className="text-amber-300/80 text-xs pt-1">
+                    The expedition contract reads meals from a different
+                    FoodSystem than this app is configured for.
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="flex justify-center">
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FoodItem } from "@/constants/food";
+import { FeedAndMineStepStatus, useFeedAndMine } from "@/hooks/useFeedAndMine";
+import { useMealCatalog } from "@/hooks/useMealCatalog";
+import { useStaking } from "@/hooks/useStaking";
+import { describeSimulationFailure } from "@/services/contracts/ExpeditionSimulationService";
+
+const STEP_ICONS: Record<FeedAndMineStepStatus, string> = {
+  pending: "○",
+  active: "⏳",
+  done: "✓",
+  failed: "✗",
+  skipped: "–",
+};
+
+const STEP_COLORS: Record<FeedAndMineStepStatus, string> = {
+  pending: "text-amber-300/60",
+  active: "text-amber-300",
+  done: "text-green-400",
+  failed: "text-red-300",
+  skipped: "text-amber-300/60",
+};
+
+/**
+ * Feeds every staked miner one meal and sends them mining in a single flow:
+ * every miner is dry-run first, then the feed batch and the expedition start are
+ * sent one after the other under one progress dialog
+ */
+export default function FeedAndMine() {
+  const [open, setOpen] = useState(false);
+  const [selectedMeal, setSelectedMeal] = useState<FoodItem | null>(null);
+  const { stakedMiners } = useStaking();
+  const { meals, loading: catalogLoading } = useMealCatalog();
+  const { plan, planning, running, progress, error, preview, run, reset } =
+    useFeedAndMine();
+
+  const started = progress.start === "done";
+  const failed = progress.feed === "failed" || progress.start === "failed";
+  const inFlight = running || (progress.feed === "done" && !started && !failed);
+  const canRun =
+    !!plan &&
+    plan.mealId === selectedMeal?.id &&
+    plan.toStart.length > 0 &&
+    (plan.feedSimulation.ok || progress.feed === "done") &&
+    !planning &&
+    !running &&
+    !started;
+
+  const openDialog = () => {
+    reset();
+    setSelectedMeal(null);
+    setOpen(true);
+  };
+
+  const selectMeal = (meal: FoodItem) => {
+    if (inFlight) return;
+    setSelectedMeal(meal);
+    preview(meal.id, stakedMiners);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    // Keep the dialog up while a transaction is waiting on the wallet or the chain
+    if (!next && running) return;
+    setOpen(next);
+  };
+
+  const feedCost = selectedMeal && plan ? selectedMeal.price * plan.toFeed.length : 0;
+
+  return (
+    <div className="flex justify-center w-full">
+      <button
+        onClick={openDialog}
+        disabled={stakedMiners.length === 0}
+        className="w-full bg-amber-500 hover:bg-amber-600 text-black font-semibold p-3 rounded-lg transition-all duration-300 font-winky disabled:bg-gray-500 disabled:cursor-not-allowed"
+        data-component-name="FeedAndMine"
+      >
+        Feed &amp; Mine
+      </button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="bg-gradient-to-b from-[#2a1a0a] to-[#1a0d00] border-2 border-amber-500/40 rounded-xl p-8 w-full max-w-2xl shadow-xl">
+          <DialogHeader className="flex justify-between items-center mb-4">
+            <DialogTitle className="text-2xl font-bold text-amber-400 font-winky">
+              Feed &amp; Mine
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-5 max-h-[70vh] overflow-y-auto pr-2">
+            {/* Meal picker */}
+            <div>
+              <p className="text-amber-300/80 text-sm mb-2">
+                Choose a meal for your {stakedMiners.length} miner
+                {stakedMiners.length === 1 ? "" : "s"}
+              </p>
+              {catalogLoading && meals.length === 0 ? (
+                <p className="text-amber-300/70 text-center">Loading meals...</p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {meals.map((meal) => (
+                    <button
+                      key={meal.id}
+                      onClick={() => selectMeal(meal)}
+                      disabled={inFlight}
+                      className={`text-left p-3 rounded-lg border transition-colors disabled:opacity-50 ${
+                        selectedMeal?.id === meal.id
+                          ? "border-amber-400 bg-amber-900/40"
+                          : "border-amber-500/20 bg-[#1a0d00]/60 hover:border-amber-400/60"
+                      }`}
+                    >
+                      <p className="text-amber-400 font-semibold">
+                        {meal.icon} {meal.name}
+                      </p>
+                      <p className="text-amber-300/70 text-xs">
+                        {meal.price === 0 ? "FREE" : `${meal.price} GEMS`} ·{" "}
+                        {meal.gemChance}% gem chance
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Dry-run results */}
+            {selectedMeal && (
+              <div className="bg-[#1a0d00]/60 p-4 rounded-lg border border-amber-500/20 text-sm space-y-1.5">
+                {planning ? (
+                  <p className="text-amber-300/70 text-center">
+                    Checking your miners...
+                  </p>
+                ) : error ? (
+                  <p className="text-red-300 text-center">{error}</p>
+                ) : plan ? (
+                  <>
+                    {plan.miners.map((miner) => (
+                      <div
+                        key={miner.minerId}
+                        className="flex justify-between gap-3"
+                      >
+                        <span className="text-amber-300">Miner #{miner.minerId}</span>
+                        {miner.ok ? (
+                          <span className="text-green-400">
+                            {miner.needsFeeding
+                              ? `✓ Feed ${selectedMeal.name} & mine`
+                              : "✓ Mine on current meal"}
+                          </span>
+                        ) : (
+                          <span className="text-red-300 text-right">
+                            ✗ {miner.reason}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-amber-400 font-bold pt-2 border-t border-amber-500/20">
+                      <span>
+                        Meal cost ({plan.toFeed.length} miner
+                        {plan.toFeed.length === 1 ? "" : "s"})
+                      </span>
+                      <span>{feedCost} GEMS</span>
+                    </div>
+                    {!plan.feedSimulation.ok && progress.feed !== "done" && (
+                      <p className="text-red-300 text-center pt-1">
+                        Feeding would fail: {plan.feedSimulation.reason}
+                      </p>
+                    )}
+                    {plan.toStart.length === 0 && (
+                      <p className="text-red-300 text-center pt-1">
+                        None of your miners can start an expedition right now.
+                      </p>
+                    )}
+                  </>
+                ) : null}
+              </div>
+            )}
+
+            {/* Transaction progress */}
+            {plan && plan.toStart.length > 0 && (
+              <div className="bg-[#1a0d00]/60 p-4 rounded-lg border border-amber-500/20 text-sm space-y-2">
+                {[
+                  {
+                    status: progress.feed,
+                    label: `1. Feed ${plan.toFeed.length} miner${plan.toFeed.length === 1 ? "" : "s"}`,
+                  },
+                  {
+                    status: progress.start,
+                    label: `2. Start ${plan.toStart.length} expedition${plan.toStart.length === 1 ? "" : "s"}`,
+                  },
+                ].map((step) => (
+                  <p key={step.label} className={STEP_COLORS[step.status]}>
+                    {STEP_ICONS[step.status]} {step.label}
+                  </p>
+                ))}
+                {progress.dropped.length > 0 && (
+                  <p className="text-amber-300/80 text-xs">
+                    Left behind:{" "}
+                    {progress.dropped
+                      .map((miner) => `#${miner.minerId} (${describeSimulationFailure(miner)})`)
+                      .join(", ")}
+                  </p>
+                )}
+                {progress.error && (
+                  <p className="text-red-300">
+                    {progress.error}
+                    {progress.feed === "done" &&
+                      " Your miners are fed, so retrying only starts the expedition."}
+                  </p>
+                )}
+                {started && (
+                  <p className="text-green-400 font-semibold text-center pt-1">
+                    Your miners are on their way!
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-4 mt-6">
+            <button
+              onClick={() => handleOpenChange(false)}
+              disabled={running}
+              className="bg-gray-700 hover:bg-gray-800 text-amber-200 font-semibold px-6 py-3 rounded-lg transition-all duration-300 font-winky border border-gray-600 disabled:opacity-50"
+            >
+              {started ? "Close" : "Cancel"}
+            </button>
+            {!started && (
+              <button
+                onClick={run}
+                disabled={!canRun}
+                className="bg-amber-500 hover:bg-amber-600 text-black font-semibold px-6 py-3 rounded-lg transition-all duration-300 font-winky shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {running
+                  ? "Working..."
+                  : failed
+                    ? progress.feed === "done"
+                      ? "Retry Start"
+                      : "Retry"
+                    : "Feed & Mine"}
+              </button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -6,10 +6,13 @@ import {
   DialogClose,
 } from "@/components/ui/dialog";
 import { useState } from "react";
-import { FOOD_ITEMS } from "@/constants/food";
+import { useMealCatalog } from "@/hooks/useMealCatalog";
+import { DiscountCountdown, MealPrice } from "./MealDiscount";
+import MealProfitCalculator from "./MealProfitCalculator";
 
 export default function FoodEffects() {
   const [open, setOpen] = useState(false);
+  const { meals, discount, loading, error, refetch } = useMealCatalog();
 
   return (
     <div className="flex justify-center w-full">
@@ -33,16 +36,25 @@ export default function FoodEffects() {
             <p className="text-amber-200/90 mt-2 pl-1">
               View the effects of various foods on your mining operations
             </p>
+            <DiscountCountdown discount={discount} onEnd={refetch} />
           </div>
 
           <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-5">
-            {FOOD_ITEMS.map((food) => (
+            {loading && meals.length === 0 && (
+              <p className="text-amber-200/80 md:col-span-2 text-center">
+                Loading meals...
+              </p>
+            )}
+            {error && (
+              <p className="text-red-300 md:col-span-2 text-center">{error}</p>
+            )}
+            {meals.map((food) => (
               <div
                 key={food.id}
                 className="bg-gradient-to-br from-[#1a0d00] to-[#150800] border border-amber-500/30 rounded-lg p-5 hover:border-amber-400 hover:shadow-md hover:shadow-amber-900/30 transition-all duration-300 relative overflow-hidden"
               >
                 <div className="absolute top-0 right-0 bg-amber-900/20 px-3 py-1 rounded-bl-lg text-amber-200/70 text-xs">
-                  {food.price === 0 ? "FREE" : `${food.price} 💎`}
+                  <MealPrice food={food} />
                 </div>
                 <div className="flex items-start">
                   <span className="text-4xl mr-4 mt-1">{food.icon}</span>
@@ -55,12 +67,20 @@ export default function FoodEffects() {
                         <span className="text-amber-300 mr-2">💎</span>
                         <span>{food.gemChance}% chance to find gems</span>
                       </p>
+                      <p className="text-amber-200/90 font-body flex items-center">
+                        <span className="text-amber-300 mr-2">⛏️</span>
+                        <span>
+                          {food.minReward}–{food.maxReward} GEMS per find
+                        </span>
+                      </p>
                     </div>
                   </div>
                 </div>
               </div>
             ))}
           </div>
+
+          {meals.length > 0 && <MealProfitCalculator meals={meals} />}
         </DialogContent>
       </Dialog>
     </div>
@@ -0,0 +1,55 @@
+import Countdown from "react-countdown";
+import { FoodItem } from "@/constants/food";
+import { MealDiscount } from "@/hooks/useMealCatalog";
+
+interface DiscountCountdownRenderProps {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+/**
+ * Banner announcing the FoodSystem discount period with a live countdown
+ */
+export function DiscountCountdown({
+  discount,
+  onEnd,
+}: {
+  discount: MealDiscount;
+  onEnd: () => void;
+}) {
+  if (!discount.isActive || discount.endTime === 0) return null;
+
+  return (
+    <div className="mt-3 inline-flex items-center gap-2 bg-green-900/40 border border-green-500/30 rounded-full px-3 py-1 text-green-200 text-sm">
+      <span className="font-semibold">Discount ends in</span>
+      <Countdown
+        date={discount.endTime * 1000}
+        onComplete={onEnd}
+        renderer={({ days, hours, minutes, seconds }: DiscountCountdownRenderProps) =>
+          `${days > 0 ? `${days}d ` : ""}${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+        }
+      />
+    </div>
+  );
+}
+
+/**
+ * Current meal price, with the original price struck through while discounted
+ */
+export function MealPrice({ food, multiplier = 1 }: { food: FoodItem; multiplier?: number }) {
+  if (food.price === 0) return <>FREE</>;
+
+  const format = (value: number) => Number((value * multiplier).toFixed(2)).toString();
+  return (
+    <>
+      {food.originalPrice > food.price && (
+        <span className="line-through text-amber-200/50 mr-1">{format(food.originalPrice)}</span>
+      )}
+      {format(food.price)} <span className="text-amber-300">💎</span>
+    </>
+  );
+}
@@ -0,0 +1,189 @@
+import { FoodItem } from "@/constants/food";
+import { useMealProfitability } from "@/hooks/useMealProfitability";
+
+interface MealProfitCalculatorProps {
+  meals: FoodItem[];
+}
+
+const formatGems = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatSigned = (value: number) =>
+  `${value >= 0 ? "+" : "−"}${formatGems(Math.abs(value))}`;
+
+const formatCooldown = (seconds: number) =>
+  seconds >= 3600
+    ? `${+(seconds / 3600).toFixed(1)}h`
+    : `${Math.round(seconds / 60)}m`;
+
+export default function MealProfitCalculator({
+  meals,
+}: MealProfitCalculatorProps) {
+  const {
+    report,
+    inputs,
+    chainInputs,
+    setMiners,
+    setBoostPercentage,
+    resetOverrides,
+    loading,
+    error,
+  } = useMealProfitability(meals);
+
+  const overridden =
+    !!inputs &&
+    !!chainInputs &&
+    (inputs.miners !== chainInputs.miners ||
+      inputs.boostPercentage !== chainInputs.boostPercentage);
+
+  return (
+    <div className="px-6 pb-6">
+      <div className="bg-[#1a0d00] border border-amber-500/30 rounded-lg p-5 space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="mr-auto">
+            <h3 className="text-xl font-bold text-amber-400 font-winky">
+              <span className="mr-2">🧮</span>Profitability
+            </h3>
+            <p className="text-amber-200/70 text-sm">
+              Expected gems per meal after its price, with your miners and
+              boosts.
+            </p>
+          </div>
+          <label className="text-amber-300/80 text-xs">
+            Miners
+            <input
+              type="number"
+              min={0}
+              value={inputs?.miners ?? 0}
+              onChange={(e) => setMiners(Math.max(0, Number(e.target.value) || 0))}
+              disabled={!inputs}
+              className="block w-20 bg-[#2a1a0a] border border-amber-500/30 text-amber-300 text-sm rounded-lg px-2 py-1"
+            />
+          </label>
+          <label className="text-amber-300/80 text-xs">
+            Boost %
+            <input
+              type="number"
+              min={0}
+              value={inputs?.boostPercentage ?? 0}
+              onChange={(e) =>
+                setBoostPercentage(Math.max(0, Number(e.target.value) || 0))
+              }
+              disabled={!inputs}
+              className="block w-20 bg-[#2a1a0a] border border-amber-500/30 text-amber-300 text-sm rounded-lg px-2 py-1"
+            />
+          </label>
+          {overridden && (
+            <button
+              onClick={resetOverrides}
+              className="text-amber-300/80 text-xs underline hover:text-amber-200"
+            >
+              Use my account
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-red-300 text-sm">{error}</p>}
+        {loading && !report && (
+          <p className="text-amber-200/80 text-sm text-center">
+            Loading your miners and boosts...
+          </p>
+        )}
+
+        {report && inputs && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-amber-400 text-left border-b border-amber-900/50">
+                    <th className="py-2 pr-3">Meal</th>
+                    <th className="py-2 pr-3 text-right">Expected</th>
+                    <th className="py-2 pr-3 text-right">Profit</th>
+                    <th className="py-2 pr-3 text-right">Std. dev.</th>
+                    <th className="py-2 pr-3 text-right">Break-even</th>
+                    <th className="py-2 text-right">Profit / day</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.results.map((result) => {
+                    const { meal } = result;
+                    const bestExpedition =
+                      report.bestPerExpedition?.meal.id === meal.id;
+                    const bestDay = report.bestPerDay?.meal.id === meal.id;
+                    return (
+                      <tr
+                        key={meal.id}
+                        className={`border-b border-amber-900/30 ${
+                          bestExpedition || bestDay ? "bg-amber-900/30" : ""
+                        }`}
+                      >
+                        <td className="py-2 pr-3 text-amber-200">
+                          <span className="mr-2">{meal.icon}</span>
+                          {meal.name}
+                          <span className="text-amber-300/50 text-xs ml-2">
+                            {meal.gemChance}% · {formatGems(meal.price)} GEMS
+                          </span>
+                          {bestExpedition && (
+                            <span className="ml-2 text-xs bg-amber-500 text-black rounded px-1">
+                              Best / expedition
+                            </span>
+                          )}
+                          {bestDay && (
+                            <span className="ml-2 text-xs bg-green-500 text-black rounded px-1">
+                              Best / day
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3 text-right text-amber-200">
+                          {formatGems(result.expectedReward)}
+                        </td>
+                        <td
+                          className={`py-2 pr-3 text-right font-semibold ${
+                            result.expectedProfit >= 0
+                              ? "text-green-400"
+                              : "text-red-300"
+                          }`}
+                        >
+                          {formatSigned(result.expectedProfit)}
+                        </td>
+                        <td className="py-2 pr-3 text-right text-amber-300/80">
+                          ±{formatGems(result.standardDeviation)}
+                        </td>
+                        <td className="py-2 pr-3 text-right text-amber-300/80">
+                          {result.breakEvenRate === null
+                            ? "Never"
+                            : `${result.breakEvenRate.toFixed(1)}%`}
+                        </td>
+                        <td
+                          className={`py-2 text-right ${
+                            result.expectedProfitPerDay >= 0
+                              ? "text-green-400"
+                              : "text-red-300"
+                          }`}
+                        >
+                          {formatSigned(result.expectedProfitPerDay)}
+                          <span className="block text-amber-300/50 text-xs">
+                            ±{formatGems(result.standardDeviationPerDay)}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-amber-300/60 text-xs">
+              Per expedition unless noted, in GEMS. Break-even is the success
+              chance a meal needs to pay for itself. Per day assumes{" "}
+              {inputs.miners} miner{inputs.miners === 1 ? "" : "s"} each
+              mining once every {formatCooldown(inputs.cooldownSeconds)}{" "}
+              (mining cooldown), about{" "}
+              {formatGems(report.results[0]?.expeditionsPerDay ?? 0)}{" "}
+              expeditions a day.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
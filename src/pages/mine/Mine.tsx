@@ -1,6 +1,7 @@
 import BoostButton from "./BoostButton";
 import EatButton from "./EatButton";
 import EnterMines from "./EnterMines";
+import FeedAndMine from "./FeedAndMine";
 import FoodEffects from "./FoodEffect";
 import MinerArea from "./MinerArea";
 import ReturnFromMines from "./ReturnFromMines";
@@ -29,6 +30,7 @@ export default function Mine() {
             className="flex flex-col items-center gap-4 w-48 relative"
             data-component-name="Mine"
           >
+            <FeedAndMine />
             <EnterMines />
             <ReturnFromMines />
           </div>
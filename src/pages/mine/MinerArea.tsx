@@ -7,42 +7,50 @@ import {
 } from "@/components/ui/dialog";
 import { useRoninWallet } from "../../services/wallet/RoninWalletProvider";
 import { useStaking } from "../../hooks/useStaking";
-import RegistryService from "../../services/contracts/RegistryService";
-import SimpleRegistryHealer from "../../services/contracts/SimpleRegistryHealer";
+import { useTransactions } from "../../hooks/useTransactions";
+import { useSlotPurchase } from "../../hooks/useSlotPurchase";
+import { useChainEvents } from "../../hooks/useChainEvents";
+import { useMinerMetadata } from "../../hooks/useMinerMetadata";
+import { TransactionFailedError } from "../../services/transactions/RevertDecoder";
 import { ethers } from "ethers";
 import { useMining } from "../../contexts/MiningContext";
+import { getMiningMastersStakingContract } from "../../contracts/clients/MiningMastersStaking";
+import chainReads from "../../services/cache/ChainReadCache";
+import { FREE_SLOTS } from "../../services/contracts/SlotPurchaseService";
+import MinerImage from "../../components/MinerImage";
+import MinerTraits from "../../components/MinerTraits";
+import { MinerAttribute } from "../../services/MinerMetadataService";
+import { InventorySource } from "../../services/contracts/MinerInventoryService";
+import MinerDetails from "./MinerDetails";
+import SlotPurchaseDialog from "./SlotPurchaseDialog";
+import BulkStakeDialog from "./BulkStakeDialog";
 // We'll use a regular div with hover effect instead of importing a tooltip component
 
 // Import NFT types for comments/reference only
-// import { NFT } from "../../services/contracts/NFTService";
-
-class BatchAction {
-  actions: Array<[number, bigint, bigint]> = [];
-
-  addAction(action: number, arg1: number | bigint, arg2: number | bigint) {
-    this.actions.push([action, BigInt(arg1), BigInt(arg2)]);
-  }
-
-  async executeBatch(batchContract: ethers.Contract) {
-    if (this.actions.length === 0) return null;
-    try {
-      return await batchContract.executeBatch(this.actions);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      throw new Error(`executeBatch failed: ${message}`);
-    }
-  }
-}
-
-const MAX_SLOTS = 100;
-const FREE_SLOTS = 20; // First 20 slots are free
+// import { NFT } from "../../services/contracts/MinerInventoryService";
+
+const DISCOVERY_SOURCE_LABELS: Record<InventorySource, string> = {
+  registry: "miner registry",
+  enumerable: "NFT contract",
+  transferLogs: "transfer history",
+};
+
+type DisplayMiner = {
+  id: number;
+  name: string;
+  image: string;
+  imageFallbacks: string[];
+  attributes: MinerAttribute[];
+};
 
 export default function MinerArea() {
   // Local UI state
   const [showAddMiner, setShowAddMiner] = useState(false);
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
+  const [showBulkStake, setShowBulkStake] = useState(false);
   const [selectedSlotIndex, setSelectedSlotIndex] = useState(-1);
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
+  const [detailMiner, setDetailMiner] = useState<DisplayMiner | null>(null);
   const [loadingStake, setLoadingStake] = useState(false);
   const [approvingNFT, setApprovingNFT] = useState(false);
   const [processingMinerId, setProcessingMinerId] = useState<number | null>(
@@ -52,8 +60,6 @@ export default function MinerArea() {
     "idle" | "checking" | "approving" | "staking" | "error" | "success"
   >("idle");
   const [statusMessage, setStatusMessage] = useState<string>("");
-  const [minerSlots, setMinerSlots] = useState(MAX_SLOTS); // Updated to allow up to 100 miners
-  const [purchasedSlots, setPurchasedSlots] = useState(0);
   const [onChainRewards, setOnChainRewards] = useState<string>("0.0000");
   const [isLoadingOnChainRewards, setIsLoadingOnChainRewards] =
     useState<boolean>(false);
@@ -65,57 +71,6 @@ export default function MinerArea() {
   // Connect to wallet and staking contract
   const { isConnected, connector } = useRoninWallet();
 
-  // Optional registry services (won't break if not available)
-  // We're keeping these initialized but not using them in staking/unstaking flow
-  // to avoid multiple wallet confirmations
-  const [, setRegistryService] = useState<RegistryService | null>(null);
-  const [, setRegistryHealer] = useState<SimpleRegistryHealer | null>(null);
-  const [, setRegistryAvailable] = useState(false);
-
-  // Initialize registry services when wallet is connected
-  useEffect(() => {
-    if (connector && connector.provider) {
-      // Initialize registry services with error handling
-      const initRegistryServices = async () => {
-        try {
-          const provider = new ethers.BrowserProvider(connector.provider);
-
-          // Try to initialize registry service
-          const registry = new RegistryService(provider);
-          if (registry.hasAnyRegistry()) {
-            setRegistryService(registry);
-            setRegistryAvailable(true);
-            console.log("Registry service initialized successfully");
-
-            // Only initialize healer if registry is available
-            try {
-              const healer = new SimpleRegistryHealer(provider);
-              setRegistryHealer(healer);
-              console.log("Registry healer initialized successfully");
-            } catch (healerError) {
-              console.warn(
-                "Registry healer initialization failed:",
-                healerError
-              );
-              // Healer is optional, continue without it
-            }
-          } else {
-            console.log(
-              "No registry contracts available - registry features disabled"
-            );
-            setRegistryAvailable(false);
-          }
-        } catch (error) {
-          console.warn("Registry services initialization failed:", error);
-          setRegistryAvailable(false);
-          // Continue without registry - it's an optional enhancement
-        }
-      };
-
-      initRegistryServices();
-    }
-  }, [connector]);
-
   const {
     stakedMiners,
     stakedMinerCount,
@@ -123,19 +78,31 @@ export default function MinerArea() {
     error: stakingError,
     availableMiners,
     loadingMiners,
+    minerDiscovery,
+    unregisteredMiners,
+    registryRepair,
     estimatedRewards,
     autoSyncEnabled,
     stakeMiner,
+    repairRegistryAndStake,
+    dismissRegistryRepair,
     unstakeMiner,
     refreshStakingData,
     claimRewards,
-    getUserPurchasedSlots,
   } = useStaking();
+  const { notify } = useTransactions();
+  // Slot grid follows the wallet's slots and the contract's MAX_MINERS_PER_WALLET
+  const { limits: slotLimits, loadLimits: loadSlotLimits } = useSlotPurchase();
+  const minerSlots = slotLimits?.maxSlots ?? FREE_SLOTS;
+  const purchasedSlots = slotLimits?.purchasedSlots ?? 0;
 
   // Transform stakedMiner IDs to our UI format
-  const [displayMiners, setDisplayMiners] = useState<
-    Array<{ id: number; name: string; image: string }>
-  >([]);
+  const [displayMiners, setDisplayMiners] = useState<DisplayMiner[]>([]);
+  const { getMetadata } = useMinerMetadata(stakedMiners);
+  // Last strategy that returned miners, shown under the stake list
+  const answeredDiscovery = [...minerDiscovery]
+    .reverse()
+    .find((report) => report.status === "complete" || report.status === "partial");
 
   // Fetch on-chain rewards data from the contract
   const fetchOnChainRewards = async () => {
@@ -144,25 +111,10 @@ export default function MinerArea() {
     try {
       setIsLoadingOnChainRewards(true);
 
-      // Get the staking contract address from environment variables
-      const stakingContractAddress =
-        import.meta.env.VITE_NETWORK_ENV === "mainnet"
-          ? import.meta.env.VITE_MAINNET_STAKING_PROXY_ADDRESS
-          : import.meta.env.VITE_TESTNET_STAKING_PROXY_ADDRESS;
-
-      // Define minimal ABI for getPendingRewards function
-      const stakingABI = [
-        "function getPendingRewards(address user) external view returns (uint256)",
-      ];
-
       // Connect to the contract and fetch real on-chain rewards
       const provider = new ethers.BrowserProvider(connector.provider);
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(
-        stakingContractAddress,
-        stakingABI,
-        signer
-      );
+      const contract = getMiningMastersStakingContract(signer);
       const userAddress = await signer.getAddress();
 
       // console.log(
@@ -170,7 +122,7 @@ export default function MinerArea() {
       // );
 
       // Get the actual pending rewards from the contract
-      const pendingRewards = await contract.getPendingRewards(userAddress);
+      const pendingRewards = await chainReads.read<bigint>(contract, "getPendingRewards", [userAddress], { scopes: ["staking"] });
       const formattedRewards = ethers.formatEther(pendingRewards);
 
       // console.log(`On-chain rewards fetched: ${formattedRewards} GEMS`);
@@ -186,28 +138,29 @@ export default function MinerArea() {
   // Players spend gems through adding miners or buying boosts in the shop
   // This automatically updates their virtual spent amount
 
-  // Fetch on-chain rewards when connected or rewards change
+  // Fetch on-chain rewards when connected
   useEffect(() => {
     if (isConnected) {
       fetchOnChainRewards();
-
-      // Set up periodic refresh every 30 seconds
-      const refreshInterval = setInterval(() => {
-        fetchOnChainRewards();
-      }, 30000);
-
-      // Clean up interval on unmount
-      return () => clearInterval(refreshInterval);
     }
   }, [isConnected]);
 
+  // Pending rewards change with staking, meals and expedition results
+  useChainEvents("staking", () => fetchOnChainRewards(), 30000);
+
   useEffect(() => {
     // Convert numerical IDs to display format
-    const miners = stakedMiners.map((id) => ({
-      id: Number(id),
-      name: `Miner #${String(id).padStart(3, "0")}`,
-      image: "/images/Miner.png",
-    }));
+    // Generic name and art until each miner's tokenURI metadata resolves
+    const miners = stakedMiners.map((id) => {
+      const metadata = getMetadata(Number(id));
+      return {
+        id: Number(id),
+        name: metadata.name,
+        image: metadata.image,
+        imageFallbacks: metadata.imageFallbacks,
+        attributes: metadata.attributes,
+      };
+    });
     setDisplayMiners(miners);
 
     // Log discrepancy between stakedMinerCount and actual array length for debugging
@@ -216,18 +169,13 @@ export default function MinerArea() {
       //   `Miner count mismatch: stakedMinerCount=${stakedMinerCount}, stakedMiners.length=${stakedMiners.length}`
       // );
     }
-  }, [stakedMiners, stakedMinerCount]);
+  }, [stakedMiners, stakedMinerCount, getMetadata]);
 
   useEffect(() => {
-    const fetchUserPurchasedSlots = async () => {
-      const purchasedSlots = await getUserPurchasedSlots();
-      console.log("[MinerArea] User purchased slots:", purchasedSlots);
-      if (purchasedSlots) {
-        setPurchasedSlots(purchasedSlots);
-      }
-    };
-    fetchUserPurchasedSlots();
-  }, [getUserPurchasedSlots]);
+    loadSlotLimits().catch((error) =>
+      console.error("[MinerArea] Failed to load slot limits:", error)
+    );
+  }, [loadSlotLimits]);
 
   const toggleAddMinerModal = (open: boolean) => {
     setShowAddMiner(open);
@@ -240,8 +188,8 @@ export default function MinerArea() {
   };
 
   const handleSlotClick = (slotIndex: number) => {
-    // Check if this is a paid slot (beyond the free slots)
-    if (slotIndex >= FREE_SLOTS) {
+    // Check if this is a paid slot that has not been bought yet
+    if (slotIndex >= FREE_SLOTS + purchasedSlots) {
       // This is a paid slot, show payment dialog first
       setSelectedSlotIndex(slotIndex);
       setShowPaymentDialog(true);
@@ -251,69 +199,11 @@ export default function MinerArea() {
     }
   };
 
-  const handlePayForSlot = async () => {
-    if (!connector) return;
-    if (MAX_SLOTS <= FREE_SLOTS + purchasedSlots) {
-      alert("You have reached the maximum number of slots");
-      return;
-    }
-    try {
-      setStatusMessage("Purchasing additional miner slot...");
-      setStakingStatus("staking");
-
-      // 1. Get provider, signer
-      const provider = new ethers.BrowserProvider(connector.provider);
-      const signer = await provider.getSigner();
-
-      // 2. Get batch contract address from env
-      const network = import.meta.env.VITE_NETWORK_ENV || "testnet";
-      let batchAddress;
-      if (network === "testnet") {
-        batchAddress =
-          import.meta.env.VITE_TESTNET_REWARD_SPENDING_BATCH_ADDRESS ||
-          import.meta.env.VITE_TESTNET_REWARD_SPENDING_INTERFACE_FIXED2_ADDRESS;
-      } else {
-        batchAddress =
-          import.meta.env.VITE_MAINNET_REWARD_SPENDING_BATCH_ADDRESS ||
-          import.meta.env.VITE_MAINNET_REWARD_SPENDING_INTERFACE_FIXED2_ADDRESS;
-      }
-      if (
-        !batchAddress ||
-        batchAddress === "0x0000000000000000000000000000000000000000"
-      ) {
-        throw new Error("Missing or invalid batch contract address");
-      }
-
-      // 3. Create batch contract instance
-      const batchContractABI = [
-        "function executeBatch(tuple(uint8 action,uint256 arg1,uint256 arg2)[] actions)",
-      ];
-      const batchContract = new ethers.Contract(
-        batchAddress,
-        batchContractABI,
-        signer
-      );
-
-      // 4. Create batch action (type SLOTS = 2, arg1 = number of slots to buy, arg2 = 0)
-      const batch = new BatchAction();
-      batch.addAction(2, 1, 0); // 2 = SLOTS, 1 = number of slots to buy, 0 = unused
-
-      // 5. Send transaction
-      const tx = await batch.executeBatch(batchContract);
-      if (tx) {
-        await tx.wait();
-        setShowPaymentDialog(false);
-        toggleAddMinerModal(true);
-        setStatusMessage("Slot purchased successfully!");
-        setStakingStatus("success");
-        // Optionally refresh staking data here
-        await refreshStakingData();
-      }
-    } catch (error) {
-      console.error("Failed to purchase slot:", error);
-      setStakingStatus("error");
-      setStatusMessage("Failed to purchase slot. Please try again.");
-    }
+  const handleSlotsPurchased = async () => {
+    setShowPaymentDialog(false);
+    await Promise.all([loadSlotLimits().catch(() => null), refreshStakingData()]);
+    // Continue straight into staking, as the single-slot flow did
+    toggleAddMinerModal(true);
   };
 
   // Handle staking a miner
@@ -323,7 +213,7 @@ export default function MinerArea() {
     image: string;
   }) => {
     if (!isConnected) {
-      alert("Please connect your wallet first");
+      notify("Please connect your wallet first", "error");
       return;
     }
 
@@ -335,100 +225,53 @@ export default function MinerArea() {
     try {
       console.log(`Starting process to stake miner #${miner.id}`);
 
-      // We're skipping registry healing during staking to reduce wallet confirmations
-      // Registry will be automatically updated when a token is transferred in the contract events
-      console.log(
-        "Skipping registry healing during staking to reduce wallet confirmations"
-      );
-
+      // Registry entries are only repaired when a stake fails because of them, which
+      // keeps the usual flow to the approval and stake confirmations
       // Phase 2: Approval (useStaking hook handles this internally but we'll show UI feedback)
       setApprovingNFT(true);
       setStakingStatus("approving");
       setStatusMessage(`Approving Miner #${miner.id} for staking...`);
 
       // Use the stakeMiner function from the useStaking hook which already properly implements
-      // the two-step process (approval then stake)
-      const tx = await stakeMiner(miner.id);
-
-      // Make sure we have a valid transaction
-      if (!tx) {
-        throw new Error("Failed to get a valid transaction response");
+      // the two-step process (approval then stake); both transactions are tracked by the
+      // transaction manager, which reports failures in a toast
+      const receipt = await stakeMiner(miner.id);
+
+      // A null receipt means the stake transaction failed and was already reported;
+      // registry failures are offered a repair in the dialog
+      if (!receipt) {
+        setStakingStatus("error");
+        setStatusMessage("Failed to stake miner.");
+        return;
       }
 
-      // Move to staking phase once approval is done
-      setApprovingNFT(false);
-      setStakingStatus("staking");
-      setStatusMessage(
-        `Staking Miner #${miner.id}. Waiting for blockchain confirmation...`
-      );
-
-      console.log("Staking transaction submitted:", tx.hash);
-
-      // Wait for transaction to be mined with increased timeout
-      try {
-        const receipt = await tx.wait();
-        console.log(
-          "Transaction confirmed in block:",
-          receipt?.blockNumber || "unknown"
-        );
-
-        // Transaction successful
-        setStakingStatus("success");
-        setStatusMessage(`Successfully staked Miner #${miner.id}!`);
+      console.log("Transaction confirmed in block:", receipt.blockNumber);
 
-        // Close the modal
-        toggleAddMinerModal(false);
-
-        // Refresh staking data after transaction
-        await refreshStakingData();
+      // Transaction successful
+      setApprovingNFT(false);
+      setStakingStatus("success");
+      setStatusMessage(`Successfully staked Miner #${miner.id}!`);
 
-        // Show success message
-        alert(`Successfully staked Miner #${miner.id}!`);
-      } catch (waitError) {
-        console.error("Error waiting for transaction confirmation:", waitError);
-        throw new Error(
-          "Transaction may have failed on the blockchain. Please check your wallet for confirmation."
-        );
-      }
+      // Close the modal
+      toggleAddMinerModal(false);
     } catch (error) {
       console.error("Error staking miner:", error);
 
       // Set error state
       setStakingStatus("error");
 
-      // Extract error message for display
-      let errorMessage = "Failed to stake miner.";
-
-      if (error instanceof Error) {
-        const errorStr = JSON.stringify(error);
-        console.error("Full error object:", errorStr);
-
-        // Provide more specific error messages based on the error content
-        if (error.message.includes("user rejected")) {
-          errorMessage = "Transaction was rejected by the user";
-        } else if (error.message.includes("insufficient funds")) {
-          errorMessage = "You do not have enough RON for gas fees";
-        } else if (error.message.includes("do not own")) {
-          errorMessage = "You do not own this NFT";
-        } else if (
-          error.message.includes("approval") ||
-          error.message.includes("approve")
-        ) {
-          errorMessage = "Failed to approve the NFT for staking";
-        } else if (
-          error.message.includes("execution reverted") ||
-          error.message.includes("CALL_EXCEPTION")
-        ) {
-          errorMessage =
-            "Transaction failed on the blockchain. The NFT may already be staked or you may not be the owner.";
-        } else {
-          // Use the error message from the error object if available
-          errorMessage = `Failed to stake miner: ${error.message}`;
-        }
+      // Transaction failures are already decoded and shown by the transaction manager
+      if (error instanceof TransactionFailedError) {
+        setStatusMessage(`Failed to stake miner: ${error.message}`);
+        return;
       }
 
+      const errorMessage =
+        error instanceof Error
+          ? `Failed to stake miner: ${error.message}`
+          : "Failed to stake miner.";
       setStatusMessage(errorMessage);
-      alert(errorMessage);
+      notify(errorMessage, "error");
     } finally {
       // Reset staking UI state
       setLoadingStake(false);
@@ -443,10 +286,40 @@ export default function MinerArea() {
     }
   };
 
+  // Repair the registry entry that blocked the last stake, then stake again
+  const handleRepairAndRetry = async () => {
+    if (!registryRepair) return;
+
+    setLoadingStake(true);
+    setProcessingMinerId(registryRepair.tokenId);
+    setStakingStatus("staking");
+    setStatusMessage(`Repairing registry entry of Miner #${registryRepair.tokenId}...`);
+
+    try {
+      const receipt = await repairRegistryAndStake();
+      if (!receipt) {
+        setStakingStatus("error");
+        setStatusMessage("Failed to repair and stake miner.");
+        return;
+      }
+
+      setStakingStatus("success");
+      setStatusMessage(`Successfully staked Miner #${registryRepair.tokenId}!`);
+      toggleAddMinerModal(false);
+    } finally {
+      setLoadingStake(false);
+      setProcessingMinerId(null);
+      setTimeout(() => {
+        setStakingStatus("idle");
+        setStatusMessage("");
+      }, 3000);
+    }
+  };
+
   // Handle unstaking a miner
   const handleUnstakeMiner = async (tokenId: number) => {
     if (!isConnected) {
-      alert("Please connect your wallet first");
+      notify("Please connect your wallet first", "error");
       return;
     }
 
@@ -458,15 +331,12 @@ export default function MinerArea() {
           "Skipping registry healing during unstaking to reduce wallet confirmations"
         );
 
-        // Proceed with unstaking
-        const tx = await unstakeMiner(tokenId);
-        console.log("Unstaking transaction:", tx);
-
-        // Refresh staking data after transaction
-        await refreshStakingData();
+        // Proceed with unstaking; the transaction manager reports the outcome
+        const receipt = await unstakeMiner(tokenId);
+        console.log("Unstaking receipt:", receipt);
       } catch (error) {
         console.error("Error unstaking miner:", error);
-        alert("Failed to unstake miner. Please try again.");
+        notify("Failed to unstake miner. Please try again.", "error");
       }
     }
   };
@@ -532,6 +402,15 @@ export default function MinerArea() {
                 Miners: {stakedMiners.length}/{minerSlots}
               </span>
 
+              {isConnected && (
+                <button
+                  onClick={() => setShowBulkStake(true)}
+                  className="text-amber-400 font-body px-4 py-2 bg-[#1a0d00]/50 rounded-lg border border-amber-500/30 hover:border-amber-500 transition-colors"
+                >
+                  Stake several
+                </button>
+              )}
+
               {/* On-chain rewards display */}
               {isConnected && (
                 <div
@@ -636,16 +515,13 @@ export default function MinerArea() {
                           if (isConnected) {
                             try {
                               // Use the claimRewards function from useStaking
-                              const tx = await claimRewards();
-                              if (tx) {
-                                alert("Successfully claimed GEMS!");
-                                // Refresh staking data after claiming
-                                await refreshStakingData();
-                              }
+                              // (the transaction manager shows the outcome)
+                              await claimRewards();
                             } catch (error) {
                               console.error("Failed to claim rewards:", error);
-                              alert(
-                                "Failed to claim rewards. Please try again."
+                              notify(
+                                "Failed to claim rewards. Please try again.",
+                                "error"
                               );
                             }
                           }
@@ -740,20 +616,25 @@ export default function MinerArea() {
             {displayMiners.map((miner) => (
               <div
                 key={miner.id}
-                className="bg-[#2a1a0a] border-2 border-amber-500/40 rounded-xl p-4 flex flex-col items-center transition-all duration-300 hover:border-amber-500 hover:shadow-amber-900/20 hover:shadow-lg relative overflow-hidden group pb-8"
+                onClick={() => setDetailMiner(miner)}
+                className="bg-[#2a1a0a] border-2 border-amber-500/40 rounded-xl p-4 flex flex-col items-center transition-all duration-300 hover:border-amber-500 hover:shadow-amber-900/20 hover:shadow-lg relative overflow-hidden group pb-8 cursor-pointer"
                 data-component-name="MinerArea"
               >
                 <div className="absolute inset-0 bg-gradient-to-t from-amber-900/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
                 <div className="w-full flex-1 flex items-center justify-center relative z-10 aspect-square">
-                  <img
-                    src={miner.image}
+                  <MinerImage
+                    image={miner.image}
+                    imageFallbacks={miner.imageFallbacks}
                     alt={miner.name}
                     className="w-full h-full object-contain"
                   />
                 </div>
                 {/* Unstake button */}
                 <button
-                  onClick={() => handleUnstakeMiner(miner.id)}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleUnstakeMiner(miner.id);
+                  }}
                   className="absolute top-2 right-2 bg-red-500/80 hover:bg-red-600 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300"
                 >
                   ✕
@@ -768,7 +649,7 @@ export default function MinerArea() {
 
             {/* Display empty slots in grid */}
             {Array.from({
-              length: minerSlots - stakedMiners.length,
+              length: Math.max(0, minerSlots - stakedMiners.length),
             }).map((_, index) => {
               const slotIndex = stakedMiners.length + index;
               const isFreeSlot = slotIndex < FREE_SLOTS;
@@ -828,13 +709,15 @@ export default function MinerArea() {
             {displayMiners.map((miner) => (
               <div
                 key={miner.id}
-                className="bg-[#2a1a0a] border-2 border-amber-500/40 rounded-lg p-3 hover:border-amber-500 hover:shadow-amber-900/20 hover:shadow-lg transition-all duration-300 group relative overflow-hidden"
+                onClick={() => setDetailMiner(miner)}
+                className="bg-[#2a1a0a] border-2 border-amber-500/40 rounded-lg p-3 hover:border-amber-500 hover:shadow-amber-900/20 hover:shadow-lg transition-all duration-300 group relative overflow-hidden cursor-pointer"
                 data-component-name="MinerArea"
               >
                 <div className="flex items-center">
                   <div className="flex-shrink-0 w-14 h-14 mr-4 bg-[#1a0d00]/50 rounded-lg border border-amber-500/20 p-1 flex items-center justify-center">
-                    <img
-                      src={miner.image}
+                    <MinerImage
+                      image={miner.image}
+                      imageFallbacks={miner.imageFallbacks}
                       alt={miner.name}
                       className="max-w-full max-h-full object-contain transform group-hover:scale-105 transition-transform duration-300"
                     />
@@ -843,11 +726,16 @@ export default function MinerArea() {
                     <h4 className="text-amber-400 font-bold font-winky">
                       {miner.name}
                     </h4>
-                    <p className="text-amber-400/70 text-xs">Staked Miner</p>
+                    <p className="text-amber-400/70 text-xs">
+                      Staked Miner · View stats & history
+                    </p>
                   </div>
                   <div className="ml-4">
                     <button
-                      onClick={() => handleUnstakeMiner(miner.id)}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleUnstakeMiner(miner.id);
+                      }}
                       className="bg-red-500/80 hover:bg-red-600 text-white rounded px-2 py-1 text-xs"
                     >
                       Unstake
@@ -858,7 +746,7 @@ export default function MinerArea() {
             ))}
 
             {/* Display empty slots in list */}
-            {Array.from({ length: minerSlots - stakedMiners.length }).map(
+            {Array.from({ length: Math.max(0, minerSlots - stakedMiners.length) }).map(
               (_, index) => {
                 const slotIndex = stakedMiners.length + index;
                 const isFreeSlot = slotIndex < FREE_SLOTS;
@@ -916,11 +804,42 @@ export default function MinerArea() {
             <DialogTitle className="text-2xl font-bold text-amber-400 font-winky flex items-center gap-2">
               <img src="/images/Miner.png" alt="" className="w-8 h-8" />
               Available Miners{" "}
-              {loadingMiners ? "(Loading...)" : `(${availableMiners.length})`}
+              {loadingMiners
+                ? `(${availableMiners.length ? `${availableMiners.length}, ` : ""}Loading...)`
+                : `(${availableMiners.length})`}
             </DialogTitle>
           </DialogHeader>
 
-          {loadingMiners ? (
+          {registryRepair && (
+            <div className="bg-orange-900/20 border border-orange-500/40 rounded-lg p-4 mb-4">
+              <p className="text-orange-300 text-sm mb-3">
+                Miner #{registryRepair.tokenId} is yours, but the miner registry
+                {registryRepair.registeredTo
+                  ? ` still lists it under ${registryRepair.registeredTo.slice(0, 6)}…${registryRepair.registeredTo.slice(-4)}`
+                  : " does not list it under your wallet"}
+                , so staking was rejected. Repairing it takes one extra
+                transaction, then the stake is sent again.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleRepairAndRetry}
+                  disabled={loadingStake}
+                  className="bg-amber-500 hover:bg-amber-600 text-black font-semibold px-4 py-2 rounded-lg transition-all duration-300 font-winky disabled:opacity-50"
+                >
+                  Repair and retry
+                </button>
+                <button
+                  onClick={dismissRegistryRepair}
+                  disabled={loadingStake}
+                  className="px-4 py-2 rounded-lg border border-amber-500/30 text-amber-300 hover:bg-amber-900/30 disabled:opacity-50"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loadingMiners && availableMiners.length === 0 ? (
             <div className="flex items-center justify-center p-12">
               <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-amber-500"></div>
             </div>
@@ -943,9 +862,10 @@ export default function MinerArea() {
                   <div className="flex items-center space-x-4">
                     <div className="flex-shrink-0 w-16 h-16 flex items-center justify-center relative">
                       <div className="absolute inset-0 bg-gradient-to-t from-amber-900/10 to-transparent opacity-0 group-hover:opacity-100 rounded-full transition-opacity duration-300"></div>
-                      <img
-                        src={miner.image}
-                        alt={miner.name}
+                      <MinerImage
+                        image={miner.image}
+                        imageFallbacks={miner.imageFallbacks}
+                        alt={miner.name ?? `Miner #${miner.id}`}
                         className="w-12 h-12 object-contain transform group-hover:scale-110 transition-transform duration-300"
                       />
                     </div>
@@ -956,6 +876,12 @@ export default function MinerArea() {
                       <p className="text-amber-300/70 text-sm">
                         NFT ID: #{miner.id}
                       </p>
+                      <MinerTraits attributes={miner.attributes} className="mt-1" />
+                      {unregisteredMiners.includes(Number(miner.id)) && (
+                        <p className="text-orange-300/80 text-xs mt-1">
+                          Registry entry out of date; staking will offer a repair
+                        </p>
+                      )}
                     </div>
                     <div className="flex flex-col items-end">
                       <button
@@ -990,48 +916,33 @@ export default function MinerArea() {
               ))}
             </div>
           )}
-        </DialogContent>
-      </Dialog>
-      {/* Payment Dialog for Paid Slots */}
-      <Dialog
-        open={showPaymentDialog}
-        onOpenChange={(open) => !open && setShowPaymentDialog(false)}
-      >
-        <DialogContent className="bg-gradient-to-b from-[#2a1a0a] to-[#1a0d00] border-2 border-amber-500/40 rounded-xl p-8 w-full max-w-md shadow-xl">
-          <DialogHeader className="flex justify-between items-center mb-6">
-            <DialogTitle className="text-2xl font-bold text-amber-400 font-winky flex items-center gap-2">
-              <img src="/images/Mine.png" alt="" className="w-6 h-6" />
-              Purchase Slot
-            </DialogTitle>
-          </DialogHeader>
-          <div className="bg-[#1a0d00]/60 p-6 rounded-lg border border-amber-500/20 mb-6 text-center">
-            <p className="text-amber-400 text-lg font-body mb-4">
-              This is a premium miner slot.
+          {!loadingMiners && answeredDiscovery && (
+            <p className="text-amber-300/50 text-xs mt-4 text-right">
+              Found via the {DISCOVERY_SOURCE_LABELS[answeredDiscovery.source]}
+              {answeredDiscovery.blocksBehind > 0 &&
+                ` · ${answeredDiscovery.blocksBehind} blocks behind`}
+              {answeredDiscovery.staleEntries > 0 &&
+                ` · ${answeredDiscovery.staleEntries} outdated entr${answeredDiscovery.staleEntries === 1 ? "y" : "ies"} skipped`}
             </p>
-            <div className="flex items-center justify-center gap-2">
-              <p className="text-amber-400 text-xl font-body">Cost:</p>
-              <div className="flex items-center bg-amber-900/30 px-3 py-1 rounded-lg border border-amber-500/40">
-                <span className="text-white font-bold mr-2">1000</span>
-                <img src="/images/Mine.png" alt="GEMS" className="w-6 h-6" />
-              </div>
-            </div>
-          </div>
-          <div className="flex justify-end gap-4">
-            <button
-              onClick={() => setShowPaymentDialog(false)}
-              className="bg-gray-700 hover:bg-gray-800 text-amber-200 font-semibold px-6 py-3 rounded-lg transition-all duration-300 font-winky border border-gray-600"
-            >
-              Cancel
-            </button>
-            <button
-              onClick={handlePayForSlot}
-              className="bg-amber-500 hover:bg-amber-600 text-black font-semibold px-6 py-3 rounded-lg transition-all duration-300 font-winky shadow-md hover:shadow-lg"
-            >
-              Purchase & Continue
-            </button>
-          </div>
+          )}
         </DialogContent>
       </Dialog>
+      {/* Slot upgrade dialog for paid slots */}
+      <SlotPurchaseDialog
+        open={showPaymentDialog}
+        onOpenChange={setShowPaymentDialog}
+        onPurchased={handleSlotsPurchased}
+      />
+
+      {/* Multi-select staking with a single approval */}
+      <BulkStakeDialog
+        open={showBulkStake}
+        onOpenChange={setShowBulkStake}
+        miners={availableMiners}
+      />
+
+      {/* Miner stats & expedition history */}
+      <MinerDetails miner={detailMiner} onClose={() => setDetailMiner(null)} />
 
       {/* Slot management now handled directly through the payment dialog */}
     </div>
@@ -0,0 +1,288 @@
+import { useMemo } from "react";
+import { ethers } from "ethers";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getExplorerTxUrl } from "@/config/contracts";
+import MinerImage from "@/components/MinerImage";
+import MinerTraits from "@/components/MinerTraits";
+import { DEFAULT_MEAL_ICON, FoodItem, MEAL_ICONS } from "@/constants/food";
+import { useMealCatalog } from "@/hooks/useMealCatalog";
+import { useMinerHistory } from "@/hooks/useMinerHistory";
+import { ExpeditionRecord } from "@/services/MinerHistoryService";
+import { MinerAttribute } from "@/services/MinerMetadataService";
+
+interface MinerDetailsProps {
+  miner: {
+    id: number;
+    name: string;
+    image: string;
+    imageFallbacks?: string[];
+    attributes?: MinerAttribute[];
+  } | null;
+  onClose: () => void;
+}
+
+interface MealPerformance {
+  mealId: number;
+  name: string;
+  icon: string;
+  expeditions: number;
+  successful: number;
+  advertisedRate: number | null;
+}
+
+const formatGems = (value: bigint) =>
+  Number(ethers.formatUnits(value, 18)).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  });
+
+const formatRate = (rate: number) => `${rate.toFixed(1)}%`;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString(undefined, {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+/**
+ * Groups completed expeditions by the meal eaten, so the realised success rate
+ * can be compared with the meal's advertised successRate
+ */
+function getMealPerformance(
+  history: ExpeditionRecord[],
+  meals: FoodItem[]
+): MealPerformance[] {
+  const byMeal = new Map<number, MealPerformance>();
+  for (const expedition of history) {
+    if (!expedition.completed || expedition.mealId === null) continue;
+    const meal = meals.find((m) => m.id === expedition.mealId);
+    const entry = byMeal.get(expedition.mealId) ?? {
+      mealId: expedition.mealId,
+      name: meal?.name ?? `Meal #${expedition.mealId}`,
+      icon: MEAL_ICONS[expedition.mealId] ?? DEFAULT_MEAL_ICON,
+      expeditions: 0,
+      successful: 0,
+      advertisedRate: meal?.gemChance ?? null,
+    };
+    entry.expeditions += 1;
+    if (expedition.successful) entry.successful += 1;
+    byMeal.set(expedition.mealId, entry);
+  }
+  return [...byMeal.values()].sort((a, b) => b.expeditions - a.expeditions);
+}
+
+export default function MinerDetails({ miner, onClose }: MinerDetailsProps) {
+  const { statistics, history, syncing, progress, error } = useMinerHistory(
+    miner?.id ?? null
+  );
+  const { meals } = useMealCatalog();
+
+  const mealPerformance = useMemo(
+    () => getMealPerformance(history, meals),
+    [history, meals]
+  );
+
+  // Advertised rate averaged over the meals actually eaten, weighted by expeditions
+  const expectedRate = useMemo(() => {
+    const rated = mealPerformance.filter((m) => m.advertisedRate !== null);
+    const total = rated.reduce((sum, m) => sum + m.expeditions, 0);
+    if (total === 0) return null;
+    return (
+      rated.reduce((sum, m) => sum + m.advertisedRate! * m.expeditions, 0) /
+      total
+    );
+  }, [mealPerformance]);
+
+  const actualRate =
+    statistics && statistics.totalExpeditions > 0
+      ? (statistics.successfulExpeditions / statistics.totalExpeditions) * 100
+      : null;
+
+  const syncPercent =
+    progress && progress.toBlock > progress.fromBlock
+      ? Math.floor(
+          ((progress.currentBlock - progress.fromBlock) /
+            (progress.toBlock - progress.fromBlock)) *
+            100
+        )
+      : null;
+
+  const mealLabel = (mealId: number | null) => {
+    if (mealId === null) return { icon: DEFAULT_MEAL_ICON, name: "Unknown meal" };
+    const meal = meals.find((m) => m.id === mealId);
+    return {
+      icon: MEAL_ICONS[mealId] ?? DEFAULT_MEAL_ICON,
+      name: meal?.name ?? `Meal #${mealId}`,
+    };
+  };
+
+  return (
+    <Dialog open={miner !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-gradient-to-b from-[#2a1a0a] to-[#1a0d00] border-2 border-amber-500/40 rounded-xl p-8 w-full max-w-2xl shadow-xl">
+        <DialogHeader className="flex justify-between items-center mb-4">
+          <DialogTitle className="text-2xl font-bold text-amber-400 font-winky flex items-center gap-2">
+            <MinerImage
+              image={miner?.image}
+              imageFallbacks={miner?.imageFallbacks}
+              alt=""
+              className="w-8 h-8 object-contain"
+            />
+            {miner?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <MinerTraits attributes={miner?.attributes} className="mb-4" />
+
+        {(syncing || error) && (
+          <div className="text-center text-sm mb-2">
+            {error ? (
+              <span className="text-red-300">{error}</span>
+            ) : (
+              <span className="text-amber-300/80">
+                Loading expedition history
+                {syncPercent !== null
+                  ? ` (${syncPercent}%, block ${progress!.currentBlock.toLocaleString()})`
+                  : "..."}
+              </span>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-6 max-h-[70vh] overflow-y-auto pr-2">
+          {/* Lifetime statistics */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              {
+                label: "Expeditions",
+                value: statistics ? statistics.totalExpeditions.toLocaleString() : "—",
+              },
+              {
+                label: "Successful",
+                value: statistics ? statistics.successfulExpeditions.toLocaleString() : "—",
+              },
+              {
+                label: "Total Rewards",
+                value: statistics ? `${formatGems(statistics.totalRewards)} GEMS` : "—",
+              },
+              {
+                label: "Boost Rewards",
+                value: statistics ? `${formatGems(statistics.totalBoostRewards)} GEMS` : "—",
+              },
+            ].map((stat) => (
+              <div
+                key={stat.label}
+                className="bg-[#1a0d00]/60 border border-amber-500/20 rounded-lg p-3 text-center"
+              >
+                <p className="text-amber-300/70 text-xs">{stat.label}</p>
+                <p className="text-amber-400 font-bold font-winky">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Success rate versus advertised */}
+          <div className="bg-[#1a0d00]/60 border border-amber-500/20 rounded-lg p-4">
+            <h4 className="text-amber-400 font-bold font-winky mb-2">Success Rate</h4>
+            <p className="text-amber-300 text-sm mb-3">
+              Actual{" "}
+              <span className="text-white font-semibold">
+                {actualRate !== null ? formatRate(actualRate) : "—"}
+              </span>{" "}
+              vs advertised{" "}
+              <span className="text-white font-semibold">
+                {expectedRate !== null ? formatRate(expectedRate) : "—"}
+              </span>{" "}
+              for the meals eaten
+            </p>
+            {mealPerformance.length > 0 && (
+              <div className="space-y-1">
+                {mealPerformance.map((meal) => (
+                  <div
+                    key={meal.mealId}
+                    className="flex items-center justify-between text-sm text-amber-300"
+                  >
+                    <span>
+                      {meal.icon} {meal.name}
+                      <span className="text-amber-300/60"> × {meal.expeditions}</span>
+                    </span>
+                    <span>
+                      {formatRate((meal.successful / meal.expeditions) * 100)}
+                      <span className="text-amber-300/60">
+                        {" "}
+                        / {meal.advertisedRate !== null ? `${meal.advertisedRate}%` : "—"}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Expedition history */}
+          <div>
+            <h4 className="text-amber-400 font-bold font-winky mb-2">Expedition History</h4>
+            {history.length === 0 ? (
+              <p className="text-amber-300/70 text-sm text-center py-4">
+                {syncing ? "Searching past expeditions..." : "No expeditions yet."}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {history.map((expedition) => {
+                  const meal = mealLabel(expedition.mealId);
+                  const boosted = expedition.boostedReward > expedition.baseReward;
+                  return (
+                    <div
+                      key={expedition.startTxHash}
+                      className="bg-[#1a0d00] border border-amber-500/20 rounded-lg p-3 flex items-center justify-between gap-3 text-sm"
+                    >
+                      <div>
+                        <p className="text-amber-400">
+                          {meal.icon} {meal.name}
+                          {expedition.mealPrice !== null && (
+                            <span className="text-amber-300/60">
+                              {" "}
+                              ({formatGems(expedition.mealPrice)} GEMS)
+                            </span>
+                          )}
+                        </p>
+                        <a
+                          href={getExplorerTxUrl(expedition.completeTxHash ?? expedition.startTxHash) || undefined}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-amber-300/60 text-xs hover:underline"
+                        >
+                          {formatDate(expedition.startTime)}
+                        </a>
+                      </div>
+                      <div className="text-right">
+                        {!expedition.completed ? (
+                          <span className="text-blue-300">
+                            {expedition.endTime * 1000 > Date.now() ? "In progress" : "Ready to return"}
+                          </span>
+                        ) : expedition.successful ? (
+                          <span className="text-green-400 font-semibold">
+                            +{formatGems(expedition.boostedReward)} GEMS
+                          </span>
+                        ) : (
+                          <span className="text-red-300">No gems found</span>
+                        )}
+                        {expedition.completed && boosted && (
+                          <p className="text-amber-300/60 text-xs">
+                            {formatGems(expedition.baseReward)} base +{expedition.boostPercentage}% boost
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ROUTES } from "@/constants/route";
+import { useSlotPurchase } from "@/hooks/useSlotPurchase";
+
+interface SlotPurchaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPurchased: (count: number) => void;
+}
+
+const formatGems = (value: bigint) =>
+  Number(ethers.formatUnits(value, 18)).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  });
+
+export default function SlotPurchaseDialog({
+  open,
+  onOpenChange,
+  onPurchased,
+}: SlotPurchaseDialogProps) {
+  const {
+    limits,
+    maxAffordable,
+    quote,
+    loading,
+    quoting,
+    purchasing,
+    error,
+    refresh,
+    loadQuote,
+    purchase,
+  } = useSlotPurchase();
+  const [count, setCount] = useState(1);
+
+  const remaining = limits?.remaining ?? 0;
+
+  useEffect(() => {
+    if (open) {
+      setCount(1);
+      refresh();
+    }
+  }, [open, refresh]);
+
+  // Re-quote shortly after the count settles so dragging the slider doesn't spam the RPC
+  useEffect(() => {
+    if (!open || count < 1) return;
+    const timer = setTimeout(() => loadQuote(count), 300);
+    return () => clearTimeout(timer);
+  }, [open, count, loadQuote]);
+
+  const selectCount = (value: number) => {
+    if (!Number.isFinite(value)) return;
+    setCount(Math.min(Math.max(1, Math.floor(value)), Math.max(1, remaining)));
+  };
+
+  const handlePurchase = async () => {
+    const receipt = await purchase(count);
+    if (receipt) {
+      onPurchased(count);
+    }
+  };
+
+  const isCurrentQuote = quote?.count === count && !quoting;
+  const canPurchase =
+    isCurrentQuote && quote!.simulation.ok && !purchasing && remaining > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gradient-to-b from-[#2a1a0a] to-[#1a0d00] border-2 border-amber-500/40 rounded-xl p-8 w-full max-w-md shadow-xl">
+        <DialogHeader className="flex justify-between items-center mb-6">
+          <DialogTitle className="text-2xl font-bold text-amber-400 font-winky flex items-center gap-2">
+            <img src="/images/Mine.png" alt="" className="w-6 h-6" />
+            Upgrade Slots
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading && !limits ? (
+          <div className="flex items-center justify-center p-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-amber-500"></div>
+          </div>
+        ) : !limits ? (
+          <p className="text-red-300 text-center">
+            {error ?? "Connect your wallet to buy slots."}
+          </p>
+        ) : remaining === 0 ? (
+          <p className="text-amber-400 text-center">
+            You own all {limits.maxSlots} slots.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            <p className="text-amber-300/80 text-sm text-center">
+              {limits.freeSlots} free + {limits.purchasedSlots} purchased of{" "}
+              {limits.maxSlots} slots · {remaining} available to buy
+            </p>
+
+            {/* Count picker */}
+            <div className="bg-[#1a0d00]/60 p-4 rounded-lg border border-amber-500/20 space-y-3">
+              <div className="flex items-center justify-center gap-3">
+                <button
+                  onClick={() => selectCount(count - 1)}
+                  disabled={count <= 1}
+                  className="bg-amber-900/40 text-amber-300 w-9 h-9 rounded-lg border border-amber-500/30 disabled:opacity-40"
+                >
+                  −
+                </button>
+                <input
+                  type="number"
+                  min={1}
+                  max={remaining}
+                  value={count}
+                  onChange={(e) => selectCount(Number(e.target.value))}
+                  className="w-20 text-center bg-[#1a0d00] border border-amber-500/40 rounded-lg py-1.5 text-white font-bold"
+                />
+                <button
+                  onClick={() => selectCount(count + 1)}
+                  disabled={count >= remaining}
+                  className="bg-amber-900/40 text-amber-300 w-9 h-9 rounded-lg border border-amber-500/30 disabled:opacity-40"
+                >
+                  +
+                </button>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={remaining}
+                value={count}
+                onChange={(e) => selectCount(Number(e.target.value))}
+                className="w-full accent-amber-500"
+              />
+              <div className="flex justify-center gap-2">
+                {[1, 5, 10].filter((n) => n <= remaining).map((n) => (
+                  <button
+                    key={n}
+                    onClick={() => selectCount(n)}
+                    className="text-xs px-3 py-1 rounded-full border border-amber-500/30 text-amber-300 hover:bg-amber-900/40"
+                  >
+                    {n}
+                  </button>
+                ))}
+                {maxAffordable > 0 && (
+                  <button
+                    onClick={() => selectCount(maxAffordable)}
+                    className="text-xs px-3 py-1 rounded-full border border-green-500/40 text-green-300 hover:bg-green-900/30"
+                  >
+                    Max affordable ({maxAffordable})
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Purchase preview; the staking contract does not expose the slot price */}
+            <div className="bg-[#1a0d00]/60 p-4 rounded-lg border border-amber-500/20 text-sm space-y-1.5">
+              {quote ? (
+                <>
+                  <p className="text-amber-300/70 text-xs text-center pb-1">
+                    Slots are paid from your in-game balance; the staking
+                    contract sets the price.
+                  </p>
+                  <div className="flex justify-between text-amber-300/80">
+                    <span>In-game balance</span>
+                    <span>{formatGems(quote.rewardBalance)} GEMS</span>
+                  </div>
+                  <div className="flex justify-between text-amber-300/80">
+                    <span>Wallet balance</span>
+                    <span>{formatGems(quote.walletBalance)} GEMS</span>
+                  </div>
+                  {isCurrentQuote && (
+                    <p
+                      className={`pt-2 text-center ${quote.simulation.ok ? "text-green-400" : "text-red-300"}`}
+                    >
+                      {quote.simulation.ok
+                        ? "✓ Contract check passed"
+                        : `Purchase would fail: ${quote.simulation.reason}`}
+                    </p>
+                  )}
+                  {isCurrentQuote &&
+                    !quote.simulation.ok &&
+                    quote.walletBalance > 0n && (
+                      <p className="text-amber-300/80 text-xs text-center">
+                        <Link to={ROUTES.BANK} className="underline text-amber-400">
+                          Deposit GEMS in the Bank
+                        </Link>{" "}
+                        to top up your in-game balance.
+                      </p>
+                    )}
+                </>
+              ) : (
+                <p className="text-amber-300/70 text-center">Checking purchase...</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-4 mt-6">
+          <button
+            onClick={() => onOpenChange(false)}
+            className="bg-gray-700 hover:bg-gray-800 text-amber-200 font-semibold px-6 py-3 rounded-lg transition-all duration-300 font-winky border border-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handlePurchase}
+            disabled={!canPurchase}
+            className="bg-amber-500 hover:bg-amber-600 text-black font-semibold px-6 py-3 rounded-lg transition-all duration-300 font-winky shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {purchasing
+              ? "Purchasing..."
+              : `Buy ${count} Slot${count === 1 ? "" : "s"}`}
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,22 +1,50 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CoinsIcon, TimerIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import Countdown from "react-countdown";
 
 interface RewardsCardProps {
   stakedAmount: number;
   rewards: number;
-  stakingTime: number;
+  rewardRatePercent: number;
+  stakingTime: number; // ms, from the on-chain stake timestamp
+  unlocksAt: number; // ms, end of the on-chain minimum staking period
   onClaimRewards: () => void;
+  onUnlock: () => void;
   isStakingPeriodComplete: boolean;
+  claiming: boolean;
 }
 
+interface CountdownRenderProps {
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+const renderUnlock = ({ hours, minutes, seconds }: CountdownRenderProps) =>
+  `${hours}h ${minutes}m ${seconds}s`;
+
 export function RewardsCard({
   stakedAmount,
   rewards,
+  rewardRatePercent,
   stakingTime,
+  unlocksAt,
   onClaimRewards,
+  onUnlock,
   isStakingPeriodComplete,
+  claiming,
 }: RewardsCardProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the "time staked" display while a position is open
+  useEffect(() => {
+    if (stakingTime <= 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [stakingTime]);
+
   const formatTime = (ms: number) => {
     const hours = Math.floor(ms / (60 * 60 * 1000));
     const minutes = Math.floor((ms % (60 * 60 * 1000)) / (60 * 1000));
@@ -41,7 +69,9 @@ export function RewardsCard({
             </div>
             <div className="flex justify-between items-center mb-2">
               <span className="text-amber-300">Reward Rate:</span>
-              <span className="text-white font-bold">0.8% per 24h</span>
+              <span className="text-white font-bold">
+                {rewardRatePercent}% per 24h
+              </span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-amber-300">Pending Rewards:</span>
@@ -58,8 +88,18 @@ export function RewardsCard({
                 <span>Time Staked:</span>
               </div>
               <div className="text-white font-bold text-center">
-                {formatTime(Date.now() - stakingTime)}
+                {formatTime(Math.max(0, now - stakingTime))}
               </div>
+              {!isStakingPeriodComplete && unlocksAt > 0 && (
+                <div className="text-amber-300/80 text-sm text-center mt-2">
+                  Unlocks in{" "}
+                  <Countdown
+                    date={unlocksAt}
+                    renderer={renderUnlock}
+                    onComplete={onUnlock}
+                  />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -68,10 +108,10 @@ export function RewardsCard({
           <Button
             onClick={onClaimRewards}
             className="w-full bg-amber-600 hover:bg-amber-500 text-[#1a0d00] font-bold py-3 text-lg transition-all duration-300 shadow-lg hover:shadow-amber-600/30"
-            disabled={rewards <= 0 || !isStakingPeriodComplete}
+            disabled={rewards <= 0 || !isStakingPeriodComplete || claiming}
           >
             <CoinsIcon className="h-5 w-5 mr-2" />
-            Claim Rewards
+            {claiming ? "Claiming..." : "Claim Rewards"}
           </Button>
         </div>
       </CardContent>
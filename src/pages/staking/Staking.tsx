@@ -1,75 +1,68 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InfoIcon } from "lucide-react";
+import { useGemxStaking } from "@/hooks/useGemxStaking";
 import { RewardsCard } from "./RewardsCard";
 import { StakingCard } from "./StakingCard";
 import { StakingHeader } from "./StakingHeader";
 
 export default function Staking() {
   const [amount, setAmount] = useState("");
-  const [stakedAmount, setStakedAmount] = useState(0);
-  const [rewards, setRewards] = useState(0);
-  const [stakingTime, setStakingTime] = useState(0);
+  const {
+    position,
+    pendingAction,
+    error,
+    refetch,
+    stake,
+    unstake,
+    claimRewards,
+  } = useGemxStaking();
 
-  // Constants
-  const REWARD_RATE = 0.008; // 0.8% per 24 hours
-  const MIN_STAKING_PERIOD = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+  const stakedAmount = position ? parseFloat(position.stakedAmount) : 0;
+  const rewards = position ? parseFloat(position.pendingRewards) : 0;
+  const isStakingPeriodComplete = position?.isStakingPeriodComplete ?? false;
 
-  // Calculate rewards every second
-  useEffect(() => {
-    if (stakedAmount > 0) {
-      const interval = setInterval(() => {
-        const now = Date.now();
-        const timeStaked = now - stakingTime;
-
-        if (timeStaked >= MIN_STAKING_PERIOD) {
-          const daysStaked = timeStaked / (24 * 60 * 60 * 1000);
-          const calculatedRewards = stakedAmount * REWARD_RATE * daysStaked;
-          setRewards(calculatedRewards);
-        }
-      }, 1000);
-
-      return () => clearInterval(interval);
-    }
-  }, [stakedAmount, stakingTime]);
-
-  const handleStake = () => {
+  const handleStake = async () => {
     const stakeAmount = parseFloat(amount);
     if (isNaN(stakeAmount) || stakeAmount <= 0) {
       alert("Please enter a valid amount to stake");
       return;
     }
-    setStakedAmount(stakeAmount);
-    setStakingTime(Date.now());
-    setAmount("");
+    if (await stake(amount)) {
+      setAmount("");
+    }
   };
 
   const handleUnstake = () => {
-    if (Date.now() - stakingTime < MIN_STAKING_PERIOD) {
+    if (!isStakingPeriodComplete) {
       alert("You must stake for at least 24 hours before unstaking");
       return;
     }
-    setStakedAmount(0);
-    setRewards(0);
-    setStakingTime(0);
+    unstake();
   };
 
   const handleClaimRewards = () => {
-    if (Date.now() - stakingTime < MIN_STAKING_PERIOD) {
+    if (!isStakingPeriodComplete) {
       alert("You must stake for at least 24 hours before claiming rewards");
       return;
     }
-    // Implement claim rewards logic here
-    console.log("Claiming rewards:", rewards);
-    setRewards(0);
+    claimRewards();
   };
 
-  const isStakingPeriodComplete =
-    Date.now() - stakingTime >= MIN_STAKING_PERIOD;
-
   return (
     <main className="py-20">
       <div className="container mx-auto px-4">
         <StakingHeader />
 
+        {error && (
+          <Alert className="mb-8 bg-red-900/40 border-red-800 max-w-6xl mx-auto">
+            <InfoIcon className="h-5 w-5 text-red-300" />
+            <AlertDescription className="text-red-200 font-medium ml-2">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 max-w-6xl mx-auto">
           <StakingCard
             amount={amount}
@@ -77,14 +70,20 @@ export default function Staking() {
             onAmountChange={setAmount}
             onStake={handleStake}
             onUnstake={handleUnstake}
+            pendingAction={pendingAction}
+            canUnstake={isStakingPeriodComplete}
           />
 
           <RewardsCard
             stakedAmount={stakedAmount}
             rewards={rewards}
-            stakingTime={stakingTime}
+            rewardRatePercent={position?.rewardRatePercent ?? 0}
+            stakingTime={(position?.stakedAt ?? 0) * 1000}
+            unlocksAt={(position?.unlocksAt ?? 0) * 1000}
             onClaimRewards={handleClaimRewards}
+            onUnlock={refetch}
             isStakingPeriodComplete={isStakingPeriodComplete}
+            claiming={pendingAction === "claiming"}
           />
         </div>
       </div>
@@ -3,6 +3,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { GemIcon } from "lucide-react";
+import { GemxStakingAction } from "@/hooks/useGemxStaking";
 
 interface StakingCardProps {
   amount: string;
@@ -10,15 +11,26 @@ interface StakingCardProps {
   onAmountChange: (value: string) => void;
   onStake: () => void;
   onUnstake: () => void;
+  pendingAction: GemxStakingAction | null;
+  canUnstake: boolean;
 }
 
+const STAKE_BUTTON_LABELS: Partial<Record<GemxStakingAction, string>> = {
+  approving: "Approving GEMS...",
+  staking: "Staking Gems...",
+};
+
 export function StakingCard({
   amount,
   stakedAmount,
   onAmountChange,
   onStake,
   onUnstake,
+  pendingAction,
+  canUnstake,
 }: StakingCardProps) {
+  const busy = pendingAction !== null;
+
   return (
     <Card className="bg-[#2a1a0a]/90 border-[#3a2410] shadow-2xl backdrop-blur-sm flex flex-col h-full">
       <CardHeader className="border-b border-amber-900/50 pb-4">
@@ -41,7 +53,7 @@ export function StakingCard({
                 value={amount}
                 onChange={(e) => onAmountChange(e.target.value)}
                 className="bg-[#1a0d00] border-[#3a2410] text-white pl-4 h-12 text-lg focus:border-amber-500 focus:ring-amber-500/30"
-                disabled={stakedAmount > 0}
+                disabled={stakedAmount > 0 || busy}
               />
               <span className="absolute right-4 top-1/2 transform -translate-y-1/2 text-amber-500 font-medium">
                 GEMS
@@ -53,17 +65,23 @@ export function StakingCard({
           <Button
             onClick={onStake}
             className="w-full bg-amber-600 hover:bg-amber-500 text-[#1a0d00] font-bold py-3 text-lg transition-all duration-300 shadow-lg hover:shadow-amber-600/30"
-            disabled={stakedAmount > 0}
+            disabled={stakedAmount > 0 || busy}
           >
             <GemIcon className="h-5 w-5 mr-2" />
-            Stake Gems
+            {(pendingAction && STAKE_BUTTON_LABELS[pendingAction]) ||
+              "Stake Gems"}
           </Button>
           {stakedAmount > 0 && (
             <Button
               onClick={onUnstake}
               className="w-full bg-red-600 hover:bg-red-500 text-white font-bold py-3 text-lg transition-all duration-300 shadow-lg hover:shadow-red-600/30"
+              disabled={!canUnstake || busy}
             >
-              Unstake Gems
+              {pendingAction === "unstaking"
+                ? "Unstaking..."
+                : canUnstake
+                ? "Unstake Gems"
+                : "Locked for 24h"}
             </Button>
           )}
         </div>
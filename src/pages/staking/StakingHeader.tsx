@@ -15,8 +15,8 @@ export function StakingHeader() {
       <Alert className="bg-yellow-900/50 border-yellow-800 max-w-3xl mx-auto">
         <InfoIcon className="h-5 w-5 text-amber-300" />
         <AlertDescription className="text-amber-200 font-medium ml-2">
-          You must stake for at least 24 hours to receive rewards. Early
-          unstaking will forfeit your rewards.
+          Staked GEMS are locked for 24 hours. Rewards can be claimed and
+          GEMS unstaked once the lock period has passed on-chain.
         </AlertDescription>
       </Alert>
     </div>
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import type { ActivityEntry } from './ActivityService';
+import { toDailyRows, toTransactionRows } from './ActivityExport';
+
+const DAY = 24 * 60 * 60;
+// 2025-01-01T00:00:00Z
+const JAN_1 = 1735689600;
+const gems = (value: string) => ethers.parseUnits(value, 18);
+
+let logIndex = 0;
+const entry = (overrides: Partial<ActivityEntry> & Pick<ActivityEntry, 'type' | 'transactionHash'>): ActivityEntry => ({
+  id: `${overrides.transactionHash}:${logIndex}`,
+  blockNumber: 1,
+  logIndex: logIndex++,
+  timestamp: JAN_1,
+  minerId: null,
+  gemsDelta: 0n,
+  mealId: null,
+  slots: null,
+  successful: null,
+  boostPercentage: null,
+  ...overrides,
+});
+
+describe('toTransactionRows', () => {
+  it('groups entries by transaction and books earnings, meals and claims separately', () => {
+    const rows = toTransactionRows([
+      entry({ type: 'rewardsAccrued', transactionHash: '0xfeed', blockNumber: 10, gemsDelta: gems('1.5') }),
+      entry({ type: 'mealPurchased', transactionHash: '0xfeed', blockNumber: 10, minerId: 1, gemsDelta: -gems('2') }),
+      entry({ type: 'mealPurchased', transactionHash: '0xfeed', blockNumber: 10, minerId: 2, gemsDelta: -gems('2') }),
+      entry({ type: 'expeditionCompleted', transactionHash: '0xdone', blockNumber: 20, minerId: 1, gemsDelta: gems('10') }),
+      entry({ type: 'rewardsClaimed', transactionHash: '0xclaim', blockNumber: 30, gemsDelta: gems('5') }),
+    ]);
+
+    expect(rows.map((row) => row.transactionHash)).toEqual(['0xfeed', '0xdone', '0xclaim']);
+    expect(rows[0]).toMatchObject({
+      activities: ['rewardsAccrued', 'mealPurchased'],
+      minerIds: [1, 2],
+      earned: gems('1.5'),
+      spentMeals: gems('4'),
+      net: -gems('2.5'),
+    });
+    expect(rows[1]).toMatchObject({ earned: gems('10'), net: gems('10') });
+    // Claims move earned gems to the wallet and do not change the net result
+    expect(rows[2]).toMatchObject({ claimed: gems('5'), net: 0n });
+  });
+
+  it('counts slot purchases without pricing them', () => {
+    const [row] = toTransactionRows([
+      entry({ type: 'rewardsAccrued', transactionHash: '0xslots', gemsDelta: gems('1') }),
+      entry({ type: 'slotsPurchased', transactionHash: '0xslots', slots: 3 }),
+    ]);
+
+    expect(row).toMatchObject({ slotsPurchased: 3, earned: gems('1'), spentMeals: 0n, net: gems('1') });
+    expect(row).not.toHaveProperty('spentSlots');
+  });
+
+  it('orders rows by block and log index regardless of input order', () => {
+    const rows = toTransactionRows([
+      entry({ type: 'staked', transactionHash: '0xb', blockNumber: 5, logIndex: 0 }),
+      entry({ type: 'staked', transactionHash: '0xa', blockNumber: 4, logIndex: 7 }),
+    ]);
+
+    expect(rows.map((row) => row.transactionHash)).toEqual(['0xa', '0xb']);
+  });
+});
+
+describe('toDailyRows', () => {
+  it('sums transaction rows per UTC day, oldest first', () => {
+    const rows = toTransactionRows([
+      entry({ type: 'rewardsAccrued', transactionHash: '0x2', timestamp: JAN_1 + DAY + 60, blockNumber: 3, gemsDelta: gems('4') }),
+      entry({ type: 'rewardsAccrued', transactionHash: '0x0', timestamp: JAN_1, blockNumber: 1, gemsDelta: gems('1') }),
+      entry({ type: 'mealPurchased', transactionHash: '0x1', timestamp: JAN_1 + DAY - 1, blockNumber: 2, gemsDelta: -gems('2') }),
+      entry({ type: 'slotsPurchased', transactionHash: '0x3', timestamp: JAN_1 + DAY + 120, blockNumber: 4, slots: 2 }),
+    ]);
+
+    const days = toDailyRows(rows);
+    expect(days).toEqual([
+      { date: '2025-01-01', transactions: 2, slotsPurchased: 0, earned: gems('1'), claimed: 0n, spentMeals: gems('2'), net: -gems('1') },
+      { date: '2025-01-02', transactions: 2, slotsPurchased: 2, earned: gems('4'), claimed: 0n, spentMeals: 0n, net: gems('4') },
+    ]);
+  });
+
+  it('returns no rows for no activity', () => {
+    expect(toDailyRows([])).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * @title ActivityExport
+ * @notice Per-transaction and per-day GEMS statements of a wallet's activity, as CSV or JSON
+ * @dev Built from ActivityService entries. Earned gems are mining rewards (RewardsCalculated) and
+ * @dev expedition rewards (ExpeditionCompleted); claims only move earned gems into the wallet, so
+ * @dev they are reported separately and left out of the net result. Only amounts the chain records
+ * @dev are exported: slot purchases are counted, not priced, because the staking contract does not
+ * @dev log what it charges for them. Days are UTC calendar days and amounts are exact decimal GEMS strings.
+ */
+
+import { ethers } from 'ethers';
+import type { ActivityEntry, ActivityType } from './ActivityService';
+
+export type ExportFormat = 'csv' | 'json';
+export type ExportGranularity = 'transaction' | 'day';
+
+/**
+ * Inclusive UTC date range as YYYY-MM-DD strings; null leaves that side open
+ */
+export interface ExportRange {
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * GEMS totals of a statement row, in wei
+ */
+export interface GemsTotals {
+  earned: bigint;
+  claimed: bigint;
+  spentMeals: bigint;
+  net: bigint;                  // earned minus meals spent
+}
+
+export interface TransactionRow extends GemsTotals {
+  timestamp: number;            // Block timestamp, Unix seconds
+  blockNumber: number;
+  transactionHash: string;
+  activities: ActivityType[];
+  minerIds: number[];
+  slotsPurchased: number;
+}
+
+export interface DailyRow extends GemsTotals {
+  date: string;                 // YYYY-MM-DD (UTC)
+  transactions: number;
+  slotsPurchased: number;
+}
+
+export interface ActivityExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const EARNING_TYPES: ActivityType[] = ['rewardsAccrued', 'expeditionCompleted'];
+
+const TOTAL_COLUMNS: (keyof GemsTotals)[] = ['earned', 'claimed', 'spentMeals', 'net'];
+
+const emptyTotals = (): GemsTotals => ({
+  earned: 0n,
+  claimed: 0n,
+  spentMeals: 0n,
+  net: 0n,
+});
+
+/**
+ * UTC calendar day of a Unix timestamp
+ * @param timestamp - Unix seconds
+ * @returns YYYY-MM-DD
+ */
+export function toUtcDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Keeps the entries whose block falls within a UTC date range
+ * @param entries - Activity entries
+ * @param range - Inclusive first and last day
+ */
+export function entriesInRange(entries: ActivityEntry[], range: ExportRange): ActivityEntry[] {
+  return entries.filter((entry) => {
+    const date = toUtcDate(entry.timestamp);
+    return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+  });
+}
+
+/**
+ * Groups activity by transaction, oldest first
+ * @param entries - Activity entries in any order
+ */
+export function toTransactionRows(entries: ActivityEntry[]): TransactionRow[] {
+  const rows = new Map<string, TransactionRow>();
+  const chronological = [...entries].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  for (const entry of chronological) {
+    let row = rows.get(entry.transactionHash);
+    if (!row) {
+      row = {
+        ...emptyTotals(),
+        timestamp: entry.timestamp,
+        blockNumber: entry.blockNumber,
+        transactionHash: entry.transactionHash,
+        activities: [],
+        minerIds: [],
+        slotsPurchased: 0,
+      };
+      rows.set(entry.transactionHash, row);
+    }
+    if (!row.activities.includes(entry.type)) row.activities.push(entry.type);
+    if (entry.minerId !== null && !row.minerIds.includes(entry.minerId)) row.minerIds.push(entry.minerId);
+
+    if (entry.type === 'mealPurchased') {
+      row.spentMeals += -entry.gemsDelta;
+      row.net += entry.gemsDelta;
+    } else if (entry.type === 'slotsPurchased') {
+      row.slotsPurchased += entry.slots ?? 0;
+    } else if (EARNING_TYPES.includes(entry.type)) {
+      row.earned += entry.gemsDelta;
+      row.net += entry.gemsDelta;
+    } else if (entry.type === 'rewardsClaimed') {
+      row.claimed += entry.gemsDelta;
+    }
+  }
+  return [...rows.values()];
+}
+
+/**
+ * Sums transaction rows per UTC day, oldest first
+ * @param rows - Transaction rows (see toTransactionRows)
+ */
+export function toDailyRows(rows: TransactionRow[]): DailyRow[] {
+  const days = new Map<string, DailyRow>();
+  for (const row of rows) {
+    const date = toUtcDate(row.timestamp);
+    let day = days.get(date);
+    if (!day) {
+      day = { ...emptyTotals(), date, transactions: 0, slotsPurchased: 0 };
+      days.set(date, day);
+    }
+    day.transactions += 1;
+    day.slotsPurchased += row.slotsPurchased;
+    for (const column of TOTAL_COLUMNS) day[column] += row[column];
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+const formatGems = (value: bigint) => ethers.formatUnits(value, 18);
+
+const toSnakeCase = (name: string) => name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], records: (string | number)[][]) =>
+  [header, ...records].map((record) => record.map(escapeCsv).join(',')).join('\n') + '\n';
+
+/**
+ * Serializes transaction rows, with amounts in GEMS
+ * @param rows - Transaction rows
+ * @param format - csv or json
+ */
+export function formatTransactionRows(rows: TransactionRow[], format: ExportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      rows.map((row) => ({
+        timestamp: row.timestamp,
+        date: new Date(row.timestamp * 1000).toISOString(),
+        blockNumber: row.blockNumber,
+        transactionHash: row.transactionHash,
+        activities: row.activities,
+        minerIds: row.minerIds,
+        slotsPurchased: row.slotsPurchased,
+        ...Object.fromEntries(TOTAL_COLUMNS.map((column) => [column, formatGems(row[column])])),
+      })),
+      null,
+      2
+    );
+  }
+  return toCsv(
+    ['timestamp', 'date', 'block_number', 'transaction_hash', 'activities', 'miner_ids', 'slots_purchased', ...TOTAL_COLUMNS.map(toSnakeCase)],
+    rows.map((row) => [
+      row.timestamp,
+      new Date(row.timestamp * 1000).toISOString(),
+      row.blockNumber,
+      row.transactionHash,
+      row.activities.join(' '),
+      row.minerIds.join(' '),
+      row.slotsPurchased,
+      ...TOTAL_COLUMNS.map((column) => formatGems(row[column])),
+    ])
+  );
+}
+
+/**
+ * Serializes daily rows, with amounts in GEMS
+ * @param rows - Daily rows
+ * @param format - csv or json
+ */
+export function formatDailyRows(rows: DailyRow[], format: ExportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      rows.map((row) => ({
+        date: row.date,
+        transactions: row.transactions,
+        slotsPurchased: row.slotsPurchased,
+        ...Object.fromEntries(TOTAL_COLUMNS.map((column) => [column, formatGems(row[column])])),
+      })),
+      null,
+      2
+    );
+  }
+  return toCsv(
+    ['date', 'transactions', 'slots_purchased', ...TOTAL_COLUMNS.map(toSnakeCase)],
+    rows.map((row) => [row.date, row.transactions, row.slotsPurchased, ...TOTAL_COLUMNS.map((column) => formatGems(row[column]))])
+  );
+}
+
+/**
+ * Builds a statement file for a wallet's activity
+ * @param entries - All of the wallet's activity entries
+ * @param options - Date range, per-transaction or per-day rows, and output format
+ */
+export function buildActivityExport(
+  entries: ActivityEntry[],
+  options: { range: ExportRange; granularity: ExportGranularity; format: ExportFormat }
+): ActivityExportFile {
+  const rows = toTransactionRows(entriesInRange(entries, options.range));
+  const content =
+    options.granularity === 'day'
+      ? formatDailyRows(toDailyRows(rows), options.format)
+      : formatTransactionRows(rows, options.format);
+  const period = `${options.range.from ?? 'start'}_${options.range.to ?? 'now'}`;
+
+  return {
+    filename: `mining-masters-${options.granularity === 'day' ? 'daily' : 'transactions'}-${period}.${options.format}`,
+    mimeType: options.format === 'json' ? 'application/json' : 'text/csv',
+    content,
+  };
+}
@@ -0,0 +1,376 @@
+/**
+ * @title ActivityService
+ * @notice Chronological account activity for a wallet: staking, mining rewards, meals, expeditions, claims and slot purchases
+ * @dev Built from the wallet's staking, expedition and FoodSystem logs, filtered on the indexed
+ * @dev user topic. Mining rewards are the production RewardsCalculated adds to the pending
+ * @dev balance. Slot purchases emit no event of their own, so transactions that recalculated the
+ * @dev wallet's rewards (RewardsCalculated) without another explaining event are decoded as
+ * @dev purchaseSlot(s) or RewardSpendingBatch SLOTS actions. The staking contract spends the slot
+ * @dev price from pending rewards without logging it, so slot purchases carry the slot count and
+ * @dev no GEMS delta. Scans are chunked and checkpointed in IndexedDB through lib/logScanner.
+ */
+
+import { ethers } from 'ethers';
+import { getContractAddress } from '../config/contracts';
+import { getFoodSystemContract, FoodSystemContract } from '../contracts/clients/FoodSystem';
+import { getMiningExpeditionContract, MiningExpeditionContract } from '../contracts/clients/MiningExpedition';
+import { getMiningMastersStakingContract, MiningMastersStakingContract } from '../contracts/clients/MiningMastersStaking';
+import { getRewardSpendingBatchContract, RewardSpendingBatchContract } from '../contracts/clients/RewardSpendingBatch';
+import { createCheckpointedScanner, ScanProgress, ScanSnapshot } from '../lib/logScanner';
+import { BATCH_ACTION } from './contracts/BatchAction';
+
+export type ActivityType =
+  | 'staked'
+  | 'unstaked'
+  | 'mealPurchased'
+  | 'expeditionStarted'
+  | 'expeditionCompleted'
+  | 'rewardsAccrued'
+  | 'rewardsClaimed'
+  | 'slotsPurchased';
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  'staked',
+  'unstaked',
+  'mealPurchased',
+  'expeditionStarted',
+  'expeditionCompleted',
+  'rewardsAccrued',
+  'rewardsClaimed',
+  'slotsPurchased',
+];
+
+/**
+ * One activity entry, stored with bigint values as decimal strings
+ */
+interface StoredActivity {
+  id: string;                   // transactionHash:logIndex (transactionHash:slots for slot purchases)
+  type: ActivityType;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  transactionHash: string;
+  minerId: number | null;
+  gemsDelta: string;
+  mealId: number | null;
+  slots: number | null;
+  successful: boolean | null;
+  boostPercentage: number | null;
+}
+
+interface ActivitySnapshot extends ScanSnapshot {
+  entries: StoredActivity[];
+}
+
+/**
+ * Something that happened to the wallet's account
+ */
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;            // Unix seconds
+  transactionHash: string;
+  minerId: number | null;       // null for wallet-level entries (mining rewards, claims, slots)
+  gemsDelta: bigint;            // In wei; positive when gems were earned or claimed, negative when spent
+  mealId: number | null;
+  slots: number | null;
+  successful: boolean | null;   // Expedition outcome, completed expeditions only
+  boostPercentage: number | null;
+}
+
+/**
+ * Narrows the feed; omitted fields match everything
+ */
+export interface ActivityFilter {
+  types?: ActivityType[];
+  minerId?: number | null;
+}
+
+export type ActivityProgress = ScanProgress;
+
+/**
+ * Applies a type and miner filter to activity entries
+ * @param entries - Entries to filter
+ * @param filter - Types and miner to keep
+ */
+export function filterActivity(entries: ActivityEntry[], filter: ActivityFilter): ActivityEntry[] {
+  return entries.filter(
+    (entry) =>
+      (!filter.types || filter.types.length === 0 || filter.types.includes(entry.type)) &&
+      (filter.minerId === undefined || filter.minerId === null || entry.minerId === filter.minerId)
+  );
+}
+
+const scanner = createCheckpointedScanner<ActivitySnapshot>({
+  dbName: 'mining-masters-activity',
+  label: 'activity cache',
+  version: 3,
+  empty: () => ({ entries: [] }),
+});
+
+export class ActivityService {
+  private provider: ethers.Provider;
+  private staking: MiningMastersStakingContract;
+  private expedition: MiningExpeditionContract;
+  private food: FoodSystemContract;
+  private batch: RewardSpendingBatchContract;
+
+  /**
+   * Creates a new ActivityService instance
+   * @param provider - Ethers provider used for log, block and transaction queries
+   */
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+    this.staking = getMiningMastersStakingContract(provider, getContractAddress('StakingProxy'));
+    this.expedition = getMiningExpeditionContract(provider, getContractAddress('MiningExpeditionProxy'));
+    this.food = getFoodSystemContract(provider, getContractAddress('FoodSystemProxy'));
+    this.batch = getRewardSpendingBatchContract(provider, getContractAddress('RewardSpendingBatch'));
+  }
+
+  /**
+   * Indexes any new blocks and returns the wallet's activity, newest first
+   * @param address - Wallet address
+   * @param onProgress - Optional callback invoked after each scanned chunk
+   */
+  async getActivity(address: string, onProgress?: (progress: ActivityProgress) => void): Promise<ActivityEntry[]> {
+    const snapshot = await scanner.sync(await this.getCacheKey(address), {
+      head: () => this.provider.getBlockNumber(),
+      fetch: (fromBlock, toBlock) => this.fetchRange(address, fromBlock, toBlock),
+      apply: (current, entries) => current.entries.push(...entries),
+      onProgress,
+    });
+    return ActivityService.toEntries(snapshot.entries);
+  }
+
+  /**
+   * Returns the cached activity without touching the chain
+   * @param address - Wallet address
+   * @returns Entries newest first, empty if nothing has been indexed yet
+   */
+  async getCachedActivity(address: string): Promise<ActivityEntry[]> {
+    const snapshot = await scanner.load(await this.getCacheKey(address));
+    return ActivityService.toEntries(snapshot.entries);
+  }
+
+  /**
+   * Builds the cache key for the connected chain, contract deployment and wallet
+   * @private
+   */
+  private async getCacheKey(address: string): Promise<string> {
+    const network = await this.provider.getNetwork();
+    const contracts = [this.staking, this.expedition, this.food].map((contract) => String(contract.target).toLowerCase());
+    return `${network.chainId}:${contracts.join(':')}:${address.toLowerCase()}`;
+  }
+
+  /**
+   * Reads and decodes the wallet's activity in one block range, in chain order
+   * @private
+   */
+  private async fetchRange(address: string, fromBlock: number, toBlock: number): Promise<StoredActivity[]> {
+    const userTopic = ethers.zeroPadValue(address, 32);
+    const topic = (contract: { interface: ethers.Interface }, name: string) => contract.interface.getEvent(name)!.topicHash;
+    const logs = await this.provider.getLogs({
+      address: [this.staking, this.expedition, this.food].map((contract) => String(contract.target)),
+      topics: [
+        [
+          topic(this.staking, 'MinerStaked'),
+          topic(this.staking, 'MinerUnstaked'),
+          topic(this.staking, 'RewardsClaimed'),
+          topic(this.staking, 'RewardsCalculated'),
+          topic(this.expedition, 'ExpeditionStarted'),
+          topic(this.expedition, 'ExpeditionCompleted'),
+          topic(this.food, 'MealPurchased'),
+        ],
+        userTopic,
+      ],
+      fromBlock,
+      toBlock,
+    });
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const entries: StoredActivity[] = [];
+    const rewardRecalculations: ethers.Log[] = [];
+    // Transactions already explained by an event other than a meal (meals can share a batch with slots)
+    const explained = new Set<string>();
+
+    for (const log of logs) {
+      const parsed = this.parseLog(log);
+      if (!parsed) continue;
+      const args = parsed.args;
+      const base = {
+        id: `${log.transactionHash}:${log.index}`,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        timestamp: 0,
+        minerId: null,
+        gemsDelta: '0',
+        mealId: null,
+        slots: null,
+        successful: null,
+        boostPercentage: null,
+      };
+
+      switch (parsed.name) {
+        case 'MinerStaked':
+        case 'MinerUnstaked':
+          explained.add(log.transactionHash);
+          entries.push({
+            ...base,
+            type: parsed.name === 'MinerStaked' ? 'staked' : 'unstaked',
+            timestamp: Number(args.timestamp),
+            minerId: Number(args.tokenId),
+          });
+          break;
+        case 'RewardsClaimed':
+          explained.add(log.transactionHash);
+          entries.push({ ...base, type: 'rewardsClaimed', gemsDelta: BigInt(args.amount).toString() });
+          break;
+        case 'RewardsCalculated': {
+          rewardRecalculations.push(log);
+          const accrued = BigInt(args.newRewards) - BigInt(args.previousRewards);
+          if (accrued > 0n) {
+            entries.push({ ...base, type: 'rewardsAccrued', timestamp: Number(args.timestamp), gemsDelta: accrued.toString() });
+          }
+          break;
+        }
+        case 'ExpeditionStarted':
+          explained.add(log.transactionHash);
+          entries.push({ ...base, type: 'expeditionStarted', timestamp: Number(args.startTime), minerId: Number(args.minerId) });
+          break;
+        case 'ExpeditionCompleted':
+          explained.add(log.transactionHash);
+          entries.push({
+            ...base,
+            type: 'expeditionCompleted',
+            minerId: Number(args.minerId),
+            gemsDelta: args.successful ? BigInt(args.boostedReward).toString() : '0',
+            successful: Boolean(args.successful),
+            boostPercentage: Number(args.boostPercentage),
+          });
+          break;
+        case 'MealPurchased':
+          entries.push({
+            ...base,
+            type: 'mealPurchased',
+            timestamp: Number(args.timestamp),
+            minerId: Number(args.minerId),
+            mealId: Number(args.mealId),
+            gemsDelta: (-BigInt(args.price)).toString(),
+          });
+          break;
+      }
+    }
+
+    entries.push(...(await this.findSlotPurchases(address, rewardRecalculations, explained)));
+    await this.fillTimestamps(entries);
+    return entries.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private parseLog(log: ethers.Log): ethers.LogDescription | null {
+    const source = [this.staking, this.expedition, this.food].find(
+      (contract) => String(contract.target).toLowerCase() === log.address.toLowerCase()
+    );
+    try {
+      return source?.interface.parseLog(log) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Decodes slot purchases from the wallet's transactions that recalculated its rewards
+   * without staking, claiming or expedition events
+   * @private
+   */
+  private async findSlotPurchases(address: string, recalculations: ethers.Log[], explained: Set<string>): Promise<StoredActivity[]> {
+    const candidates = new Map<string, ethers.Log>();
+    for (const log of recalculations) {
+      if (!explained.has(log.transactionHash) && !candidates.has(log.transactionHash)) {
+        candidates.set(log.transactionHash, log);
+      }
+    }
+
+    const purchases = await Promise.all(
+      [...candidates.values()].map(async (log): Promise<StoredActivity | null> => {
+        const tx = await this.provider.getTransaction(log.transactionHash);
+        if (!tx || tx.from.toLowerCase() !== address.toLowerCase()) return null;
+        const slots = this.decodeSlotCount(tx);
+        if (slots === 0) return null;
+        return {
+          id: `${log.transactionHash}:slots`,
+          type: 'slotsPurchased',
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+          timestamp: 0,
+          transactionHash: log.transactionHash,
+          minerId: null,
+          // The amount spent is not logged by the transaction, so none is recorded
+          gemsDelta: '0',
+          mealId: null,
+          slots,
+          successful: null,
+          boostPercentage: null,
+        };
+      })
+    );
+    return purchases.filter((purchase): purchase is StoredActivity => purchase !== null);
+  }
+
+  /**
+   * Number of slots bought by a transaction, 0 if it is not a slot purchase
+   * @private
+   */
+  private decodeSlotCount(tx: ethers.TransactionResponse): number {
+    const to = tx.to?.toLowerCase();
+    try {
+      if (to === String(this.staking.target).toLowerCase()) {
+        const call = this.staking.interface.parseTransaction({ data: tx.data });
+        if (call?.name === 'purchaseSlot') return 1;
+        if (call?.name === 'purchaseSlots') return Number(call.args.count);
+      } else if (to === String(this.batch.target).toLowerCase()) {
+        const call = this.batch.interface.parseTransaction({ data: tx.data });
+        if (call?.name === 'executeBatch') {
+          return (call.args.actions as { action: bigint; arg1: bigint }[])
+            .filter((action) => Number(action.action) === BATCH_ACTION.SLOTS)
+            .reduce((total, action) => total + Number(action.arg1), 0);
+        }
+      }
+    } catch {
+      // Not a call we know how to decode
+    }
+    return 0;
+  }
+
+  /**
+   * Fills in block timestamps for entries whose event carries none
+   * @private
+   */
+  private async fillTimestamps(entries: StoredActivity[]): Promise<void> {
+    const blocks = [...new Set(entries.filter((entry) => entry.timestamp === 0).map((entry) => entry.blockNumber))];
+    const timestamps = new Map<number, number>();
+    await Promise.all(
+      blocks.map(async (blockNumber) => {
+        const block = await this.provider.getBlock(blockNumber);
+        if (block) timestamps.set(blockNumber, block.timestamp);
+      })
+    );
+    for (const entry of entries) {
+      if (entry.timestamp === 0) entry.timestamp = timestamps.get(entry.blockNumber) ?? 0;
+    }
+  }
+
+  /**
+   * Converts stored activity to entries, newest first
+   * @private
+   */
+  private static toEntries(entries: StoredActivity[]): ActivityEntry[] {
+    return entries
+      .map((entry) => ({ ...entry, gemsDelta: BigInt(entry.gemsDelta) }))
+      .reverse();
+  }
+}
+
+export default ActivityService;
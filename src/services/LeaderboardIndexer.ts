@@ -0,0 +1,168 @@
+/**
+ * @title LeaderboardIndexer
+ * @notice Builds the leaderboard from on-chain game events
+ * @dev Scans ExpeditionCompleted logs from the MiningExpedition proxy and RewardsClaimed logs
+ * @dev from the staking proxy in block-range chunks. Aggregates and the last indexed block are
+ * @dev persisted in IndexedDB so later loads only fetch blocks produced since the previous scan
+ */
+
+import { ethers } from 'ethers';
+import { getContractAddress } from '../config/contracts';
+import { getMiningExpeditionContract, MiningExpeditionContract } from '../contracts/clients/MiningExpedition';
+import { getMiningMastersStakingContract, MiningMastersStakingContract } from '../contracts/clients/MiningMastersStaking';
+import { createCheckpointedScanner, ScanProgress, ScanSnapshot } from '../lib/logScanner';
+
+/**
+ * Aggregated stats for one wallet, stored with bigint values as decimal strings
+ */
+interface StoredEntry {
+  totalGems: string;
+  claimedGems: string;
+  expeditions: number;
+  successfulExpeditions: number;
+}
+
+interface LeaderboardSnapshot extends ScanSnapshot {
+  entries: Record<string, StoredEntry>;
+}
+
+/**
+ * Ranked leaderboard row
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  address: string;
+  totalGems: bigint;      // Sum of rewards from successful expeditions
+  claimedGems: bigint;    // Sum of staking rewards claimed
+  expeditions: number;
+  successfulExpeditions: number;
+  successRate: number;    // 0-100
+}
+
+export type IndexerProgress = ScanProgress;
+
+const scanner = createCheckpointedScanner<LeaderboardSnapshot>({
+  dbName: 'mining-masters-leaderboard',
+  label: 'leaderboard cache',
+  version: 1,
+  empty: () => ({ entries: {} }),
+});
+
+export class LeaderboardIndexer {
+  private provider: ethers.Provider;
+  private expedition: MiningExpeditionContract;
+  private staking: MiningMastersStakingContract;
+
+  /**
+   * Creates a new LeaderboardIndexer instance
+   * @param provider - Ethers provider used for log queries
+   */
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+    this.expedition = getMiningExpeditionContract(provider, getContractAddress('MiningExpeditionProxy'));
+    this.staking = getMiningMastersStakingContract(provider, getContractAddress('StakingProxy'));
+  }
+
+  /**
+   * Builds the cache key for the connected chain and contract deployment
+   * @private
+   */
+  private async getCacheKey(): Promise<string> {
+    const network = await this.provider.getNetwork();
+    return `${network.chainId}:${String(this.expedition.target).toLowerCase()}:${String(this.staking.target).toLowerCase()}`;
+  }
+
+  /**
+   * Indexes any new blocks and returns the ranked leaderboard
+   * @param onProgress - Optional callback invoked after each scanned chunk
+   * @returns All wallets ranked by total gems
+   */
+  async sync(onProgress?: (progress: IndexerProgress) => void): Promise<LeaderboardEntry[]> {
+    const snapshot = await scanner.sync(await this.getCacheKey(), {
+      head: () => this.provider.getBlockNumber(),
+      fetch: (fromBlock, toBlock) => this.fetchRange(fromBlock, toBlock),
+      apply: (current, [completedLogs, claimedLogs]) => this.applyLogs(current, completedLogs, claimedLogs),
+      onProgress,
+    });
+    return LeaderboardIndexer.rank(snapshot.entries);
+  }
+
+  /**
+   * Returns the cached leaderboard without touching the chain
+   * @returns Ranked entries, empty if nothing has been indexed yet
+   */
+  async getCached(): Promise<LeaderboardEntry[]> {
+    const snapshot = await scanner.load(await this.getCacheKey());
+    return LeaderboardIndexer.rank(snapshot.entries);
+  }
+
+  /**
+   * Fetches the expedition results and reward claims of one block range
+   * @private
+   */
+  private fetchRange(fromBlock: number, toBlock: number): Promise<[ethers.Log[], ethers.Log[]]> {
+    return Promise.all([
+      this.expedition.queryFilter(this.expedition.filters.ExpeditionCompleted(), fromBlock, toBlock),
+      this.staking.queryFilter(this.staking.filters.RewardsClaimed(), fromBlock, toBlock),
+    ]);
+  }
+
+  /**
+   * Aggregates the events of one block range into the snapshot
+   * @private
+   */
+  private applyLogs(snapshot: LeaderboardSnapshot, completedLogs: ethers.Log[], claimedLogs: ethers.Log[]): void {
+    const entryFor = (owner: string): StoredEntry => {
+      const address = owner.toLowerCase();
+      if (!snapshot.entries[address]) {
+        snapshot.entries[address] = { totalGems: '0', claimedGems: '0', expeditions: 0, successfulExpeditions: 0 };
+      }
+      return snapshot.entries[address];
+    };
+
+    for (const log of completedLogs) {
+      const parsed = this.expedition.interface.parseLog(log);
+      if (!parsed) continue;
+      const { owner, successful, boostedReward } = parsed.args as unknown as { owner: string; successful: boolean; boostedReward: bigint };
+      const entry = entryFor(owner);
+      entry.expeditions += 1;
+      if (successful) {
+        entry.successfulExpeditions += 1;
+        entry.totalGems = (BigInt(entry.totalGems) + boostedReward).toString();
+      }
+    }
+
+    for (const log of claimedLogs) {
+      const parsed = this.staking.interface.parseLog(log);
+      if (!parsed) continue;
+      const { user, amount } = parsed.args as unknown as { user: string; amount: bigint };
+      const entry = entryFor(user);
+      entry.claimedGems = (BigInt(entry.claimedGems) + amount).toString();
+    }
+  }
+
+  /**
+   * Sorts aggregated entries into ranks (total gems, then success rate, then address)
+   * @private
+   */
+  private static rank(entries: Record<string, StoredEntry>): LeaderboardEntry[] {
+    return Object.entries(entries)
+      .map(([address, entry]) => ({
+        rank: 0,
+        address,
+        totalGems: BigInt(entry.totalGems),
+        claimedGems: BigInt(entry.claimedGems),
+        expeditions: entry.expeditions,
+        successfulExpeditions: entry.successfulExpeditions,
+        successRate: entry.expeditions > 0 ? (entry.successfulExpeditions / entry.expeditions) * 100 : 0,
+      }))
+      .sort((a, b) => {
+        if (a.totalGems !== b.totalGems) return a.totalGems > b.totalGems ? -1 : 1;
+        if (a.successRate !== b.successRate) return b.successRate - a.successRate;
+        return a.address.localeCompare(b.address);
+      })
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+}
+
+export default LeaderboardIndexer;
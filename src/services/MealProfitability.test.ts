@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { FoodItem } from '../constants/food';
+import { analyzeMeal, analyzeMeals, expeditionsPerDay, ProfitabilityInputs } from './MealProfitability';
+
+const HOUR = 60 * 60;
+
+const meal = (overrides: Partial<FoodItem> = {}): FoodItem => ({
+  id: 1,
+  name: 'Coffee',
+  icon: '☕',
+  gemChance: 50,
+  minReward: 10,
+  maxReward: 30,
+  price: 8,
+  originalPrice: 8,
+  ...overrides,
+});
+
+const inputs = (overrides: Partial<ProfitabilityInputs> = {}): ProfitabilityInputs => ({
+  miners: 3,
+  boostPercentage: 0,
+  cooldownSeconds: 8 * HOUR,
+  ...overrides,
+});
+
+describe('analyzeMeal', () => {
+  it('computes the expected value and the variance p(σ² + μ²) - (pμ)²', () => {
+    const result = analyzeMeal(meal(), inputs());
+
+    // μ = 20, σ² = 20² / 12, p = 0.5
+    expect(result.expectedReward).toBeCloseTo(10);
+    expect(result.expectedProfit).toBeCloseTo(2);
+    expect(result.variance).toBeCloseTo(0.5 * (400 / 12 + 400) - 100);
+    expect(result.standardDeviation).toBeCloseTo(Math.sqrt(result.variance));
+  });
+
+  it('scales the reward distribution by the boost', () => {
+    const result = analyzeMeal(meal(), inputs({ boostPercentage: 50 }));
+
+    // μ = 30, σ² = 30² / 12
+    expect(result.expectedReward).toBeCloseTo(15);
+    expect(result.variance).toBeCloseTo(0.5 * (900 / 12 + 900) - 225);
+  });
+
+  it('reduces to the reward variance when the expedition always succeeds', () => {
+    const result = analyzeMeal(meal({ gemChance: 100 }), inputs());
+
+    expect(result.expectedReward).toBeCloseTo(20);
+    expect(result.variance).toBeCloseTo(400 / 12);
+  });
+
+  it('finds the success rate at which the meal pays for itself', () => {
+    expect(analyzeMeal(meal(), inputs()).breakEvenRate).toBeCloseTo(40);
+    // Boosted rewards lower the rate needed
+    expect(analyzeMeal(meal(), inputs({ boostPercentage: 100 })).breakEvenRate).toBeCloseTo(20);
+  });
+
+  it('has no break-even when the meal costs more than the average reward', () => {
+    expect(analyzeMeal(meal({ price: 25 }), inputs()).breakEvenRate).toBeNull();
+    expect(analyzeMeal(meal({ minReward: 0, maxReward: 0 }), inputs()).breakEvenRate).toBeNull();
+  });
+
+  it('loses the meal price on every expedition with a zero success rate', () => {
+    const result = analyzeMeal(meal({ gemChance: 0 }), inputs());
+
+    expect(result.expectedReward).toBe(0);
+    expect(result.expectedProfit).toBe(-8);
+    expect(result.variance).toBe(0);
+    expect(result.standardDeviation).toBe(0);
+    expect(result.expectedProfitPerDay).toBeCloseTo(-8 * 9);
+    // The break-even rate does not depend on the current success rate
+    expect(result.breakEvenRate).toBeCloseTo(40);
+  });
+
+  it('adds up per-expedition results over a day of independent expeditions', () => {
+    const result = analyzeMeal(meal(), inputs());
+
+    // 3 miners, one expedition every 8 hours each
+    expect(result.expeditionsPerDay).toBeCloseTo(9);
+    expect(result.expectedProfitPerDay).toBeCloseTo(2 * 9);
+    expect(result.standardDeviationPerDay).toBeCloseTo(Math.sqrt(result.variance * 9));
+  });
+});
+
+describe('expeditionsPerDay', () => {
+  it('runs one expedition per miner per cooldown', () => {
+    expect(expeditionsPerDay(inputs({ miners: 2, cooldownSeconds: 6 * HOUR }))).toBeCloseTo(8);
+  });
+
+  it('counts one expedition per miner per day without a cooldown', () => {
+    expect(expeditionsPerDay(inputs({ miners: 4, cooldownSeconds: 0 }))).toBe(4);
+  });
+
+  it('is zero without miners', () => {
+    expect(expeditionsPerDay(inputs({ miners: 0 }))).toBe(0);
+    expect(expeditionsPerDay(inputs({ miners: 0, cooldownSeconds: 0 }))).toBe(0);
+  });
+});
+
+describe('analyzeMeals', () => {
+  const cheap = meal({ id: 0, name: 'Apple', gemChance: 90, minReward: 2, maxReward: 4, price: 1 });
+  const rich = meal({ id: 2, name: 'Cake', gemChance: 40, minReward: 50, maxReward: 70, price: 20 });
+
+  it('picks the meal with the highest expected profit per expedition and per day', () => {
+    const report = analyzeMeals([cheap, rich], inputs());
+
+    expect(report.results).toHaveLength(2);
+    expect(report.bestPerExpedition?.meal.id).toBe(rich.id);
+    expect(report.bestPerDay?.meal.id).toBe(rich.id);
+  });
+
+  it('has no best per-day meal without miners', () => {
+    const report = analyzeMeals([cheap, rich], inputs({ miners: 0 }));
+
+    expect(report.bestPerDay).toBeNull();
+    expect(report.results.every((result) => result.expectedProfitPerDay === 0 && result.standardDeviationPerDay === 0)).toBe(true);
+  });
+
+  it('reports nothing for an empty catalog', () => {
+    expect(analyzeMeals([], inputs())).toEqual({ results: [], bestPerExpedition: null, bestPerDay: null });
+  });
+});
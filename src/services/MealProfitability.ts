@@ -0,0 +1,100 @@
+/**
+ * @title MealProfitability
+ * @notice Expected value, variance and break-even of feeding each meal before an expedition
+ * @dev An expedition succeeds with the meal's successRate and then pays a reward drawn uniformly
+ * @dev between minReward and maxReward, raised by the wallet's boost percentage (capped by
+ * @dev MAX_BOOST_PERCENTAGE). Every expedition consumes the meal, so its price is paid each time.
+ * @dev Per-day figures assume every staked miner runs one expedition per MINING_COOLDOWN.
+ */
+
+import type { FoodItem } from '../constants/food';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Wallet state the calculation depends on
+ */
+export interface ProfitabilityInputs {
+  miners: number;
+  boostPercentage: number;      // Applied boost in percent (already capped)
+  cooldownSeconds: number;      // MINING_COOLDOWN
+}
+
+/**
+ * Outcome of feeding one meal, in GEMS
+ */
+export interface MealProfitability {
+  meal: FoodItem;
+  expectedReward: number;       // Per expedition, before the meal price
+  expectedProfit: number;       // Per expedition, after the meal price
+  variance: number;             // Per expedition
+  standardDeviation: number;
+  breakEvenRate: number | null; // Success rate in percent at which the meal pays for itself; null if it never does
+  expeditionsPerDay: number;    // Across all miners
+  expectedProfitPerDay: number;
+  standardDeviationPerDay: number;
+}
+
+export interface ProfitabilityReport {
+  results: MealProfitability[];
+  bestPerExpedition: MealProfitability | null;
+  bestPerDay: MealProfitability | null;
+}
+
+/**
+ * Number of expeditions all miners can run in a day
+ * @param inputs - Miner count and cooldown
+ */
+export function expeditionsPerDay(inputs: ProfitabilityInputs): number {
+  if (inputs.miners <= 0) return 0;
+  // Without a cooldown a miner is limited to one fed expedition at a time; count it as one per day
+  return inputs.cooldownSeconds > 0 ? (inputs.miners * SECONDS_PER_DAY) / inputs.cooldownSeconds : inputs.miners;
+}
+
+/**
+ * Profitability of one meal
+ * @param meal - Meal from the on-chain catalog
+ * @param inputs - Miner count, boost and cooldown
+ */
+export function analyzeMeal(meal: FoodItem, inputs: ProfitabilityInputs): MealProfitability {
+  const successRate = meal.gemChance / 100;
+  const multiplier = 1 + inputs.boostPercentage / 100;
+  const meanReward = ((meal.minReward + meal.maxReward) / 2) * multiplier;
+  const rewardVariance = ((meal.maxReward - meal.minReward) * multiplier) ** 2 / 12;
+
+  // Reward is 0 on failure and uniform on success: Var = p(σ² + μ²) - (pμ)²
+  const expectedReward = successRate * meanReward;
+  const variance = successRate * (rewardVariance + meanReward ** 2) - expectedReward ** 2;
+  const breakEvenRate = meanReward > 0 ? (meal.price / meanReward) * 100 : null;
+  const perDay = expeditionsPerDay(inputs);
+
+  return {
+    meal,
+    expectedReward,
+    expectedProfit: expectedReward - meal.price,
+    variance,
+    standardDeviation: Math.sqrt(variance),
+    breakEvenRate: breakEvenRate !== null && breakEvenRate <= 100 ? breakEvenRate : null,
+    expeditionsPerDay: perDay,
+    expectedProfitPerDay: (expectedReward - meal.price) * perDay,
+    // Expeditions are independent, so variances add up
+    standardDeviationPerDay: Math.sqrt(variance * perDay),
+  };
+}
+
+/**
+ * Profitability of every meal with the best choices highlighted
+ * @param meals - Meals from the on-chain catalog
+ * @param inputs - Miner count, boost and cooldown
+ */
+export function analyzeMeals(meals: FoodItem[], inputs: ProfitabilityInputs): ProfitabilityReport {
+  const results = meals.map((meal) => analyzeMeal(meal, inputs));
+  const best = (value: (result: MealProfitability) => number) =>
+    results.reduce<MealProfitability | null>((top, result) => (!top || value(result) > value(top) ? result : top), null);
+
+  return {
+    results,
+    bestPerExpedition: best((result) => result.expectedProfit),
+    bestPerDay: inputs.miners > 0 ? best((result) => result.expectedProfitPerDay) : null,
+  };
+}
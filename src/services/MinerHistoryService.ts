@@ -0,0 +1,225 @@
+/**
+ * @title MinerHistoryService
+ * @notice Lifetime statistics and expedition history for a single miner
+ * @dev Statistics come from MiningExpedition.getMinerStatistics. History is rebuilt from the
+ * @dev miner's ExpeditionStarted/ExpeditionCompleted logs plus FoodSystem MealPurchased logs
+ * @dev (the meal eaten before each expedition), filtered on the indexed minerId topic. Scans
+ * @dev are chunked and checkpointed in IndexedDB through lib/logScanner.
+ */
+
+import { ethers } from 'ethers';
+import { getContractAddress } from '../config/contracts';
+import { getFoodSystemContract, FoodSystemContract } from '../contracts/clients/FoodSystem';
+import { getMiningExpeditionContract, MiningExpeditionContract, MinerStats } from '../contracts/clients/MiningExpedition';
+import { createCheckpointedScanner, ScanProgress, ScanSnapshot } from '../lib/logScanner';
+
+/**
+ * One expedition, stored with bigint values as decimal strings
+ */
+interface StoredExpedition {
+  startTxHash: string;
+  startTime: number;
+  endTime: number;
+  mealId: number | null;      // null when the meal purchase predates the indexed range
+  mealPrice: string | null;
+  completed: boolean;
+  completeTxHash: string | null;
+  successful: boolean;
+  baseReward: string;
+  boostedReward: string;
+  boostPercentage: number;
+}
+
+interface MinerHistorySnapshot extends ScanSnapshot {
+  expeditions: StoredExpedition[];
+  // Latest meal bought since the previous expedition started, attached to the next one
+  pendingMeal: { mealId: number; price: string } | null;
+}
+
+/**
+ * Past or running expedition of a miner
+ */
+export interface ExpeditionRecord {
+  startTxHash: string;
+  startTime: number;            // Unix seconds
+  endTime: number;              // Unix seconds
+  mealId: number | null;
+  mealPrice: bigint | null;     // Price paid for the meal, in wei
+  completed: boolean;
+  completeTxHash: string | null;
+  successful: boolean;
+  baseReward: bigint;           // Reward before boosts, in wei
+  boostedReward: bigint;        // Reward paid out, in wei
+  boostPercentage: number;
+}
+
+/**
+ * Lifetime statistics of a miner
+ */
+export interface MinerStatistics {
+  totalExpeditions: number;
+  successfulExpeditions: number;
+  totalRewards: bigint;         // In wei
+  totalBoostRewards: bigint;    // In wei
+}
+
+export type HistoryProgress = ScanProgress;
+
+const scanner = createCheckpointedScanner<MinerHistorySnapshot>({
+  dbName: 'mining-masters-miner-history',
+  label: 'miner history cache',
+  version: 1,
+  empty: () => ({ expeditions: [], pendingMeal: null }),
+});
+
+export class MinerHistoryService {
+  private provider: ethers.Provider;
+  private expedition: MiningExpeditionContract;
+  private food: FoodSystemContract;
+
+  /**
+   * Creates a new MinerHistoryService instance
+   * @param provider - Ethers provider used for reads and log queries
+   */
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+    this.expedition = getMiningExpeditionContract(provider, getContractAddress('MiningExpeditionProxy'));
+    this.food = getFoodSystemContract(provider, getContractAddress('FoodSystemProxy'));
+  }
+
+  /**
+   * Reads a miner's lifetime statistics
+   * @param minerId - Miner token ID
+   * @returns Statistics as tracked by the MiningExpedition contract
+   */
+  async getStatistics(minerId: number): Promise<MinerStatistics> {
+    let stats: MinerStats;
+    try {
+      stats = await this.expedition.getMinerStatistics(minerId);
+    } catch (error) {
+      // Older deployments only expose the public mapping getter
+      console.warn('getMinerStatistics failed, falling back to minerStats:', error);
+      stats = await this.expedition.minerStats(minerId);
+    }
+    return {
+      totalExpeditions: Number(stats.totalExpeditions),
+      successfulExpeditions: Number(stats.successfulExpeditions),
+      totalRewards: stats.totalRewards,
+      totalBoostRewards: stats.totalBoostRewards,
+    };
+  }
+
+  /**
+   * Indexes any new blocks and returns the miner's expeditions, newest first
+   * @param minerId - Miner token ID
+   * @param onProgress - Optional callback invoked after each scanned chunk
+   */
+  async getHistory(minerId: number, onProgress?: (progress: HistoryProgress) => void): Promise<ExpeditionRecord[]> {
+    const snapshot = await scanner.sync(await this.getCacheKey(minerId), {
+      head: () => this.provider.getBlockNumber(),
+      fetch: (fromBlock, toBlock) => this.fetchRange(minerId, fromBlock, toBlock),
+      apply: (current, logs) => this.applyLogs(current, logs),
+      onProgress,
+    });
+    return MinerHistoryService.toRecords(snapshot.expeditions);
+  }
+
+  /**
+   * Returns the cached history without touching the chain
+   * @param minerId - Miner token ID
+   * @returns Expeditions newest first, empty if nothing has been indexed yet
+   */
+  async getCachedHistory(minerId: number): Promise<ExpeditionRecord[]> {
+    const snapshot = await scanner.load(await this.getCacheKey(minerId));
+    return MinerHistoryService.toRecords(snapshot.expeditions);
+  }
+
+  /**
+   * Builds the cache key for the connected chain, contract deployment and miner
+   * @private
+   */
+  private async getCacheKey(minerId: number): Promise<string> {
+    const network = await this.provider.getNetwork();
+    return `${network.chainId}:${String(this.expedition.target).toLowerCase()}:${String(this.food.target).toLowerCase()}:${minerId}`;
+  }
+
+  /**
+   * Fetches the miner's expedition and meal logs of one block range in chain order
+   * @private
+   */
+  private async fetchRange(minerId: number, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    const [started, completed, meals] = await Promise.all([
+      this.expedition.queryFilter(this.expedition.filters.ExpeditionStarted(undefined, minerId), fromBlock, toBlock),
+      this.expedition.queryFilter(this.expedition.filters.ExpeditionCompleted(undefined, minerId), fromBlock, toBlock),
+      this.food.queryFilter(this.food.filters.MealPurchased(undefined, minerId), fromBlock, toBlock),
+    ]);
+    return [...started, ...completed, ...meals].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  /**
+   * Folds chain-ordered logs into the snapshot
+   * @private
+   */
+  private applyLogs(snapshot: MinerHistorySnapshot, logs: ethers.Log[]): void {
+    for (const log of logs) {
+      const isFoodLog = log.address.toLowerCase() === String(this.food.target).toLowerCase();
+      const parsed = isFoodLog ? this.food.interface.parseLog(log) : this.expedition.interface.parseLog(log);
+      if (!parsed) continue;
+
+      if (parsed.name === 'MealPurchased') {
+        const { mealId, price } = parsed.args as unknown as { mealId: bigint; price: bigint };
+        snapshot.pendingMeal = { mealId: Number(mealId), price: price.toString() };
+      } else if (parsed.name === 'ExpeditionStarted') {
+        const { startTime, endTime } = parsed.args as unknown as { startTime: bigint; endTime: bigint };
+        snapshot.expeditions.push({
+          startTxHash: log.transactionHash,
+          startTime: Number(startTime),
+          endTime: Number(endTime),
+          mealId: snapshot.pendingMeal?.mealId ?? null,
+          mealPrice: snapshot.pendingMeal?.price ?? null,
+          completed: false,
+          completeTxHash: null,
+          successful: false,
+          baseReward: '0',
+          boostedReward: '0',
+          boostPercentage: 0,
+        });
+        snapshot.pendingMeal = null;
+      } else if (parsed.name === 'ExpeditionCompleted') {
+        const { successful, baseReward, boostedReward, boostPercentage } = parsed.args as unknown as {
+          successful: boolean;
+          baseReward: bigint;
+          boostedReward: bigint;
+          boostPercentage: bigint;
+        };
+        const open = [...snapshot.expeditions].reverse().find((expedition) => !expedition.completed);
+        if (!open) continue; // Started before the indexed range
+        Object.assign(open, {
+          completed: true,
+          completeTxHash: log.transactionHash,
+          successful,
+          baseReward: baseReward.toString(),
+          boostedReward: boostedReward.toString(),
+          boostPercentage: Number(boostPercentage),
+        });
+      }
+    }
+  }
+
+  /**
+   * Converts stored expeditions to records, newest first
+   * @private
+   */
+  private static toRecords(expeditions: StoredExpedition[]): ExpeditionRecord[] {
+    return expeditions
+      .map((expedition) => ({
+        ...expedition,
+        mealPrice: expedition.mealPrice === null ? null : BigInt(expedition.mealPrice),
+        baseReward: BigInt(expedition.baseReward),
+        boostedReward: BigInt(expedition.boostedReward),
+      }))
+      .reverse();
+  }
+}
+
+export default MinerHistoryService;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ARWEAVE_GATEWAYS, IPFS_GATEWAYS, resolveUri } from './MinerMetadataService';
+
+const CID = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi';
+
+describe('resolveUri', () => {
+  it('expands ipfs:// URIs to every gateway in order', () => {
+    expect(resolveUri(`ipfs://${CID}/42.json`)).toEqual(IPFS_GATEWAYS.map((gateway) => `${gateway}${CID}/42.json`));
+  });
+
+  it('drops a redundant ipfs/ prefix from the path', () => {
+    expect(resolveUri(`ipfs://ipfs/${CID}`)[0]).toBe(`${IPFS_GATEWAYS[0]}${CID}`);
+  });
+
+  it('expands ar:// URIs to the Arweave gateways', () => {
+    expect(resolveUri('ar://txid/1.json')).toEqual(ARWEAVE_GATEWAYS.map((gateway) => `${gateway}txid/1.json`));
+  });
+
+  it('tries an HTTP gateway URL first, then the configured gateways', () => {
+    const baked = `https://my-gateway.example/ipfs/${CID}/1.png`;
+    const urls = resolveUri(baked);
+
+    expect(urls[0]).toBe(baked);
+    expect(urls.slice(1)).toEqual(IPFS_GATEWAYS.map((gateway) => `${gateway}${CID}/1.png`));
+  });
+
+  it('does not repeat a URL that is already one of the configured gateways', () => {
+    const configured = `${IPFS_GATEWAYS[0]}${CID}`;
+    const urls = resolveUri(configured);
+
+    expect(urls.filter((url) => url === configured)).toHaveLength(1);
+    expect(urls).toHaveLength(IPFS_GATEWAYS.length);
+  });
+
+  it('keeps plain HTTP and data: URIs as they are', () => {
+    expect(resolveUri(' https://api.example/miners/1 ')).toEqual(['https://api.example/miners/1']);
+    expect(resolveUri('data:application/json;base64,e30=')).toEqual(['data:application/json;base64,e30=']);
+  });
+
+  it('returns nothing for unsupported schemes', () => {
+    expect(resolveUri('ftp://example/1.json')).toEqual([]);
+    expect(resolveUri('')).toEqual([]);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * @title MinerMetadataService
+ * @notice Resolves Miner NFT tokenURIs to their ERC-721 metadata (name, image, attributes)
+ * @dev Handles ipfs://, ar://, http(s) and data: URIs. IPFS and Arweave content is fetched through
+ * @dev the gateways in VITE_IPFS_GATEWAYS / VITE_ARWEAVE_GATEWAYS, tried in order with a per-request
+ * @dev timeout. Results are cached in IndexedDB keyed by tokenId and URI: content-addressed URIs
+ * @dev forever, HTTP URIs for HTTP_CACHE_TTL_MS since their content can change (e.g. on reveal).
+ * @dev Any failure falls back to the generic miner name and art so callers never have to.
+ */
+
+import { ethers } from 'ethers';
+import { getMinerNFTContract, MinerNFTContract } from '../contracts/clients/MinerNFT';
+import { createIdbStore } from '../lib/idbStore';
+import chainReads, { STATIC_READ_TTL_MS } from './cache/ChainReadCache';
+
+const env = import.meta.env as Record<string, string | undefined>;
+
+const parseList = (value: string | undefined, fallback: string[]) => {
+  const list = (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+  return (list.length > 0 ? list : fallback).map((item) => (item.endsWith('/') ? item : `${item}/`));
+};
+
+// Gateways in fallback order; each is prefixed to the CID path
+export const IPFS_GATEWAYS = parseList(env.VITE_IPFS_GATEWAYS, [
+  'https://ipfs.io/ipfs/',
+  'https://cloudflare-ipfs.com/ipfs/',
+  'https://gateway.pinata.cloud/ipfs/',
+]);
+export const ARWEAVE_GATEWAYS = parseList(env.VITE_ARWEAVE_GATEWAYS, ['https://arweave.net/']);
+// Per gateway attempt
+const FETCH_TIMEOUT_MS = Number(env.VITE_METADATA_TIMEOUT_MS) || 8000;
+const HTTP_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// Bump when the cached shape changes to discard incompatible entries
+const CACHE_VERSION = 1;
+
+export const DEFAULT_MINER_IMAGE = '/images/Miner.png';
+
+/**
+ * One ERC-721 metadata trait
+ */
+export interface MinerAttribute {
+  traitType: string;
+  value: string | number;
+  displayType?: string;
+}
+
+/**
+ * Display-ready metadata of a miner
+ */
+export interface MinerMetadata {
+  tokenId: number;
+  name: string;
+  description: string;
+  image: string;                // First URL to try for the art
+  imageFallbacks: string[];     // Other gateways serving the same art, in order
+  attributes: MinerAttribute[];
+  tokenURI: string | null;      // null when the contract returned none
+  resolved: boolean;            // false when this is the generic fallback
+}
+
+interface CachedMetadata {
+  version: number;
+  fetchedAt: number;            // Unix milliseconds
+  metadata: MinerMetadata;
+}
+
+const metadataStore = createIdbStore<CachedMetadata>('mining-masters-miner-metadata', 'metadata');
+
+/**
+ * Generic metadata shown while loading or when a tokenURI cannot be resolved
+ * @param tokenId - Miner token ID
+ */
+export function defaultMinerMetadata(tokenId: number, tokenURI: string | null = null): MinerMetadata {
+  return {
+    tokenId,
+    name: `Miner #${String(tokenId).padStart(3, '0')}`,
+    description: '',
+    image: DEFAULT_MINER_IMAGE,
+    imageFallbacks: [],
+    attributes: [],
+    tokenURI,
+    resolved: false,
+  };
+}
+
+/**
+ * Expands a URI into the URLs that serve it, in fallback order
+ * @param uri - ipfs://, ar://, http(s):// or data: URI
+ * @returns Candidate URLs, empty for unsupported schemes
+ */
+export function resolveUri(uri: string): string[] {
+  const trimmed = uri.trim();
+  if (trimmed.startsWith('data:')) return [trimmed];
+
+  if (trimmed.startsWith('ipfs://')) {
+    const path = trimmed.slice('ipfs://'.length).replace(/^ipfs\//, '');
+    return IPFS_GATEWAYS.map((gateway) => `${gateway}${path}`);
+  }
+  if (trimmed.startsWith('ar://')) {
+    const path = trimmed.slice('ar://'.length);
+    return ARWEAVE_GATEWAYS.map((gateway) => `${gateway}${path}`);
+  }
+  if (/^https?:\/\//i.test(trimmed)) {
+    // Gateway URLs baked into metadata can still fall back to the configured gateways
+    const ipfsPath = trimmed.match(/\/ipfs\/(.+)$/)?.[1];
+    return ipfsPath
+      ? [trimmed, ...IPFS_GATEWAYS.map((gateway) => `${gateway}${ipfsPath}`).filter((url) => url !== trimmed)]
+      : [trimmed];
+  }
+  return [];
+}
+
+const isContentAddressed = (uri: string) => /^(ipfs|ar|data):/.test(uri.trim());
+
+/**
+ * Decodes the payload of a data: URI
+ */
+function decodeDataUri(uri: string): string {
+  const comma = uri.indexOf(',');
+  if (comma < 0) throw new Error('Malformed data URI');
+  const header = uri.slice(0, comma);
+  const payload = uri.slice(comma + 1);
+  if (header.endsWith(';base64')) {
+    return ethers.toUtf8String(ethers.decodeBase64(payload));
+  }
+  return decodeURIComponent(payload);
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+  if (url.startsWith('data:')) {
+    return JSON.parse(decodeDataUri(url));
+  }
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Maps raw ERC-721 metadata JSON onto MinerMetadata, keeping defaults for missing fields
+ * @param tokenId - Miner token ID
+ * @param tokenURI - URI the JSON was loaded from
+ * @param json - Parsed metadata document
+ */
+export function parseMinerMetadata(tokenId: number, tokenURI: string, json: unknown): MinerMetadata {
+  const metadata = defaultMinerMetadata(tokenId, tokenURI);
+  if (!json || typeof json !== 'object') return metadata;
+  const raw = json as Record<string, unknown>;
+
+  if (typeof raw.name === 'string' && raw.name.trim()) metadata.name = raw.name.trim();
+  if (typeof raw.description === 'string') metadata.description = raw.description;
+
+  // image_data is inline SVG per the OpenSea metadata standard
+  const image = typeof raw.image === 'string' && raw.image
+    ? raw.image
+    : typeof raw.image_url === 'string' && raw.image_url
+      ? raw.image_url
+      : typeof raw.image_data === 'string' && raw.image_data
+        ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(raw.image_data)}`
+        : '';
+  const [primary, ...fallbacks] = image ? resolveUri(image) : [];
+  if (primary) {
+    metadata.image = primary;
+    metadata.imageFallbacks = fallbacks;
+  }
+
+  if (Array.isArray(raw.attributes)) {
+    metadata.attributes = raw.attributes
+      .filter((attribute): attribute is Record<string, unknown> => !!attribute && typeof attribute === 'object')
+      .filter((attribute) => typeof attribute.value === 'string' || typeof attribute.value === 'number')
+      .map((attribute) => ({
+        traitType: typeof attribute.trait_type === 'string' ? attribute.trait_type : '',
+        value: attribute.value as string | number,
+        ...(typeof attribute.display_type === 'string' ? { displayType: attribute.display_type } : {}),
+      }));
+  }
+
+  metadata.resolved = true;
+  return metadata;
+}
+
+export class MinerMetadataService {
+  private nftContract: MinerNFTContract;
+
+  // In-flight resolutions per cache key, so concurrent callers share one fetch
+  private static inflight: Map<string, Promise<MinerMetadata>> = new Map();
+
+  /**
+   * Creates a new MinerMetadataService instance
+   * @param provider - Ethers provider used to read tokenURI
+   */
+  constructor(provider: ethers.Provider) {
+    this.nftContract = getMinerNFTContract(provider);
+  }
+
+  /**
+   * Reads a miner's tokenURI and resolves its metadata
+   * @param tokenId - Miner token ID
+   * @returns Metadata, or the generic fallback if the URI cannot be read or resolved
+   */
+  async getMetadata(tokenId: number): Promise<MinerMetadata> {
+    let tokenURI: string;
+    try {
+      tokenURI = await chainReads.read<string>(this.nftContract, 'tokenURI', [tokenId], { ttlMs: STATIC_READ_TTL_MS });
+    } catch (error) {
+      console.warn(`Failed to read tokenURI for miner ${tokenId}:`, error);
+      return defaultMinerMetadata(tokenId);
+    }
+    return this.resolve(tokenId, tokenURI);
+  }
+
+  /**
+   * Resolves metadata for several miners in parallel
+   * @param tokenIds - Miner token IDs
+   */
+  getMetadataBatch(tokenIds: number[]): Promise<MinerMetadata[]> {
+    return Promise.all(tokenIds.map((tokenId) => this.getMetadata(tokenId)));
+  }
+
+  /**
+   * Resolves metadata for a tokenURI the caller already read
+   * @param tokenId - Miner token ID
+   * @param tokenURI - URI returned by MinerNFT.tokenURI
+   */
+  async resolve(tokenId: number, tokenURI: string): Promise<MinerMetadata> {
+    if (!tokenURI) return defaultMinerMetadata(tokenId);
+
+    const key = `${tokenId}:${tokenURI}`;
+    let pending = MinerMetadataService.inflight.get(key);
+    if (!pending) {
+      pending = this.load(key, tokenId, tokenURI).finally(() => MinerMetadataService.inflight.delete(key));
+      MinerMetadataService.inflight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Serves from the cache or fetches through each candidate URL in turn
+   * @private
+   */
+  private async load(key: string, tokenId: number, tokenURI: string): Promise<MinerMetadata> {
+    try {
+      const cached = await metadataStore.get(key);
+      if (
+        cached &&
+        cached.version === CACHE_VERSION &&
+        (isContentAddressed(tokenURI) || Date.now() - cached.fetchedAt < HTTP_CACHE_TTL_MS)
+      ) {
+        return cached.metadata;
+      }
+    } catch (error) {
+      console.warn('Failed to read miner metadata cache:', error);
+    }
+
+    for (const url of resolveUri(tokenURI)) {
+      try {
+        const metadata = parseMinerMetadata(tokenId, tokenURI, await fetchJson(url));
+        metadataStore
+          .set(key, { version: CACHE_VERSION, fetchedAt: Date.now(), metadata })
+          .catch((error) => console.warn('Failed to cache miner metadata:', error));
+        return metadata;
+      } catch (error) {
+        console.warn(`Failed to load metadata for miner ${tokenId} from ${url.slice(0, 80)}:`, error);
+      }
+    }
+    // Not cached, so the next load retries
+    return defaultMinerMetadata(tokenId, tokenURI);
+  }
+}
+
+export default MinerMetadataService;
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { createMockRonin, MockRonin } from './mock/MockRonin';
+import { getMinerNFTContract } from '../contracts/clients/MinerNFT';
+import { getMiningMastersStakingContract } from '../contracts/clients/MiningMastersStaking';
+import chainEvents from './events/ChainEvents';
+import chainReads from './cache/ChainReadCache';
+import StakingSyncService, { StakingData } from './StakingSyncService';
+
+const ONE_HOUR = 60 * 60;
+
+describe('StakingSyncService', () => {
+  let mock: MockRonin;
+  let provider: ethers.BrowserProvider;
+  let service: StakingSyncService;
+
+  const travel = async (seconds: number) => {
+    await mock.provider.request({ method: 'evm_increaseTime', params: [seconds] });
+    await mock.provider.request({ method: 'evm_mine' });
+  };
+
+  const stake = async (...tokenIds: number[]) => {
+    const signer = await provider.getSigner();
+    const staking = getMiningMastersStakingContract(signer);
+    await (await getMinerNFTContract(signer).setApprovalForAll(String(staking.target), true)).wait();
+    for (const tokenId of tokenIds) {
+      await (await staking.stakeMiner(tokenId)).wait();
+    }
+  };
+
+  beforeEach(() => {
+    chainReads.clear();
+    mock = createMockRonin({ minerIds: [1, 2, 3] });
+    provider = new ethers.BrowserProvider(mock.provider, undefined, { cacheTimeout: -1, pollingInterval: 50 });
+    service = new StakingSyncService(provider);
+  });
+
+  afterEach(() => {
+    chainEvents.disconnect();
+  });
+
+  it('reads staked miners, rewards and the production rate', async () => {
+    await stake(1, 3);
+    await travel(ONE_HOUR);
+
+    const data = await service.getStakingData(mock.account);
+
+    expect(data.stakedMiners).toEqual([1, 3]);
+    expect(data.stakedMinerCount).toBe(2);
+    expect(Number(data.pendingRewards)).toBeCloseTo(2, 2);
+    expect(Number(data.gemsPerSecond) * ONE_HOUR).toBeCloseTo(1, 6);
+    expect(data.userAddress).toBe(mock.account);
+  });
+
+  it('skips a manual sync within MIN_SYNC_INTERVAL of the last one', async () => {
+    const callback = vi.fn();
+
+    await service.manualSync(mock.account, callback);
+    await service.manualSync(mock.account, callback);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0].stakedMiners).toEqual([]);
+  });
+
+  it('re-syncs when the wallet stakes a miner', async () => {
+    const updates: StakingData[] = [];
+    const stop = service.setupAutoSync(mock.account, (data) => updates.push(data));
+
+    await vi.waitFor(() => expect(updates).toHaveLength(1));
+    expect(updates[0].stakedMiners).toEqual([]);
+
+    await stake(2);
+
+    await vi.waitFor(() => expect(updates.at(-1)?.stakedMiners).toEqual([2]), { timeout: 5000 });
+    stop();
+  });
+});
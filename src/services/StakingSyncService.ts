@@ -7,6 +7,9 @@
 import { ethers } from 'ethers';
 import StakingContractABI from '../contracts/abis/StakingContractABI.json';
 import { getContractAddress } from '../config/contracts';
+import chainEvents from './events/ChainEvents';
+import chainReads, { STATIC_READ_TTL_MS } from './cache/ChainReadCache';
+import MinerMetadataService, { MinerAttribute } from './MinerMetadataService';
 
 // Minimum time between full blockchain synchronizations
 export const MIN_SYNC_INTERVAL = 30000; // 30 seconds
@@ -26,6 +29,8 @@ export interface OwnedNFT {
   id: number;
   name: string;
   image: string;
+  imageFallbacks: string[];
+  attributes: MinerAttribute[];
 }
 
 /**
@@ -33,7 +38,7 @@ export interface OwnedNFT {
  */
 export class StakingSyncService {
   private lastSyncTimestamp: number = 0;
-  private syncInterval: NodeJS.Timeout | null = null;
+  private stopAutoSync: (() => void) | null = null;
   private provider: ethers.Provider;
   private stakingContract: ethers.Contract;
   private nftContract: ethers.Contract;
@@ -106,8 +111,8 @@ export class StakingSyncService {
     try {
       console.log('Fetching staking data for wallet:', walletAddress);
       
-      // Get staked miners
-      const stakedMiners = await this.stakingContract.getStakedMiners(walletAddress);
+      // Get staked miners (reads go through the shared cache, so concurrent syncs share one RPC call)
+      const stakedMiners = await chainReads.read<bigint[]>(this.stakingContract, 'getStakedMiners', [walletAddress], { scopes: ['staking'] });
       console.log('Staked miners fetched:', stakedMiners);
       
       // Use the length of stakedMiners array as the count (more reliable)
@@ -116,12 +121,12 @@ export class StakingSyncService {
       console.log('Using staked miner count from array length:', stakedMinerCount);
       
       // Get pending rewards
-      const pendingRewards = await this.stakingContract.getPendingRewards(walletAddress);
+      const pendingRewards = await chainReads.read<bigint>(this.stakingContract, 'getPendingRewards', [walletAddress], { scopes: ['staking'] });
       const formattedRewards = ethers.formatUnits(pendingRewards, 18);
       console.log('Pending rewards:', formattedRewards);
       
       // Get GEMS per second production rate
-      const gemsPerSecond = await this.stakingContract.GEMS_PER_SECOND();
+      const gemsPerSecond = await chainReads.read<bigint>(this.stakingContract, 'GEMS_PER_SECOND', [], { ttlMs: STATIC_READ_TTL_MS });
       const formattedRate = ethers.formatUnits(gemsPerSecond, 18);
       console.log('GEMS per second rate:', formattedRate);
       
@@ -163,18 +168,21 @@ export class StakingSyncService {
       const balance = await this.nftContract.balanceOf(walletAddress);
       
       // Get all token IDs
-      const nfts: OwnedNFT[] = [];
+      const tokenIds: number[] = [];
       for (let i = 0; i < Number(balance); i++) {
         const tokenId = await this.nftContract.tokenOfOwnerByIndex(walletAddress, i);
-        
-        // Create NFT object with minimal data
-        // In a real implementation, you might fetch more data from the NFT contract
-        nfts.push({
-          id: Number(tokenId),
-          name: `Miner #${String(Number(tokenId)).padStart(3, '0')}`,
-          image: "/images/Miner.png"
-        });
+        tokenIds.push(Number(tokenId));
       }
+
+      // Name, art and traits come from each token's metadata
+      const metadata = await new MinerMetadataService(this.provider).getMetadataBatch(tokenIds);
+      const nfts: OwnedNFT[] = metadata.map((miner) => ({
+        id: miner.tokenId,
+        name: miner.name,
+        image: miner.image,
+        imageFallbacks: miner.imageFallbacks,
+        attributes: miner.attributes,
+      }));
       
       return nfts;
     } catch (error) {
@@ -184,10 +192,10 @@ export class StakingSyncService {
   }
   
   /**
-   * Sets up automatic synchronization of staking data
+   * Sets up automatic synchronization of staking data, triggered by the wallet's staking events
    * @param walletAddress User's wallet address
    * @param callback Function to call with updated data
-   * @param intervalMs How often to sync (minimum 30 seconds)
+   * @param intervalMs How often to sync while live events are unavailable (minimum 30 seconds)
    * @returns Cleanup function to stop syncing
    */
   setupAutoSync(
@@ -198,30 +206,28 @@ export class StakingSyncService {
     // Ensure minimum interval
     const syncIntervalMs = Math.max(intervalMs, MIN_SYNC_INTERVAL);
     
-    // Clear any existing interval
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-    }
+    // Stop any existing sync
+    this.stopAutoSync?.();
     
     // Immediately fetch data
     this.getStakingData(walletAddress)
       .then(data => callback(data))
       .catch(err => console.error('Error in initial staking data sync:', err));
     
-    // Set up interval for future updates
-    this.syncInterval = setInterval(() => {
+    // Re-sync on staking events, polling only while live events are unavailable
+    chainEvents.connect(walletAddress, this.provider);
+    const unsubscribe = chainEvents.subscribe(['staking'], () => {
       this.getStakingData(walletAddress)
         .then(data => callback(data))
         .catch(err => console.error('Error in staking data sync:', err));
     }, syncIntervalMs);
     
     // Return cleanup function
-    return () => {
-      if (this.syncInterval) {
-        clearInterval(this.syncInterval);
-        this.syncInterval = null;
-      }
+    this.stopAutoSync = () => {
+      unsubscribe();
+      this.stopAutoSync = null;
     };
+    return this.stopAutoSync;
   }
   
   /**
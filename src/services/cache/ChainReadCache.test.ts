@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChainReadCache, readKey } from './ChainReadCache';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('ChainReadCache', () => {
+  let cache: ChainReadCache;
+
+  beforeEach(() => {
+    cache = new ChainReadCache();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('shares one request between concurrent reads of the same key', async () => {
+    const pending = deferred<number>();
+    const fetcher = vi.fn(() => pending.promise);
+
+    const reads = [cache.query('key', fetcher), cache.query('key', fetcher), cache.query('key', fetcher)];
+    pending.resolve(7);
+
+    expect(await Promise.all(reads)).toEqual([7, 7, 7]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves the cached value until its TTL expires', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    expect(await cache.query('key', fetcher, { ttlMs: 1000 })).toBe(1);
+    vi.advanceTimersByTime(999);
+    expect(await cache.query('key', fetcher, { ttlMs: 1000 })).toBe(1);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale value while refreshing it in the background', async () => {
+    const refreshed = deferred<number>();
+    const fetcher = vi.fn().mockResolvedValueOnce(1).mockReturnValueOnce(refreshed.promise);
+
+    await cache.query('key', fetcher, { ttlMs: 1000 });
+    vi.advanceTimersByTime(1000);
+
+    expect(await cache.query('key', fetcher)).toBe(1);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    refreshed.resolve(2);
+    await refreshed.promise;
+    expect(cache.peek('key')).toBe(2);
+  });
+
+  it('refetches only the entries of invalidated scopes', async () => {
+    const staking = vi.fn().mockResolvedValueOnce('staked').mockResolvedValueOnce('unstaked');
+    const meals = vi.fn().mockResolvedValue('fed');
+
+    await cache.query('staking', staking, { scopes: ['staking'] });
+    await cache.query('meals', meals, { scopes: ['meals'] });
+    cache.invalidate(['staking', 'gemsBalance']);
+
+    expect(await cache.query('staking', staking, { scopes: ['staking'] })).toBe('unstaked');
+    expect(await cache.query('meals', meals, { scopes: ['meals'] })).toBe('fed');
+    expect(staking).toHaveBeenCalledTimes(2);
+    expect(meals).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not store a value fetched before an invalidation', async () => {
+    const outdated = deferred<string>();
+    const fetcher = vi.fn().mockReturnValueOnce(outdated.promise).mockResolvedValueOnce('fresh');
+
+    const early = cache.query('key', fetcher, { scopes: ['staking'] });
+    cache.invalidate(['staking']);
+    outdated.resolve('outdated');
+
+    expect(await early).toBe('outdated');
+    expect(cache.peek('key')).toBeUndefined();
+    expect(await cache.query('key', fetcher)).toBe('fresh');
+  });
+
+  it('falls back to the last value when a refetch fails', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce(1).mockRejectedValueOnce(new Error('RPC down'));
+
+    await cache.query('key', fetcher);
+    expect(await cache.query('key', fetcher, { force: true })).toBe(1);
+  });
+
+  it('rejects when there is no earlier value to fall back to', async () => {
+    await expect(cache.query('key', () => Promise.reject(new Error('RPC down')))).rejects.toThrow('RPC down');
+  });
+});
+
+describe('readKey', () => {
+  it('normalises addresses and bigint arguments', () => {
+    expect(readKey('0xABCdef', 'balanceOf', ['0xAbC', 5n])).toBe(readKey('0xabcdef', 'balanceOf', ['0xabc', 5n]));
+    expect(readKey('0xabc', 'MEAL_COOLDOWN')).toBe('0xabc.MEAL_COOLDOWN()');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * @title ChainReadCache
+ * @notice Shared cache for contract reads so hooks rendering together make one RPC call per distinct read
+ * @dev Entries are keyed by contract address, method and arguments. Concurrent reads of a key share
+ * @dev one request; fresh values are returned as-is and values past their TTL are returned while a
+ * @dev background request refreshes them. Entries are tagged with the data scopes they belong to and
+ * @dev are invalidated by contract events (see ChainEvents) and confirmed transactions, after which
+ * @dev the next read waits for a new value. A failed read falls back to the last known value.
+ */
+
+import { ethers } from 'ethers';
+import { onNetworkChange } from '../../config/contracts';
+import type { ChainDataScope } from '../events/ChainEvents';
+import type { TransactionKind } from '../transactions/TransactionEvents';
+
+// TTL for reads that do not pass their own
+export const DEFAULT_READ_TTL_MS = 15 * 1000;
+// TTL for contract constants and configuration (meal catalog size, production rate, cooldowns)
+export const STATIC_READ_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Data each confirmed transaction kind changes
+ */
+export const TRANSACTION_SCOPES: Record<TransactionKind, ChainDataScope[]> = {
+  approveNFT: [],
+  approveAllMiners: [],
+  repairRegistry: [],
+  stakeMiner: ['staking', 'expeditions', 'meals'],
+  unstakeMiner: ['staking', 'expeditions', 'meals'],
+  claimRewards: ['staking', 'gemsBalance'],
+  purchaseSlots: ['staking', 'gemsBalance'],
+  feedMiners: ['meals', 'expeditions', 'staking', 'gemsBalance'],
+  startExpedition: ['expeditions', 'meals'],
+  completeExpedition: ['expeditions', 'staking', 'meals'],
+  reduceExpeditionTime: ['expeditions', 'gemsBalance'],
+  approveGems: [],
+  stakeGems: ['gemsBalance'],
+  unstakeGems: ['gemsBalance'],
+  claimGemx: [],
+  bankDeposit: ['staking', 'gemsBalance'],
+  bankWithdraw: ['staking', 'gemsBalance'],
+  activateBoost: ['expeditions'],
+  deactivateBoost: ['expeditions'],
+};
+
+export interface ReadOptions {
+  /** How long a value is served without refreshing it */
+  ttlMs?: number;
+  /** Data the value belongs to; invalidating any of them forces the next read to refetch */
+  scopes?: ChainDataScope[];
+  /** Ignore the cached value (an in-flight request started earlier is still shared) */
+  force?: boolean;
+}
+
+interface CacheEntry {
+  value: unknown;
+  hasValue: boolean;
+  fetchedAt: number;
+  ttlMs: number;
+  scopes: Set<ChainDataScope>;
+  invalidated: boolean;
+  // Bumped on invalidation so requests started before it cannot store an outdated value
+  generation: number;
+  inflight: Promise<unknown> | null;
+}
+
+/**
+ * Builds the cache key of a contract read
+ * @param target - Contract address
+ * @param method - Function name
+ * @param args - Call arguments
+ */
+export function readKey(target: string, method: string, args: readonly unknown[] = []): string {
+  const encodedArgs = JSON.stringify(args, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : typeof value === 'string' ? value.toLowerCase() : value
+  );
+  return `${target.toLowerCase()}.${method}(${encodedArgs.slice(1, -1)})`;
+}
+
+export class ChainReadCache {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Reads a value through the cache
+   * @param key - Cache key (see readKey)
+   * @param fetcher - Fetches the value when it is missing, stale or invalidated
+   * @param options - TTL, scopes and force flag
+   * @returns The cached or fetched value
+   * @throws The fetch error when there is no earlier value to fall back to
+   */
+  async query<T>(key: string, fetcher: () => Promise<T>, options: ReadOptions = {}): Promise<T> {
+    const entry = this.getEntry(key, options);
+
+    if (entry.hasValue && !entry.invalidated && !options.force) {
+      if (Date.now() - entry.fetchedAt >= entry.ttlMs) {
+        // Stale: serve it and refresh in the background
+        this.revalidate(entry, fetcher).catch((error) =>
+          console.warn(`Background refresh of ${key} failed:`, error)
+        );
+      }
+      return entry.value as T;
+    }
+
+    try {
+      return await this.revalidate(entry, fetcher);
+    } catch (error) {
+      if (!entry.hasValue) throw error;
+      console.warn(`Failed to refresh ${key}, using last known value:`, error);
+      return entry.value as T;
+    }
+  }
+
+  /**
+   * Calls a view function through the cache
+   * @param contract - Contract to call; its address is part of the key
+   * @param method - View function name
+   * @param args - Call arguments
+   * @param options - TTL, scopes and force flag
+   */
+  read<T>(contract: ethers.BaseContract, method: string, args: unknown[] = [], options: ReadOptions = {}): Promise<T> {
+    return this.query<T>(
+      readKey(String(contract.target), method, args),
+      () => contract.getFunction(method).staticCall(...args) as Promise<T>,
+      options
+    );
+  }
+
+  /**
+   * Returns the cached value of a key without fetching it
+   */
+  peek<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    return entry?.hasValue ? (entry.value as T) : undefined;
+  }
+
+  /**
+   * Marks cached values as outdated so their next read refetches
+   * @param scopes - Only invalidate entries tagged with any of these; all entries when omitted
+   */
+  invalidate(scopes?: ChainDataScope[]): void {
+    for (const entry of this.entries.values()) {
+      if (scopes && !scopes.some((scope) => entry.scopes.has(scope))) continue;
+      entry.invalidated = true;
+      entry.generation += 1;
+      entry.inflight = null;
+    }
+  }
+
+  /**
+   * Drops every entry (e.g. when switching networks)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private getEntry(key: string, options: ReadOptions): CacheEntry {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        value: undefined,
+        hasValue: false,
+        fetchedAt: 0,
+        ttlMs: DEFAULT_READ_TTL_MS,
+        scopes: new Set(),
+        invalidated: false,
+        generation: 0,
+        inflight: null,
+      };
+      this.entries.set(key, entry);
+    }
+    if (options.ttlMs !== undefined) entry.ttlMs = options.ttlMs;
+    options.scopes?.forEach((scope) => entry.scopes.add(scope));
+    return entry;
+  }
+
+  /**
+   * Fetches a new value, sharing a request already in flight for the key
+   * @private
+   */
+  private revalidate<T>(entry: CacheEntry, fetcher: () => Promise<T>): Promise<T> {
+    if (entry.inflight) return entry.inflight as Promise<T>;
+
+    const generation = entry.generation;
+    const request = fetcher()
+      .then((value) => {
+        if (entry.generation === generation) {
+          entry.value = value;
+          entry.hasValue = true;
+          entry.fetchedAt = Date.now();
+          entry.invalidated = false;
+        }
+        return value;
+      })
+      .finally(() => {
+        if (entry.inflight === request) entry.inflight = null;
+      });
+    entry.inflight = request;
+    return request;
+  }
+}
+
+export const chainReads = new ChainReadCache();
+
+// Cached values belong to the previous network's contracts
+onNetworkChange(() => chainReads.clear());
+
+export default chainReads;
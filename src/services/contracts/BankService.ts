@@ -0,0 +1,217 @@
+/**
+ * @title BankService
+ * @notice Service class for moving GEMS between the in-game balance and the GEMS ERC-20
+ * @dev The in-game balance is the staking contract's pending rewards (getPendingRewards/claimRewards);
+ * @dev deposits and withdrawals go through the GemsVault contract, which is gated by an on-chain TGE flag
+ */
+
+import { ethers } from 'ethers';
+import { getGemsVaultContract, GemsVaultContract } from '../../contracts/clients/GemsVault';
+import { getGEMSTokenContract } from '../../contracts/clients/GEMSToken';
+import { getMiningMastersStakingContract } from '../../contracts/clients/MiningMastersStaking';
+
+const FEE_DENOMINATOR = 10000n;
+
+/**
+ * Bank balances and vault parameters for a user
+ */
+export interface BankState {
+  isTgeActive: boolean;
+  inGameBalance: bigint;    // Pending rewards on the staking contract
+  walletBalance: bigint;    // GEMS ERC-20 held by the wallet
+  depositFeeBps: number;
+  withdrawFeeBps: number;
+  minAmount: bigint;
+  decimals: number;
+}
+
+/**
+ * Fee breakdown for a deposit or withdrawal
+ */
+export interface BankFeePreview {
+  amount: bigint;
+  fee: bigint;
+  received: bigint;
+}
+
+export type BankDirection = 'deposit' | 'withdraw';
+
+/**
+ * Steps of a bank transaction, reported so the UI can show progress
+ */
+export type BankTxStep = 'approving' | 'submitting' | 'confirming';
+
+export class BankService {
+  private vault: GemsVaultContract;
+  private runner: ethers.BrowserProvider | ethers.JsonRpcProvider | ethers.Wallet;
+
+  /**
+   * Creates a new BankService instance
+   * @param providerOrSigner - Ethers provider or signer
+   */
+  constructor(providerOrSigner: ethers.BrowserProvider | ethers.JsonRpcProvider | ethers.Wallet) {
+    this.runner = providerOrSigner;
+    this.vault = getGemsVaultContract(providerOrSigner);
+  }
+
+  /**
+   * Gets a signer from the current provider
+   * @private
+   */
+  private async getSigner(): Promise<ethers.Signer> {
+    if ('getSigner' in this.runner) {
+      try {
+        return await (this.runner as ethers.BrowserProvider).getSigner();
+      } catch {
+        throw new Error('Failed to get signer from provider. Please connect your wallet.');
+      }
+    }
+
+    if ('sendTransaction' in this.runner) {
+      return this.runner as ethers.Signer;
+    }
+
+    throw new Error('Signer required for this operation');
+  }
+
+  /**
+   * Reads whether deposits and withdrawals are open
+   * @returns True once the TGE has been activated on the vault
+   */
+  async isTgeActive(): Promise<boolean> {
+    try {
+      return await this.vault.isTgeActive();
+    } catch (error) {
+      console.error('Error reading TGE status from vault:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Reads balances and vault parameters for a user
+   * @param user - Wallet address
+   * @returns Bank state
+   */
+  async getBankState(user: string): Promise<BankState> {
+    const [isTgeActive, gemsAddress, stakingAddress, depositFeeBps, withdrawFeeBps, minAmount] = await Promise.all([
+      this.isTgeActive(),
+      this.vault.gemsToken(),
+      this.vault.stakingContract(),
+      this.vault.depositFeeBps(),
+      this.vault.withdrawFeeBps(),
+      this.vault.minAmount(),
+    ]);
+
+    const gemsToken = getGEMSTokenContract(this.runner, gemsAddress);
+    const staking = getMiningMastersStakingContract(this.runner, stakingAddress);
+    const [inGameBalance, walletBalance, decimals] = await Promise.all([
+      staking.getPendingRewards(user),
+      gemsToken.balanceOf(user),
+      gemsToken.decimals(),
+    ]);
+
+    return {
+      isTgeActive,
+      inGameBalance,
+      walletBalance,
+      depositFeeBps: Number(depositFeeBps),
+      withdrawFeeBps: Number(withdrawFeeBps),
+      minAmount,
+      decimals: Number(decimals),
+    };
+  }
+
+  /**
+   * Computes the fee charged by the vault for an amount
+   * @param amount - Amount in token units
+   * @param feeBps - Fee in basis points
+   * @returns Fee breakdown
+   */
+  static previewFee(amount: bigint, feeBps: number): BankFeePreview {
+    const fee = (amount * BigInt(feeBps)) / FEE_DENOMINATOR;
+    return { amount, fee, received: amount - fee };
+  }
+
+  /**
+   * Validates an amount against the TGE flag, minimum and available balance
+   * @param state - Current bank state
+   * @param direction - Deposit or withdraw
+   * @param amount - Amount in token units
+   * @returns Error message, or null if the amount is valid
+   */
+  static validateAmount(state: BankState, direction: BankDirection, amount: bigint): string | null {
+    if (!state.isTgeActive) {
+      return 'Deposits and withdrawals open after the TGE';
+    }
+    if (amount <= 0n) {
+      return 'Enter an amount greater than zero';
+    }
+    if (amount < state.minAmount) {
+      return `Minimum amount is ${ethers.formatUnits(state.minAmount, state.decimals)} GEMS`;
+    }
+    const available = direction === 'deposit' ? state.walletBalance : state.inGameBalance;
+    if (amount > available) {
+      return direction === 'deposit' ? 'Amount exceeds your wallet GEMS balance' : 'Amount exceeds your in-game GEMS balance';
+    }
+    return null;
+  }
+
+  /**
+   * Re-reads the bank state and checks an amount against it before sending
+   * @param direction - Deposit or withdraw
+   * @param amount - Amount in token units
+   */
+  async assertValidAmount(direction: BankDirection, amount: bigint): Promise<void> {
+    const signer = await this.getSigner();
+    const state = await this.getBankState(await signer.getAddress());
+    const validationError = BankService.validateAmount(state, direction, amount);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+  }
+
+  /**
+   * Whether the vault needs a GEMS approval before depositing an amount
+   * @param amount - Amount in token units
+   */
+  async needsApproval(amount: bigint): Promise<boolean> {
+    const signer = await this.getSigner();
+    const gemsToken = getGEMSTokenContract(signer, await this.vault.gemsToken());
+    const allowance = await gemsToken.allowance(await signer.getAddress(), this.vault.target as string);
+    return allowance < amount;
+  }
+
+  /**
+   * Approves the vault to spend GEMS
+   * @param amount - Amount in token units
+   * @returns Transaction response
+   */
+  async approve(amount: bigint): Promise<ethers.TransactionResponse> {
+    const signer = await this.getSigner();
+    const gemsToken = getGEMSTokenContract(signer, await this.vault.gemsToken());
+    return gemsToken.approve(this.vault.target as string, amount);
+  }
+
+  /**
+   * Deposits GEMS ERC-20 from the wallet into the in-game balance; the vault must
+   * already be approved for the amount
+   * @param amount - Amount in token units
+   * @returns Transaction response
+   */
+  async deposit(amount: bigint): Promise<ethers.TransactionResponse> {
+    const signer = await this.getSigner();
+    return this.vault.connect(signer).deposit(amount);
+  }
+
+  /**
+   * Withdraws in-game GEMS to the wallet as GEMS ERC-20
+   * @param amount - Amount in token units
+   * @returns Transaction response
+   */
+  async withdraw(amount: bigint): Promise<ethers.TransactionResponse> {
+    const signer = await this.getSigner();
+    return this.vault.connect(signer).withdraw(amount);
+  }
+}
+
+export default BankService;
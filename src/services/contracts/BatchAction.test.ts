@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { createMockRonin, MockRonin } from '../mock/MockRonin';
+import { getFoodSystemContract } from '../../contracts/clients/FoodSystem';
+import { getMinerNFTContract } from '../../contracts/clients/MinerNFT';
+import { getMiningExpeditionContract, MiningExpeditionContract } from '../../contracts/clients/MiningExpedition';
+import { getMiningMastersStakingContract } from '../../contracts/clients/MiningMastersStaking';
+import { getRewardSpendingBatchContract, RewardSpendingBatchContract } from '../../contracts/clients/RewardSpendingBatch';
+import { BatchAction, BATCH_ACTION } from './BatchAction';
+
+const ONE_HOUR = 60 * 60;
+const EXPEDITION_TIME = 4 * ONE_HOUR;
+const COFFEE = 1;
+
+describe('mine flow through BatchAction', () => {
+  let mock: MockRonin;
+  let provider: ethers.BrowserProvider;
+  let batchContract: RewardSpendingBatchContract;
+  let expedition: MiningExpeditionContract;
+
+  const travel = async (seconds: number) => {
+    await mock.provider.request({ method: 'evm_increaseTime', params: [seconds] });
+    await mock.provider.request({ method: 'evm_mine' });
+  };
+
+  const feed = async (mealId: number, minerIds: number[]) => {
+    const batch = new BatchAction();
+    for (const minerId of minerIds) batch.addAction(BATCH_ACTION.FEED, minerId, mealId);
+    return (await batch.executeBatch(batchContract))?.wait();
+  };
+
+  beforeEach(async () => {
+    mock = createMockRonin({ minerIds: [1, 2, 3], expeditionTime: EXPEDITION_TIME });
+    provider = new ethers.BrowserProvider(mock.provider, undefined, { cacheTimeout: -1 });
+    const signer = await provider.getSigner();
+    batchContract = getRewardSpendingBatchContract(signer);
+    expedition = getMiningExpeditionContract(signer);
+
+    // Stake two miners and let them earn enough rewards to pay for meals
+    const staking = getMiningMastersStakingContract(signer);
+    await (await getMinerNFTContract(signer).setApprovalForAll(String(staking.target), true)).wait();
+    await (await staking.stakeMiner(1)).wait();
+    await (await staking.stakeMiner(2)).wait();
+    await travel(3 * ONE_HOUR);
+  });
+
+  it('sends nothing for an empty batch', async () => {
+    expect(await new BatchAction().executeBatch(batchContract)).toBeNull();
+  });
+
+  it('feeds every miner in one transaction, paid from pending rewards', async () => {
+    const staking = getMiningMastersStakingContract(provider);
+    const before = await staking.getPendingRewards(mock.account);
+
+    await feed(COFFEE, [1, 2]);
+
+    const food = getFoodSystemContract(provider);
+    expect((await food.getMinerMealStatus(1)).mealId).toBe(BigInt(COFFEE));
+    expect((await food.getMinerMealStatus(2)).mealId).toBe(BigInt(COFFEE));
+    // Two discounted coffees at 2 GEMS each, less the rewards earned meanwhile
+    expect(Number(ethers.formatUnits(before - (await staking.getPendingRewards(mock.account)), 18))).toBeCloseTo(4, 2);
+  });
+
+  it('refuses to feed a miner the wallet has not staked', async () => {
+    await expect(feed(COFFEE, [3])).rejects.toThrow('Not the staked miner owner');
+  });
+
+  it('completes expeditions once the expedition time has passed', async () => {
+    await feed(COFFEE, [1, 2]);
+    await (await expedition.startExpeditions([1, 2])).wait();
+
+    await expect(expedition.completeExpeditions([1, 2])).rejects.toThrow('Expedition not yet ended');
+
+    await travel(EXPEDITION_TIME);
+    await (await expedition.completeExpeditions([1, 2])).wait();
+
+    const [first, second] = await Promise.all([expedition.expeditions(1), expedition.expeditions(2)]);
+    expect(first.completed).toBe(true);
+    expect(second.completed).toBe(true);
+  });
+
+  it('waits out MEAL_COOLDOWN before the same meal can be fed again', async () => {
+    const fedAt = (await provider.getBlock('latest'))!.timestamp;
+    await feed(COFFEE, [1]);
+    await (await expedition.startExpeditions([1])).wait();
+    await travel(EXPEDITION_TIME);
+    await (await expedition.completeExpedition(1)).wait();
+
+    // The expedition consumed the meal, and the same meal is still on cooldown
+    await expect(expedition.startExpedition(1)).rejects.toThrow('Miner has not eaten');
+    await expect(feed(COFFEE, [1])).rejects.toThrow('Meal is on cooldown');
+
+    const mealCooldown = Number(await getFoodSystemContract(provider).MEAL_COOLDOWN());
+    const now = (await provider.getBlock('latest'))!.timestamp;
+    await travel(fedAt + mealCooldown - now + 60);
+
+    await feed(COFFEE, [1]);
+    await (await expedition.startExpeditions([1])).wait();
+    expect((await expedition.expeditions(1)).completed).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @title BatchAction
+ * @notice Builder for RewardSpendingBatch.executeBatch action lists
+ * @dev Actions are spent from pending staking rewards in a single transaction
+ */
+
+import type { ContractTransactionResponse } from 'ethers';
+import type { ActionInput, RewardSpendingBatchContract } from '../../contracts/clients/RewardSpendingBatch';
+
+/**
+ * Action codes understood by RewardSpendingBatch
+ */
+export const BATCH_ACTION = {
+  FEED: 0,  // arg1 = minerId, arg2 = mealId
+  SLOTS: 2, // arg1 = number of slots to buy, arg2 unused
+} as const;
+
+export class BatchAction {
+  actions: ActionInput[] = [];
+
+  /**
+   * Queues an action for the next executeBatch call
+   * @param action - Action code (see BATCH_ACTION)
+   * @param arg1 - First action argument
+   * @param arg2 - Second action argument
+   */
+  addAction(action: number, arg1: number | bigint, arg2: number | bigint) {
+    this.actions.push({ action, arg1: BigInt(arg1), arg2: BigInt(arg2) });
+  }
+
+  /**
+   * Sends all queued actions in one transaction
+   * @param batchContract - RewardSpendingBatch contract connected to a signer
+   * @returns Transaction response, or null if no actions were queued
+   */
+  async executeBatch(batchContract: RewardSpendingBatchContract): Promise<ContractTransactionResponse | null> {
+    if (this.actions.length === 0) return null;
+    console.log('Executing batch with actions:', this.actions);
+    try {
+      return await batchContract.executeBatch(this.actions);
+    } catch (error: unknown) {
+      console.error('executeBatch error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`executeBatch failed: ${message}`);
+    }
+  }
+}
+
+export default BatchAction;
@@ -0,0 +1,213 @@
+/**
+ * @title BoostService
+ * @notice Service class for reading and activating MiningExpedition boosts
+ * @dev Reads aggregate boost state from the MiningExpedition proxy and activates
+ * @dev boost NFTs through the lifetime, in-game 24h and giveaway 24h boost contracts
+ * @dev Boost contracts are ERC721 tokens exposing activateBoost/deactivateBoost/getActiveBoost (see abis/BoostNFTABI.json)
+ */
+
+import { ethers } from 'ethers';
+import { getMiningExpeditionContract, MiningExpeditionContract } from '../../contracts/clients/MiningExpedition';
+import { getBoostNFTContract } from '../../contracts/clients/BoostNFT';
+
+/**
+ * Boost categories supported by the MiningExpedition contract
+ */
+export type BoostType = 'lifetime' | 'inGame24h' | 'giveaway24h';
+
+/**
+ * Activation state of a single boost contract for a user
+ */
+export interface BoostActivation {
+  type: BoostType;
+  contractAddress: string;
+  owned: number;        // Number of boost NFTs held by the user
+  active: boolean;
+  tokenId: number | null;
+  activatedAt: number;  // Unix seconds, 0 if never activated
+  expiresAt: number;    // Unix seconds, 0 for lifetime boosts
+}
+
+/**
+ * Combined boost state for a user as seen by the MiningExpedition contract
+ */
+export interface UserBoostState {
+  hasLifetimeBoost: boolean;
+  hasInGameBoost24h: boolean;
+  hasGiveawayBoost24h: boolean;
+  totalBoostPercentage: number;   // Raw value reported by getUserBoosts
+  appliedBoostPercentage: number; // totalBoostPercentage capped by MAX_BOOST_PERCENTAGE
+  maxBoostPercentage: number;
+  lifetimePercentage: number;
+  boost24hPercentage: number;
+  activations: BoostActivation[];
+}
+
+/**
+ * Getter on the MiningExpedition contract exposing each boost contract address
+ */
+const BOOST_ADDRESS_GETTERS: Record<BoostType, 'lifetimeBoostAddress' | 'inGameBoost24hAddress' | 'giveawayBoost24hAddress'> = {
+  lifetime: 'lifetimeBoostAddress',
+  inGame24h: 'inGameBoost24hAddress',
+  giveaway24h: 'giveawayBoost24hAddress',
+};
+
+export class BoostService {
+  private expeditionContract: MiningExpeditionContract;
+  private runner: ethers.BrowserProvider | ethers.JsonRpcProvider | ethers.Wallet;
+
+  /**
+   * Creates a new BoostService instance
+   * @param providerOrSigner - Ethers provider or signer
+   */
+  constructor(providerOrSigner: ethers.BrowserProvider | ethers.JsonRpcProvider | ethers.Wallet) {
+    this.runner = providerOrSigner;
+    this.expeditionContract = getMiningExpeditionContract(providerOrSigner);
+  }
+
+  /**
+   * Gets a signer from the current provider
+   * @private
+   */
+  private async getSigner(): Promise<ethers.Signer> {
+    if ('getSigner' in this.runner) {
+      try {
+        return await (this.runner as ethers.BrowserProvider).getSigner();
+      } catch {
+        throw new Error('Failed to get signer from provider. Please connect your wallet.');
+      }
+    }
+
+    if ('sendTransaction' in this.runner) {
+      return this.runner as ethers.Signer;
+    }
+
+    throw new Error('Signer required for this operation');
+  }
+
+  /**
+   * Resolves the boost contract address configured on the MiningExpedition proxy
+   * @param type - Boost category
+   * @returns Boost contract address, or null if the slot is unset
+   */
+  async getBoostContractAddress(type: BoostType): Promise<string | null> {
+    const address = await this.expeditionContract[BOOST_ADDRESS_GETTERS[type]]();
+    return address && address !== ethers.ZeroAddress ? address : null;
+  }
+
+  /**
+   * Reads the activation state of one boost contract for a user
+   * @param type - Boost category
+   * @param user - Wallet address
+   * @returns Activation state, or null if the boost contract is not configured
+   */
+  async getBoostActivation(type: BoostType, user: string): Promise<BoostActivation | null> {
+    const contractAddress = await this.getBoostContractAddress(type);
+    if (!contractAddress) {
+      console.warn(`No ${type} boost contract configured on MiningExpedition`);
+      return null;
+    }
+
+    const boostContract = getBoostNFTContract(this.runner, contractAddress);
+    const [balance, activeBoost] = await Promise.all([
+      boostContract.balanceOf(user),
+      boostContract.getActiveBoost(user),
+    ]);
+
+    return {
+      type,
+      contractAddress,
+      owned: Number(balance),
+      active: activeBoost.active,
+      tokenId: activeBoost.active ? Number(activeBoost.tokenId) : null,
+      activatedAt: Number(activeBoost.activatedAt),
+      expiresAt: Number(activeBoost.expiresAt),
+    };
+  }
+
+  /**
+   * Reads the full boost state for a user
+   * @param user - Wallet address
+   * @returns Aggregate boost state including per-contract activations
+   */
+  async getUserBoostState(user: string): Promise<UserBoostState> {
+    const [userBoosts, maxBoost, lifetimePct, boost24hPct] = await Promise.all([
+      this.expeditionContract.getUserBoosts(user),
+      this.expeditionContract.MAX_BOOST_PERCENTAGE(),
+      this.expeditionContract.BOOST_LIFETIME_PERCENTAGE(),
+      this.expeditionContract.BOOST_24H_PERCENTAGE(),
+    ]);
+
+    const activations: BoostActivation[] = [];
+    for (const type of Object.keys(BOOST_ADDRESS_GETTERS) as BoostType[]) {
+      try {
+        const activation = await this.getBoostActivation(type, user);
+        if (activation) {
+          activations.push(activation);
+        }
+      } catch (error) {
+        console.error(`Error reading ${type} boost activation:`, error);
+      }
+    }
+
+    const totalBoostPercentage = Number(userBoosts.totalBoostPercentage);
+    const maxBoostPercentage = Number(maxBoost);
+
+    return {
+      hasLifetimeBoost: userBoosts.hasLifetimeBoost,
+      hasInGameBoost24h: userBoosts.hasInGameBoost24h,
+      hasGiveawayBoost24h: userBoosts.hasGiveawayBoost24h,
+      totalBoostPercentage,
+      appliedBoostPercentage: Math.min(totalBoostPercentage, maxBoostPercentage),
+      maxBoostPercentage,
+      lifetimePercentage: Number(lifetimePct),
+      boost24hPercentage: Number(boost24hPct),
+      activations,
+    };
+  }
+
+  /**
+   * Activates the first boost NFT the user holds in the given boost contract
+   * @param type - Boost category
+   * @returns Transaction response
+   */
+  async activateBoost(type: BoostType): Promise<ethers.TransactionResponse> {
+    const contractAddress = await this.getBoostContractAddress(type);
+    if (!contractAddress) {
+      throw new Error(`No ${type} boost contract is configured`);
+    }
+
+    const signer = await this.getSigner();
+    const user = await signer.getAddress();
+    const boostContract = getBoostNFTContract(signer, contractAddress);
+
+    const balance = await boostContract.balanceOf(user);
+    if (balance === 0n) {
+      throw new Error('You do not own this boost');
+    }
+
+    const tokenId = await boostContract.tokenOfOwnerByIndex(user, 0);
+    console.log(`Activating ${type} boost with token #${tokenId}`);
+
+    return boostContract.activateBoost(tokenId);
+  }
+
+  /**
+   * Deactivates the user's active boost in the given boost contract
+   * @param type - Boost category
+   * @returns Transaction response
+   */
+  async deactivateBoost(type: BoostType): Promise<ethers.TransactionResponse> {
+    const contractAddress = await this.getBoostContractAddress(type);
+    if (!contractAddress) {
+      throw new Error(`No ${type} boost contract is configured`);
+    }
+
+    const signer = await this.getSigner();
+    const boostContract = getBoostNFTContract(signer, contractAddress);
+
+    return boostContract.deactivateBoost();
+  }
+}
+
+export default BoostService;
@@ -0,0 +1,250 @@
+/**
+ * @title BulkStakeService
+ * @notice Stakes many miners in one run, after a single setApprovalForAll for the staking proxy
+ * @dev The staking contract only stakes one token per call, so a run is a job of stakeMiner
+ * @dev transactions sent one at a time (sequential) or several back to back before waiting for
+ * @dev them (batched). The job is checkpointed in IndexedDB after every transaction, so a run
+ * @dev the user stops or abandons can be resumed later; resuming first re-checks every token
+ * @dev against the chain so nothing is staked twice.
+ */
+
+import { ethers } from 'ethers';
+import { getMinerNFTContract, MinerNFTContract } from '../../contracts/clients/MinerNFT';
+import { getMiningMastersStakingContract, MiningMastersStakingContract } from '../../contracts/clients/MiningMastersStaking';
+import { createIdbStore } from '../../lib/idbStore';
+import { FREE_SLOTS } from './SlotPurchaseService';
+
+// Used when the deployment does not expose MAX_MINERS_PER_WALLET
+const DEFAULT_MAX_SLOTS = 100;
+// Matches StakingService.stakeMiner; gas estimation is unreliable for this contract
+const STAKE_GAS_LIMIT = 500000;
+export const DEFAULT_STAKE_BATCH_SIZE = 5;
+// How long resuming waits for a transaction sent before the interruption
+const SENT_RECEIPT_TIMEOUT_MS = 60 * 1000;
+// Bump when the job shape changes to discard incompatible checkpoints
+const JOB_VERSION = 1;
+
+export type BulkStakeMode = 'sequential' | 'batched';
+
+export type BulkStakeStatus =
+  | 'pending'   // Not sent yet
+  | 'sent'      // Waiting to be mined
+  | 'staked'    // Confirmed
+  | 'failed'    // Reverted or could not be sent
+  | 'skipped';  // No longer in the wallet when the run reached it
+
+export interface BulkStakeItem {
+  tokenId: number;
+  status: BulkStakeStatus;
+  txHash: string | null;
+  error: string | null;
+}
+
+export interface BulkStakeJob {
+  version: number;
+  chainId: number;
+  owner: string;
+  mode: BulkStakeMode;
+  batchSize: number;        // Transactions sent before waiting, in batched mode
+  createdAt: number;        // Unix milliseconds
+  updatedAt: number;
+  items: BulkStakeItem[];
+}
+
+/**
+ * How many more miners a wallet can stake
+ */
+export interface StakeCapacity {
+  slots: number;            // Free plus purchased slots, capped at MAX_MINERS_PER_WALLET
+  maxMinersPerWallet: number;
+  staked: number;
+  available: number;
+}
+
+const jobStore = createIdbStore<BulkStakeJob>('mining-masters-bulk-stake', 'jobs');
+
+export class BulkStakeService {
+  private provider: ethers.BrowserProvider;
+  private staking: MiningMastersStakingContract;
+  private nft: MinerNFTContract;
+
+  /**
+   * Creates a new BulkStakeService instance
+   * @param provider - Wallet provider
+   */
+  constructor(provider: ethers.BrowserProvider) {
+    this.provider = provider;
+    this.staking = getMiningMastersStakingContract(provider);
+    this.nft = getMinerNFTContract(provider);
+  }
+
+  /**
+   * Reads the wallet's slot capacity
+   * @param owner - Wallet address
+   */
+  async getCapacity(owner: string): Promise<StakeCapacity> {
+    const [purchased, maxMiners, staked] = await Promise.all([
+      this.staking.userPurchasedSlots(owner),
+      this.staking.MAX_MINERS_PER_WALLET().catch(() => BigInt(DEFAULT_MAX_SLOTS)),
+      this.staking.getStakedMinerCount(owner),
+    ]);
+    const maxMinersPerWallet = Number(maxMiners);
+    const slots = Math.min(maxMinersPerWallet, FREE_SLOTS + Number(purchased));
+    return {
+      slots,
+      maxMinersPerWallet,
+      staked: Number(staked),
+      available: Math.max(0, slots - Number(staked)),
+    };
+  }
+
+  /**
+   * Whether the staking proxy may move every miner of the wallet
+   * @param owner - Wallet address
+   */
+  async isApprovedForAll(owner: string): Promise<boolean> {
+    return this.nft.isApprovedForAll(owner, String(this.staking.target));
+  }
+
+  /**
+   * Grants or revokes the staking proxy's approval for all of the wallet's miners
+   * @param approved - True to approve
+   */
+  async setApprovalForAll(approved: boolean): Promise<ethers.TransactionResponse> {
+    const signer = await this.provider.getSigner();
+    return this.nft.connect(signer).setApprovalForAll(String(this.staking.target), approved);
+  }
+
+  /**
+   * Whether a token needs its own approve before staking
+   * @param owner - Wallet address
+   * @param tokenId - Token ID
+   */
+  async needsApproval(owner: string, tokenId: number): Promise<boolean> {
+    if (await this.isApprovedForAll(owner)) return false;
+    const approved = await this.nft.getApproved(tokenId);
+    return approved.toLowerCase() !== String(this.staking.target).toLowerCase();
+  }
+
+  /**
+   * Approves the staking proxy for one token
+   * @param tokenId - Token ID
+   */
+  async approve(tokenId: number): Promise<ethers.TransactionResponse> {
+    const signer = await this.provider.getSigner();
+    return this.nft.connect(signer).approve(String(this.staking.target), tokenId);
+  }
+
+  /**
+   * Sends the stake transaction for one token without waiting for it
+   * @param tokenId - Token ID
+   */
+  async sendStake(tokenId: number): Promise<ethers.TransactionResponse> {
+    const signer = await this.provider.getSigner();
+    return this.staking.connect(signer).stakeMiner(tokenId, { gasLimit: STAKE_GAS_LIMIT });
+  }
+
+  /**
+   * Creates and checkpoints a job, replacing any unfinished one of the wallet
+   * @param owner - Wallet address
+   * @param tokenIds - Miners to stake, in order
+   * @param mode - Sequential or batched sending
+   * @param batchSize - Transactions per batch in batched mode
+   */
+  async createJob(owner: string, tokenIds: number[], mode: BulkStakeMode, batchSize = DEFAULT_STAKE_BATCH_SIZE): Promise<BulkStakeJob> {
+    const network = await this.provider.getNetwork();
+    const job: BulkStakeJob = {
+      version: JOB_VERSION,
+      chainId: Number(network.chainId),
+      owner: ethers.getAddress(owner),
+      mode,
+      batchSize: Math.max(1, batchSize),
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      items: tokenIds.map((tokenId) => ({ tokenId, status: 'pending', txHash: null, error: null })),
+    };
+    await this.saveJob(job);
+    return job;
+  }
+
+  /**
+   * Loads the wallet's checkpointed job on the connected chain
+   * @param owner - Wallet address
+   * @returns The job, or null if none was started
+   */
+  async loadJob(owner: string): Promise<BulkStakeJob | null> {
+    try {
+      const job = await jobStore.get(await this.getJobKey(owner));
+      return job && job.version === JOB_VERSION ? job : null;
+    } catch (error) {
+      console.warn('Failed to read bulk stake checkpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Checkpoints a job
+   * @param job - Job to save
+   */
+  async saveJob(job: BulkStakeJob): Promise<void> {
+    job.updatedAt = Date.now();
+    await jobStore.set(await this.getJobKey(job.owner), job).catch((error) => console.warn('Failed to checkpoint bulk stake:', error));
+  }
+
+  /**
+   * Discards the wallet's checkpointed job
+   * @param owner - Wallet address
+   */
+  async clearJob(owner: string): Promise<void> {
+    await jobStore.delete(await this.getJobKey(owner));
+  }
+
+  /**
+   * Brings a job up to date with the chain before resuming it: transactions sent before the
+   * interruption are awaited, and pending tokens that were staked meanwhile or left the wallet
+   * are settled so they are not sent again
+   * @param job - Job to check; updated in place and checkpointed
+   */
+  async refreshJob(job: BulkStakeJob): Promise<BulkStakeJob> {
+    const owner = job.owner.toLowerCase();
+    await Promise.all(
+      job.items
+        .filter((item) => item.status === 'pending' || item.status === 'sent')
+        .map(async (item) => {
+          if (item.status === 'sent' && item.txHash) {
+            const receipt = await this.provider.waitForTransaction(item.txHash, 1, SENT_RECEIPT_TIMEOUT_MS).catch(() => null);
+            if (receipt) {
+              item.status = receipt.status === 1 ? 'staked' : 'failed';
+              item.error = receipt.status === 1 ? null : 'Transaction reverted';
+              return;
+            }
+          }
+
+          // Not sent, or the sent transaction never showed up: decide from the current state
+          const [stake, holder] = await Promise.all([
+            this.staking.stakedMiners(item.tokenId),
+            this.nft.ownerOf(item.tokenId).catch(() => ethers.ZeroAddress),
+          ]);
+          if (stake.isStaked && stake.owner.toLowerCase() === owner) {
+            item.status = 'staked';
+            item.error = null;
+          } else if (holder.toLowerCase() !== owner) {
+            item.status = 'skipped';
+            item.error = 'No longer in your wallet';
+          } else {
+            item.status = 'pending';
+            item.txHash = null;
+          }
+        })
+    );
+    await this.saveJob(job);
+    return job;
+  }
+
+  private async getJobKey(owner: string): Promise<string> {
+    const network = await this.provider.getNetwork();
+    return `${network.chainId}:${owner.toLowerCase()}`;
+  }
+}
+
+export default BulkStakeService;
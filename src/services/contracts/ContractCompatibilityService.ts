@@ -0,0 +1,305 @@
+/**
+ * @title ContractCompatibilityService
+ * @notice Checks at startup that the deployed contracts match what this frontend was built against
+ * @dev For each contract in contracts/versions.json it reads the EIP-1967 implementation slot and any
+ * @dev version getter, compares them with the recorded versions and pinned implementations, and probes
+ * @dev the implementation bytecode for the function selectors the frontend calls (Solidity dispatchers
+ * @dev PUSH each selector, so a missing one means ABI drift). Missing contracts or selectors degrade the
+ * @dev features that depend on them; version and implementation mismatches alone are warnings.
+ * @dev Contracts with no version recorded in versions.json (null) cannot be judged by version, so
+ * @dev they are reported as unverified, which the UI shows as a non-blocking warning.
+ */
+
+import { ethers } from 'ethers';
+import { getChainId } from '../../config/contracts';
+import { getFoodSystemContract } from '../../contracts/clients/FoodSystem';
+import { getGEMSTokenContract } from '../../contracts/clients/GEMSToken';
+import { getMinerNFTContract } from '../../contracts/clients/MinerNFT';
+import { getMiningExpeditionContract } from '../../contracts/clients/MiningExpedition';
+import { getMiningMastersStakingContract } from '../../contracts/clients/MiningMastersStaking';
+import { getRewardSpendingBatchContract } from '../../contracts/clients/RewardSpendingBatch';
+import CONTRACT_VERSIONS from '../../contracts/versions.json';
+
+// keccak256('eip1967.proxy.implementation') - 1
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a933b4b8b59ac8d7d3';
+
+// Version getters tried in order; contracts without one are only checked by selector
+const VERSION_INTERFACE = new ethers.Interface([
+  'function version() view returns (string)',
+  'function VERSION() view returns (string)',
+  'function getVersion() view returns (string)',
+]);
+
+export type VersionedContract = keyof typeof CONTRACT_VERSIONS;
+
+/**
+ * Player-facing features and the contract functions each one calls
+ */
+export type FrontendFeature = 'balance' | 'staking' | 'meals' | 'expeditions' | 'slots';
+
+export const FEATURE_LABELS: Record<FrontendFeature, string> = {
+  balance: 'GEMS balance',
+  staking: 'Staking and rewards',
+  meals: 'Feeding miners',
+  expeditions: 'Expeditions',
+  slots: 'Buying miner slots',
+};
+
+const FEATURE_REQUIREMENTS: Record<FrontendFeature, Partial<Record<VersionedContract, string[]>>> = {
+  balance: {
+    GEMSToken: ['balanceOf'],
+  },
+  staking: {
+    MinerNFT: ['balanceOf', 'ownerOf', 'approve', 'getApproved'],
+    MiningMastersStaking: ['stakeMiner', 'unstakeMiner', 'claimRewards', 'getStakedMiners', 'getPendingRewards'],
+  },
+  meals: {
+    FoodSystem: ['getAllMeals', 'getMinerMealStatus', 'MEAL_COOLDOWN'],
+    RewardSpendingBatch: ['executeBatch'],
+  },
+  expeditions: {
+    MiningExpedition: ['startExpeditions', 'completeExpeditions', 'expeditions', 'MINING_COOLDOWN', 'getUserBoosts'],
+  },
+  slots: {
+    MiningMastersStaking: ['purchaseSlots', 'userPurchasedSlots', 'getPendingRewards'],
+  },
+};
+
+export type ContractStatus = 'ok' | 'warning' | 'unverified' | 'incompatible';
+
+/**
+ * What was found for one contract
+ */
+export interface ContractCompatibility {
+  name: VersionedContract;
+  address: string;
+  implementation: string | null;  // EIP-1967 implementation, null when the contract is not a proxy
+  onChainVersion: string | null;  // From a version getter, null when it exposes none
+  expectedVersion: string | null; // null when versions.json records none
+  status: ContractStatus;
+  missingSelectors: string[];     // Function names the deployed bytecode does not dispatch
+  issues: string[];
+}
+
+/**
+ * A feature that will not work against the deployed contracts
+ */
+export interface DegradedFeature {
+  feature: FrontendFeature;
+  label: string;
+  reasons: string[];
+}
+
+export interface CompatibilityReport {
+  chainId: number;
+  contracts: ContractCompatibility[];
+  degraded: DegradedFeature[];
+  unverified: ContractCompatibility[];  // Contracts whose compatibility could not be established
+  checkedAt: number;              // Unix milliseconds
+}
+
+interface VersionEntry {
+  currentVersion: string | null;          // null until the deployed version has been recorded
+  compatibleWithFrontend: string | null;
+  breaking: string[];
+  lastUpdated?: string;
+  implementations?: Record<string, string>;  // Known implementation per chain ID
+}
+
+const majorVersion = (version: string) => version.replace(/^v/i, '').split('.')[0];
+
+export class ContractCompatibilityService {
+  private provider: ethers.Provider;
+  private contracts: Record<VersionedContract, ethers.BaseContract>;
+
+  // One check per chain and session, shared by every caller
+  private static reports: Map<number, Promise<CompatibilityReport>> = new Map();
+
+  /**
+   * Creates a new ContractCompatibilityService instance
+   * @param provider - Ethers provider
+   */
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+    this.contracts = {
+      GEMSToken: getGEMSTokenContract(provider) as unknown as ethers.BaseContract,
+      MinerNFT: getMinerNFTContract(provider) as unknown as ethers.BaseContract,
+      MiningMastersStaking: getMiningMastersStakingContract(provider) as unknown as ethers.BaseContract,
+      FoodSystem: getFoodSystemContract(provider) as unknown as ethers.BaseContract,
+      MiningExpedition: getMiningExpeditionContract(provider) as unknown as ethers.BaseContract,
+      RewardSpendingBatch: getRewardSpendingBatchContract(provider) as unknown as ethers.BaseContract,
+    };
+  }
+
+  /**
+   * Checks every contract on the active network, reusing the result of an earlier check
+   * @param force - Run the check again
+   */
+  check(force: boolean = false): Promise<CompatibilityReport> {
+    const chainId = getChainId();
+    let pending = force ? undefined : ContractCompatibilityService.reports.get(chainId);
+    if (!pending) {
+      pending = this.runCheck(chainId);
+      ContractCompatibilityService.reports.set(chainId, pending);
+      // A failed check (e.g. RPC down) is retried by the next caller
+      pending.catch(() => ContractCompatibilityService.reports.delete(chainId));
+    }
+    return pending;
+  }
+
+  private async runCheck(chainId: number): Promise<CompatibilityReport> {
+    const names = Object.keys(this.contracts) as VersionedContract[];
+    const contracts = await Promise.all(names.map((name) => this.checkContract(name, chainId)));
+
+    const degraded: DegradedFeature[] = [];
+    for (const [feature, requirements] of Object.entries(FEATURE_REQUIREMENTS) as [FrontendFeature, Partial<Record<VersionedContract, string[]>>][]) {
+      const reasons: string[] = [];
+      for (const [name, functions] of Object.entries(requirements) as [VersionedContract, string[]][]) {
+        const result = contracts.find((contract) => contract.name === name)!;
+        if (result.status === 'incompatible' && result.missingSelectors.length === 0) {
+          reasons.push(...result.issues.map((issue) => `${name}: ${issue}`));
+          continue;
+        }
+        const missing = functions.filter((fn) => result.missingSelectors.includes(fn));
+        if (missing.length > 0) {
+          reasons.push(`${name} no longer exposes ${missing.join(', ')}`);
+        }
+      }
+      if (reasons.length > 0) {
+        degraded.push({ feature, label: FEATURE_LABELS[feature], reasons: [...new Set(reasons)] });
+      }
+    }
+
+    const unverified = contracts.filter((contract) => contract.status === 'unverified');
+    return { chainId, contracts, degraded, unverified, checkedAt: Date.now() };
+  }
+
+  /**
+   * Checks one contract's deployment, version and selectors
+   * @private
+   */
+  private async checkContract(name: VersionedContract, chainId: number): Promise<ContractCompatibility> {
+    const entry = CONTRACT_VERSIONS[name] as VersionEntry;
+    const contract = this.contracts[name];
+    const address = String(contract.target);
+    const result: ContractCompatibility = {
+      name,
+      address,
+      implementation: null,
+      onChainVersion: null,
+      expectedVersion: entry.compatibleWithFrontend,
+      status: 'ok',
+      missingSelectors: [],
+      issues: [],
+    };
+
+    if (address === ethers.ZeroAddress) {
+      result.status = 'incompatible';
+      result.issues.push('address is not configured for this network');
+      return result;
+    }
+
+    const [code, implementation, onChainVersion] = await Promise.all([
+      this.provider.getCode(address),
+      this.readImplementation(address),
+      this.readVersion(address),
+    ]);
+    if (code === '0x') {
+      result.status = 'incompatible';
+      result.issues.push(`no contract deployed at ${address}`);
+      return result;
+    }
+    result.implementation = implementation;
+    result.onChainVersion = onChainVersion;
+
+    // Proxies dispatch in the implementation; probe its bytecode instead of the proxy's
+    const runtimeCode = implementation ? await this.provider.getCode(implementation) : code;
+    result.missingSelectors = this.findMissingSelectors(name, runtimeCode);
+    if (result.missingSelectors.length > 0) {
+      result.status = 'incompatible';
+      result.issues.push(`missing functions: ${result.missingSelectors.join(', ')}`);
+    }
+
+    if (!entry.compatibleWithFrontend) {
+      result.issues.push(
+        onChainVersion
+          ? `deployed version ${onChainVersion} has not been checked against this frontend`
+          : 'no version is recorded for it, so only its functions were checked'
+      );
+      if (result.status !== 'incompatible') result.status = 'unverified';
+    } else if (onChainVersion) {
+      if (entry.breaking.includes(onChainVersion) || majorVersion(onChainVersion) !== majorVersion(entry.compatibleWithFrontend)) {
+        result.status = 'incompatible';
+        result.issues.push(`version ${onChainVersion} is not compatible with ${entry.compatibleWithFrontend}`);
+      } else if (onChainVersion !== entry.currentVersion) {
+        this.warn(result, `version ${onChainVersion} differs from the recorded ${entry.currentVersion ?? 'version'}`);
+      }
+    }
+
+    const pinned = entry.implementations?.[String(chainId)];
+    if (pinned && implementation && pinned.toLowerCase() !== implementation.toLowerCase()) {
+      this.warn(result, `implementation was upgraded to ${implementation}`);
+    }
+
+    return result;
+  }
+
+  private warn(result: ContractCompatibility, issue: string): void {
+    result.issues.push(issue);
+    if (result.status === 'ok') result.status = 'warning';
+  }
+
+  /**
+   * Reads the EIP-1967 implementation address
+   * @returns The implementation, or null when the slot is empty or unreadable
+   * @private
+   */
+  private async readImplementation(address: string): Promise<string | null> {
+    try {
+      const slot = await this.provider.getStorage(address, IMPLEMENTATION_SLOT);
+      const implementation = ethers.getAddress(ethers.dataSlice(slot, 12));
+      return implementation === ethers.ZeroAddress ? null : implementation;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Reads the first version getter the contract answers
+   * @private
+   */
+  private async readVersion(address: string): Promise<string | null> {
+    for (const fragment of VERSION_INTERFACE.fragments as ethers.FunctionFragment[]) {
+      try {
+        const data = await this.provider.call({ to: address, data: VERSION_INTERFACE.encodeFunctionData(fragment) });
+        const [version] = VERSION_INTERFACE.decodeFunctionResult(fragment, data);
+        if (version) return String(version);
+      } catch {
+        // Not implemented; try the next getter
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Functions the frontend needs from a contract that its bytecode does not dispatch
+   * @private
+   */
+  private findMissingSelectors(name: VersionedContract, code: string): string[] {
+    const required = new Set(
+      Object.values(FEATURE_REQUIREMENTS).flatMap((requirements) => requirements[name] ?? [])
+    );
+    const bytecode = code.toLowerCase();
+    const contractInterface = this.contracts[name].interface;
+
+    return [...required].filter((fn) => {
+      const selector = contractInterface.getFunction(fn)!.selector.slice(2);
+      // solc pushes selectors with leading zero bytes using a shorter PUSH
+      const trimmed = selector.replace(/^(00)+/, '');
+      const push = (0x5f + trimmed.length / 2).toString(16);
+      return !bytecode.includes(`${push}${trimmed}`);
+    });
+  }
+}
+
+export default ContractCompatibilityService;
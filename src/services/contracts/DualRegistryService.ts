@@ -5,24 +5,15 @@
  */
 
 import { ethers } from 'ethers';
-
-/**
- * MinerNFTRegistry ABI for registry operations
- */
-const NFT_REGISTRY_ABI = [
-  'function tokensOfOwner(address owner) view returns (uint256[])',
-  'function balanceOf(address owner) view returns (uint256)',
-  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
-  'function isTokenRegistered(address owner, uint256 tokenId) view returns (bool)',
-  'function updateTokenOwnership(address from, address to, uint256 tokenId) external'
-];
+import { getActiveNetwork, getOptionalContractAddress } from '../../config/contracts';
+import { getMinerRegistryContract, MinerRegistryContract } from '../../contracts/clients/MinerRegistry';
 
 /**
  * Service for interacting with multiple MinerNFT Registry contracts during migration
  */
 export default class DualRegistryService {
-  private oldRegistryContract: ethers.Contract | null = null;
-  private newRegistryContract: ethers.Contract | null = null;
+  private oldRegistryContract: MinerRegistryContract | null = null;
+  private newRegistryContract: MinerRegistryContract | null = null;
   private readonly oldRegistryAddress: string | null = null;
   private readonly newRegistryAddress: string | null = null;
   private hasOldRegistry: boolean = false;
@@ -33,40 +24,23 @@ export default class DualRegistryService {
    * @param provider - Ethers provider
    */
   constructor(provider: ethers.Provider) {
-    // Get network-appropriate contract addresses from environment
-    const network = import.meta.env.VITE_NETWORK_ENV || 'testnet';
-    console.log(`DualRegistryService - Network environment: ${network}`);
-
-    // Get Registry contract addresses
-    if (network === 'mainnet') {
-      // For mainnet we use both old and new registries
-      const oldRegistryEnvKey = 'VITE_MAINNET_MINER_REGISTRY_OLD_ADDRESS';
-      const newRegistryEnvKey = 'VITE_MAINNET_MINER_REGISTRY_ADDRESS';
-
-      this.oldRegistryAddress = import.meta.env[oldRegistryEnvKey] || '';
-      this.newRegistryAddress = import.meta.env[newRegistryEnvKey] || '';
-
-      if (this.oldRegistryAddress) {
-        console.log(`Using old registry at: ${this.oldRegistryAddress}`);
-        this.oldRegistryContract = new ethers.Contract(this.oldRegistryAddress, NFT_REGISTRY_ABI, provider);
-        this.hasOldRegistry = true;
-      }
+    // Get the registry addresses of the active network
+    console.log(`DualRegistryService - Network environment: ${getActiveNetwork().key}`);
 
-      if (this.newRegistryAddress) {
-        console.log(`Using new registry at: ${this.newRegistryAddress}`);
-        this.newRegistryContract = new ethers.Contract(this.newRegistryAddress, NFT_REGISTRY_ABI, provider);
-        this.hasNewRegistry = true;
-      }
-    } else {
-      // For testnet we only use the new registry
-      const registryEnvKey = 'VITE_TESTNET_MINER_REGISTRY_ADDRESS';
-      this.newRegistryAddress = import.meta.env[registryEnvKey] || '';
-
-      if (this.newRegistryAddress) {
-        console.log(`Using testnet registry at: ${this.newRegistryAddress}`);
-        this.newRegistryContract = new ethers.Contract(this.newRegistryAddress, NFT_REGISTRY_ABI, provider);
-        this.hasNewRegistry = true;
-      }
+    // The old registry is only configured where registrations were migrated (mainnet)
+    this.oldRegistryAddress = getOptionalContractAddress('MinerRegistryOld');
+    this.newRegistryAddress = getOptionalContractAddress('MinerRegistry');
+
+    if (this.oldRegistryAddress) {
+      console.log(`Using old registry at: ${this.oldRegistryAddress}`);
+      this.oldRegistryContract = getMinerRegistryContract(provider, this.oldRegistryAddress);
+      this.hasOldRegistry = true;
+    }
+
+    if (this.newRegistryAddress) {
+      console.log(`Using new registry at: ${this.newRegistryAddress}`);
+      this.newRegistryContract = getMinerRegistryContract(provider, this.newRegistryAddress);
+      this.hasNewRegistry = true;
     }
   }
 
@@ -173,7 +147,7 @@ export default class DualRegistryService {
         return null;
       }
 
-      const registryWithSigner = this.newRegistryContract.connect(signer) as ethers.Contract;
+      const registryWithSigner = this.newRegistryContract.connect(signer);
       const tx = await registryWithSigner.updateTokenOwnership(ethers.ZeroAddress, signer.getAddress(), tokenId);
       return tx;
     } catch (error) {
@@ -0,0 +1,204 @@
+/**
+ * @title ExpeditionSimulationService
+ * @notice Dry-runs startExpedition and completeExpedition per miner before anything is signed
+ * @dev Each miner is simulated with eth_call as the player, so the report reflects the contract's own
+ * @dev checks at the latest block. Custom errors and revert strings are mapped to typed reasons;
+ * @dev ownership failures are split into "not staked" and "not owner" using the staking records.
+ */
+
+import { ethers } from 'ethers';
+import { getContractAddress } from '../../config/contracts';
+import { getMiningExpeditionContract, MiningExpeditionContract } from '../../contracts/clients/MiningExpedition';
+import { getMiningMastersStakingContract, MiningMastersStakingContract, StakedMiner } from '../../contracts/clients/MiningMastersStaking';
+import { decodeTransactionError } from '../transactions/RevertDecoder';
+import MulticallService, { encodeCall } from './MulticallService';
+
+/**
+ * Why a miner cannot start or complete an expedition
+ */
+export type ExpeditionFailureReason =
+  | 'notFed'
+  | 'onCooldown'
+  | 'notStaked'
+  | 'notOwner'
+  | 'onExpedition'
+  | 'notOnExpedition'
+  | 'notEnded'
+  | 'unknown';
+
+/**
+ * Short user-facing label for each failure reason
+ */
+export const EXPEDITION_FAILURE_LABELS: Record<ExpeditionFailureReason, string> = {
+  notFed: 'Not fed',
+  onCooldown: 'On cooldown',
+  notStaked: 'Not staked',
+  notOwner: 'Staked by another wallet',
+  onExpedition: 'Already on an expedition',
+  notOnExpedition: 'Not on an expedition',
+  notEnded: 'Expedition still running',
+  unknown: 'Would fail',
+};
+
+/**
+ * Simulation result for one miner
+ */
+export interface MinerSimulation {
+  minerId: number;
+  ok: boolean;
+  reason: ExpeditionFailureReason | null;
+  message: string | null;    // Decoded revert message, kept for reasons mapped to 'unknown'
+}
+
+/**
+ * Structured result of simulating one expedition action for a set of miners
+ */
+export interface SimulationReport {
+  action: 'start' | 'complete';
+  results: MinerSimulation[];
+  passed: number[];
+  failed: MinerSimulation[];
+  foodSystemMismatch: boolean;  // Expedition reads meals from a FoodSystem other than the configured one
+}
+
+// Revert text patterns, most specific first ("not on expedition" before "on expedition")
+const REASON_PATTERNS: [RegExp, ExpeditionFailureReason][] = [
+  [/not (yet )?ended|still running/i, 'notEnded'],
+  [/not on (an )?expedition/i, 'notOnExpedition'],
+  [/(already )?on (an )?expedition/i, 'onExpedition'],
+  [/not eaten|not fed|hasn'?t eaten|no meal/i, 'notFed'],
+  [/cooldown/i, 'onCooldown'],
+  [/not staked/i, 'notStaked'],
+  [/owner|unauthori[sz]ed|not allowed/i, 'notOwner'],
+];
+
+export class ExpeditionSimulationService {
+  private expedition: MiningExpeditionContract;
+  private staking: MiningMastersStakingContract;
+  private multicall: MulticallService;
+
+  /**
+   * Creates a new ExpeditionSimulationService instance
+   * @param provider - Ethers provider
+   */
+  constructor(provider: ethers.BrowserProvider | ethers.JsonRpcProvider) {
+    this.expedition = getMiningExpeditionContract(provider);
+    this.staking = getMiningMastersStakingContract(provider);
+    this.multicall = new MulticallService(provider);
+  }
+
+  /**
+   * Simulates startExpedition for each miner as `user`
+   * @param user - Wallet address that will sign
+   * @param minerIds - Miners to check
+   */
+  async simulateStart(user: string, minerIds: number[]): Promise<SimulationReport> {
+    const [results, foodSystemMismatch] = await Promise.all([
+      this.simulate(user, minerIds, (minerId) => this.expedition.startExpedition.staticCall(minerId, { from: user })),
+      this.hasFoodSystemMismatch(),
+    ]);
+    return this.buildReport('start', results, foodSystemMismatch);
+  }
+
+  /**
+   * Simulates completeExpedition for each miner as `user`
+   * @param user - Wallet address that will sign
+   * @param minerIds - Miners to check
+   */
+  async simulateComplete(user: string, minerIds: number[]): Promise<SimulationReport> {
+    const results = await this.simulate(user, minerIds, (minerId) =>
+      this.expedition.completeExpedition.staticCall(minerId, { from: user })
+    );
+    return this.buildReport('complete', results, false);
+  }
+
+  /**
+   * Maps a decoded revert to a typed reason
+   * @param message - Decoded revert message
+   * @param errorName - Custom error name, when the revert data was decoded
+   * @param stake - Staking record of the miner, used to split ownership failures
+   * @param user - Wallet address the call was simulated for
+   */
+  classify(message: string, errorName: string | undefined, stake: StakedMiner | null, user: string): ExpeditionFailureReason {
+    const text = `${errorName ?? ''} ${message}`;
+    const reason = REASON_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'unknown';
+    if (!stake || (reason !== 'notOwner' && reason !== 'notStaked' && reason !== 'unknown')) {
+      return reason;
+    }
+    // The contracts use one "owner" revert for both cases, the staking record tells them apart
+    if (!stake.isStaked) return 'notStaked';
+    if (stake.owner.toLowerCase() !== user.toLowerCase()) return 'notOwner';
+    return reason;
+  }
+
+  /**
+   * Runs `call` for every miner and classifies the failures
+   * @private
+   */
+  private async simulate(user: string, minerIds: number[], call: (minerId: number) => Promise<unknown>): Promise<MinerSimulation[]> {
+    const [stakes, outcomes] = await Promise.all([
+      this.multicall
+        .aggregate(minerIds.map((minerId) => encodeCall(this.staking, 'stakedMiners', [minerId])))
+        .catch(() => null),
+      Promise.all(
+        minerIds.map((minerId) =>
+          call(minerId).then(
+            () => null,
+            (error: unknown) => decodeTransactionError(error)
+          )
+        )
+      ),
+    ]);
+
+    return minerIds.map((minerId, index): MinerSimulation => {
+      const failure = outcomes[index];
+      if (!failure) return { minerId, ok: true, reason: null, message: null };
+      const stakeResult = stakes?.[index];
+      const stake = stakeResult?.success ? stakeResult.value : null;
+      return {
+        minerId,
+        ok: false,
+        reason: this.classify(failure.message, failure.errorName, stake, user),
+        message: failure.message,
+      };
+    });
+  }
+
+  /**
+   * Checks the expedition contract reads meals from the configured FoodSystem
+   * @private
+   */
+  private async hasFoodSystemMismatch(): Promise<boolean> {
+    try {
+      const actual = await this.expedition.foodSystemAddress();
+      return actual.toLowerCase() !== getContractAddress('FoodSystemProxy').toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @private
+   */
+  private buildReport(action: SimulationReport['action'], results: MinerSimulation[], foodSystemMismatch: boolean): SimulationReport {
+    return {
+      action,
+      results,
+      passed: results.filter((result) => result.ok).map((result) => result.minerId),
+      failed: results.filter((result) => !result.ok),
+      foodSystemMismatch,
+    };
+  }
+}
+
+/**
+ * Describes a failed simulation for display, e.g. "Not fed" or the raw revert for unknown reasons
+ */
+export function describeSimulationFailure(result: MinerSimulation): string {
+  if (!result.reason || result.reason === 'unknown') {
+    return result.message ?? EXPEDITION_FAILURE_LABELS.unknown;
+  }
+  return EXPEDITION_FAILURE_LABELS[result.reason];
+}
+
+export default ExpeditionSimulationService;
@@ -0,0 +1,176 @@
+/**
+ * @title FeedAndMineService
+ * @notice Dry-runs and sends the "Feed & Mine" flow: feed miners one meal, then start their expeditions
+ * @dev RewardSpendingBatch has no expedition action (see BATCH_ACTION), so the flow is always two
+ * @dev transactions: one FEED batch, then MiningExpedition.startExpeditions. Every miner is checked
+ * @dev with eth_call as the user first. Miners whose meal is still on cooldown but who have eaten
+ * @dev before start without being fed; miners that cannot start are left out of both transactions.
+ */
+
+import { ethers } from 'ethers';
+import { getContractAddress } from '../../config/contracts';
+import { getMiningExpeditionContract, MiningExpeditionContract } from '../../contracts/clients/MiningExpedition';
+import { getRewardSpendingBatchContract, RewardSpendingBatchContract } from '../../contracts/clients/RewardSpendingBatch';
+import { decodeTransactionError } from '../transactions/RevertDecoder';
+import { BatchAction, BATCH_ACTION } from './BatchAction';
+import ExpeditionSimulationService, { describeSimulationFailure, MinerSimulation } from './ExpeditionSimulationService';
+
+/**
+ * Expedition eligibility as checked by MiningExpedition.startExpedition: the miner is not out
+ * mining and has eaten at least once. Meal expiry is not checked by the contract.
+ * The expedition cooldown is only known to the contract, so confirm with a simulation.
+ */
+export function isEligibleForExpedition(onExpedition: boolean, mealTimestamp: number): boolean {
+  return !onExpedition && mealTimestamp > 0;
+}
+
+/**
+ * Outcome of dry-running one step for one miner
+ */
+export interface MinerCheck {
+  minerId: number;
+  ok: boolean;
+  reason: string | null;   // Decoded revert reason when the call would fail
+}
+
+/**
+ * Per-miner result of the Feed & Mine dry run
+ */
+export interface MinerPreflight extends MinerCheck {
+  needsFeeding: boolean;   // Fed the chosen meal before starting; false when it starts on its current meal
+}
+
+/**
+ * What Feed & Mine will send for a meal and a set of miners
+ */
+export interface FeedAndMinePlan {
+  mealId: number;
+  miners: MinerPreflight[];
+  toFeed: number[];
+  toStart: number[];
+  feedSimulation: { ok: boolean; reason: string | null };   // The whole feed batch, catches an unaffordable total
+}
+
+export class FeedAndMineService {
+  private runner: ethers.BrowserProvider | ethers.JsonRpcProvider;
+  private expedition: MiningExpeditionContract;
+  private batch: RewardSpendingBatchContract;
+  private simulation: ExpeditionSimulationService;
+
+  /**
+   * Creates a new FeedAndMineService instance
+   * @param provider - Ethers provider
+   */
+  constructor(provider: ethers.BrowserProvider | ethers.JsonRpcProvider) {
+    this.runner = provider;
+    this.expedition = getMiningExpeditionContract(provider);
+    this.batch = getRewardSpendingBatchContract(provider, getContractAddress('RewardSpendingBatch'));
+    this.simulation = new ExpeditionSimulationService(provider);
+  }
+
+  /**
+   * Builds the FEED batch for `minerIds`
+   * @private
+   */
+  private buildFeedBatch(mealId: number, minerIds: number[]): BatchAction {
+    const batch = new BatchAction();
+    for (const minerId of minerIds) {
+      batch.addAction(BATCH_ACTION.FEED, minerId, mealId);
+    }
+    return batch;
+  }
+
+  /**
+   * Dry-runs feeding `mealId` to each miner on its own
+   * @param user - Wallet address the calls are simulated for
+   * @param minerIds - Miners to check
+   * @param mealId - Meal to feed
+   */
+  async checkFeed(user: string, minerIds: number[], mealId: number): Promise<MinerCheck[]> {
+    return Promise.all(
+      minerIds.map(async (minerId) => {
+        try {
+          await this.batch.executeBatch.staticCall(this.buildFeedBatch(mealId, [minerId]).actions, { from: user });
+          return { minerId, ok: true, reason: null };
+        } catch (error) {
+          return { minerId, ok: false, reason: decodeTransactionError(error).message };
+        }
+      })
+    );
+  }
+
+  /**
+   * Dry-runs startExpedition for each miner
+   * @param user - Wallet address the calls are simulated for
+   * @param minerIds - Miners to check
+   * @param fedBeforeStart - Miners that will be fed first; failing as not fed is expected for them
+   */
+  async checkStart(user: string, minerIds: number[], fedBeforeStart: ReadonlySet<number> = new Set()): Promise<MinerSimulation[]> {
+    const { results } = await this.simulation.simulateStart(user, minerIds);
+    return results.map((result) =>
+      fedBeforeStart.has(result.minerId) && result.reason === 'notFed'
+        ? { minerId: result.minerId, ok: true, reason: null, message: null }
+        : result
+    );
+  }
+
+  /**
+   * Dry-runs the whole flow and decides which miners are fed and which are started
+   * @param user - Wallet address
+   * @param minerIds - Miners the player selected
+   * @param mealId - Meal to feed
+   */
+  async plan(user: string, minerIds: number[], mealId: number): Promise<FeedAndMinePlan> {
+    const feedChecks = await this.checkFeed(user, minerIds, mealId);
+    const feedable = new Set(feedChecks.filter((check) => check.ok).map((check) => check.minerId));
+    const startChecks = await this.checkStart(user, minerIds, feedable);
+
+    // A miner that cannot start is not fed either. If it only fails for lack of a meal,
+    // the reason it could not be fed is the useful one.
+    const miners = startChecks.map((check, index): MinerPreflight => ({
+      minerId: check.minerId,
+      ok: check.ok,
+      needsFeeding: check.ok && feedable.has(check.minerId),
+      reason: check.ok ? null : check.reason === 'notFed' ? feedChecks[index].reason : describeSimulationFailure(check),
+    }));
+    const toFeed = miners.filter((miner) => miner.needsFeeding).map((miner) => miner.minerId);
+    const toStart = miners.filter((miner) => miner.ok).map((miner) => miner.minerId);
+
+    let feedSimulation: FeedAndMinePlan['feedSimulation'] = { ok: true, reason: null };
+    if (toFeed.length > 1) {
+      try {
+        await this.batch.executeBatch.staticCall(this.buildFeedBatch(mealId, toFeed).actions, { from: user });
+      } catch (error) {
+        feedSimulation = { ok: false, reason: decodeTransactionError(error).message };
+      }
+    }
+
+    return { mealId, miners, toFeed, toStart, feedSimulation };
+  }
+
+  /**
+   * Sends the FEED batch
+   * @param mealId - Meal to feed
+   * @param minerIds - Miners to feed
+   * @returns Transaction response
+   */
+  async feed(mealId: number, minerIds: number[]): Promise<ethers.ContractTransactionResponse> {
+    const signer = await (this.runner as ethers.BrowserProvider).getSigner();
+    const tx = await this.buildFeedBatch(mealId, minerIds).executeBatch(this.batch.connect(signer));
+    if (!tx) throw new Error('No miners to feed');
+    return tx;
+  }
+
+  /**
+   * Starts expeditions for all `minerIds` in one transaction
+   * @param minerIds - Miners to send out
+   * @returns Transaction response
+   */
+  async start(minerIds: number[]): Promise<ethers.ContractTransactionResponse> {
+    if (minerIds.length === 0) throw new Error('No miners to send on an expedition');
+    const signer = await (this.runner as ethers.BrowserProvider).getSigner();
+    return this.expedition.connect(signer).startExpeditions(minerIds);
+  }
+}
+
+export default FeedAndMineService;
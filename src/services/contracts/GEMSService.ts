@@ -8,22 +8,7 @@ import { ethers } from 'ethers';
 import { useState, useEffect, useCallback } from 'react';
 import { getContractAddress } from '../../config/contracts';
 import { useRoninWallet } from '../wallet/RoninWalletProvider';
-
-// Minimal ERC20 ABI for balance checking
-const ERC20_ABI = [
-  // Read-only functions
-  "function balanceOf(address owner) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-  "function symbol() view returns (string)",
-  "function name() view returns (string)",
-  
-  // Authenticated functions
-  "function transfer(address to, uint amount) returns (bool)",
-  "function approve(address spender, uint256 amount) returns (bool)",
-  
-  // Events
-  "event Transfer(address indexed from, address indexed to, uint amount)"
-];
+import { getGEMSTokenContract } from '../../contracts/clients/GEMSToken';
 
 /**
  * Class for interacting with the GEMS token contract on Ronin blockchain
@@ -63,11 +48,7 @@ export class GEMSService {
     }
     
     // Create and return contract instance
-    return new ethers.Contract(
-      this.contractAddress,
-      ERC20_ABI,
-      this.signer || this.provider
-    );
+    return getGEMSTokenContract(this.signer || this.provider, this.contractAddress);
   }
   
   // Static cache for balances
@@ -141,7 +122,7 @@ export class GEMSService {
     try {
       const contract = this.getContract();
       const decimals = await contract.decimals();
-      return decimals;
+      return Number(decimals);
     } catch (error) {
       console.error('Error fetching token decimals:', error);
       return 18; // Default to 18 decimals
@@ -0,0 +1,221 @@
+/**
+ * @title GemxStakingService
+ * @notice Service class for staking GEMS to earn GEMX in the GemxStaking pool
+ * @dev Positions, accrued rewards and the minimum staking period are all read from the
+ * @dev contract; the 24h lock is evaluated against the latest block timestamp, not the local clock
+ */
+
+import { ethers } from 'ethers';
+import { getGemxStakingContract, GemxStakingContract } from '../../contracts/clients/GemxStaking';
+import { getGEMSTokenContract } from '../../contracts/clients/GEMSToken';
+
+/**
+ * On-chain GEMS staking position of a user, formatted for display
+ */
+export interface GemxStakingPosition {
+  stakedAmount: string;        // GEMS, formatted with token decimals
+  pendingRewards: string;      // GEMX accrued and not yet claimed
+  stakedAt: number;            // Unix seconds, 0 if nothing is staked
+  lastClaimAt: number;         // Unix seconds, 0 if never claimed
+  unlocksAt: number;           // Unix seconds at which claim/unstake become available
+  minStakingPeriod: number;    // Seconds
+  rewardRatePercent: number;   // GEMX earned per 24h, as a percentage of the staked GEMS
+  chainTime: number;           // Latest block timestamp used to evaluate the lock
+  isStakingPeriodComplete: boolean;
+}
+
+/**
+ * Steps of the stake flow, reported so the UI can show approve/stake progress
+ */
+export type GemxStakeStep = 'approving' | 'staking';
+
+export class GemxStakingService {
+  private contract: GemxStakingContract;
+  private runner: ethers.BrowserProvider | ethers.JsonRpcProvider | ethers.Wallet;
+  private tokenDecimals: Promise<{ gems: number; gemx: number }> | null = null;
+
+  /**
+   * Creates a new GemxStakingService instance
+   * @param providerOrSigner - Ethers provider or signer
+   */
+  constructor(providerOrSigner: ethers.BrowserProvider | ethers.JsonRpcProvider | ethers.Wallet) {
+    this.runner = providerOrSigner;
+    this.contract = getGemxStakingContract(providerOrSigner);
+  }
+
+  /**
+   * Gets a signer from the current provider
+   * @private
+   */
+  private async getSigner(): Promise<ethers.Signer> {
+    if ('getSigner' in this.runner) {
+      try {
+        return await (this.runner as ethers.BrowserProvider).getSigner();
+      } catch {
+        throw new Error('Failed to get signer from provider. Please connect your wallet.');
+      }
+    }
+
+    if ('sendTransaction' in this.runner) {
+      return this.runner as ethers.Signer;
+    }
+
+    throw new Error('Signer required for this operation');
+  }
+
+  /**
+   * Reads GEMS and GEMX decimals once per service instance
+   * @private
+   */
+  private getTokenDecimals(): Promise<{ gems: number; gemx: number }> {
+    if (!this.tokenDecimals) {
+      this.tokenDecimals = (async () => {
+        const [gemsAddress, gemxAddress] = await Promise.all([
+          this.contract.gemsToken(),
+          this.contract.gemxToken(),
+        ]);
+        const [gems, gemx] = await Promise.all([
+          getGEMSTokenContract(this.runner, gemsAddress).decimals(),
+          getGEMSTokenContract(this.runner, gemxAddress).decimals(),
+        ]);
+        return { gems: Number(gems), gemx: Number(gemx) };
+      })().catch((error) => {
+        // Retry on the next call instead of caching the failure
+        this.tokenDecimals = null;
+        throw error;
+      });
+    }
+    return this.tokenDecimals;
+  }
+
+  /**
+   * Gets the timestamp of the latest block
+   * @private
+   */
+  private async getChainTime(): Promise<number> {
+    const provider = this.contract.runner?.provider;
+    const block = provider ? await provider.getBlock('latest') : null;
+    return block?.timestamp ?? Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * Reads the staking position and accrued GEMX of a user
+   * @param user - Wallet address
+   * @returns Position including the on-chain lock state
+   */
+  async getPosition(user: string): Promise<GemxStakingPosition> {
+    const [position, minPeriod, rateBps, chainTime, decimals] = await Promise.all([
+      this.contract.getPosition(user),
+      this.contract.MIN_STAKING_PERIOD(),
+      this.contract.REWARD_RATE_BPS(),
+      this.getChainTime(),
+      this.getTokenDecimals(),
+    ]);
+
+    const stakedAt = Number(position.stakedAt);
+    const minStakingPeriod = Number(minPeriod);
+    const unlocksAt = stakedAt > 0 ? stakedAt + minStakingPeriod : 0;
+
+    return {
+      stakedAmount: ethers.formatUnits(position.amount, decimals.gems),
+      pendingRewards: ethers.formatUnits(position.pendingRewards, decimals.gemx),
+      stakedAt,
+      lastClaimAt: Number(position.lastClaimAt),
+      unlocksAt,
+      minStakingPeriod,
+      rewardRatePercent: Number(rateBps) / 100,
+      chainTime,
+      isStakingPeriodComplete: stakedAt > 0 && chainTime >= unlocksAt,
+    };
+  }
+
+  /**
+   * Converts a stake amount to token units and checks it against the wallet balance
+   * @param amount - Amount of GEMS to stake (decimal string)
+   * @returns Amount in token units
+   */
+  async prepareStake(amount: string): Promise<bigint> {
+    const signer = await this.getSigner();
+    const decimals = await this.getTokenDecimals();
+    const amountInWei = ethers.parseUnits(amount, decimals.gems);
+    if (amountInWei <= 0n) {
+      throw new Error('Stake amount must be greater than zero');
+    }
+
+    const gemsToken = getGEMSTokenContract(signer, await this.contract.gemsToken());
+    const balance = await gemsToken.balanceOf(await signer.getAddress());
+    if (balance < amountInWei) {
+      throw new Error('Insufficient GEMS balance');
+    }
+    return amountInWei;
+  }
+
+  /**
+   * Whether the pool needs a GEMS approval before staking an amount
+   * @param amountInWei - Amount in token units
+   */
+  async needsApproval(amountInWei: bigint): Promise<boolean> {
+    const signer = await this.getSigner();
+    const gemsToken = getGEMSTokenContract(signer, await this.contract.gemsToken());
+    const allowance = await gemsToken.allowance(await signer.getAddress(), this.contract.target as string);
+    return allowance < amountInWei;
+  }
+
+  /**
+   * Approves the pool to spend GEMS
+   * @param amountInWei - Amount in token units
+   * @returns Transaction response
+   */
+  async approve(amountInWei: bigint): Promise<ethers.TransactionResponse> {
+    const signer = await this.getSigner();
+    const gemsToken = getGEMSTokenContract(signer, await this.contract.gemsToken());
+    return gemsToken.approve(this.contract.target as string, amountInWei);
+  }
+
+  /**
+   * Stakes GEMS; the pool must already be approved for the amount
+   * @param amountInWei - Amount in token units
+   * @returns Transaction response
+   */
+  async stake(amountInWei: bigint): Promise<ethers.TransactionResponse> {
+    const signer = await this.getSigner();
+    return this.contract.connect(signer).stake(amountInWei);
+  }
+
+  /**
+   * Ensures the minimum staking period has elapsed on-chain for the signer
+   * @private
+   */
+  private async assertStakingPeriodComplete(user: string, action: string): Promise<void> {
+    const position = await this.getPosition(user);
+    if (position.stakedAt === 0) {
+      throw new Error('You have no GEMS staked');
+    }
+    if (!position.isStakingPeriodComplete) {
+      const hours = Math.ceil((position.unlocksAt - position.chainTime) / 3600);
+      throw new Error(`You must stake for at least ${position.minStakingPeriod / 3600} hours before ${action} (about ${hours}h left)`);
+    }
+  }
+
+  /**
+   * Unstakes the full position, paying out any accrued GEMX
+   * @returns Transaction response
+   */
+  async unstake(): Promise<ethers.TransactionResponse> {
+    const signer = await this.getSigner();
+    await this.assertStakingPeriodComplete(await signer.getAddress(), 'unstaking');
+    return this.contract.connect(signer).unstake();
+  }
+
+  /**
+   * Claims accrued GEMX rewards without unstaking
+   * @returns Transaction response
+   */
+  async claimRewards(): Promise<ethers.TransactionResponse> {
+    const signer = await this.getSigner();
+    await this.assertStakingPeriodComplete(await signer.getAddress(), 'claiming rewards');
+    return this.contract.connect(signer).claimRewards();
+  }
+}
+
+export default GemxStakingService;
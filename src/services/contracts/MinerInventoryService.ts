@@ -0,0 +1,424 @@
+/**
+ * @title MinerInventoryService
+ * @notice Finds the Miner NFTs a wallet holds and prepares them for display and staking
+ * @dev Ownership is discovered by explicit, ordered strategies: the MinerRegistry's tokensOfOwner,
+ * @dev ERC721Enumerable's tokenOfOwnerByIndex and an index of Transfer logs checkpointed in IndexedDB.
+ * @dev Strategies run until the verified tokens match balanceOf; each reports which source it used
+ * @dev and how stale that source was. Tokens are reported through onProgress as soon as they are
+ * @dev verified, then again once their metadata resolves, so large wallets render incrementally.
+ * @dev Miners the registry does not list under the wallet are flagged for repair before staking.
+ */
+
+import { ethers } from 'ethers';
+import { getMinerNFTContract, MinerNFTContract } from '../../contracts/clients/MinerNFT';
+import { getOptionalEventsStartBlock } from '../../config/contracts';
+import { createCheckpointedScanner, ScanSnapshot } from '../../lib/logScanner';
+import MinerMetadataService, { MinerAttribute, MinerMetadata, defaultMinerMetadata } from '../MinerMetadataService';
+import RegistryHealingService from './RegistryHealingService';
+import RegistryService from './RegistryService';
+
+// Parallel RPC calls per strategy
+const READ_CONCURRENCY = 8;
+
+// Standard ERC-721 event; the generated MinerNFT ABI omits events
+const TRANSFER_EVENT = ethers.id('Transfer(address,address,uint256)');
+
+/**
+ * Miner NFT held by a wallet
+ */
+export interface NFT {
+  id: number | string;     // Token ID (can be number or string)
+  tokenId?: string;        // Token ID as string for compatibility
+  name?: string;           // Display name
+  image?: string;          // Image URL
+  tokenURI?: string;       // Token URI for metadata
+  imageFallbacks?: string[]; // Other gateways serving the image
+  attributes?: MinerAttribute[]; // Traits from the token metadata
+  isApproved?: boolean;    // Whether token is approved for staking
+}
+
+export type InventorySource = 'registry' | 'enumerable' | 'transferLogs';
+
+/**
+ * Outcome of one discovery strategy
+ */
+export interface StrategyReport {
+  source: InventorySource;
+  status: 'complete' | 'partial' | 'failed' | 'unavailable' | 'skipped';
+  found: number;                // Verified tokens returned by this source
+  staleEntries: number;         // Tokens the source listed that the wallet no longer holds
+  asOfBlock: number | null;     // Block the source's answer reflects
+  blocksBehind: number;         // Chain head minus asOfBlock
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Miners found so far, reported while discovery and metadata loading are in progress
+ */
+export interface InventoryProgress {
+  miners: NFT[];
+  balance: number;              // balanceOf, the number of miners expected
+  source: InventorySource | null;  // Strategy currently running
+}
+
+export interface InventoryResult {
+  miners: NFT[];                // Sorted by token ID
+  balance: number;
+  complete: boolean;            // Every token counted by balanceOf was found
+  source: InventorySource | null;  // Strategy that completed the set, null if none did
+  blockNumber: number;
+  reports: StrategyReport[];
+  unregistered: number[];       // Miners the registry does not list under the owner (see RegistryHealingService)
+}
+
+/**
+ * Context handed to each strategy
+ */
+export interface DiscoveryContext {
+  owner: string;
+  balance: number;
+  blockNumber: number;
+  nft: MinerNFTContract;
+  provider: ethers.Provider;
+  // Reports a token the owner verifiably holds
+  onToken: (tokenId: number) => void;
+}
+
+/**
+ * What a strategy found; verified tokens are reported through DiscoveryContext.onToken
+ */
+export interface DiscoveryOutcome {
+  found: number;
+  staleEntries: number;
+  asOfBlock: number | null;
+}
+
+/**
+ * One way of listing a wallet's miners
+ */
+export interface DiscoveryStrategy {
+  readonly source: InventorySource;
+  isAvailable(): boolean;
+  discover(context: DiscoveryContext): Promise<DiscoveryOutcome>;
+}
+
+/**
+ * Runs `run` over `items` with at most `limit` calls in flight
+ */
+async function forEachConcurrent<T>(items: T[], limit: number, run: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await run(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Reports the candidates the owner still holds
+ * @returns Number of candidates the owner no longer holds
+ */
+async function verifyOwnership(context: DiscoveryContext, candidates: number[]): Promise<number> {
+  let stale = 0;
+  await forEachConcurrent(candidates, READ_CONCURRENCY, async (tokenId) => {
+    try {
+      const owner = await context.nft.ownerOf(tokenId);
+      if (owner.toLowerCase() === context.owner.toLowerCase()) {
+        context.onToken(tokenId);
+        return;
+      }
+    } catch {
+      // Burned or never minted
+    }
+    stale++;
+  });
+  return stale;
+}
+
+/**
+ * MinerRegistry.tokensOfOwner (new and old registries), verified against ownerOf
+ * since registry entries are only updated when ownership is healed
+ */
+export class RegistryDiscovery implements DiscoveryStrategy {
+  readonly source = 'registry' as const;
+  private registry: RegistryService;
+
+  constructor(provider: ethers.Provider) {
+    this.registry = new RegistryService(provider);
+  }
+
+  isAvailable(): boolean {
+    return this.registry.hasAnyRegistry();
+  }
+
+  async discover(context: DiscoveryContext): Promise<DiscoveryOutcome> {
+    const candidates = await this.registry.getTokensOfOwner(context.owner);
+    const staleEntries = await verifyOwnership(context, candidates);
+    return { found: candidates.length - staleEntries, staleEntries, asOfBlock: context.blockNumber };
+  }
+}
+
+/**
+ * ERC721Enumerable.tokenOfOwnerByIndex, read in parallel
+ */
+export class EnumerableDiscovery implements DiscoveryStrategy {
+  readonly source = 'enumerable' as const;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async discover(context: DiscoveryContext): Promise<DiscoveryOutcome> {
+    const indexes = Array.from({ length: context.balance }, (_, index) => index);
+    let found = 0;
+    await forEachConcurrent(indexes, READ_CONCURRENCY, async (index) => {
+      const tokenId = await context.nft.tokenOfOwnerByIndex(context.owner, index);
+      found++;
+      context.onToken(Number(tokenId));
+    });
+    return { found, staleEntries: 0, asOfBlock: context.blockNumber };
+  }
+}
+
+interface OwnershipSnapshot extends ScanSnapshot {
+  tokenIds: number[];
+}
+
+const ownershipScanner = createCheckpointedScanner<OwnershipSnapshot>({
+  dbName: 'mining-masters-miner-ownership',
+  label: 'ownership index',
+  version: 1,
+  empty: () => ({ tokenIds: [] }),
+});
+
+/**
+ * Replays the owner's incoming and outgoing Transfer logs from VITE_{NETWORK}_EVENTS_START_BLOCK,
+ * checkpointed per chunk. Tokens received in unconfirmed blocks are not indexed yet.
+ */
+export class TransferLogDiscovery implements DiscoveryStrategy {
+  readonly source = 'transferLogs' as const;
+
+  isAvailable(): boolean {
+    return getOptionalEventsStartBlock() !== null;
+  }
+
+  async discover(context: DiscoveryContext): Promise<DiscoveryOutcome> {
+    const network = await context.provider.getNetwork();
+    const address = String(context.nft.target);
+    const key = `${network.chainId}:${address.toLowerCase()}:${context.owner.toLowerCase()}`;
+
+    const snapshot = await ownershipScanner.sync(key, {
+      head: () => context.blockNumber,
+      fetch: (fromBlock, toBlock) => this.fetchRange(context, address, fromBlock, toBlock),
+      apply: (current, logs) => {
+        const owned = new Set(current.tokenIds);
+        for (const log of logs) {
+          const tokenId = Number(BigInt(log.topics[3]));
+          if (ethers.dataSlice(log.topics[2], 12).toLowerCase() === context.owner.toLowerCase()) {
+            owned.add(tokenId);
+          } else {
+            owned.delete(tokenId);
+          }
+        }
+        current.tokenIds = [...owned];
+      },
+    });
+
+    const candidates = snapshot.tokenIds;
+    const staleEntries = await verifyOwnership(context, candidates);
+    return { found: candidates.length - staleEntries, staleEntries, asOfBlock: snapshot.lastIndexedBlock };
+  }
+
+  /**
+   * Transfers into and out of the owner's wallet in a block range, in chain order
+   * @private
+   */
+  private async fetchRange(context: DiscoveryContext, address: string, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    const ownerTopic = ethers.zeroPadValue(context.owner, 32);
+    const [outgoing, incoming] = await Promise.all([
+      context.provider.getLogs({ address, fromBlock, toBlock, topics: [TRANSFER_EVENT, ownerTopic] }),
+      context.provider.getLogs({ address, fromBlock, toBlock, topics: [TRANSFER_EVENT, null, ownerTopic] }),
+    ]);
+    return [...outgoing, ...incoming].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+}
+
+export class MinerInventoryService {
+  private provider: ethers.Provider;
+  private nft: MinerNFTContract;
+  private metadata: MinerMetadataService;
+  private registryHealing: RegistryHealingService;
+  private strategies: DiscoveryStrategy[];
+
+  /**
+   * Creates a new MinerInventoryService instance
+   * @param provider - Ethers provider (a BrowserProvider for approvals)
+   * @param strategies - Discovery strategies in the order to try them; defaults to registry, Enumerable, Transfer logs
+   */
+  constructor(provider: ethers.Provider, strategies?: DiscoveryStrategy[]) {
+    this.provider = provider;
+    this.nft = getMinerNFTContract(provider);
+    this.metadata = new MinerMetadataService(provider);
+    this.registryHealing = new RegistryHealingService(provider);
+    this.strategies = strategies ?? [
+      new RegistryDiscovery(provider),
+      new EnumerableDiscovery(),
+      new TransferLogDiscovery(),
+    ];
+  }
+
+  /**
+   * Lists the miners a wallet holds, with their metadata
+   * @param owner - Wallet address
+   * @param onProgress - Optional callback invoked whenever a miner is found or its metadata resolves
+   */
+  async getOwnedMiners(owner: string, onProgress?: (progress: InventoryProgress) => void): Promise<InventoryResult> {
+    const [balanceRaw, blockNumber] = await Promise.all([this.nft.balanceOf(owner), this.provider.getBlockNumber()]);
+    const balance = Number(balanceRaw);
+
+    const miners = new Map<number, NFT>();
+    const metadataLoads: Promise<void>[] = [];
+    let running: InventorySource | null = null;
+    const sortedMiners = () => [...miners.values()].sort((a, b) => Number(a.id) - Number(b.id));
+    const report = () => onProgress?.({ miners: sortedMiners(), balance, source: running });
+
+    const onToken = (tokenId: number) => {
+      if (miners.has(tokenId)) return;
+      miners.set(tokenId, MinerInventoryService.toNFT(defaultMinerMetadata(tokenId)));
+      report();
+      metadataLoads.push(
+        this.metadata.getMetadata(tokenId).then((metadata) => {
+          miners.set(tokenId, MinerInventoryService.toNFT(metadata));
+          report();
+        })
+      );
+    };
+
+    const reports: StrategyReport[] = [];
+    let source: InventorySource | null = null;
+    for (const strategy of this.strategies) {
+      const strategyReport: StrategyReport = {
+        source: strategy.source,
+        status: 'skipped',
+        found: 0,
+        staleEntries: 0,
+        asOfBlock: null,
+        blocksBehind: 0,
+        durationMs: 0,
+      };
+      reports.push(strategyReport);
+
+      if (miners.size >= balance) continue;
+      if (!strategy.isAvailable()) {
+        strategyReport.status = 'unavailable';
+        continue;
+      }
+
+      running = strategy.source;
+      const startedAt = Date.now();
+      try {
+        const outcome = await strategy.discover({ owner, balance, blockNumber, nft: this.nft, provider: this.provider, onToken });
+        strategyReport.found = outcome.found;
+        strategyReport.staleEntries = outcome.staleEntries;
+        strategyReport.asOfBlock = outcome.asOfBlock;
+        strategyReport.blocksBehind = outcome.asOfBlock === null ? 0 : Math.max(0, blockNumber - outcome.asOfBlock);
+        strategyReport.status = miners.size >= balance ? 'complete' : 'partial';
+        if (strategyReport.status === 'complete') source = strategy.source;
+      } catch (error) {
+        console.warn(`Miner discovery via ${strategy.source} failed:`, error);
+        strategyReport.status = 'failed';
+        strategyReport.error = error instanceof Error ? error.message : String(error);
+      }
+      strategyReport.durationMs = Date.now() - startedAt;
+    }
+    running = null;
+
+    const [unregistered] = await Promise.all([
+      this.registryHealing.findUnregistered(owner, [...miners.keys()].sort((a, b) => a - b)),
+      ...metadataLoads,
+    ]);
+    if (miners.size < balance) {
+      console.warn(`Found ${miners.size} of ${balance} miners held by ${owner}`);
+    }
+
+    return { miners: sortedMiners(), balance, complete: miners.size >= balance, source, blockNumber, reports, unregistered };
+  }
+
+  /**
+   * Approve the staking contract to transfer a specific NFT
+   * @param tokenId - Token ID to approve
+   * @param stakingContractAddress - Address of the staking contract
+   * @returns Transaction response
+   */
+  async approveNFT(tokenId: number, stakingContractAddress: string): Promise<ethers.TransactionResponse> {
+    const signer = await this.getSigner();
+    if (!signer) {
+      throw new Error('No signer available');
+    }
+    return this.nft.connect(signer).approve(stakingContractAddress, tokenId);
+  }
+
+  /**
+   * Check if a token is approved for the staking contract
+   * @param tokenId - Token ID to check
+   * @param stakingContractAddress - Address of the staking contract
+   * @returns Boolean indicating if the token is approved
+   */
+  async isApprovedForStaking(tokenId: number, stakingContractAddress: string): Promise<boolean> {
+    try {
+      const approved = await this.nft.getApproved(tokenId);
+      return approved.toLowerCase() === stakingContractAddress.toLowerCase();
+    } catch (error) {
+      console.error('Error checking approval status:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if an address owns a specific NFT
+   * @param ownerAddress - Address to check
+   * @param tokenId - Token ID to check ownership for
+   * @returns Boolean indicating if the address owns the NFT
+   */
+  async ownsNFT(ownerAddress: string, tokenId: number): Promise<boolean> {
+    try {
+      const owner = await this.nft.ownerOf(tokenId);
+      return owner.toLowerCase() === ownerAddress.toLowerCase();
+    } catch {
+      // The token does not exist
+      return false;
+    }
+  }
+
+  /**
+   * Get a signer for transactions
+   * @private
+   */
+  private async getSigner(): Promise<ethers.Signer | null> {
+    if (this.provider instanceof ethers.BrowserProvider) {
+      try {
+        return await this.provider.getSigner();
+      } catch (error) {
+        console.error('Failed to get signer:', error);
+      }
+    }
+    return null;
+  }
+
+  private static toNFT(metadata: MinerMetadata): NFT {
+    return {
+      id: metadata.tokenId,
+      tokenId: metadata.tokenId.toString(),
+      name: metadata.name,
+      image: metadata.image,
+      imageFallbacks: metadata.imageFallbacks,
+      attributes: metadata.attributes,
+      tokenURI: metadata.tokenURI ?? undefined,
+      isApproved: false,
+    };
+  }
+}
+
+export default MinerInventoryService;
@@ -0,0 +1,209 @@
+/**
+ * @title MulticallService
+ * @notice Batches read-only contract calls into as few RPC round trips as possible
+ * @dev Uses Multicall3.aggregate3 when the aggregator is deployed on the connected chain
+ * @dev and falls back to chunked parallel eth_calls otherwise
+ */
+
+import { ethers } from 'ethers';
+import type { BaseContract, ContractTransactionResponse } from 'ethers';
+import { getMulticall3Contract, Multicall3Contract } from '../../contracts/clients/Multicall3';
+
+// Calls per aggregate3 request; keeps each eth_call well under node gas caps
+const MULTICALL_CHUNK_SIZE = 100;
+// Concurrent eth_calls when multicall is unavailable
+const FALLBACK_CONCURRENCY = 10;
+
+// View methods resolve to their decoded result; state-changing methods resolve to a transaction response
+type ReadMethodName<C> = {
+  [K in keyof C]: C[K] extends { staticCall: (...args: never) => Promise<unknown> } & ((...args: never) => Promise<infer D>)
+    ? D extends ContractTransactionResponse ? never : K
+    : never;
+}[keyof C] & string;
+
+type ReadMethodArgs<C, K extends keyof C> = C[K] extends { staticCall: (...args: infer A) => Promise<unknown> } ? A : never;
+
+type ReadMethodResult<C, K extends keyof C> = C[K] extends { staticCall: (...args: never) => Promise<infer R> } ? R : never;
+
+/**
+ * A single encoded read, carrying the decoder for its typed result
+ */
+export interface ContractCall<R> {
+  target: string;
+  callData: string;
+  label: string;
+  decode: (returnData: string) => R;
+}
+
+/**
+ * Outcome of one call in a batch; failures never reject the whole batch
+ */
+export type CallResult<R> =
+  | { success: true; value: R }
+  | { success: false; error: Error };
+
+/**
+ * Encodes a typed view call for batching
+ * @param contract - Typed contract client
+ * @param method - View method name
+ * @param args - Method arguments
+ * @returns Encoded call with a decoder for the method's return type
+ */
+export function encodeCall<C extends Omit<BaseContract, 'connect' | 'filters'>, K extends ReadMethodName<C>>(
+  contract: C,
+  method: K,
+  args: ReadMethodArgs<C, K>
+): ContractCall<ReadMethodResult<C, K>> {
+  if (typeof contract.target !== 'string') {
+    throw new Error('encodeCall requires a contract created with a plain address');
+  }
+
+  const fragment = contract.interface.getFunction(method);
+  if (!fragment) {
+    throw new Error(`Method ${method} not found in contract ABI`);
+  }
+
+  return {
+    target: contract.target,
+    callData: contract.interface.encodeFunctionData(fragment, args as unknown[]),
+    label: `${method}(${(args as unknown[]).map(String).join(',')})`,
+    decode: (returnData: string) => {
+      const result = contract.interface.decodeFunctionResult(fragment, returnData);
+      // Match ethers' Contract behaviour: single outputs are unwrapped, multiple outputs stay a Result
+      return (fragment.outputs.length === 1 ? result[0] : result) as ReadMethodResult<C, K>;
+    },
+  };
+}
+
+/**
+ * Returns the value of a successful call or throws its error
+ * @param result - Batched call result
+ */
+export function unwrapCall<R>(result: CallResult<R>): R {
+  if (!result.success) {
+    throw result.error;
+  }
+  return result.value;
+}
+
+export class MulticallService {
+  private provider: ethers.Provider;
+  private multicall: Multicall3Contract;
+
+  // Multicall3 deployment status per chain/address, shared across instances
+  private static availability: Map<string, Promise<boolean>> = new Map();
+
+  /**
+   * Creates a new MulticallService instance
+   * @param provider - Ethers provider used for all reads
+   * @param multicallAddress - Optional Multicall3 address override
+   */
+  constructor(provider: ethers.Provider, multicallAddress?: string) {
+    this.provider = provider;
+    this.multicall = multicallAddress
+      ? getMulticall3Contract(provider, multicallAddress)
+      : getMulticall3Contract(provider);
+  }
+
+  /**
+   * Checks whether Multicall3 is deployed on the connected chain
+   * @returns True if aggregate3 can be used
+   */
+  async isMulticallAvailable(): Promise<boolean> {
+    const network = await this.provider.getNetwork();
+    const key = `${network.chainId}:${String(this.multicall.target).toLowerCase()}`;
+
+    let available = MulticallService.availability.get(key);
+    if (!available) {
+      available = this.provider
+        .getCode(this.multicall.target as string)
+        .then((code) => code !== '0x')
+        .catch(() => false);
+      MulticallService.availability.set(key, available);
+    }
+    return available;
+  }
+
+  /**
+   * Executes a list of reads in as few requests as possible
+   * @param calls - Encoded calls (see encodeCall)
+   * @returns Per-call results in the same order as the input
+   */
+  async aggregate<R>(calls: ContractCall<R>[]): Promise<CallResult<R>[]> {
+    if (calls.length === 0) return [];
+
+    if (await this.isMulticallAvailable()) {
+      try {
+        return await this.aggregateWithMulticall(calls);
+      } catch (error) {
+        console.warn('Multicall aggregate3 failed, falling back to parallel reads:', error);
+      }
+    }
+
+    return this.aggregateWithParallelCalls(calls);
+  }
+
+  /**
+   * Executes calls through Multicall3.aggregate3 in chunks
+   * @private
+   */
+  private async aggregateWithMulticall<R>(calls: ContractCall<R>[]): Promise<CallResult<R>[]> {
+    const chunks: ContractCall<R>[][] = [];
+    for (let i = 0; i < calls.length; i += MULTICALL_CHUNK_SIZE) {
+      chunks.push(calls.slice(i, i + MULTICALL_CHUNK_SIZE));
+    }
+
+    const chunkResults = await Promise.all(
+      chunks.map(async (chunk) => {
+        const responses = await this.multicall.aggregate3.staticCall(
+          chunk.map((call) => ({ target: call.target, allowFailure: true, callData: call.callData }))
+        );
+        return chunk.map((call, i) => this.decodeResult(call, responses[i].success, responses[i].returnData));
+      })
+    );
+
+    return chunkResults.flat();
+  }
+
+  /**
+   * Executes calls as individual eth_calls with bounded concurrency
+   * @private
+   */
+  private async aggregateWithParallelCalls<R>(calls: ContractCall<R>[]): Promise<CallResult<R>[]> {
+    const results: CallResult<R>[] = [];
+
+    for (let i = 0; i < calls.length; i += FALLBACK_CONCURRENCY) {
+      const chunk = calls.slice(i, i + FALLBACK_CONCURRENCY);
+      const chunkResults = await Promise.all(
+        chunk.map(async (call) => {
+          try {
+            const returnData = await this.provider.call({ to: call.target, data: call.callData });
+            return this.decodeResult(call, true, returnData);
+          } catch (error) {
+            return { success: false as const, error: error instanceof Error ? error : new Error(String(error)) };
+          }
+        })
+      );
+      results.push(...chunkResults);
+    }
+
+    return results;
+  }
+
+  /**
+   * Decodes raw return data into a typed call result
+   * @private
+   */
+  private decodeResult<R>(call: ContractCall<R>, success: boolean, returnData: string): CallResult<R> {
+    if (!success) {
+      return { success: false, error: new Error(`Call ${call.label} reverted`) };
+    }
+    try {
+      return { success: true, value: call.decode(returnData) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  }
+}
+
+export default MulticallService;
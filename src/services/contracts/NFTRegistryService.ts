@@ -1,14 +1,6 @@
 import { ethers } from 'ethers';
-import { NFT } from './NFTServiceFixed';
-
-// ABI for MinerNFTRegistry - include only the functions we need
-const NFT_REGISTRY_ABI = [
-  'function tokensOfOwner(address owner) view returns (uint256[])',
-  'function balanceOf(address owner) view returns (uint256)',
-  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
-  'function isTokenRegistered(address owner, uint256 tokenId) view returns (bool)',
-  'function updateTokenOwnership(uint256 tokenId) external'
-];
+import { getMinerRegistryContract, MinerRegistryContract } from '../../contracts/clients/MinerRegistry';
+import { NFT } from './MinerInventoryService';
 
 // ABI for MinerNFT - needed to fetch tokenURI
 const MINER_NFT_ABI = [
@@ -23,7 +15,7 @@ const MINER_NFT_ABI = [
 export class NFTRegistryService {
   private provider: ethers.Provider | null = null;
   private signer: ethers.Signer | null = null;
-  private registryContract: ethers.Contract | null = null;
+  private registryContract: MinerRegistryContract | null = null;
   private nftContract: ethers.Contract | null = null;
   private isInitialized = false;
   private registryAddress: string;
@@ -47,7 +39,7 @@ export class NFTRegistryService {
   public initialize(provider: ethers.Provider, signer: ethers.Signer): void {
     this.provider = provider;
     this.signer = signer;
-    this.registryContract = new ethers.Contract(this.registryAddress, NFT_REGISTRY_ABI, this.signer);
+    this.registryContract = getMinerRegistryContract(this.signer, this.registryAddress);
     this.nftContract = new ethers.Contract(this.nftAddress, MINER_NFT_ABI, this.signer);
     this.isInitialized = true;
   }
@@ -81,7 +73,7 @@ export class NFTRegistryService {
           // If the registry data is outdated, update it
           if (actualOwner.toLowerCase() !== ownerAddress.toLowerCase()) {
             console.log(`Ownership mismatch for token ${tokenId}, updating registry`);
-            await this.registryContract.updateTokenOwnership(tokenId);
+            await this.registryContract.updateTokenOwnership(ownerAddress, actualOwner, tokenId);
             continue; // Skip this token as it's not owned by the user
           }
           
@@ -110,15 +102,17 @@ export class NFTRegistryService {
    * Update token ownership in the registry
    * Call this after transfers to keep the registry up to date
    * @param tokenId The token ID to update
+   * @param previousOwner The holder the registry still lists the token under, zero address if none
    */
-  public async updateTokenOwnership(tokenId: string): Promise<void> {
-    if (!this.isInitialized || !this.registryContract) {
+  public async updateTokenOwnership(tokenId: string, previousOwner: string = ethers.ZeroAddress): Promise<void> {
+    if (!this.isInitialized || !this.registryContract || !this.nftContract) {
       console.error('NFTRegistryService not initialized');
       return;
     }
     
     try {
-      const tx = await this.registryContract.updateTokenOwnership(tokenId);
+      const currentOwner = await this.nftContract.ownerOf(tokenId);
+      const tx = await this.registryContract.updateTokenOwnership(previousOwner, currentOwner, tokenId);
       await tx.wait();
       console.log(`Updated ownership for token ${tokenId} in registry`);
     } catch (error) {
@@ -154,15 +148,9 @@ export class NFTRegistryService {
 // export const useNFTRegistryService = () => {
 //   const { provider, signer, chainId } = useRoninWalletContext();
   
-//   // Select the right addresses based on network
-//   const network = import.meta.env.VITE_NETWORK_ENV || 'mainnet';
-//   const registryAddress = network === 'mainnet' 
-//     ? import.meta.env.VITE_MAINNET_MINER_REGISTRY_ADDRESS
-//     : import.meta.env.VITE_TESTNET_MINER_REGISTRY_ADDRESS;
-  
-//   const nftAddress = network === 'mainnet'
-//     ? import.meta.env.VITE_MAINNET_MINER_NFT_ADDRESS
-//     : import.meta.env.VITE_TESTNET_MINER_NFT_ADDRESS;
+//   // Addresses of the active network (see config/contracts)
+//   const registryAddress = getContractAddress('MinerRegistry');
+//   const nftAddress = getContractAddress('MinerNFT');
     
 //   const service = new NFTRegistryService(registryAddress, nftAddress);
   
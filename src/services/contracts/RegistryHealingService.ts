@@ -0,0 +1,168 @@
+/**
+ * @title RegistryHealingService
+ * @notice Detects and repairs MinerRegistry entries that disagree with MinerNFT ownership
+ * @dev A token diverges when the wallet holds it (ownerOf) but the new registry does not list it
+ * @dev under that wallet, which makes staking revert. The repair is a single updateTokenOwnership
+ * @dev call moving the entry from the holder the registry still knows (found from the wallet's
+ * @dev last incoming Transfer) or, failing that, from the zero address as for a fresh mint.
+ */
+
+import { ethers } from 'ethers';
+import { getOptionalContractAddress, getOptionalEventsStartBlock } from '../../config/contracts';
+import { getMinerNFTContract, MinerNFTContract } from '../../contracts/clients/MinerNFT';
+import { getMinerRegistryContract, MinerRegistryContract } from '../../contracts/clients/MinerRegistry';
+import { scanBlocks } from '../../lib/logScanner';
+
+// How far back to look for the transfer that brought a token into the wallet
+const TRANSFER_LOOKBACK_BLOCKS = 200_000;
+
+// Standard ERC-721 event; the generated MinerNFT ABI omits events
+const TRANSFER_EVENT = ethers.id('Transfer(address,address,uint256)');
+
+/**
+ * A token the wallet holds that the new registry does not list under it
+ */
+export interface RegistryDivergence {
+  tokenId: number;
+  owner: string;                  // Current ownerOf
+  registeredTo: string | null;    // Former holder the registry still lists the token under, if found
+}
+
+/**
+ * Error thrown when a stake failed because the registry is out of date for the token
+ */
+export class RegistryDivergenceError extends Error {
+  readonly divergence: RegistryDivergence;
+
+  constructor(divergence: RegistryDivergence) {
+    super(`Miner #${divergence.tokenId} is not registered to your wallet in the miner registry`);
+    this.name = 'RegistryDivergenceError';
+    this.divergence = divergence;
+  }
+}
+
+export class RegistryHealingService {
+  private provider: ethers.Provider;
+  private nft: MinerNFTContract;
+  private registry: MinerRegistryContract | null = null;
+
+  /**
+   * Creates a new RegistryHealingService instance
+   * @param provider - Ethers provider (a BrowserProvider to repair)
+   */
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+    this.nft = getMinerNFTContract(provider);
+
+    const registryAddress = getOptionalContractAddress('MinerRegistry');
+    if (registryAddress) {
+      this.registry = getMinerRegistryContract(provider, registryAddress);
+    }
+  }
+
+  /**
+   * Whether a registry is configured on the active network
+   */
+  isAvailable(): boolean {
+    return this.registry !== null;
+  }
+
+  /**
+   * Checks whether the registry disagrees with ownerOf for a token the wallet holds
+   * @param owner - Wallet address
+   * @param tokenId - Token ID to check
+   * @returns The divergence, or null if the entry is correct, the wallet does not hold the token or no registry is configured
+   */
+  async diagnose(owner: string, tokenId: number): Promise<RegistryDivergence | null> {
+    if (!this.registry) return null;
+
+    let holder: string;
+    try {
+      holder = await this.nft.ownerOf(tokenId);
+    } catch {
+      // Burned or never minted
+      return null;
+    }
+    if (holder.toLowerCase() !== owner.toLowerCase()) return null;
+    if (await this.registry.isTokenRegistered(holder, tokenId)) return null;
+
+    return { tokenId, owner: ethers.getAddress(holder), registeredTo: await this.findRegisteredHolder(holder, tokenId) };
+  }
+
+  /**
+   * Lists the tokens the registry does not list under their owner
+   * @param owner - Wallet address holding the tokens
+   * @param tokenIds - Tokens the wallet verifiably holds
+   * @returns Token IDs missing from the owner's registry entries, empty without a registry
+   */
+  async findUnregistered(owner: string, tokenIds: number[]): Promise<number[]> {
+    const registry = this.registry;
+    if (!registry) return [];
+
+    const registered = await Promise.all(
+      tokenIds.map((tokenId) =>
+        registry.isTokenRegistered(owner, tokenId).catch((error) => {
+          console.warn(`Error checking registry entry for token #${tokenId}:`, error);
+          // Unknown is not reported as divergent
+          return true;
+        })
+      )
+    );
+    return tokenIds.filter((_, index) => !registered[index]);
+  }
+
+  /**
+   * Sends the updateTokenOwnership call that fixes a divergence
+   * @param divergence - Result of diagnose
+   * @returns Transaction response
+   */
+  async repair(divergence: RegistryDivergence): Promise<ethers.TransactionResponse> {
+    if (!this.registry) {
+      throw new Error('MinerRegistry is not configured on this network');
+    }
+    if (!(this.provider instanceof ethers.BrowserProvider)) {
+      throw new Error('Repairing the registry requires a connected wallet');
+    }
+
+    const signer = await this.provider.getSigner();
+    return this.registry.connect(signer).updateTokenOwnership(divergence.registeredTo ?? ethers.ZeroAddress, divergence.owner, divergence.tokenId);
+  }
+
+  /**
+   * Finds the former holder the registry still lists the token under, from the owner's most
+   * recent incoming Transfer of the token
+   * @private
+   */
+  private async findRegisteredHolder(owner: string, tokenId: number): Promise<string | null> {
+    const head = await this.provider.getBlockNumber();
+    const lowest = Math.max(getOptionalEventsStartBlock() ?? 0, head - TRANSFER_LOOKBACK_BLOCKS);
+    const topics = [TRANSFER_EVENT, null, ethers.zeroPadValue(owner, 32), ethers.toBeHex(tokenId, 32)];
+
+    let latest: ethers.Log | undefined;
+    try {
+      await scanBlocks({
+        fromBlock: lowest,
+        toBlock: head,
+        direction: 'backward',
+        label: `Transfer lookup of token #${tokenId}`,
+        fetch: (fromBlock, toBlock) => this.provider.getLogs({ address: String(this.nft.target), fromBlock, toBlock, topics }),
+        onChunk: (logs) => {
+          latest = logs[logs.length - 1];
+          return latest !== undefined;
+        },
+      });
+    } catch (error) {
+      console.warn(`Could not look up the transfer history of token #${tokenId}:`, error);
+      return null;
+    }
+
+    if (latest) {
+      const from = ethers.getAddress(ethers.dataSlice(latest.topics[1], 12));
+      if (from === ethers.ZeroAddress) return null;
+      return (await this.registry!.isTokenRegistered(from, tokenId)) ? from : null;
+    }
+    return null;
+  }
+}
+
+export default RegistryHealingService;
@@ -0,0 +1,469 @@
+/**
+ * @title RegistryMigrationService
+ * @notice Audits the old and new MinerNFT registries against MinerNFT ownership and heals the new one
+ * @dev A scan covers a token ID range or a list of wallets. Every token is checked with ownerOf and
+ * @dev isTokenRegistered(owner, tokenId) in both registries; wallet scans also read tokensOfOwner to
+ * @dev find entries left under former owners. Reads are batched through MulticallService. Healing
+ * @dev sends updateTokenOwnership to the new registry in batches and checkpoints every transaction in
+ * @dev IndexedDB, so an interrupted run resumes where it stopped. The old registry is read-only here.
+ */
+
+import { ethers } from 'ethers';
+import { getOptionalContractAddress } from '../../config/contracts';
+import { getMinerNFTContract, MinerNFTContract } from '../../contracts/clients/MinerNFT';
+import { getMinerRegistryContract, MinerRegistryContract } from '../../contracts/clients/MinerRegistry';
+import { createIdbStore } from '../../lib/idbStore';
+import MulticallService, { CallResult, encodeCall } from './MulticallService';
+
+// Tokens checked per multicall round
+const SCAN_CHUNK_SIZE = 100;
+export const DEFAULT_HEAL_BATCH_SIZE = 10;
+// Bump when the job shape changes to discard incompatible checkpoints
+const JOB_VERSION = 1;
+
+export type RegistryKey = 'old' | 'new';
+
+/**
+ * What a registry says about a token's current owner
+ */
+export type RegistryStatus =
+  | 'registered'     // Registered to the current owner
+  | 'missing'        // Not registered to the current owner
+  | 'stale'          // Still listed under a former owner
+  | 'unconfigured'   // Registry address not set on this network
+  | 'error';         // Read failed
+
+export type AuditIssue = 'missingInNew' | 'missingInOld' | 'staleInNew' | 'staleInOld' | 'mismatched';
+
+export interface TokenAudit {
+  tokenId: number;
+  owner: string | null;                       // null when the token does not exist
+  registries: Record<RegistryKey, RegistryStatus>;
+  staleOwners: Record<RegistryKey, string[]>; // Former owners a registry still lists the token under
+  issues: AuditIssue[];
+}
+
+export type AuditTarget =
+  | { kind: 'range'; from: number; to: number }
+  | { kind: 'wallets'; wallets: string[] };
+
+export interface AuditSummary {
+  scanned: number;
+  healthy: number;
+  missing: number;
+  mismatched: number;
+  stale: number;
+  nonexistent: number;
+}
+
+export interface AuditReport {
+  target: AuditTarget;
+  chainId: number;
+  blockNumber: number;
+  tokens: TokenAudit[];
+  summary: AuditSummary;
+  finishedAt: number;                         // Unix milliseconds
+}
+
+export interface ScanProgress {
+  scanned: number;
+  total: number;
+}
+
+export type HealStatus = 'pending' | 'sent' | 'confirmed' | 'failed';
+
+/**
+ * One updateTokenOwnership call on the new registry
+ */
+export interface HealAction {
+  tokenId: number;
+  from: string;                               // Former owner, or the zero address to register a missing token
+  to: string;
+  status: HealStatus;
+  txHash: string | null;
+  error: string | null;
+}
+
+export interface HealingJob {
+  version: number;
+  id: string;
+  chainId: number;
+  registry: string;
+  createdAt: number;                          // Unix milliseconds
+  updatedAt: number;
+  actions: HealAction[];
+}
+
+export interface HealProgress {
+  confirmed: number;
+  failed: number;
+  pending: number;                            // Not confirmed or failed yet
+  total: number;
+  batch: number;                              // 1-based batch being processed
+  batches: number;
+}
+
+export interface ReconciliationReport {
+  jobId: string;
+  healed: number[];                           // Token IDs now registered correctly in the new registry
+  stillBroken: TokenAudit[];
+  failedActions: HealAction[];
+  audit: AuditReport;
+}
+
+const jobStore = createIdbStore<HealingJob>('mining-masters-registry-healing', 'jobs');
+
+const summarize = (tokens: TokenAudit[]): AuditSummary => ({
+  scanned: tokens.length,
+  healthy: tokens.filter((token) => token.owner !== null && token.issues.length === 0).length,
+  missing: tokens.filter((token) => token.issues.some((issue) => issue === 'missingInNew' || issue === 'missingInOld')).length,
+  mismatched: tokens.filter((token) => token.issues.includes('mismatched')).length,
+  stale: tokens.filter((token) => token.issues.some((issue) => issue === 'staleInNew' || issue === 'staleInOld')).length,
+  nonexistent: tokens.filter((token) => token.owner === null).length,
+});
+
+const countProgress = (job: HealingJob, batch: number, batches: number): HealProgress => ({
+  confirmed: job.actions.filter((action) => action.status === 'confirmed').length,
+  failed: job.actions.filter((action) => action.status === 'failed').length,
+  pending: job.actions.filter((action) => action.status === 'pending' || action.status === 'sent').length,
+  total: job.actions.length,
+  batch,
+  batches,
+});
+
+export class RegistryMigrationService {
+  private provider: ethers.Provider;
+  private multicall: MulticallService;
+  private nft: MinerNFTContract;
+  private registries: Partial<Record<RegistryKey, MinerRegistryContract>> = {};
+
+  /**
+   * Creates a new RegistryMigrationService instance
+   * @param provider - Ethers provider (a BrowserProvider to heal)
+   */
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+    this.multicall = new MulticallService(provider);
+    this.nft = getMinerNFTContract(provider);
+
+    const oldAddress = getOptionalContractAddress('MinerRegistryOld');
+    const newAddress = getOptionalContractAddress('MinerRegistry');
+    if (oldAddress) this.registries.old = getMinerRegistryContract(provider, oldAddress);
+    if (newAddress) this.registries.new = getMinerRegistryContract(provider, newAddress);
+  }
+
+  /**
+   * Registry addresses on the active network, null where not configured
+   */
+  getRegistryAddresses(): Record<RegistryKey, string | null> {
+    return {
+      old: this.registries.old ? String(this.registries.old.target) : null,
+      new: this.registries.new ? String(this.registries.new.target) : null,
+    };
+  }
+
+  /**
+   * Audits both registries for a token range or a set of wallets
+   * @param target - Token IDs (inclusive range) or wallets to scan
+   * @param onProgress - Optional callback invoked after each chunk
+   */
+  async audit(target: AuditTarget, onProgress?: (progress: ScanProgress) => void): Promise<AuditReport> {
+    const [network, blockNumber] = await Promise.all([this.provider.getNetwork(), this.provider.getBlockNumber()]);
+
+    let tokenIds: number[];
+    const listed: Record<RegistryKey, Map<number, string[]>> = { old: new Map(), new: new Map() };
+    if (target.kind === 'range') {
+      if (target.to < target.from) throw new Error('Token range is empty');
+      tokenIds = Array.from({ length: target.to - target.from + 1 }, (_, index) => target.from + index);
+    } else {
+      tokenIds = await this.collectWalletTokens(target.wallets, listed);
+    }
+
+    const tokens: TokenAudit[] = [];
+    for (let start = 0; start < tokenIds.length; start += SCAN_CHUNK_SIZE) {
+      tokens.push(...(await this.auditChunk(tokenIds.slice(start, start + SCAN_CHUNK_SIZE), listed)));
+      onProgress?.({ scanned: tokens.length, total: tokenIds.length });
+    }
+
+    return {
+      target,
+      chainId: Number(network.chainId),
+      blockNumber,
+      tokens,
+      summary: summarize(tokens),
+      finishedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Builds the updateTokenOwnership calls that fix the new registry. Problems only in the old
+   * registry are reported but not healed.
+   * @param report - Audit to heal
+   */
+  planHealing(report: AuditReport): HealAction[] {
+    return report.tokens
+      .filter((token) => token.owner !== null && token.issues.some((issue) => issue === 'missingInNew' || issue === 'staleInNew'))
+      .map((token) => ({
+        tokenId: token.tokenId,
+        from: token.staleOwners.new[0] ?? ethers.ZeroAddress,
+        to: token.owner!,
+        status: 'pending' as const,
+        txHash: null,
+        error: null,
+      }));
+  }
+
+  /**
+   * Creates and checkpoints a healing job, replacing any unfinished one
+   * @param actions - Planned calls (see planHealing)
+   */
+  async createJob(actions: HealAction[]): Promise<HealingJob> {
+    const registry = this.requireNewRegistry();
+    const network = await this.provider.getNetwork();
+    const job: HealingJob = {
+      version: JOB_VERSION,
+      id: `${Date.now()}`,
+      chainId: Number(network.chainId),
+      registry: String(registry.target),
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      actions,
+    };
+    await jobStore.set(await this.getJobKey(), job);
+    return job;
+  }
+
+  /**
+   * Loads the checkpointed job for the new registry on the connected chain
+   * @returns The job, or null if none was started
+   */
+  async loadJob(): Promise<HealingJob | null> {
+    if (!this.registries.new) return null;
+    try {
+      const job = await jobStore.get(await this.getJobKey());
+      return job && job.version === JOB_VERSION ? job : null;
+    } catch (error) {
+      console.warn('Failed to read registry healing checkpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Discards the checkpointed job
+   */
+  async clearJob(): Promise<void> {
+    if (!this.registries.new) return;
+    await jobStore.delete(await this.getJobKey());
+  }
+
+  /**
+   * Sends the job's outstanding calls in batches, waiting for each batch to be mined. Calls that
+   * were sent before an interruption are awaited instead of being sent again.
+   * @param job - Job to run (see createJob / loadJob)
+   * @param options - Batch size, progress callback and a stop check run between batches
+   * @returns The job with every action's final status
+   */
+  async heal(
+    job: HealingJob,
+    options: { batchSize?: number; onProgress?: (progress: HealProgress) => void; shouldStop?: () => boolean } = {}
+  ): Promise<HealingJob> {
+    const { batchSize = DEFAULT_HEAL_BATCH_SIZE, onProgress, shouldStop } = options;
+    const registry = this.requireNewRegistry();
+    if (!(this.provider instanceof ethers.BrowserProvider)) {
+      throw new Error('Healing requires a connected wallet');
+    }
+    const signer = await this.provider.getSigner();
+    const writable = registry.connect(signer);
+
+    const outstanding = job.actions.filter((action) => action.status === 'pending' || action.status === 'sent');
+    const batches = Math.ceil(outstanding.length / batchSize);
+    onProgress?.(countProgress(job, 0, batches));
+
+    for (let index = 0; index < batches; index++) {
+      if (shouldStop?.()) break;
+      const batch = outstanding.slice(index * batchSize, (index + 1) * batchSize);
+
+      // Send the whole batch before waiting so the transactions land in as few blocks as possible
+      for (const action of batch) {
+        if (action.status !== 'pending') continue;
+        try {
+          const tx = await writable.updateTokenOwnership(action.from, action.to, action.tokenId);
+          action.status = 'sent';
+          action.txHash = tx.hash;
+        } catch (error) {
+          action.status = 'failed';
+          action.error = error instanceof Error ? error.message : String(error);
+        }
+        await this.saveJob(job);
+      }
+
+      await Promise.all(
+        batch
+          .filter((action) => action.status === 'sent' && action.txHash)
+          .map(async (action) => {
+            try {
+              const receipt = await this.provider.waitForTransaction(action.txHash!);
+              action.status = receipt?.status === 1 ? 'confirmed' : 'failed';
+              if (action.status === 'failed') action.error = 'Transaction reverted';
+            } catch (error) {
+              action.status = 'failed';
+              action.error = error instanceof Error ? error.message : String(error);
+            }
+          })
+      );
+      await this.saveJob(job);
+      onProgress?.(countProgress(job, index + 1, batches));
+    }
+
+    return job;
+  }
+
+  /**
+   * Re-audits every token in a job to confirm the new registry now matches ownership
+   * @param job - Finished (or stopped) healing job
+   */
+  async reconcile(job: HealingJob): Promise<ReconciliationReport> {
+    const tokenIds = [...new Set(job.actions.map((action) => action.tokenId))];
+    const tokens: TokenAudit[] = [];
+    const listed: Record<RegistryKey, Map<number, string[]>> = { old: new Map(), new: new Map() };
+    for (let start = 0; start < tokenIds.length; start += SCAN_CHUNK_SIZE) {
+      tokens.push(...(await this.auditChunk(tokenIds.slice(start, start + SCAN_CHUNK_SIZE), listed)));
+    }
+    const [network, blockNumber] = await Promise.all([this.provider.getNetwork(), this.provider.getBlockNumber()]);
+
+    // Former owners are only visible to wallet scans, so carry the job's stale entries forward
+    for (const token of tokens) {
+      const action = job.actions.find((candidate) => candidate.tokenId === token.tokenId);
+      if (action && action.from !== ethers.ZeroAddress && action.status !== 'confirmed') {
+        token.staleOwners.new = [action.from];
+        token.registries.new = 'stale';
+        token.issues = [...new Set([...token.issues, 'staleInNew' as const])];
+      }
+    }
+
+    const stillBroken = tokens.filter((token) => token.issues.some((issue) => issue === 'missingInNew' || issue === 'staleInNew'));
+    return {
+      jobId: job.id,
+      healed: tokens.filter((token) => !stillBroken.includes(token)).map((token) => token.tokenId),
+      stillBroken,
+      failedActions: job.actions.filter((action) => action.status === 'failed'),
+      audit: {
+        target: { kind: 'range', from: Math.min(...tokenIds), to: Math.max(...tokenIds) },
+        chainId: Number(network.chainId),
+        blockNumber,
+        tokens,
+        summary: summarize(tokens),
+        finishedAt: Date.now(),
+      },
+    };
+  }
+
+  /**
+   * Lists the tokens each wallet holds or any registry lists under it
+   * @private
+   */
+  private async collectWalletTokens(wallets: string[], listed: Record<RegistryKey, Map<number, string[]>>): Promise<number[]> {
+    const owners = wallets.map((wallet) => ethers.getAddress(wallet));
+    const tokenIds = new Set<number>();
+
+    const balances = await this.multicall.aggregate(owners.map((owner) => encodeCall(this.nft, 'balanceOf', [owner])));
+    const indexCalls = owners.flatMap((owner, walletIndex) => {
+      const balance = balances[walletIndex].success ? Number((balances[walletIndex] as { value: bigint }).value) : 0;
+      return Array.from({ length: balance }, (_, index) => encodeCall(this.nft, 'tokenOfOwnerByIndex', [owner, index]));
+    });
+    for (const result of await this.multicall.aggregate(indexCalls)) {
+      if (result.success) tokenIds.add(Number(result.value));
+    }
+
+    for (const key of ['old', 'new'] as RegistryKey[]) {
+      const registry = this.registries[key];
+      if (!registry) continue;
+      const results = await this.multicall.aggregate(
+        owners.map((owner) => encodeCall(registry, 'tokensOfOwner', [owner]))
+      );
+      results.forEach((result, walletIndex) => {
+        if (!result.success) return;
+        for (const token of result.value) {
+          const tokenId = Number(token);
+          tokenIds.add(tokenId);
+          listed[key].set(tokenId, [...(listed[key].get(tokenId) ?? []), owners[walletIndex]]);
+        }
+      });
+    }
+
+    return [...tokenIds].sort((a, b) => a - b);
+  }
+
+  /**
+   * Checks ownership and registration of a chunk of tokens
+   * @private
+   */
+  private async auditChunk(tokenIds: number[], listed: Record<RegistryKey, Map<number, string[]>>): Promise<TokenAudit[]> {
+    const ownerResults = await this.multicall.aggregate(tokenIds.map((tokenId) => encodeCall(this.nft, 'ownerOf', [tokenId])));
+    const owners = ownerResults.map((result) => (result.success ? ethers.getAddress(result.value) : null));
+
+    const registered: Partial<Record<RegistryKey, CallResult<boolean>[]>> = {};
+    for (const key of ['old', 'new'] as RegistryKey[]) {
+      const registry = this.registries[key];
+      if (!registry) continue;
+      const existing = tokenIds.filter((_, index) => owners[index] !== null);
+      const results = await this.multicall.aggregate(
+        existing.map((tokenId) => encodeCall(registry, 'isTokenRegistered', [owners[tokenIds.indexOf(tokenId)]!, tokenId]))
+      );
+      registered[key] = tokenIds.map((tokenId) => {
+        const index = existing.indexOf(tokenId);
+        return index < 0 ? { success: true, value: false } : results[index];
+      });
+    }
+
+    return tokenIds.map((tokenId, index) => {
+      const owner = owners[index];
+      const audit: TokenAudit = {
+        tokenId,
+        owner,
+        registries: { old: 'unconfigured', new: 'unconfigured' },
+        staleOwners: { old: [], new: [] },
+        issues: [],
+      };
+      if (owner === null) return audit;
+
+      const isRegistered: Partial<Record<RegistryKey, boolean>> = {};
+      for (const key of ['old', 'new'] as RegistryKey[]) {
+        const result = registered[key]?.[index];
+        if (!result) continue;
+        if (!result.success) {
+          audit.registries[key] = 'error';
+          continue;
+        }
+        isRegistered[key] = result.value;
+        audit.staleOwners[key] = (listed[key].get(tokenId) ?? []).filter((former) => former !== owner);
+        audit.registries[key] = audit.staleOwners[key].length > 0 ? 'stale' : result.value ? 'registered' : 'missing';
+        if (!result.value) audit.issues.push(key === 'new' ? 'missingInNew' : 'missingInOld');
+        if (audit.staleOwners[key].length > 0) audit.issues.push(key === 'new' ? 'staleInNew' : 'staleInOld');
+      }
+      if (isRegistered.old !== undefined && isRegistered.new !== undefined && isRegistered.old !== isRegistered.new) {
+        audit.issues.push('mismatched');
+      }
+      return audit;
+    });
+  }
+
+  private requireNewRegistry(): MinerRegistryContract {
+    if (!this.registries.new) {
+      throw new Error('MinerRegistry is not configured on this network');
+    }
+    return this.registries.new;
+  }
+
+  private async getJobKey(): Promise<string> {
+    const network = await this.provider.getNetwork();
+    return `${network.chainId}:${String(this.requireNewRegistry().target).toLowerCase()}`;
+  }
+
+  private async saveJob(job: HealingJob): Promise<void> {
+    job.updatedAt = Date.now();
+    await jobStore.set(await this.getJobKey(), job).catch((error) => console.warn('Failed to checkpoint registry healing:', error));
+  }
+}
+
+export default RegistryMigrationService;
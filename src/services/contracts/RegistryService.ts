@@ -5,24 +5,15 @@
  */
 
 import { ethers } from 'ethers';
-
-/**
- * MinerNFTRegistry ABI for registry operations
- */
-const NFT_REGISTRY_ABI = [
-  'function tokensOfOwner(address owner) view returns (uint256[])',
-  'function balanceOf(address owner) view returns (uint256)',
-  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
-  'function isTokenRegistered(address owner, uint256 tokenId) view returns (bool)',
-  'function updateTokenOwnership(address from, address to, uint256 tokenId) external'
-];
+import { getActiveNetwork, getOptionalContractAddress } from '../../config/contracts';
+import { getMinerRegistryContract, MinerRegistryContract } from '../../contracts/clients/MinerRegistry';
 
 /**
  * Service for interacting with MinerNFT Registry contracts
  */
 export default class RegistryService {
-  private newRegistryContract: ethers.Contract | null = null;
-  private oldRegistryContract: ethers.Contract | null = null;
+  private newRegistryContract: MinerRegistryContract | null = null;
+  private oldRegistryContract: MinerRegistryContract | null = null;
   private readonly newRegistryAddress: string | null = null;
   private readonly oldRegistryAddress: string | null = null;
 
@@ -38,40 +29,25 @@ export default class RegistryService {
    * @param provider - Ethers provider
    */
   constructor(provider: ethers.Provider) {
-    // Get network-appropriate contract addresses from environment
-    this.network = import.meta.env.VITE_NETWORK_ENV || 'testnet';
+    // Get the registry addresses of the active network
+    this.network = getActiveNetwork().key;
     console.log(`RegistryService - Network environment: ${this.network}`);
 
-    // Initialize registry contracts based on network
-    if (this.network === 'mainnet') {
-      // On mainnet, we need to check both old and new registries
-      // Get the new registry address
-      const newRegistryAddress = import.meta.env.VITE_MAINNET_MINER_REGISTRY_ADDRESS || '';
-      if (newRegistryAddress && ethers.isAddress(newRegistryAddress)) {
-        this.newRegistryAddress = newRegistryAddress;
-        this.newRegistryContract = new ethers.Contract(newRegistryAddress, NFT_REGISTRY_ABI, provider);
-        this.hasNewRegistry = true;
-        console.log(`Connected to new registry at: ${newRegistryAddress}`);
-      }
+    // The old registry is only configured where registrations were migrated (mainnet)
+    const newRegistryAddress = getOptionalContractAddress('MinerRegistry');
+    if (newRegistryAddress && ethers.isAddress(newRegistryAddress)) {
+      this.newRegistryAddress = newRegistryAddress;
+      this.newRegistryContract = getMinerRegistryContract(provider, newRegistryAddress);
+      this.hasNewRegistry = true;
+      console.log(`Connected to new registry at: ${newRegistryAddress}`);
+    }
 
-      // Also get the old registry address if available
-      // The frontend can store this as VITE_MAINNET_MINER_REGISTRY_OLD_ADDRESS
-      const oldRegistryAddress = import.meta.env.VITE_MAINNET_MINER_REGISTRY_OLD_ADDRESS || '';
-      if (oldRegistryAddress && ethers.isAddress(oldRegistryAddress)) {
-        this.oldRegistryAddress = oldRegistryAddress;
-        this.oldRegistryContract = new ethers.Contract(oldRegistryAddress, NFT_REGISTRY_ABI, provider);
-        this.hasOldRegistry = true;
-        console.log(`Connected to old registry at: ${oldRegistryAddress}`);
-      }
-    } else {
-      // On testnet, we only use the new registry
-      const registryAddress = import.meta.env.VITE_TESTNET_MINER_REGISTRY_ADDRESS || '';
-      if (registryAddress && ethers.isAddress(registryAddress)) {
-        this.newRegistryAddress = registryAddress;
-        this.newRegistryContract = new ethers.Contract(registryAddress, NFT_REGISTRY_ABI, provider);
-        this.hasNewRegistry = true;
-        console.log(`Connected to testnet registry at: ${registryAddress}`);
-      }
+    const oldRegistryAddress = getOptionalContractAddress('MinerRegistryOld');
+    if (oldRegistryAddress && ethers.isAddress(oldRegistryAddress)) {
+      this.oldRegistryAddress = oldRegistryAddress;
+      this.oldRegistryContract = getMinerRegistryContract(provider, oldRegistryAddress);
+      this.hasOldRegistry = true;
+      console.log(`Connected to old registry at: ${oldRegistryAddress}`);
     }
 
     // Log registry status
@@ -188,7 +164,7 @@ export default class RegistryService {
       }
 
       // Connect the registry contract with a signer
-      const registryWithSigner = this.newRegistryContract.connect(signer) as ethers.Contract;
+      const registryWithSigner = this.newRegistryContract.connect(signer);
 
       // Update the token ownership
       // For NFTs that changed owners, update from the previous owner to the current owner
@@ -0,0 +1,148 @@
+/**
+ * @title SlotPurchaseService
+ * @notice Checks and buys extra miner slots with the staking contract's purchaseSlots(count)
+ * @dev Slots are paid from the in-game balance (staking pending rewards) in one transaction for
+ * @dev any count. The staking contract exposes no slot price and does not log what it charges,
+ * @dev so quotes carry no cost: each one simulates purchaseSlots(count) from the user with
+ * @dev eth_call, and the simulation alone decides what is affordable.
+ */
+
+import { ethers } from 'ethers';
+import { getGEMSTokenContract } from '../../contracts/clients/GEMSToken';
+import { getMiningMastersStakingContract, MiningMastersStakingContract } from '../../contracts/clients/MiningMastersStaking';
+import { decodeTransactionError } from '../transactions/RevertDecoder';
+
+export const FREE_SLOTS = 20;
+// Used when the deployment does not expose MAX_MINERS_PER_WALLET
+const DEFAULT_MAX_SLOTS = 100;
+
+/**
+ * Result of simulating a slot purchase against the contracts
+ */
+export interface SlotSimulation {
+  ok: boolean;
+  reason: string | null;   // Decoded revert reason when the purchase would fail
+}
+
+/**
+ * Purchase preview for buying `count` slots
+ */
+export interface SlotQuote {
+  count: number;
+  rewardBalance: bigint;    // In-game balance the slots are paid from
+  walletBalance: bigint;    // GEMS ERC-20 in the wallet, can be deposited through the Bank
+  simulation: SlotSimulation;
+}
+
+/**
+ * Slot capacity of a user
+ */
+export interface SlotLimits {
+  freeSlots: number;
+  purchasedSlots: number;
+  maxSlots: number;
+  remaining: number;        // Slots that can still be bought
+}
+
+export class SlotPurchaseService {
+  private runner: ethers.BrowserProvider | ethers.JsonRpcProvider;
+  private staking: MiningMastersStakingContract;
+
+  /**
+   * Creates a new SlotPurchaseService instance
+   * @param provider - Ethers provider
+   */
+  constructor(provider: ethers.BrowserProvider | ethers.JsonRpcProvider) {
+    this.runner = provider;
+    this.staking = getMiningMastersStakingContract(provider);
+  }
+
+  /**
+   * Reads how many slots a user owns and how many more can be bought
+   * @param user - Wallet address
+   */
+  async getSlotLimits(user: string): Promise<SlotLimits> {
+    const [purchased, maxMiners] = await Promise.all([
+      this.staking.userPurchasedSlots(user),
+      this.staking.MAX_MINERS_PER_WALLET().catch(() => BigInt(DEFAULT_MAX_SLOTS)),
+    ]);
+    const purchasedSlots = Number(purchased);
+    const maxSlots = Number(maxMiners);
+    return {
+      freeSlots: FREE_SLOTS,
+      purchasedSlots,
+      maxSlots,
+      remaining: Math.max(0, maxSlots - FREE_SLOTS - purchasedSlots),
+    };
+  }
+
+  /**
+   * Simulates buying `count` slots as `user` without sending a transaction
+   * @param user - Wallet address the purchase is simulated for
+   * @param count - Number of slots
+   */
+  async simulate(user: string, count: number): Promise<SlotSimulation> {
+    try {
+      await this.staking.purchaseSlots.staticCall(count, { from: user });
+      return { ok: true, reason: null };
+    } catch (error) {
+      return { ok: false, reason: decodeTransactionError(error).message };
+    }
+  }
+
+  /**
+   * Finds the largest slot count the contracts currently accept for `user`
+   * @param user - Wallet address
+   * @param upTo - Upper bound, usually the remaining slot capacity
+   * @returns 0 if not even one slot can be bought
+   */
+  async findMaxAffordable(user: string, upTo: number): Promise<number> {
+    // Affordability is monotonic in the count, so binary search over simulations
+    let low = 0;
+    let high = upTo;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if ((await this.simulate(user, mid)).ok) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Previews buying `count` slots: the balances they can be paid from and the contract check
+   * @param user - Wallet address
+   * @param count - Number of slots
+   */
+  async getQuote(user: string, count: number): Promise<SlotQuote> {
+    const gemsToken = getGEMSTokenContract(this.runner);
+    const [rewardBalance, walletBalance, simulation] = await Promise.all([
+      this.staking.getPendingRewards(user),
+      gemsToken.balanceOf(user).catch(() => 0n),
+      this.simulate(user, count),
+    ]);
+    return {
+      count,
+      rewardBalance,
+      walletBalance,
+      simulation,
+    };
+  }
+
+  /**
+   * Sends one transaction buying `count` slots
+   * @param count - Number of slots
+   * @returns Transaction response
+   */
+  async purchase(count: number): Promise<ethers.ContractTransactionResponse> {
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new Error('Slot count must be a positive whole number');
+    }
+    const signer = await (this.runner as ethers.BrowserProvider).getSigner();
+    return this.staking.connect(signer).purchaseSlots(count);
+  }
+}
+
+export default SlotPurchaseService;
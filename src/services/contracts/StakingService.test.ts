@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { createMockRonin, MockRonin } from '../mock/MockRonin';
+import chainReads from '../cache/ChainReadCache';
+import StakingService from './StakingService';
+
+const ONE_HOUR = 60 * 60;
+
+describe('StakingService', () => {
+  let mock: MockRonin;
+  let service: StakingService;
+
+  const travel = async (seconds: number) => {
+    await mock.provider.request({ method: 'evm_increaseTime', params: [seconds] });
+    await mock.provider.request({ method: 'evm_mine' });
+  };
+
+  beforeEach(() => {
+    chainReads.clear();
+    mock = createMockRonin({ minerIds: [1, 2, 3] });
+    service = new StakingService(new ethers.BrowserProvider(mock.provider, undefined, { cacheTimeout: -1 }));
+  });
+
+  it('approves and stakes a miner the wallet holds', async () => {
+    expect(await service.isApprovedForStaking(1)).toBe(false);
+
+    const tx = await service.stakeMiner(1);
+    expect((await tx.wait())?.status).toBe(1);
+
+    expect(await service.isNFTStaked(1)).toBe(true);
+    expect(await service.getStakedMiners(mock.account)).toEqual([1]);
+    expect(await service.ownerOf(1)).toBe(mock.contracts.staking.address);
+  }, 10000);
+
+  it('refuses to stake a miner twice', async () => {
+    await (await service.approveNFT(2)).wait();
+    await (await service.stakeMiner(2)).wait();
+
+    await expect(service.stakeMiner(2)).rejects.toThrow('NFT #2 is already staked');
+  });
+
+  it('refuses to stake a miner held by another wallet', async () => {
+    mock.contracts.minerNFT.mint(ethers.Wallet.createRandom().address, 9);
+
+    await expect(service.stakeMiner(9)).rejects.toThrow('You do not own NFT #9');
+  });
+
+  it('accrues rewards for staked miners over chain time', async () => {
+    for (const tokenId of [1, 2]) {
+      await (await service.approveNFT(tokenId)).wait();
+      await (await service.stakeMiner(tokenId)).wait();
+    }
+
+    await travel(ONE_HOUR);
+
+    // 1 GEMS per miner per hour with the default mock staking config
+    expect(Number(await service.getPendingRewards(mock.account))).toBeCloseTo(2, 2);
+  });
+
+  it('unstakes miners back to the wallet', async () => {
+    for (const tokenId of [1, 2, 3]) {
+      await (await service.approveNFT(tokenId)).wait();
+      await (await service.stakeMiner(tokenId)).wait();
+    }
+
+    await (await service.unstakeMiner(1)).wait();
+    await (await service.unstakeMiners([2, 3])).wait();
+    chainReads.invalidate(['staking']);
+
+    expect(await service.getStakedMiners(mock.account)).toEqual([]);
+    expect(await service.getStakedMinerCount(mock.account)).toBe(0);
+    expect(await service.ownerOf(3)).toBe(mock.account);
+  });
+});
@@ -12,10 +12,14 @@ import { StakedMiner } from '../../contracts/StakingContract';
 
 // Use contract addresses from environment variables
 import { getContractAddress } from '../../config/contracts';
+import chainReads, { readKey, STATIC_READ_TTL_MS } from '../cache/ChainReadCache';
+import { decodeTransactionError, TransactionFailedError } from '../transactions/RevertDecoder';
+import RegistryHealingService, { RegistryDivergenceError } from './RegistryHealingService';
 
 export class StakingService {
   private contract: ethers.Contract;
   private nftContract: ethers.Contract;
+  private registryHealing: RegistryHealingService | null;
 
   /**
    * Creates a new StakingService instance
@@ -38,6 +42,10 @@ export class StakingService {
       MinerNFTABI,
       providerOrSigner
     );
+
+    // Used to explain stakes rejected because the registry is out of date
+    const provider = providerOrSigner instanceof ethers.Wallet ? providerOrSigner.provider : providerOrSigner;
+    this.registryHealing = provider ? new RegistryHealingService(provider) : null;
   }
 
   /**
@@ -307,6 +315,34 @@ export class StakingService {
     }
   }
 
+  /**
+   * Explains a failed stake. A revert on a token the wallet holds but the registry does not list
+   * under it becomes a RegistryDivergenceError, which the caller can repair and retry.
+   * @param tokenId - The NFT that failed to stake
+   * @param error - Error thrown while sending or confirming the stake
+   * @returns A RegistryDivergenceError, or the original error
+   */
+  async explainStakeFailure(tokenId: number | string, error: unknown): Promise<unknown> {
+    if (!this.registryHealing || error instanceof RegistryDivergenceError) {
+      return error;
+    }
+
+    // Rejections, gas and network errors are not caused by the registry
+    const kind = error instanceof TransactionFailedError ? error.decoded.kind : decodeTransactionError(error).kind;
+    if (kind !== 'reverted' && kind !== 'unknown') {
+      return error;
+    }
+
+    try {
+      const walletAddress = await (await this.getSigner()).getAddress();
+      const divergence = await this.registryHealing.diagnose(walletAddress, Number(tokenId));
+      return divergence ? new RegistryDivergenceError(divergence) : error;
+    } catch (diagnosisError) {
+      console.warn(`Could not check the registry entry of NFT #${tokenId}:`, diagnosisError);
+      return error;
+    }
+  }
+
   /**
    * Unstakes a Miner NFT
    * @param tokenId - The ID of the NFT to unstake
@@ -349,7 +385,7 @@ export class StakingService {
    * @returns Array of staked NFT IDs
    */
   async getStakedMiners(address: string): Promise<number[]> {
-    const result: bigint[] = await this.contract.getStakedMiners(address);
+    const result = await chainReads.read<bigint[]>(this.contract, 'getStakedMiners', [address], { scopes: ['staking'] });
     return result.map((bn: bigint) => Number(bn));
   }
 
@@ -390,10 +426,14 @@ export class StakingService {
       // Make sure we're calling the right method from the ABI
       console.log('Calling getPendingRewards for:', address);
 
-      // Directly call the contract with specified gas limit to avoid estimation issues
-      const result = await this.contract.getPendingRewards(address, {
-        gasLimit: 3000000 // Higher gas limit to ensure the call completes
-      });
+      // Call the contract with specified gas limit to avoid estimation issues, through the shared read cache
+      const result: bigint = await chainReads.query(
+        readKey(String(this.contract.target), 'getPendingRewards', [address]),
+        () => this.contract.getPendingRewards(address, {
+          gasLimit: 3000000 // Higher gas limit to ensure the call completes
+        }),
+        { scopes: ['staking'] }
+      );
 
       // Log the raw result from the contract
       console.log('Raw pending rewards result:', result.toString());
@@ -431,7 +471,7 @@ export class StakingService {
    * @returns The GEMS per second production rate
    */
   async getProductionRate(): Promise<string> {
-    const result = await this.contract.GEMS_PER_SECOND();
+    const result = await chainReads.read<bigint>(this.contract, 'GEMS_PER_SECOND', [], { ttlMs: STATIC_READ_TTL_MS });
     return ethers.formatUnits(result, 18); // Format to GEMS with 18 decimals
   }
 
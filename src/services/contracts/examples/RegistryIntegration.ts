@@ -6,6 +6,7 @@
 
 import { ethers } from 'ethers';
 import RegistryService from '../RegistryService';
+import { getOptionalContractAddress } from '../../../config/contracts';
 
 // Example NFT contract ABI (minimal for this example)
 const NFT_ABI = [
@@ -27,10 +28,8 @@ export class RegistryIntegrationExample {
     this.provider = provider;
     this.registryService = new RegistryService(provider);
     
-    // Get appropriate NFT contract address based on network
-    const network = import.meta.env.VITE_NETWORK_ENV || 'testnet';
-    const envKey = network === 'mainnet' ? 'VITE_MAINNET_MINER_NFT_ADDRESS' : 'VITE_TESTNET_MINER_NFT_ADDRESS';
-    const nftAddress = import.meta.env[envKey];
+    // Get the NFT contract address of the active network
+    const nftAddress = getOptionalContractAddress('MinerNFT');
     
     if (!nftAddress) {
       throw new Error(`Missing NFT contract address in environment variables`);
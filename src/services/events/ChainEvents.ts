@@ -0,0 +1,353 @@
+/**
+ * @title ChainEvents
+ * @notice Live contract events for the connected wallet, published as cache invalidations
+ * @dev Watches new blocks (eth_subscribe over WebSocket when VITE_RONIN_{NETWORK}_WS is set, block
+ * @dev polling otherwise) and fetches the wallet's staking, expedition, meal and GEMS transfer logs
+ * @dev with two eth_getLogs calls per block. Subscribers name the data they cache and are only told
+ * @dev about events that change it, after the matching ChainReadCache entries are invalidated. Every
+ * @dev subscriber also gets a slow safety poll while events are live, and its own fallback interval
+ * @dev while they are not.
+ */
+
+import { ethers } from 'ethers';
+import { getWsRpcUrl, onNetworkChange } from '../../config/contracts';
+import chainReads from '../cache/ChainReadCache';
+import { getFoodSystemContract } from '../../contracts/clients/FoodSystem';
+import { getGEMSTokenContract } from '../../contracts/clients/GEMSToken';
+import { getMiningExpeditionContract } from '../../contracts/clients/MiningExpedition';
+import { getMiningMastersStakingContract } from '../../contracts/clients/MiningMastersStaking';
+
+/**
+ * Cached data an event can invalidate
+ */
+export type ChainDataScope = 'staking' | 'expeditions' | 'meals' | 'gemsBalance';
+
+export type ChainEventName =
+  | 'MinerStaked'
+  | 'MinerUnstaked'
+  | 'RewardsClaimed'
+  | 'ExpeditionStarted'
+  | 'ExpeditionCompleted'
+  | 'MealPurchased'
+  | 'Transfer';
+
+/**
+ * A contract event involving the connected wallet
+ */
+export interface ChainEvent {
+  name: ChainEventName;
+  scopes: ChainDataScope[];
+  blockNumber: number;
+  transactionHash: string;
+  args: ethers.Result;
+}
+
+/**
+ * Called with the event that invalidated the data, or null for a poll tick
+ */
+export type ChainEventListener = (event: ChainEvent | null) => void;
+
+// What each event changes. Meals and expedition results are paid from or credited to pending rewards.
+const EVENT_SCOPES: Record<ChainEventName, ChainDataScope[]> = {
+  MinerStaked: ['staking', 'expeditions', 'meals'],
+  MinerUnstaked: ['staking', 'expeditions', 'meals'],
+  RewardsClaimed: ['staking', 'gemsBalance'],
+  ExpeditionStarted: ['expeditions', 'meals'],
+  ExpeditionCompleted: ['expeditions', 'staking'],
+  MealPurchased: ['meals', 'expeditions', 'staking'],
+  Transfer: ['gemsBalance'],
+};
+
+// Safety poll while events are live, in case a log was missed
+const SLOW_POLL_MS = 5 * 60 * 1000;
+// Fallback interval for subscribers that do not pass their own
+const DEFAULT_FALLBACK_MS = 60 * 1000;
+// Larger gaps (e.g. a tab waking from sleep) are not replayed; subscribers refetch instead
+const MAX_BLOCK_RANGE = 500;
+// Consecutive failed block fetches before falling back to polling
+const MAX_FAILURES = 3;
+
+interface Subscription {
+  scopes: Set<ChainDataScope>;
+  listener: ChainEventListener;
+  fallbackIntervalMs: number;
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+interface EventSource {
+  address: string;
+  contractInterface: ethers.Interface;
+}
+
+export class ChainEventBus {
+  private subscriptions = new Set<Subscription>();
+  private statusListeners = new Set<(live: boolean) => void>();
+  private live = false;
+  private address: string | null = null;
+  private provider: ethers.Provider | null = null;
+  private ownedProvider: ethers.WebSocketProvider | null = null;
+  private watching = false;
+  private lastBlock = 0;
+  private failures = 0;
+  private processing: Promise<void> | null = null;
+  private pendingBlock: number | null = null;
+
+  /**
+   * Sets the wallet and provider events are watched for. Calling it again with the
+   * same address is a no-op, so every consumer can call it.
+   * @param address - Connected wallet address
+   * @param provider - Provider used when no WebSocket endpoint is configured
+   */
+  connect(address: string, provider: ethers.Provider): void {
+    if (this.address?.toLowerCase() === address.toLowerCase()) return;
+    this.disconnect();
+    this.address = address;
+    const wsUrl = getWsRpcUrl();
+    if (wsUrl) {
+      this.ownedProvider = new ethers.WebSocketProvider(wsUrl);
+      this.provider = this.ownedProvider;
+    } else {
+      this.provider = provider;
+    }
+    this.updateWatching();
+  }
+
+  /**
+   * Stops watching and forgets the wallet
+   */
+  disconnect(): void {
+    this.stopWatching();
+    this.ownedProvider?.destroy();
+    this.ownedProvider = null;
+    this.provider = null;
+    this.address = null;
+  }
+
+  /**
+   * Subscribes to events affecting any of `scopes`
+   * @param scopes - Data the subscriber caches
+   * @param listener - Called per event, and with null on each poll tick
+   * @param fallbackIntervalMs - Poll interval while live events are unavailable
+   * @returns Unsubscribe function
+   */
+  subscribe(scopes: ChainDataScope[], listener: ChainEventListener, fallbackIntervalMs = DEFAULT_FALLBACK_MS): () => void {
+    const subscription: Subscription = { scopes: new Set(scopes), listener, fallbackIntervalMs, timer: null };
+    this.subscriptions.add(subscription);
+    this.schedulePoll(subscription);
+    this.updateWatching();
+    return () => {
+      if (subscription.timer) clearInterval(subscription.timer);
+      this.subscriptions.delete(subscription);
+      this.updateWatching();
+    };
+  }
+
+  /**
+   * Whether events are currently arriving from the chain
+   */
+  isLive(): boolean {
+    return this.live;
+  }
+
+  /**
+   * Subscribes to live/fallback status changes
+   * @returns Unsubscribe function
+   */
+  onStatusChange(listener: (live: boolean) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Starts or stops block watching depending on whether anyone is listening
+   * @private
+   */
+  private updateWatching(): void {
+    if (this.subscriptions.size > 0 && this.provider && this.address) {
+      if (!this.watching) this.startWatching();
+    } else if (this.watching) {
+      this.stopWatching();
+    }
+  }
+
+  private async startWatching(): Promise<void> {
+    const provider = this.provider!;
+    this.watching = true;
+    try {
+      this.lastBlock = await provider.getBlockNumber();
+      // Disconnected or replaced while reading the block number
+      if (!this.watching || provider !== this.provider) return;
+      await provider.on('block', this.handleBlock);
+      this.setLive(true);
+    } catch (error) {
+      console.warn('Live contract events unavailable, falling back to polling:', error);
+      this.watching = false;
+      this.setLive(false);
+    }
+  }
+
+  private stopWatching(): void {
+    if (this.watching) {
+      this.provider?.off('block', this.handleBlock).catch(() => undefined);
+    }
+    this.watching = false;
+    this.pendingBlock = null;
+    this.setLive(false);
+  }
+
+  /**
+   * Processes new blocks one range at a time; blocks arriving meanwhile are merged into the next range
+   * @private
+   */
+  private handleBlock = (blockNumber: number): void => {
+    this.pendingBlock = Math.max(this.pendingBlock ?? 0, blockNumber);
+    if (this.processing) return;
+    this.processing = (async () => {
+      while (this.pendingBlock !== null && this.watching) {
+        const toBlock = this.pendingBlock;
+        this.pendingBlock = null;
+        await this.processRange(toBlock);
+      }
+    })().finally(() => {
+      this.processing = null;
+    });
+  };
+
+  private async processRange(toBlock: number): Promise<void> {
+    if (toBlock <= this.lastBlock || !this.provider || !this.address) return;
+    const fromBlock = this.lastBlock + 1;
+
+    if (toBlock - fromBlock + 1 > MAX_BLOCK_RANGE) {
+      this.lastBlock = toBlock;
+      this.pollAll();
+      return;
+    }
+
+    try {
+      const events = await this.fetchEvents(this.provider, this.address, fromBlock, toBlock);
+      this.lastBlock = toBlock;
+      this.failures = 0;
+      this.setLive(true);
+      events.forEach((event) => this.dispatch(event));
+    } catch (error) {
+      this.failures += 1;
+      console.warn(`Failed to fetch contract events for blocks ${fromBlock}-${toBlock}:`, error);
+      if (this.failures >= MAX_FAILURES) this.setLive(false);
+    }
+  }
+
+  /**
+   * Reads the wallet's events in a block range: everything with the wallet as first indexed
+   * argument, plus GEMS transfers to the wallet
+   * @private
+   */
+  private async fetchEvents(provider: ethers.Provider, address: string, fromBlock: number, toBlock: number): Promise<ChainEvent[]> {
+    const sources = getEventSources();
+    const userTopic = ethers.zeroPadValue(address, 32);
+    const topicsByName = sources.flatMap(({ contractInterface }) =>
+      (Object.keys(EVENT_SCOPES) as ChainEventName[])
+        .map((name) => contractInterface.getEvent(name)?.topicHash)
+        .filter((topic): topic is string => !!topic)
+    );
+    const gems = sources[sources.length - 1];
+    const transferTopic = gems.contractInterface.getEvent('Transfer')!.topicHash;
+
+    const [fromUser, toUser] = await Promise.all([
+      provider.getLogs({
+        address: sources.map((source) => source.address),
+        topics: [[...new Set(topicsByName)], userTopic],
+        fromBlock,
+        toBlock,
+      }),
+      provider.getLogs({ address: gems.address, topics: [transferTopic, null, userTopic], fromBlock, toBlock }),
+    ]);
+
+    const seen = new Set<string>();
+    const events: ChainEvent[] = [];
+    for (const log of [...fromUser, ...toUser].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)) {
+      const key = `${log.transactionHash}:${log.index}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const source = sources.find((candidate) => candidate.address.toLowerCase() === log.address.toLowerCase());
+      const parsed = source?.contractInterface.parseLog(log);
+      if (!parsed || !(parsed.name in EVENT_SCOPES)) continue;
+      const name = parsed.name as ChainEventName;
+      events.push({
+        name,
+        scopes: EVENT_SCOPES[name],
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        args: parsed.args,
+      });
+    }
+    return events;
+  }
+
+  private dispatch(event: ChainEvent): void {
+    chainReads.invalidate(event.scopes);
+    for (const subscription of this.subscriptions) {
+      if (!event.scopes.some((scope) => subscription.scopes.has(scope))) continue;
+      this.notify(subscription, event);
+    }
+  }
+
+  private pollAll(): void {
+    chainReads.invalidate();
+    this.subscriptions.forEach((subscription) => this.notify(subscription, null));
+  }
+
+  private notify(subscription: Subscription, event: ChainEvent | null): void {
+    try {
+      subscription.listener(event);
+    } catch (error) {
+      console.error(`Chain event listener for ${event?.name ?? 'poll'} failed:`, error);
+    }
+  }
+
+  /**
+   * (Re)starts a subscriber's poll timer at the slow or fallback rate
+   * @private
+   */
+  private schedulePoll(subscription: Subscription): void {
+    if (subscription.timer) clearInterval(subscription.timer);
+    const intervalMs = this.live ? SLOW_POLL_MS : subscription.fallbackIntervalMs;
+    subscription.timer = setInterval(() => this.notify(subscription, null), intervalMs);
+  }
+
+  private setLive(live: boolean): void {
+    if (this.live === live) return;
+    this.live = live;
+    this.subscriptions.forEach((subscription) => this.schedulePoll(subscription));
+    this.statusListeners.forEach((listener) => listener(live));
+  }
+}
+
+let eventSources: EventSource[] | null = null;
+
+/**
+ * Contracts whose events are watched; GEMS is last so transfers to the wallet can be queried separately
+ * @private
+ */
+function getEventSources(): EventSource[] {
+  if (eventSources) return eventSources;
+  eventSources = [
+    getMiningMastersStakingContract(null),
+    getMiningExpeditionContract(null),
+    getFoodSystemContract(null),
+    getGEMSTokenContract(null),
+  ].map((contract) => ({ address: contract.target as string, contractInterface: contract.interface }));
+  return eventSources;
+}
+
+export const chainEvents = new ChainEventBus();
+
+// Events of the previous network must not reach the new one; consumers reconnect after the switch,
+// and the watched contracts are resolved again from the new network's addresses
+onNetworkChange(() => {
+  eventSources = null;
+  chainEvents.disconnect();
+});
+
+export default chainEvents;
@@ -0,0 +1,504 @@
+/**
+ * @title MockChain
+ * @notice In-memory blockchain used to run the frontend and its services without a node
+ * @dev Contracts are plain TypeScript objects (see MockContract) whose calldata is decoded
+ * @dev with the real project ABIs, so ethers behaves exactly as against a deployed chain.
+ * @dev Every transaction is mined in its own block; a revert rolls back all state changes.
+ */
+
+import { ethers } from 'ethers';
+import type { InterfaceAbi } from 'ethers';
+
+// Returned by eth_estimateGas for every successful simulation
+export const MOCK_GAS_LIMIT = 500_000n;
+export const MOCK_GAS_PRICE = 20_000_000_000n; // 20 gwei
+
+/**
+ * Revert thrown by mock contracts; carries ABI-encoded revert data like a real node
+ */
+export class MockRevert extends Error {
+  readonly data: string;
+
+  constructor(reason: string, data?: string) {
+    super(reason);
+    this.name = 'MockRevert';
+    this.data = data ?? ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+  }
+}
+
+/**
+ * Asserts a contract condition, reverting with Error(string) like Solidity's require
+ */
+export function require(condition: unknown, reason: string): asserts condition {
+  if (!condition) throw new MockRevert(reason);
+}
+
+export interface MockLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+export interface MockBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  transactions: string[];
+}
+
+export interface MockTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  data: string;
+  value: bigint;
+  nonce: number;
+  gasLimit: bigint;
+  blockNumber: number;
+  blockHash: string;
+  status: 0 | 1;
+  revertData?: string;
+  logs: MockLog[];
+}
+
+/**
+ * Execution context passed to mock contract methods
+ */
+export interface CallContext {
+  chain: MockChain;
+  sender: string;     // msg.sender (checksummed)
+  origin: string;     // tx.origin (checksummed)
+  value: bigint;
+  timestamp: number;  // block.timestamp
+}
+
+type MockMethod = (ctx: CallContext, args: ethers.Result) => unknown;
+
+/**
+ * Base class for contracts living on the mock chain. All storage lives in `state` so the
+ * chain can snapshot and roll back every contract at once; it must stay structured-cloneable.
+ */
+export abstract class MockContract<S = unknown> {
+  readonly iface: ethers.Interface;
+  readonly address: string;
+  readonly label: string;
+  state: S;
+  private chain: MockChain | null = null;
+
+  /**
+   * Implementations keyed by ABI function name. Return a single value for one output,
+   * an array or object for several outputs, or nothing for void functions.
+   */
+  protected abstract readonly methods: Record<string, MockMethod>;
+
+  constructor(label: string, abi: InterfaceAbi, address: string, initialState: S) {
+    this.label = label;
+    this.state = initialState;
+    this.iface = new ethers.Interface(abi);
+    this.address = ethers.getAddress(address);
+  }
+
+  /**
+   * Called by MockChain.deploy
+   * @private
+   */
+  attach(chain: MockChain) {
+    this.chain = chain;
+  }
+
+  /**
+   * Decodes calldata, runs the matching method and ABI-encodes its result
+   * @param ctx - Execution context
+   * @param data - Calldata
+   * @returns Encoded return data
+   */
+  handle(ctx: CallContext, data: string): string {
+    const parsed = this.iface.parseTransaction({ data });
+    if (!parsed) throw new MockRevert(`${this.label}: function selector not recognized`);
+
+    const method = this.methods[parsed.name];
+    if (!method) throw new MockRevert(`${this.label}.${parsed.name} is not implemented by the mock chain`);
+
+    const result = method.call(this, ctx, parsed.args);
+    const outputs = parsed.fragment.outputs;
+    if (outputs.length === 0) return '0x';
+    if (outputs.length === 1) return this.iface.encodeFunctionResult(parsed.fragment, [result]);
+    // Several outputs: accept positional arrays or objects keyed by output name
+    const values = Array.isArray(result) ? result : outputs.map((output) => (result as Record<string, unknown>)[output.name]);
+    return this.iface.encodeFunctionResult(parsed.fragment, values);
+  }
+
+  /**
+   * Runtime bytecode stand-in: a PUSH4 per implemented function selector, like a Solidity
+   * dispatcher, so selector probing (see ContractCompatibilityService) sees what the mock supports
+   */
+  bytecode(): string {
+    const selectors = Object.keys(this.methods)
+      .map((name) => this.iface.getFunction(name)?.selector)
+      .filter((selector): selector is string => !!selector);
+    return ethers.concat([...selectors.map((selector) => ethers.concat(['0x63', selector])), '0xfe']);
+  }
+
+  /**
+   * Emits an event from this contract in the transaction being executed
+   * @param name - Event name from the ABI
+   * @param args - Event arguments in ABI order
+   */
+  protected emit(name: string, args: unknown[]) {
+    if (!this.chain) throw new Error(`${this.label} is not deployed`);
+    const event = this.iface.getEvent(name);
+    if (!event) throw new Error(`${this.label} has no event ${name}`);
+    const { data, topics } = this.iface.encodeEventLog(event, args);
+    this.chain.recordLog(this.address, topics, data);
+  }
+}
+
+interface ChainSnapshot {
+  state: Map<string, unknown>;
+  timeOffset: number;
+  blocks: MockBlock[];
+  transactions: Map<string, MockTransaction>;
+  nonces: Map<string, number>;
+  balances: Map<string, bigint>;
+}
+
+export class MockChain {
+  readonly chainId: number;
+  private contracts = new Map<string, MockContract<unknown>>();
+  private blocks: MockBlock[] = [];
+  private transactions = new Map<string, MockTransaction>();
+  private nonces = new Map<string, number>();
+  private balances = new Map<string, bigint>();
+  private timeOffset = 0;
+  private pendingLogs: Omit<MockLog, 'blockNumber' | 'blockHash' | 'transactionHash' | 'transactionIndex' | 'logIndex'>[] | null = null;
+  private snapshots = new Map<string, ChainSnapshot>();
+  private snapshotCount = 0;
+
+  constructor(chainId: number, genesisTimestamp = Math.floor(Date.now() / 1000)) {
+    this.chainId = chainId;
+    this.blocks.push({
+      number: 0,
+      hash: ethers.id(`mock-genesis-${chainId}`),
+      parentHash: ethers.ZeroHash,
+      timestamp: genesisTimestamp,
+      transactions: [],
+    });
+  }
+
+  // ============ Contracts & accounts ============
+
+  /**
+   * Deploys a mock contract at its configured address
+   * @param contract - Contract instance
+   * @returns The same contract, for chaining
+   */
+  deploy<C extends MockContract<unknown>>(contract: C): C {
+    const key = contract.address.toLowerCase();
+    if (this.contracts.has(key)) {
+      throw new Error(`MockChain: ${contract.label} collides with an existing contract at ${contract.address}`);
+    }
+    contract.attach(this);
+    this.contracts.set(key, contract);
+    return contract;
+  }
+
+  getContract(address: string): MockContract<unknown> | undefined {
+    return this.contracts.get(address.toLowerCase());
+  }
+
+  getCode(address: string): string {
+    return this.getContract(address)?.bytecode() ?? '0x';
+  }
+
+  getBalance(address: string): bigint {
+    return this.balances.get(address.toLowerCase()) ?? 0n;
+  }
+
+  setBalance(address: string, balance: bigint) {
+    this.balances.set(address.toLowerCase(), balance);
+  }
+
+  getNonce(address: string): number {
+    return this.nonces.get(address.toLowerCase()) ?? 0;
+  }
+
+  // ============ Time ============
+
+  /**
+   * Current chain time: wall clock plus any time travel
+   */
+  now(): number {
+    return Math.max(Math.floor(Date.now() / 1000) + this.timeOffset, this.latestBlock().timestamp);
+  }
+
+  /**
+   * Moves chain time forward (evm_increaseTime)
+   * @param seconds - Seconds to skip
+   * @returns Offset of chain time from the wall clock, in seconds
+   */
+  increaseTime(seconds: number): number {
+    if (seconds < 0) throw new Error('MockChain: cannot travel back in time');
+    // Relative to chain time, so blocks mined ahead of the wall clock don't eat into the skip
+    this.timeOffset = this.now() + Math.floor(seconds) - Math.floor(Date.now() / 1000);
+    return this.timeOffset;
+  }
+
+  /**
+   * Mines an empty block at the current chain time (evm_mine)
+   * @param timestamp - Optional explicit block timestamp
+   */
+  mine(timestamp?: number): MockBlock {
+    return this.appendBlock([], timestamp);
+  }
+
+  // ============ Blocks & transactions ============
+
+  latestBlock(): MockBlock {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  getBlock(tag: string | number): MockBlock | null {
+    if (tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') return this.latestBlock();
+    if (tag === 'earliest') return this.blocks[0];
+    const number = typeof tag === 'number' ? tag : Number(tag);
+    return this.blocks[number] ?? null;
+  }
+
+  getBlockByHash(hash: string): MockBlock | null {
+    return this.blocks.find((block) => block.hash === hash) ?? null;
+  }
+
+  getTransaction(hash: string): MockTransaction | null {
+    return this.transactions.get(hash.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Returns logs matching an eth_getLogs filter
+   */
+  getLogs(filter: { fromBlock?: number; toBlock?: number; address?: string | string[]; topics?: (string | string[] | null)[] }): MockLog[] {
+    const from = filter.fromBlock ?? 0;
+    const to = filter.toBlock ?? this.latestBlock().number;
+    const addresses = filter.address ? [filter.address].flat().map((a) => a.toLowerCase()) : null;
+
+    const logs: MockLog[] = [];
+    for (const block of this.blocks.slice(from, to + 1)) {
+      for (const hash of block.transactions) {
+        for (const log of this.transactions.get(hash)!.logs) {
+          if (addresses && !addresses.includes(log.address.toLowerCase())) continue;
+          const topicsMatch = (filter.topics ?? []).every((expected, i) => {
+            if (expected === null || expected === undefined) return true;
+            const options = [expected].flat().map((t) => t.toLowerCase());
+            return log.topics[i] !== undefined && options.includes(log.topics[i].toLowerCase());
+          });
+          if (topicsMatch) logs.push(log);
+        }
+      }
+    }
+    return logs;
+  }
+
+  /**
+   * Executes a call without persisting it (eth_call). Like a node, state-changing functions
+   * run too, which is how the frontend simulates transactions; all changes are discarded.
+   * @returns Encoded return data
+   */
+  call(tx: { from?: string; to: string; data?: string; value?: bigint }): string {
+    const contract = this.getContract(tx.to);
+    if (!contract) return '0x';
+
+    return this.simulate(() => contract.handle(this.context(tx.from, tx.value, this.now()), tx.data ?? '0x'));
+  }
+
+  /**
+   * Simulates a transaction without persisting it (eth_estimateGas)
+   * @throws MockRevert if the transaction would revert
+   */
+  estimateGas(tx: { from?: string; to?: string | null; data?: string; value?: bigint }): bigint {
+    if (!tx.to) throw new MockRevert('MockChain: contract deployment is not supported');
+    const contract = this.getContract(tx.to);
+    if (!contract) return 21_000n;
+
+    this.simulate(() => contract.handle(this.context(tx.from, tx.value, this.nextTimestamp()), tx.data ?? '0x'));
+    return MOCK_GAS_LIMIT;
+  }
+
+  /**
+   * Executes and mines a transaction. Reverted transactions are mined with status 0,
+   * like a real chain, and leave no state changes behind.
+   * @returns The mined transaction
+   */
+  sendTransaction(tx: { from: string; to?: string | null; data?: string; value?: bigint; gasLimit?: bigint }): MockTransaction {
+    if (!tx.to) throw new MockRevert('MockChain: contract deployment is not supported');
+    const from = ethers.getAddress(tx.from);
+    const value = tx.value ?? 0n;
+    const nonce = this.getNonce(from);
+    const hash = ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(['uint256', 'address', 'uint256', 'bytes'], [this.chainId, from, nonce, tx.data ?? '0x'])
+    );
+
+    const timestamp = this.nextTimestamp();
+    const snapshot = this.capture();
+    this.pendingLogs = [];
+    let status: 0 | 1 = 1;
+    let revertData: string | undefined;
+    try {
+      const balance = this.getBalance(from);
+      require(balance >= value, 'MockChain: insufficient RON balance');
+      this.setBalance(from, balance - value);
+      this.setBalance(tx.to, this.getBalance(tx.to) + value);
+
+      const contract = this.getContract(tx.to);
+      if (contract) contract.handle(this.context(from, value, timestamp), tx.data ?? '0x');
+    } catch (error) {
+      if (!(error instanceof MockRevert)) {
+        this.pendingLogs = null;
+        this.restore(snapshot);
+        throw error;
+      }
+      this.restore(snapshot);
+      status = 0;
+      revertData = error.data;
+      this.pendingLogs = [];
+    }
+
+    const logs = this.pendingLogs ?? [];
+    this.pendingLogs = null;
+    this.nonces.set(from.toLowerCase(), nonce + 1);
+
+    const block = this.appendBlock([hash.toLowerCase()], timestamp);
+    const mined: MockTransaction = {
+      hash,
+      from,
+      to: ethers.getAddress(tx.to),
+      data: tx.data ?? '0x',
+      value,
+      nonce,
+      gasLimit: tx.gasLimit ?? MOCK_GAS_LIMIT,
+      blockNumber: block.number,
+      blockHash: block.hash,
+      status,
+      revertData,
+      logs: logs.map((log, logIndex) => ({
+        ...log,
+        blockNumber: block.number,
+        blockHash: block.hash,
+        transactionHash: hash,
+        transactionIndex: 0,
+        logIndex,
+      })),
+    };
+    this.transactions.set(hash.toLowerCase(), mined);
+    return mined;
+  }
+
+  /**
+   * Records a log emitted by the transaction being executed
+   * @private
+   */
+  recordLog(address: string, topics: string[], data: string) {
+    // Writes made outside a transaction (seeding test fixtures) are not logged
+    this.pendingLogs?.push({ address, topics, data });
+  }
+
+  // ============ Snapshots ============
+
+  /**
+   * Saves the full chain state (evm_snapshot)
+   * @returns Snapshot id
+   */
+  snapshot(): string {
+    const id = ethers.toQuantity(++this.snapshotCount);
+    this.snapshots.set(id, this.capture());
+    return id;
+  }
+
+  /**
+   * Restores a snapshot taken with snapshot() (evm_revert)
+   * @returns True if the snapshot existed
+   */
+  revert(id: string): boolean {
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot) return false;
+    this.restore(snapshot);
+    this.snapshots.delete(id);
+    return true;
+  }
+
+  // ============ Internals ============
+
+  private context(from: string | undefined, value: bigint | undefined, timestamp: number): CallContext {
+    const sender = from ? ethers.getAddress(from) : ethers.ZeroAddress;
+    return { chain: this, sender, origin: sender, value: value ?? 0n, timestamp };
+  }
+
+  /**
+   * Runs `execute` against the current state and rolls every change back afterwards
+   */
+  private simulate<T>(execute: () => T): T {
+    const snapshot = this.capture();
+    this.pendingLogs = [];
+    try {
+      return execute();
+    } finally {
+      this.pendingLogs = null;
+      this.restore(snapshot);
+    }
+  }
+
+  /**
+   * Timestamp of the next mined block; transactions execute at their block's time
+   */
+  private nextTimestamp(): number {
+    return Math.max(this.now(), this.latestBlock().timestamp + 1);
+  }
+
+  private appendBlock(transactions: string[], timestamp?: number): MockBlock {
+    const parent = this.latestBlock();
+    const number = parent.number + 1;
+    const block: MockBlock = {
+      number,
+      hash: ethers.id(`mock-block-${this.chainId}-${number}`),
+      parentHash: parent.hash,
+      timestamp: Math.max(timestamp ?? this.now(), parent.timestamp + 1),
+      transactions,
+    };
+    this.blocks.push(block);
+    return block;
+  }
+
+  private capture(): ChainSnapshot {
+    const state = new Map<string, unknown>();
+    for (const contract of this.contracts.values()) {
+      state.set(contract.address, structuredClone(contract.state));
+    }
+    return {
+      state,
+      timeOffset: this.timeOffset,
+      blocks: [...this.blocks],
+      transactions: new Map(this.transactions),
+      nonces: new Map(this.nonces),
+      balances: new Map(this.balances),
+    };
+  }
+
+  private restore(snapshot: ChainSnapshot) {
+    for (const contract of this.contracts.values()) {
+      if (snapshot.state.has(contract.address)) {
+        contract.state = structuredClone(snapshot.state.get(contract.address));
+      }
+    }
+    this.timeOffset = snapshot.timeOffset;
+    this.blocks = [...snapshot.blocks];
+    this.transactions = new Map(snapshot.transactions);
+    this.nonces = new Map(snapshot.nonces);
+    this.balances = new Map(snapshot.balances);
+  }
+}
+
+export default MockChain;
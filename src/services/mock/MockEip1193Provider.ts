@@ -0,0 +1,300 @@
+/**
+ * @title MockEip1193Provider
+ * @notice EIP-1193 provider backed by a MockChain, usable anywhere a wallet provider is expected
+ * @dev Supports the JSON-RPC methods ethers' BrowserProvider relies on, plus the Hardhat-style
+ * @dev evm_increaseTime / evm_mine / evm_setNextBlockTimestamp / evm_snapshot / evm_revert
+ * @dev helpers for time travel in tests
+ */
+
+import { ethers } from 'ethers';
+import { MockChain, MockBlock, MockLog, MockRevert, MockTransaction, MOCK_GAS_PRICE } from './MockChain';
+
+interface RequestArguments {
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+}
+
+interface RpcTransactionRequest {
+  from?: string;
+  to?: string | null;
+  data?: string;
+  input?: string;
+  value?: string;
+  gas?: string;
+}
+
+type Listener = (...args: unknown[]) => void;
+
+/**
+ * Error shape wallets use for failed requests (EIP-1193 ProviderRpcError)
+ */
+export class MockProviderRpcError extends Error {
+  readonly code: number;
+  readonly data?: string;
+
+  constructor(code: number, message: string, data?: string) {
+    super(message);
+    this.name = 'MockProviderRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+export interface MockProviderOptions {
+  /**
+   * Called before every eth_sendTransaction; return false to simulate the user rejecting it
+   */
+  confirmTransaction?: (tx: RpcTransactionRequest) => boolean | Promise<boolean>;
+}
+
+const quantity = (value: number | bigint) => ethers.toQuantity(value);
+
+// Placeholder signature; ethers only checks that it is well-formed
+const MOCK_SIGNATURE = { r: ethers.id('mock-r'), s: '0x' + '11'.repeat(32), v: '0x1b' };
+
+export class MockEip1193Provider {
+  readonly chain: MockChain;
+  private accounts: string[];
+  private listeners = new Map<string, Set<Listener>>();
+  private options: MockProviderOptions;
+
+  /**
+   * @param chain - Backing chain
+   * @param accounts - Wallet accounts; the first one is the selected account
+   * @param options - Optional hooks
+   */
+  constructor(chain: MockChain, accounts: string[], options: MockProviderOptions = {}) {
+    this.chain = chain;
+    this.accounts = accounts.map((account) => ethers.getAddress(account));
+    this.options = options;
+  }
+
+  // ============ EIP-1193 ============
+
+  async request({ method, params }: RequestArguments): Promise<unknown> {
+    const args = (Array.isArray(params) ? params : []) as unknown[];
+
+    switch (method) {
+      case 'eth_chainId':
+        return quantity(this.chain.chainId);
+      case 'net_version':
+        return this.chain.chainId.toString();
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return [...this.accounts];
+      case 'wallet_switchEthereumChain': {
+        const { chainId } = (args[0] ?? {}) as { chainId?: string };
+        if (Number(chainId) !== this.chain.chainId) {
+          throw new MockProviderRpcError(4902, `Unrecognized chain ID ${chainId}`);
+        }
+        return null;
+      }
+      case 'eth_blockNumber':
+        return quantity(this.chain.latestBlock().number);
+      case 'eth_gasPrice':
+        return quantity(MOCK_GAS_PRICE);
+      case 'eth_getBalance':
+        return quantity(this.chain.getBalance(args[0] as string));
+      case 'eth_getCode':
+        return this.chain.getCode(args[0] as string);
+      case 'eth_getStorageAt':
+        // Mock contracts are not proxies and keep no raw storage
+        return ethers.ZeroHash;
+      case 'eth_getTransactionCount':
+        return quantity(this.chain.getNonce(args[0] as string));
+      case 'eth_getBlockByNumber': {
+        const block = this.chain.getBlock(args[0] as string);
+        return block ? this.formatBlock(block, args[1] === true) : null;
+      }
+      case 'eth_getBlockByHash': {
+        const block = this.chain.getBlockByHash(args[0] as string);
+        return block ? this.formatBlock(block, args[1] === true) : null;
+      }
+      case 'eth_call':
+        return this.withRevert(() => this.chain.call(this.parseRequest(args[0] as RpcTransactionRequest) as { to: string }));
+      case 'eth_estimateGas':
+        return this.withRevert(() => quantity(this.chain.estimateGas(this.parseRequest(args[0] as RpcTransactionRequest))));
+      case 'eth_sendTransaction':
+        return this.sendTransaction(args[0] as RpcTransactionRequest);
+      case 'eth_getTransactionByHash': {
+        const tx = this.chain.getTransaction(args[0] as string);
+        return tx ? this.formatTransaction(tx) : null;
+      }
+      case 'eth_getTransactionReceipt': {
+        const tx = this.chain.getTransaction(args[0] as string);
+        return tx ? this.formatReceipt(tx) : null;
+      }
+      case 'eth_getLogs': {
+        const filter = (args[0] ?? {}) as { fromBlock?: string; toBlock?: string; address?: string | string[]; topics?: (string | string[] | null)[] };
+        const toNumber = (tag: string | undefined) => (tag === undefined ? undefined : this.chain.getBlock(tag)?.number);
+        return this.chain
+          .getLogs({ ...filter, fromBlock: toNumber(filter.fromBlock), toBlock: toNumber(filter.toBlock) })
+          .map((log) => this.formatLog(log));
+      }
+
+      // Test helpers
+      case 'evm_increaseTime':
+        return this.chain.increaseTime(Number(args[0]));
+      case 'evm_setNextBlockTimestamp':
+        this.chain.increaseTime(Math.max(0, Number(args[0]) - this.chain.now()));
+        return null;
+      case 'evm_mine':
+        this.chain.mine(args[0] === undefined ? undefined : Number(args[0]));
+        return '0x0';
+      case 'evm_snapshot':
+        return this.chain.snapshot();
+      case 'evm_revert':
+        return this.chain.revert(args[0] as string);
+
+      default:
+        throw new MockProviderRpcError(4200, `The mock chain does not support ${method}`);
+    }
+  }
+
+  on(event: string, listener: Listener) {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return this;
+  }
+
+  removeListener(event: string, listener: Listener) {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  // ============ Test helpers ============
+
+  /**
+   * Switches the selected wallet account (emits accountsChanged)
+   * @param address - One of the provider's accounts, or a new one to add
+   */
+  selectAccount(address: string) {
+    const account = ethers.getAddress(address);
+    this.accounts = [account, ...this.accounts.filter((a) => a !== account)];
+    this.listeners.get('accountsChanged')?.forEach((listener) => listener([...this.accounts]));
+  }
+
+  /**
+   * Skips chain time forward and mines a block so reads see the new timestamp
+   * @param seconds - Seconds to skip
+   */
+  async increaseTime(seconds: number) {
+    await this.request({ method: 'evm_increaseTime', params: [seconds] });
+    await this.request({ method: 'evm_mine' });
+  }
+
+  // ============ Internals ============
+
+  private async sendTransaction(request: RpcTransactionRequest): Promise<string> {
+    const from = request.from ? ethers.getAddress(request.from) : this.accounts[0];
+    if (!this.accounts.includes(from)) {
+      throw new MockProviderRpcError(4100, `Account ${from} is not available in the mock wallet`);
+    }
+    if (this.options.confirmTransaction && !(await this.options.confirmTransaction(request))) {
+      throw new MockProviderRpcError(4001, 'User rejected the request.');
+    }
+
+    const parsed = this.parseRequest(request);
+    const tx = this.chain.sendTransaction({ ...parsed, from, gasLimit: request.gas ? BigInt(request.gas) : undefined });
+    return tx.hash;
+  }
+
+  private parseRequest(request: RpcTransactionRequest) {
+    return {
+      from: request.from,
+      to: request.to ?? null,
+      data: request.data ?? request.input ?? '0x',
+      value: request.value ? BigInt(request.value) : 0n,
+    };
+  }
+
+  /**
+   * Converts contract reverts into the JSON-RPC error nodes return (code 3 with revert data)
+   */
+  private withRevert<T>(run: () => T): T {
+    try {
+      return run();
+    } catch (error) {
+      if (error instanceof MockRevert) {
+        throw new MockProviderRpcError(3, `execution reverted: ${error.message}`, error.data);
+      }
+      throw error;
+    }
+  }
+
+  private formatBlock(block: MockBlock, fullTransactions: boolean) {
+    return {
+      number: quantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: quantity(block.timestamp),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: quantity(30_000_000),
+      gasUsed: '0x0',
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      transactions: fullTransactions
+        ? block.transactions.map((hash) => this.formatTransaction(this.chain.getTransaction(hash)!))
+        : [...block.transactions],
+    };
+  }
+
+  private formatTransaction(tx: MockTransaction) {
+    return {
+      hash: tx.hash,
+      type: '0x0',
+      blockHash: tx.blockHash,
+      blockNumber: quantity(tx.blockNumber),
+      transactionIndex: '0x0',
+      from: tx.from,
+      to: tx.to,
+      nonce: quantity(tx.nonce),
+      gas: quantity(tx.gasLimit),
+      gasPrice: quantity(MOCK_GAS_PRICE),
+      input: tx.data,
+      value: quantity(tx.value),
+      chainId: quantity(this.chain.chainId),
+      ...MOCK_SIGNATURE,
+    };
+  }
+
+  private formatReceipt(tx: MockTransaction) {
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: '0x0',
+      blockHash: tx.blockHash,
+      blockNumber: quantity(tx.blockNumber),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: quantity(tx.gasLimit),
+      gasUsed: quantity(tx.gasLimit),
+      effectiveGasPrice: quantity(MOCK_GAS_PRICE),
+      logsBloom: '0x' + '00'.repeat(256),
+      status: quantity(tx.status),
+      type: '0x0',
+      logs: tx.logs.map((log) => this.formatLog(log)),
+    };
+  }
+
+  private formatLog(log: MockLog) {
+    return {
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      blockNumber: quantity(log.blockNumber),
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      transactionIndex: quantity(log.transactionIndex),
+      logIndex: quantity(log.logIndex),
+      removed: false,
+    };
+  }
+}
+
+export default MockEip1193Provider;
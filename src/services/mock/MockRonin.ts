@@ -0,0 +1,164 @@
+/**
+ * @title MockRonin
+ * @notice Builds a fully wired in-memory Ronin backend for local development and tests
+ * @dev Contracts are deployed at the addresses from config/contracts.ts; unset addresses fall back
+ * @dev to deterministic ones. The deployed addresses are then registered as the active 'mock'
+ * @dev network, so the existing services and hooks resolve them unchanged.
+ * @dev The returned connector mimics the tanto-connect Ronin Wallet connector.
+ */
+
+import { ethers } from 'ethers';
+import { activateMockNetwork, ContractName, getChainId, getContractAddress } from '../../config/contracts';
+import { MockChain } from './MockChain';
+import { MockEip1193Provider, MockProviderOptions } from './MockEip1193Provider';
+import { MockExpedition } from './contracts/MockExpedition';
+import { MockFoodSystem, MockMeal } from './contracts/MockFoodSystem';
+import { MockGemsToken } from './contracts/MockGemsToken';
+import { MockMinerNFT } from './contracts/MockMinerNFT';
+import { MockRewardSpendingBatch } from './contracts/MockRewardSpendingBatch';
+import { MockStaking, MockStakingConfig } from './contracts/MockStaking';
+
+// Default wallet (Hardhat account #0) so addresses are stable across reloads
+export const MOCK_ACCOUNT = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+export interface MockRoninOptions {
+  chainId?: number;
+  account?: string;
+  minerIds?: number[];          // Miners minted to the account
+  gemsBalance?: string;         // GEMS (ERC-20) minted to the account, in ether units
+  ronBalance?: string;          // Native RON balance, in ether units
+  staking?: Partial<MockStakingConfig>;
+  meals?: MockMeal[];
+  mealCooldown?: number;        // Seconds
+  discountDuration?: number;    // Seconds from genesis; 0 disables the discount period
+  expeditionTime?: number;      // Seconds
+  miningCooldown?: number;      // Seconds
+  seed?: string;                // Expedition outcome seed
+  provider?: MockProviderOptions;
+}
+
+export interface MockRoninContracts {
+  gemsToken: MockGemsToken;
+  minerNFT: MockMinerNFT;
+  staking: MockStaking;
+  foodSystem: MockFoodSystem;
+  expedition: MockExpedition;
+  rewardSpendingBatch: MockRewardSpendingBatch;
+}
+
+/**
+ * Minimal stand-in for the tanto-connect RoninWalletConnector
+ */
+export class MockRoninConnector {
+  readonly provider: MockEip1193Provider;
+
+  constructor(provider: MockEip1193Provider) {
+    this.provider = provider;
+  }
+
+  async getProvider() {
+    return this.provider;
+  }
+
+  async connect() {
+    const [account] = await this.getAccounts();
+    return { account, chainId: await this.getChainId() };
+  }
+
+  async disconnect() {}
+
+  async getAccounts(): Promise<string[]> {
+    return (await this.provider.request({ method: 'eth_requestAccounts' })) as string[];
+  }
+
+  async getChainId(): Promise<number> {
+    return Number(await this.provider.request({ method: 'eth_chainId' }));
+  }
+
+  async switchChain(chainId: number) {
+    await this.provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: ethers.toQuantity(chainId) }] });
+  }
+}
+
+export interface MockRonin {
+  chain: MockChain;
+  provider: MockEip1193Provider;
+  connector: MockRoninConnector;
+  contracts: MockRoninContracts;
+  account: string;
+}
+
+/**
+ * Resolves a contract address, falling back to a deterministic one when unset or already taken
+ */
+function resolveAddress(name: ContractName, used: Set<string>): string {
+  let address = getContractAddress(name);
+  if (address === ethers.ZeroAddress || used.has(address.toLowerCase())) {
+    address = ethers.getAddress(ethers.dataSlice(ethers.id(`mock-${name}`), 12));
+  }
+  used.add(address.toLowerCase());
+  return address;
+}
+
+/**
+ * Creates and seeds a mock chain
+ * @param options - Chain, account and game configuration
+ * @returns The chain, its EIP-1193 provider, a wallet connector and the contract mocks
+ */
+export function createMockRonin(options: MockRoninOptions = {}): MockRonin {
+  const chain = new MockChain(options.chainId ?? getChainId());
+  const account = ethers.getAddress(options.account ?? MOCK_ACCOUNT);
+  const used = new Set<string>();
+
+  const gemsToken = chain.deploy(new MockGemsToken(resolveAddress('GEMSToken', used)));
+  const minerNFT = chain.deploy(new MockMinerNFT(resolveAddress('MinerNFT', used)));
+  const staking = chain.deploy(new MockStaking(resolveAddress('StakingProxy', used), minerNFT, gemsToken, options.staking));
+  const discountDuration = options.discountDuration ?? 7 * 24 * 60 * 60;
+  const foodSystem = chain.deploy(
+    new MockFoodSystem(resolveAddress('FoodSystemProxy', used), staking, gemsToken, {
+      meals: options.meals,
+      mealCooldown: options.mealCooldown,
+      discountEndTime: discountDuration > 0 ? chain.now() + discountDuration : 0,
+    })
+  );
+  const expedition = chain.deploy(
+    new MockExpedition(resolveAddress('MiningExpeditionProxy', used), staking, foodSystem, gemsToken, {
+      owner: account,
+      expeditionTime: options.expeditionTime,
+      miningCooldown: options.miningCooldown,
+      seed: options.seed,
+    })
+  );
+  const rewardSpendingBatch = chain.deploy(
+    new MockRewardSpendingBatch(resolveAddress('RewardSpendingBatch', used), staking, foodSystem)
+  );
+  foodSystem.link(rewardSpendingBatch.address, (minerId) => expedition.isOnExpedition(minerId));
+
+  activateMockNetwork(chain.chainId, {
+    GEMSToken: gemsToken.address,
+    MinerNFT: minerNFT.address,
+    MiningMastersStaking: staking.address,
+    StakingProxy: staking.address,
+    FoodSystemProxy: foodSystem.address,
+    RewardSpendingBatch: rewardSpendingBatch.address,
+    MiningExpeditionProxy: expedition.address,
+  });
+
+  // Seed the wallet
+  chain.setBalance(account, ethers.parseEther(options.ronBalance ?? '100'));
+  gemsToken.mint(account, ethers.parseUnits(options.gemsBalance ?? '1000', 18));
+  for (const minerId of options.minerIds ?? [1, 2, 3, 4, 5]) {
+    minerNFT.mint(account, minerId);
+  }
+
+  const provider = new MockEip1193Provider(chain, [account], options.provider);
+  return {
+    chain,
+    provider,
+    connector: new MockRoninConnector(provider),
+    contracts: { gemsToken, minerNFT, staking, foodSystem, expedition, rewardSpendingBatch },
+    account,
+  };
+}
+
+export default createMockRonin;
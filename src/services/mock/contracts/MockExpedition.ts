@@ -0,0 +1,164 @@
+/**
+ * @title MockExpedition
+ * @notice MiningExpedition for the mock chain
+ * @dev Outcomes are deterministic for a given seed, miner and start time: success is rolled
+ * @dev against the meal's success rate and the reward is drawn from the meal's range. Rewards
+ * @dev are credited to the staking contract's pending balance and the meal is consumed.
+ */
+
+import { ethers } from 'ethers';
+import { MINING_EXPEDITION_ABI } from '../../../contracts/clients/MiningExpedition';
+import { CallContext, MockContract, require } from '../MockChain';
+import type { MockFoodSystem } from './MockFoodSystem';
+import type { MockGemsToken } from './MockGemsToken';
+import type { MockStaking } from './MockStaking';
+
+interface ExpeditionRecord {
+  startTime: number;
+  endTime: number;
+  completed: boolean;
+  successful: boolean;
+  baseReward: bigint;
+  boostedReward: bigint;
+  boostPercentage: bigint;
+}
+
+interface MinerStatsRecord {
+  totalExpeditions: bigint;
+  successfulExpeditions: bigint;
+  totalRewards: bigint;
+  totalBoostRewards: bigint;
+}
+
+interface ExpeditionState {
+  owner: string;
+  expeditionTime: number;
+  miningCooldown: number;
+  expeditions: Record<string, ExpeditionRecord>;
+  stats: Record<string, MinerStatsRecord>;
+}
+
+const EMPTY_EXPEDITION: ExpeditionRecord = {
+  startTime: 0,
+  endTime: 0,
+  completed: false,
+  successful: false,
+  baseReward: 0n,
+  boostedReward: 0n,
+  boostPercentage: 0n,
+};
+
+const EMPTY_STATS: MinerStatsRecord = {
+  totalExpeditions: 0n,
+  successfulExpeditions: 0n,
+  totalRewards: 0n,
+  totalBoostRewards: 0n,
+};
+
+export class MockExpedition extends MockContract<ExpeditionState> {
+  private staking: MockStaking;
+  private food: MockFoodSystem;
+  private gems: MockGemsToken;
+  private seed: string;
+
+  constructor(
+    address: string,
+    staking: MockStaking,
+    food: MockFoodSystem,
+    gemsToken: MockGemsToken,
+    options: { owner: string; expeditionTime?: number; miningCooldown?: number; seed?: string }
+  ) {
+    super('MiningExpedition', MINING_EXPEDITION_ABI, address, {
+      owner: ethers.getAddress(options.owner),
+      expeditionTime: options.expeditionTime ?? 4 * 60 * 60,
+      miningCooldown: options.miningCooldown ?? 0,
+      expeditions: {},
+      stats: {},
+    });
+    this.staking = staking;
+    this.food = food;
+    this.gems = gemsToken;
+    this.seed = options.seed ?? 'mining-masters';
+  }
+
+  protected readonly methods = {
+    owner: () => this.state.owner,
+    MINING_COOLDOWN: () => BigInt(this.state.miningCooldown),
+    BOOST_24H_PERCENTAGE: () => 0n,
+    BOOST_LIFETIME_PERCENTAGE: () => 0n,
+    MAX_BOOST_PERCENTAGE: () => 0n,
+    foodSystemAddress: () => this.food.address,
+    gemTokenAddress: () => this.gems.address,
+    stakingContractAddress: () => this.staking.address,
+    getUserBoosts: () => [false, false, false, 0n],
+    expeditions: (_ctx: CallContext, [minerId]: ethers.Result) => this.expeditionOf(minerId.toString()),
+    getExpeditionStatus: (_ctx: CallContext, [minerId]: ethers.Result) => this.expeditionOf(minerId.toString()),
+    minerStats: (_ctx: CallContext, [minerId]: ethers.Result) => this.state.stats[minerId.toString()] ?? EMPTY_STATS,
+    getMinerStatistics: (_ctx: CallContext, [minerId]: ethers.Result) => this.state.stats[minerId.toString()] ?? EMPTY_STATS,
+    startExpedition: (ctx: CallContext, [minerId]: ethers.Result) => this.start(ctx, minerId.toString()),
+    startExpeditions: (ctx: CallContext, [minerIds]: ethers.Result) => {
+      require(minerIds.length > 0, 'No miners provided');
+      for (const minerId of minerIds as bigint[]) this.start(ctx, minerId.toString());
+    },
+    completeExpedition: (ctx: CallContext, [minerId]: ethers.Result) => this.complete(ctx, minerId.toString()),
+    completeExpeditions: (ctx: CallContext, [minerIds]: ethers.Result) => {
+      require(minerIds.length > 0, 'No miners provided');
+      for (const minerId of minerIds as bigint[]) this.complete(ctx, minerId.toString());
+    },
+    updateExpeditionTime: (ctx: CallContext, [newTime]: ethers.Result) => {
+      require(ctx.sender.toLowerCase() === this.state.owner.toLowerCase(), 'Ownable: caller is not the owner');
+      this.state.expeditionTime = Number(newTime);
+      this.emit('ExpeditionTimeUpdated', [newTime]);
+    },
+  };
+
+  isOnExpedition(minerId: string): boolean {
+    const expedition = this.state.expeditions[minerId];
+    return !!expedition && expedition.startTime > 0 && !expedition.completed;
+  }
+
+  private expeditionOf(minerId: string): ExpeditionRecord {
+    return this.state.expeditions[minerId] ?? EMPTY_EXPEDITION;
+  }
+
+  private start(ctx: CallContext, minerId: string) {
+    require(this.staking.isStakedBy(minerId, ctx.sender), 'Not the staked miner owner');
+    require(!this.isOnExpedition(minerId), 'Miner already on expedition');
+    const [, mealTimestamp] = this.food.mealStatus(minerId);
+    require(mealTimestamp > 0n, 'Miner has not eaten');
+    const previous = this.state.expeditions[minerId];
+    require(!previous || previous.endTime + this.state.miningCooldown <= ctx.timestamp, 'Miner is on cooldown');
+
+    const endTime = ctx.timestamp + this.state.expeditionTime;
+    this.state.expeditions[minerId] = { ...EMPTY_EXPEDITION, startTime: ctx.timestamp, endTime };
+    this.emit('ExpeditionStarted', [ctx.sender, minerId, ctx.timestamp, endTime]);
+  }
+
+  private complete(ctx: CallContext, minerId: string) {
+    require(this.isOnExpedition(minerId), 'Miner not on expedition');
+    require(this.staking.isStakedBy(minerId, ctx.sender), 'Not the staked miner owner');
+    const expedition = this.state.expeditions[minerId];
+    require(ctx.timestamp >= expedition.endTime, 'Expedition not yet ended');
+
+    const [, , successRate, minReward, maxReward] = this.food.mealStatus(minerId);
+    const roll = BigInt(ethers.solidityPackedKeccak256(['string', 'uint256', 'uint256'], [this.seed, minerId, expedition.startTime]));
+    const successful = roll % 100n < successRate;
+    const reward = successful ? minReward + ((roll >> 128n) % (maxReward - minReward + 1n)) : 0n;
+
+    this.state.expeditions[minerId] = { ...expedition, completed: true, successful, baseReward: reward, boostedReward: reward };
+    const stats = this.state.stats[minerId] ?? { ...EMPTY_STATS };
+    this.state.stats[minerId] = {
+      ...stats,
+      totalExpeditions: stats.totalExpeditions + 1n,
+      successfulExpeditions: stats.successfulExpeditions + (successful ? 1n : 0n),
+      totalRewards: stats.totalRewards + reward,
+    };
+
+    this.food.consumeMeal(minerId);
+    if (reward > 0n) this.staking.creditRewards(ctx.sender, reward, ctx.timestamp);
+    this.emit('ExpeditionRewardCalculated', [ctx.sender, minerId, reward]);
+    this.emit('ExpeditionCompleted', [ctx.sender, minerId, successful, reward, reward, 0n]);
+  }
+}
+
+export default MockExpedition;
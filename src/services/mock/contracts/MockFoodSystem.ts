@@ -0,0 +1,198 @@
+/**
+ * @title MockFoodSystem
+ * @notice FoodSystem for the mock chain
+ * @dev A meal stays on the miner (getMinerMealStatus) until an expedition consumes it; each
+ * @dev meal can be eaten again by the same miner once MEAL_COOLDOWN has passed
+ */
+
+import { ethers } from 'ethers';
+import { FOOD_SYSTEM_ABI } from '../../../contracts/clients/FoodSystem';
+import { CallContext, MockContract, require } from '../MockChain';
+import type { MockGemsToken } from './MockGemsToken';
+import type { MockStaking } from './MockStaking';
+
+export interface MockMeal {
+  name: string;
+  successRate: number;      // Percent
+  minReward: bigint;        // Wei
+  maxReward: bigint;        // Wei
+  originalPrice: bigint;    // Wei
+  discountedPrice: bigint;  // Wei
+  active: boolean;
+}
+
+const gems = (value: number) => ethers.parseUnits(value.toString(), 18);
+
+const meal = (name: string, successRate: number, price: number, minReward: number, maxReward: number): MockMeal => ({
+  name,
+  successRate,
+  minReward: gems(minReward),
+  maxReward: gems(maxReward),
+  originalPrice: gems(price),
+  discountedPrice: gems(price / 2),
+  active: true,
+});
+
+// Mirrors the launch menu; reward ranges are illustrative
+export const DEFAULT_MEALS: MockMeal[] = [
+  meal('Apple', 5, 0, 1, 3),
+  meal('Coffee', 20, 4, 2, 8),
+  meal('Sandwich', 25, 7, 4, 12),
+  meal('Fries', 27, 10, 5, 16),
+  meal('Burger', 30, 15, 8, 24),
+  meal('Cake', 35, 20, 10, 32),
+  meal('Pizza', 40, 22.5, 12, 36),
+  meal('Salad', 45, 25, 13, 40),
+  meal('Noodles', 50, 27.5, 14, 44),
+  meal('Fried Shrimp', 52, 30, 15, 48),
+  meal('Stew', 55, 35, 18, 56),
+  meal('Steak', 60, 40, 20, 64),
+  meal('Dango', 45, 0, 10, 30),
+];
+
+interface FoodSystemState {
+  meals: MockMeal[];
+  discountEndTime: number;  // 0 when no discount period is configured
+  mealCooldown: number;
+  activeMeals: Record<string, { mealId: number; timestamp: number }>;  // minerId => current meal
+  consumption: Record<string, Record<string, number>>;                 // minerId => mealId => last eaten
+}
+
+export class MockFoodSystem extends MockContract<FoodSystemState> {
+  private staking: MockStaking;
+  private gems: MockGemsToken;
+  private spender: string | null = null;
+  private isOnExpedition: (minerId: string) => boolean = () => false;
+
+  constructor(
+    address: string,
+    staking: MockStaking,
+    gemsToken: MockGemsToken,
+    options: { meals?: MockMeal[]; mealCooldown?: number; discountEndTime?: number } = {}
+  ) {
+    super('FoodSystem', FOOD_SYSTEM_ABI, address, {
+      meals: structuredClone(options.meals ?? DEFAULT_MEALS),
+      discountEndTime: options.discountEndTime ?? 0,
+      mealCooldown: options.mealCooldown ?? 6 * 60 * 60,
+      activeMeals: {},
+      consumption: {},
+    });
+    this.staking = staking;
+    this.gems = gemsToken;
+  }
+
+  /**
+   * Wires the contracts FoodSystem depends on after deployment
+   * @param spender - RewardSpendingBatch address allowed to call buyMealForUser
+   * @param isOnExpedition - Expedition lookup; miners cannot eat while away
+   */
+  link(spender: string, isOnExpedition: (minerId: string) => boolean) {
+    this.spender = spender;
+    this.isOnExpedition = isOnExpedition;
+  }
+
+  protected readonly methods = {
+    MEAL_COOLDOWN: () => BigInt(this.state.mealCooldown),
+    getMealCount: () => BigInt(this.state.meals.length),
+    meals: (_ctx: CallContext, [mealId]: ethers.Result) => this.getMeal(mealId),
+    getAllMeals: (ctx: CallContext) => [
+      this.state.meals.map((m) => m.name),
+      this.state.meals.map((m) => BigInt(m.successRate)),
+      this.state.meals.map((m) => m.minReward),
+      this.state.meals.map((m) => m.maxReward),
+      this.state.meals.map((_, id) => this.currentPrice(id, ctx.timestamp)),
+      this.state.meals.map((m) => m.active),
+    ],
+    getCurrentMealPrice: (ctx: CallContext, [mealId]: ethers.Result) => this.currentPrice(Number(mealId), ctx.timestamp),
+    discountActive: (ctx: CallContext) => this.isDiscountActive(ctx.timestamp),
+    discountEndTime: () => BigInt(this.state.discountEndTime),
+    getDiscountInfo: (ctx: CallContext) => {
+      const isActive = this.isDiscountActive(ctx.timestamp);
+      return [isActive, BigInt(this.state.discountEndTime), BigInt(isActive ? this.state.discountEndTime - ctx.timestamp : 0)];
+    },
+    lastMealId: (_ctx: CallContext, [minerId]: ethers.Result) => BigInt(this.state.activeMeals[minerId.toString()]?.mealId ?? 0),
+    minerMealConsumption: (_ctx: CallContext, [minerId, mealId]: ethers.Result) =>
+      BigInt(this.state.consumption[minerId.toString()]?.[mealId.toString()] ?? 0),
+    getMinerMealStatus: (_ctx: CallContext, [minerId]: ethers.Result) => this.mealStatus(minerId.toString()),
+    canEatMeal: (ctx: CallContext, [minerId, mealId]: ethers.Result) => {
+      const wait = this.timeUntilAvailable(minerId.toString(), Number(mealId), ctx.timestamp);
+      return [wait === 0, BigInt(wait)];
+    },
+    getMinerMealAvailability: (ctx: CallContext, [minerId]: ethers.Result) => {
+      const waits = this.state.meals.map((_, id) => this.timeUntilAvailable(minerId.toString(), id, ctx.timestamp));
+      return [waits.map((wait) => wait === 0), waits.map(BigInt)];
+    },
+    buyMeal: (ctx: CallContext, [minerId, mealId]: ethers.Result) => {
+      const price = this.feed(ctx.sender, minerId.toString(), Number(mealId), ctx.timestamp);
+      if (price > 0n) this.gems.burn(ctx.sender, price);
+    },
+    buyMealForUser: (ctx: CallContext, [user, minerId, mealId]: ethers.Result) => {
+      require(this.spender && ctx.sender.toLowerCase() === this.spender.toLowerCase(), 'Only reward spending interface');
+      const price = this.feed(user, minerId.toString(), Number(mealId), ctx.timestamp);
+      if (price > 0n) this.staking.spendRewards(user, price, ctx.timestamp);
+    },
+    endDiscountPeriod: (ctx: CallContext) => {
+      this.state.discountEndTime = ctx.timestamp;
+      this.emit('DiscountPeriodEnded', []);
+    },
+  };
+
+  /**
+   * Current meal of a miner; timestamp is 0 once an expedition has consumed it
+   */
+  mealStatus(minerId: string) {
+    const active = this.state.activeMeals[minerId];
+    const current = active ? this.state.meals[active.mealId] : undefined;
+    return [
+      BigInt(active?.mealId ?? 0),
+      BigInt(active?.timestamp ?? 0),
+      BigInt(current?.successRate ?? 0),
+      current?.minReward ?? 0n,
+      current?.maxReward ?? 0n,
+    ] as const;
+  }
+
+  /**
+   * Clears a miner's meal when an expedition ends
+   */
+  consumeMeal(minerId: string) {
+    delete this.state.activeMeals[minerId];
+  }
+
+  private getMeal(mealId: bigint | number): MockMeal {
+    const found = this.state.meals[Number(mealId)];
+    require(found, 'Invalid meal ID');
+    return found;
+  }
+
+  private isDiscountActive(timestamp: number): boolean {
+    return this.state.discountEndTime > timestamp;
+  }
+
+  private currentPrice(mealId: number, timestamp: number): bigint {
+    const found = this.getMeal(mealId);
+    return this.isDiscountActive(timestamp) ? found.discountedPrice : found.originalPrice;
+  }
+
+  private timeUntilAvailable(minerId: string, mealId: number, timestamp: number): number {
+    const found = this.getMeal(mealId);
+    if (!found.active || this.isOnExpedition(minerId)) return this.state.mealCooldown;
+    const lastEaten = this.state.consumption[minerId]?.[mealId.toString()] ?? 0;
+    return lastEaten === 0 ? 0 : Math.max(0, lastEaten + this.state.mealCooldown - timestamp);
+  }
+
+  private feed(user: string, minerId: string, mealId: number, timestamp: number): bigint {
+    require(this.staking.isStakedBy(minerId, user), 'Not the staked miner owner');
+    require(this.getMeal(mealId).active, 'Meal is not active');
+    require(!this.isOnExpedition(minerId), 'Miner is on an expedition');
+    require(this.timeUntilAvailable(minerId, mealId, timestamp) === 0, 'Meal is on cooldown');
+
+    const price = this.currentPrice(mealId, timestamp);
+    this.state.activeMeals[minerId] = { mealId, timestamp };
+    (this.state.consumption[minerId] ??= {})[mealId.toString()] = timestamp;
+    this.emit('MealPurchased', [user, minerId, mealId, price, timestamp]);
+    return price;
+  }
+}
+
+export default MockFoodSystem;
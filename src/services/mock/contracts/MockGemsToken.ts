@@ -0,0 +1,88 @@
+/**
+ * @title MockGemsToken
+ * @notice ERC-20 GEMS token for the mock chain
+ * @dev Other mock contracts mint and burn through mint()/burn() directly, standing in for
+ * @dev the minter role of the deployed token
+ */
+
+import { ethers } from 'ethers';
+import { GEMS_TOKEN_ABI } from '../../../contracts/clients/GEMSToken';
+import { CallContext, MockContract, require } from '../MockChain';
+
+interface GemsTokenState {
+  totalSupply: bigint;
+  balances: Record<string, bigint>;
+  allowances: Record<string, Record<string, bigint>>;
+}
+
+const key = (address: string) => address.toLowerCase();
+
+export class MockGemsToken extends MockContract<GemsTokenState> {
+  constructor(address: string) {
+    super('GEMSToken', GEMS_TOKEN_ABI, address, { totalSupply: 0n, balances: {}, allowances: {} });
+  }
+
+  protected readonly methods = {
+    name: () => 'GEMS',
+    symbol: () => 'GEMS',
+    decimals: () => 18n,
+    totalSupply: () => this.state.totalSupply,
+    balanceOf: (_ctx: CallContext, [owner]: ethers.Result) => this.balanceOf(owner),
+    allowance: (_ctx: CallContext, [owner, spender]: ethers.Result) => this.allowance(owner, spender),
+    approve: (ctx: CallContext, [spender, amount]: ethers.Result) => {
+      (this.state.allowances[key(ctx.sender)] ??= {})[key(spender)] = amount;
+      this.emit('Approval', [ctx.sender, spender, amount]);
+      return true;
+    },
+    transfer: (ctx: CallContext, [to, amount]: ethers.Result) => {
+      this.move(ctx.sender, to, amount);
+      return true;
+    },
+    transferFrom: (ctx: CallContext, [from, to, amount]: ethers.Result) => {
+      this.spendAllowance(from, ctx.sender, amount);
+      this.move(from, to, amount);
+      return true;
+    },
+  };
+
+  balanceOf(owner: string): bigint {
+    return this.state.balances[key(owner)] ?? 0n;
+  }
+
+  allowance(owner: string, spender: string): bigint {
+    return this.state.allowances[key(owner)]?.[key(spender)] ?? 0n;
+  }
+
+  /**
+   * Reduces an allowance, reverting if it is too low
+   */
+  spendAllowance(owner: string, spender: string, amount: bigint) {
+    const allowed = this.allowance(owner, spender);
+    require(allowed >= amount, 'ERC20: insufficient allowance');
+    this.state.allowances[key(owner)][key(spender)] = allowed - amount;
+  }
+
+  mint(to: string, amount: bigint) {
+    this.state.totalSupply += amount;
+    this.state.balances[key(to)] = this.balanceOf(to) + amount;
+    this.emit('Transfer', [ethers.ZeroAddress, to, amount]);
+  }
+
+  burn(from: string, amount: bigint) {
+    const balance = this.balanceOf(from);
+    require(balance >= amount, 'ERC20: burn amount exceeds balance');
+    this.state.totalSupply -= amount;
+    this.state.balances[key(from)] = balance - amount;
+    this.emit('Transfer', [from, ethers.ZeroAddress, amount]);
+  }
+
+  private move(from: string, to: string, amount: bigint) {
+    const balance = this.balanceOf(from);
+    require(balance >= amount, 'ERC20: transfer amount exceeds balance');
+    this.state.balances[key(from)] = balance - amount;
+    this.state.balances[key(to)] = this.balanceOf(to) + amount;
+    this.emit('Transfer', [from, to, amount]);
+  }
+}
+
+export default MockGemsToken;
@@ -0,0 +1,128 @@
+/**
+ * @title MockMinerNFT
+ * @notice Enumerable ERC-721 miner collection for the mock chain
+ */
+
+import { ethers } from 'ethers';
+import { MINER_NFT_ABI } from '../../../contracts/clients/MinerNFT';
+import { CallContext, MockContract, require } from '../MockChain';
+
+interface MinerNFTState {
+  owners: Record<string, string>;             // tokenId => owner
+  ownedTokens: Record<string, string[]>;      // owner => tokenIds, in acquisition order
+  tokenApprovals: Record<string, string>;     // tokenId => approved address
+  operatorApprovals: Record<string, Record<string, boolean>>;
+  totalSupply: number;
+}
+
+const key = (address: string) => address.toLowerCase();
+
+// The generated ABI omits events; real ERC-721 transfers emit Transfer
+const MOCK_MINER_NFT_ABI = [
+  ...(MINER_NFT_ABI as ReadonlyArray<ethers.JsonFragment>),
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+];
+
+export class MockMinerNFT extends MockContract<MinerNFTState> {
+  private baseURI: string;
+
+  constructor(address: string, baseURI = 'https://metadata.miningmasters.test/miners/') {
+    super('MinerNFT', MOCK_MINER_NFT_ABI, address, {
+      owners: {},
+      ownedTokens: {},
+      tokenApprovals: {},
+      operatorApprovals: {},
+      totalSupply: 0,
+    });
+    this.baseURI = baseURI;
+  }
+
+  protected readonly methods = {
+    name: () => 'Mining Masters Miner',
+    symbol: () => 'MINER',
+    totalSupply: () => BigInt(this.state.totalSupply),
+    balanceOf: (_ctx: CallContext, [owner]: ethers.Result) => BigInt(this.tokensOf(owner).length),
+    ownerOf: (_ctx: CallContext, [tokenId]: ethers.Result) => this.ownerOf(tokenId),
+    tokenOfOwnerByIndex: (_ctx: CallContext, [owner, index]: ethers.Result) => {
+      const tokens = this.tokensOf(owner);
+      require(index < BigInt(tokens.length), 'ERC721Enumerable: owner index out of bounds');
+      return BigInt(tokens[Number(index)]);
+    },
+    tokenURI: (_ctx: CallContext, [tokenId]: ethers.Result) => {
+      this.ownerOf(tokenId);
+      return `${this.baseURI}${tokenId}`;
+    },
+    getApproved: (_ctx: CallContext, [tokenId]: ethers.Result) => {
+      this.ownerOf(tokenId);
+      return this.state.tokenApprovals[tokenId.toString()] ?? ethers.ZeroAddress;
+    },
+    isApprovedForAll: (_ctx: CallContext, [owner, operator]: ethers.Result) => this.isApprovedForAll(owner, operator),
+    approve: (ctx: CallContext, [to, tokenId]: ethers.Result) => {
+      const owner = this.ownerOf(tokenId);
+      require(
+        key(ctx.sender) === key(owner) || this.isApprovedForAll(owner, ctx.sender),
+        'ERC721: approve caller is not token owner or approved for all'
+      );
+      this.state.tokenApprovals[tokenId.toString()] = to;
+    },
+    setApprovalForAll: (ctx: CallContext, [operator, approved]: ethers.Result) => {
+      require(key(operator) !== key(ctx.sender), 'ERC721: approve to caller');
+      (this.state.operatorApprovals[key(ctx.sender)] ??= {})[key(operator)] = approved;
+    },
+    transferFrom: (ctx: CallContext, [from, to, tokenId]: ethers.Result) => this.transferFrom(ctx.sender, from, to, tokenId),
+    safeTransferFrom: (ctx: CallContext, [from, to, tokenId]: ethers.Result) => this.transferFrom(ctx.sender, from, to, tokenId),
+  };
+
+  ownerOf(tokenId: bigint | number): string {
+    const owner = this.state.owners[tokenId.toString()];
+    require(owner, 'ERC721: invalid token ID');
+    return owner;
+  }
+
+  tokensOf(owner: string): string[] {
+    return this.state.ownedTokens[key(owner)] ?? [];
+  }
+
+  isApprovedForAll(owner: string, operator: string): boolean {
+    return this.state.operatorApprovals[key(owner)]?.[key(operator)] ?? false;
+  }
+
+  /**
+   * Whether `spender` may move the token (owner, approved address or operator)
+   */
+  isApprovedOrOwner(spender: string, tokenId: bigint | number): boolean {
+    const owner = this.ownerOf(tokenId);
+    return (
+      key(spender) === key(owner) ||
+      key(this.state.tokenApprovals[tokenId.toString()] ?? '') === key(spender) ||
+      this.isApprovedForAll(owner, spender)
+    );
+  }
+
+  mint(to: string, tokenId: bigint | number) {
+    const id = tokenId.toString();
+    require(!this.state.owners[id], 'ERC721: token already minted');
+    this.state.owners[id] = ethers.getAddress(to);
+    (this.state.ownedTokens[key(to)] ??= []).push(id);
+    this.state.totalSupply += 1;
+    this.emit('Transfer', [ethers.ZeroAddress, to, tokenId]);
+  }
+
+  /**
+   * Moves a token on behalf of `spender`, checking ERC-721 approval rules
+   */
+  transferFrom(spender: string, from: string, to: string, tokenId: bigint | number) {
+    const id = tokenId.toString();
+    require(this.isApprovedOrOwner(spender, tokenId), 'ERC721: caller is not token owner or approved');
+    require(key(this.ownerOf(tokenId)) === key(from), 'ERC721: transfer from incorrect owner');
+    require(key(to) !== key(ethers.ZeroAddress), 'ERC721: transfer to the zero address');
+
+    this.state.ownedTokens[key(from)] = this.tokensOf(from).filter((owned) => owned !== id);
+    (this.state.ownedTokens[key(to)] ??= []).push(id);
+    this.state.owners[id] = ethers.getAddress(to);
+    delete this.state.tokenApprovals[id];
+    this.emit('Transfer', [from, to, tokenId]);
+  }
+}
+
+export default MockMinerNFT;
@@ -0,0 +1,47 @@
+/**
+ * @title MockRewardSpendingBatch
+ * @notice RewardSpendingBatch for the mock chain
+ * @dev Spends the caller's pending staking rewards; meals go through FoodSystem.buyMealForUser
+ * @dev as an internal call so the FoodSystem spender check applies
+ */
+
+import { ethers } from 'ethers';
+import { REWARD_SPENDING_BATCH_ABI } from '../../../contracts/clients/RewardSpendingBatch';
+import { BATCH_ACTION } from '../../contracts/BatchAction';
+import { CallContext, MockContract, MockRevert, require } from '../MockChain';
+import type { MockFoodSystem } from './MockFoodSystem';
+import type { MockStaking } from './MockStaking';
+
+export class MockRewardSpendingBatch extends MockContract<Record<string, never>> {
+  private staking: MockStaking;
+  private food: MockFoodSystem;
+
+  constructor(address: string, staking: MockStaking, food: MockFoodSystem) {
+    super('RewardSpendingBatch', REWARD_SPENDING_BATCH_ABI, address, {});
+    this.staking = staking;
+    this.food = food;
+  }
+
+  protected readonly methods = {
+    executeBatch: (ctx: CallContext, [actions]: ethers.Result) => {
+      require(actions.length > 0, 'Empty batch');
+      for (const { action, arg1, arg2 } of actions as { action: bigint; arg1: bigint; arg2: bigint }[]) {
+        switch (Number(action)) {
+          case BATCH_ACTION.FEED:
+            this.food.handle(
+              { ...ctx, sender: this.address },
+              this.food.iface.encodeFunctionData('buyMealForUser', [ctx.sender, arg1, arg2])
+            );
+            break;
+          case BATCH_ACTION.SLOTS:
+            this.staking.purchaseSlots(ctx.sender, Number(arg1), ctx.timestamp);
+            break;
+          default:
+            throw new MockRevert(`Unsupported batch action ${action}`);
+        }
+      }
+    },
+  };
+}
+
+export default MockRewardSpendingBatch;
@@ -0,0 +1,189 @@
+/**
+ * @title MockStaking
+ * @notice MiningMastersStaking for the mock chain
+ * @dev Each staked miner accrues `gemsPerSecond` in-game GEMS. Expedition rewards are credited
+ * @dev and RewardSpendingBatch purchases are debited against the same pending balance, which
+ * @dev claimRewards mints as GEMS tokens.
+ */
+
+import { ethers } from 'ethers';
+import { MINING_MASTERS_STAKING_ABI } from '../../../contracts/clients/MiningMastersStaking';
+import { CallContext, MockContract, require } from '../MockChain';
+import type { MockGemsToken } from './MockGemsToken';
+import type { MockMinerNFT } from './MockMinerNFT';
+
+export interface MockStakingConfig {
+  gemsPerSecond: bigint;  // Per staked miner, in wei
+  freeSlots: number;
+  maxMinersPerWallet: number;
+  slotPrice: bigint;      // In wei of pending rewards
+}
+
+export const DEFAULT_STAKING_CONFIG: MockStakingConfig = {
+  gemsPerSecond: ethers.parseUnits('1', 18) / 3600n, // 1 GEMS per miner per hour
+  freeSlots: 20,
+  maxMinersPerWallet: 100,
+  slotPrice: ethers.parseUnits('1000', 18), // Arbitrary; the real contract does not expose its price
+};
+
+interface StakingState {
+  stakedMiners: Record<string, { owner: string; stakedAt: number; isStaked: boolean }>;
+  userMiners: Record<string, string[]>;
+  storedRewards: Record<string, bigint>;
+  lastRewardCalculation: Record<string, number>;
+  purchasedSlots: Record<string, number>;
+  paused: boolean;
+}
+
+const key = (address: string) => address.toLowerCase();
+
+export class MockStaking extends MockContract<StakingState> {
+  readonly config: MockStakingConfig;
+  private nft: MockMinerNFT;
+  private gems: MockGemsToken;
+
+  constructor(address: string, nft: MockMinerNFT, gems: MockGemsToken, config: Partial<MockStakingConfig> = {}) {
+    super('MiningMastersStaking', MINING_MASTERS_STAKING_ABI, address, {
+      stakedMiners: {},
+      userMiners: {},
+      storedRewards: {},
+      lastRewardCalculation: {},
+      purchasedSlots: {},
+      paused: false,
+    });
+    this.nft = nft;
+    this.gems = gems;
+    this.config = { ...DEFAULT_STAKING_CONFIG, ...config };
+  }
+
+  protected readonly methods = {
+    GEMS_PER_SECOND: () => this.config.gemsPerSecond,
+    SCALING_FACTOR: () => 10n ** 18n,
+    MAX_MINERS_PER_WALLET: () => BigInt(this.config.maxMinersPerWallet),
+    paused: () => this.state.paused,
+    getPendingRewards: (ctx: CallContext, [user]: ethers.Result) => this.pendingRewards(user, ctx.timestamp),
+    pendingRewards: (_ctx: CallContext, [user]: ethers.Result) => this.state.storedRewards[key(user)] ?? 0n,
+    lastRewardCalculation: (_ctx: CallContext, [user]: ethers.Result) => BigInt(this.state.lastRewardCalculation[key(user)] ?? 0),
+    getStakedMiners: (_ctx: CallContext, [user]: ethers.Result) => this.minersOf(user).map(BigInt),
+    getStakedMinerCount: (_ctx: CallContext, [user]: ethers.Result) => BigInt(this.minersOf(user).length),
+    stakedMinerCount: (_ctx: CallContext, [user]: ethers.Result) => BigInt(this.minersOf(user).length),
+    userStakedMiners: (_ctx: CallContext, [user, index]: ethers.Result) => {
+      const miners = this.minersOf(user);
+      require(index < BigInt(miners.length), 'Index out of bounds');
+      return BigInt(miners[Number(index)]);
+    },
+    userPurchasedSlots: (_ctx: CallContext, [user]: ethers.Result) => BigInt(this.state.purchasedSlots[key(user)] ?? 0),
+    stakedMiners: (_ctx: CallContext, [tokenId]: ethers.Result) =>
+      this.state.stakedMiners[tokenId.toString()] ?? { owner: ethers.ZeroAddress, stakedAt: 0, isStaked: false },
+
+    stakeMiner: (ctx: CallContext, [tokenId]: ethers.Result) => {
+      require(!this.state.paused, 'Pausable: paused');
+      require(key(this.nft.ownerOf(tokenId)) === key(ctx.sender), 'You do not own this NFT');
+      const slots = Math.min(this.config.maxMinersPerWallet, this.config.freeSlots + (this.state.purchasedSlots[key(ctx.sender)] ?? 0));
+      require(this.minersOf(ctx.sender).length < slots, 'No free miner slots');
+
+      this.accrue(ctx.sender, ctx.timestamp);
+      this.nft.transferFrom(this.address, ctx.sender, this.address, tokenId);
+      this.state.stakedMiners[tokenId.toString()] = { owner: ctx.sender, stakedAt: ctx.timestamp, isStaked: true };
+      (this.state.userMiners[key(ctx.sender)] ??= []).push(tokenId.toString());
+      this.emit('MinerStaked', [ctx.sender, tokenId, ctx.timestamp]);
+    },
+    unstakeMiner: (ctx: CallContext, [tokenId]: ethers.Result) => {
+      this.unstake(ctx, tokenId);
+    },
+    unstakeMiners: (ctx: CallContext, [tokenIds]: ethers.Result) => {
+      let successCount = 0n;
+      for (const tokenId of tokenIds as bigint[]) {
+        if (this.isStakedBy(tokenId, ctx.sender)) {
+          this.unstake(ctx, tokenId);
+          successCount += 1n;
+        } else {
+          this.emit('MinerUnstakingFailed', [ctx.sender, tokenId, ctx.timestamp]);
+        }
+      }
+      this.emit('BulkUnstakeCompleted', [ctx.sender, BigInt(tokenIds.length), successCount, ctx.timestamp]);
+      return successCount;
+    },
+    claimRewards: (ctx: CallContext) => {
+      this.accrue(ctx.sender, ctx.timestamp);
+      const amount = this.state.storedRewards[key(ctx.sender)] ?? 0n;
+      require(amount > 0n, 'No rewards to claim');
+      this.state.storedRewards[key(ctx.sender)] = 0n;
+      this.gems.mint(ctx.sender, amount);
+      this.emit('RewardsClaimed', [ctx.sender, amount]);
+      return amount;
+    },
+    purchaseSlot: (ctx: CallContext) => {
+      this.purchaseSlots(ctx.sender, 1, ctx.timestamp);
+    },
+    purchaseSlots: (ctx: CallContext, [count]: ethers.Result) => {
+      this.purchaseSlots(ctx.sender, Number(count), ctx.timestamp);
+    },
+  };
+
+  minersOf(user: string): string[] {
+    return this.state.userMiners[key(user)] ?? [];
+  }
+
+  isStakedBy(tokenId: bigint | number | string, user: string): boolean {
+    const staked = this.state.stakedMiners[tokenId.toString()];
+    return !!staked?.isStaked && key(staked.owner) === key(user);
+  }
+
+  /**
+   * Stored plus accrued rewards at `timestamp`
+   */
+  pendingRewards(user: string, timestamp: number): bigint {
+    const stored = this.state.storedRewards[key(user)] ?? 0n;
+    const last = this.state.lastRewardCalculation[key(user)] ?? timestamp;
+    return stored + BigInt(this.minersOf(user).length) * this.config.gemsPerSecond * BigInt(Math.max(0, timestamp - last));
+  }
+
+  /**
+   * Adds rewards to a user's pending balance (expedition payouts)
+   */
+  creditRewards(user: string, amount: bigint, timestamp: number) {
+    this.accrue(user, timestamp);
+    this.state.storedRewards[key(user)] = (this.state.storedRewards[key(user)] ?? 0n) + amount;
+  }
+
+  /**
+   * Spends pending rewards on the user's behalf (meals and slots bought through RewardSpendingBatch)
+   */
+  spendRewards(user: string, amount: bigint, timestamp: number) {
+    this.accrue(user, timestamp);
+    const stored = this.state.storedRewards[key(user)] ?? 0n;
+    require(stored >= amount, 'Insufficient pending rewards');
+    this.state.storedRewards[key(user)] = stored - amount;
+  }
+
+  purchaseSlots(user: string, count: number, timestamp: number) {
+    require(count > 0, 'Invalid slot count');
+    const purchased = this.state.purchasedSlots[key(user)] ?? 0;
+    require(this.config.freeSlots + purchased + count <= this.config.maxMinersPerWallet, 'Maximum slots reached');
+    this.spendRewards(user, this.config.slotPrice * BigInt(count), timestamp);
+    this.state.purchasedSlots[key(user)] = purchased + count;
+  }
+
+  private accrue(user: string, timestamp: number) {
+    const previous = this.state.storedRewards[key(user)] ?? 0n;
+    const timeDelta = timestamp - (this.state.lastRewardCalculation[key(user)] ?? timestamp);
+    const next = this.pendingRewards(user, timestamp);
+    this.state.storedRewards[key(user)] = next;
+    this.state.lastRewardCalculation[key(user)] = timestamp;
+    if (next !== previous) {
+      this.emit('RewardsCalculated', [user, timestamp, previous, next, timeDelta]);
+    }
+  }
+
+  private unstake(ctx: CallContext, tokenId: bigint) {
+    require(this.isStakedBy(tokenId, ctx.sender), 'Not the staked miner owner');
+    this.accrue(ctx.sender, ctx.timestamp);
+    this.state.userMiners[key(ctx.sender)] = this.minersOf(ctx.sender).filter((id) => id !== tokenId.toString());
+    delete this.state.stakedMiners[tokenId.toString()];
+    this.nft.transferFrom(this.address, this.address, ctx.sender, tokenId);
+    this.emit('MinerUnstaked', [ctx.sender, tokenId, ctx.timestamp]);
+  }
+}
+
+export default MockStaking;
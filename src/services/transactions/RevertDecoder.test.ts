@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { decodeRevertData, decodeTransactionError, TransactionFailedError } from './RevertDecoder';
+
+const errors = new ethers.Interface([
+  'error Error(string)',
+  'error Panic(uint256)',
+  'error EnforcedPause()',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+]);
+const SENDER = '0x000000000000000000000000000000000000dEaD';
+
+describe('decodeRevertData', () => {
+  it('decodes require() reasons', () => {
+    expect(decodeRevertData(errors.encodeErrorResult('Error', ['Meal is on cooldown']))).toEqual({
+      errorName: 'Error',
+      message: 'Meal is on cooldown',
+    });
+  });
+
+  it('names known panic codes and shows unknown ones in hex', () => {
+    expect(decodeRevertData(errors.encodeErrorResult('Panic', [0x11]))?.message).toBe('Contract panic: arithmetic overflow');
+    expect(decodeRevertData(errors.encodeErrorResult('Panic', [0x51]))?.message).toBe('Contract panic: code 0x51');
+  });
+
+  it('decodes common OpenZeppelin custom errors with their arguments', () => {
+    expect(decodeRevertData(errors.encodeErrorResult('EnforcedPause', []))).toEqual({
+      errorName: 'EnforcedPause',
+      message: 'EnforcedPause',
+    });
+    expect(decodeRevertData(errors.encodeErrorResult('ERC20InsufficientBalance', [SENDER, 1n, 2n]))?.message).toBe(
+      `ERC20InsufficientBalance(${SENDER}, 1, 2)`
+    );
+  });
+
+  it('returns null for unknown selectors', () => {
+    expect(decodeRevertData('0xdeadbeef')).toBeNull();
+  });
+});
+
+describe('decodeTransactionError', () => {
+  it('recognises wallet rejections', () => {
+    expect(decodeTransactionError(ethers.makeError('user rejected action', 'ACTION_REJECTED')).kind).toBe('rejected');
+    expect(decodeTransactionError(new Error('MetaMask Tx Signature: User denied transaction signature.')).kind).toBe('rejected');
+  });
+
+  it('reports missing gas funds and network failures', () => {
+    expect(decodeTransactionError(ethers.makeError('insufficient funds', 'INSUFFICIENT_FUNDS')).kind).toBe('insufficientFunds');
+    expect(decodeTransactionError(ethers.makeError('timeout', 'TIMEOUT')).kind).toBe('network');
+  });
+
+  it('finds revert data nested in provider errors', () => {
+    const error = Object.assign(new Error('could not coalesce error'), {
+      info: { error: { code: 3, message: 'execution reverted', data: errors.encodeErrorResult('Error', ['Not the staked miner owner']) } },
+    });
+
+    expect(decodeTransactionError(error)).toEqual({
+      kind: 'reverted',
+      message: 'Not the staked miner owner',
+      errorName: 'Error',
+    });
+  });
+
+  it('falls back to the reason of a call exception without revert data', () => {
+    const error = Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', reason: 'Paused' });
+    expect(decodeTransactionError(error)).toEqual({ kind: 'reverted', message: 'Paused' });
+  });
+
+  it('keeps the message of anything else', () => {
+    expect(decodeTransactionError(new Error('something odd'))).toEqual({ kind: 'unknown', message: 'something odd' });
+    expect(decodeTransactionError(undefined)).toEqual({ kind: 'unknown', message: 'Transaction failed' });
+  });
+});
+
+describe('TransactionFailedError', () => {
+  it('carries the decoded error', () => {
+    const error = new TransactionFailedError({ kind: 'reverted', message: 'Meal is on cooldown', errorName: 'Error' });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('Meal is on cooldown');
+    expect(error.decoded.kind).toBe('reverted');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @title RevertDecoder
+ * @notice Turns wallet/RPC errors into short, user-facing messages
+ * @dev Revert data is decoded against every project ABI plus the standard Error(string),
+ * @dev Panic(uint256) and common OpenZeppelin custom errors
+ */
+
+import { ethers } from 'ethers';
+import { BOOST_NFT_ABI } from '../../contracts/clients/BoostNFT';
+import { FOOD_SYSTEM_ABI } from '../../contracts/clients/FoodSystem';
+import { GEMS_TOKEN_ABI } from '../../contracts/clients/GEMSToken';
+import { GEMS_VAULT_ABI } from '../../contracts/clients/GemsVault';
+import { GEMX_STAKING_ABI } from '../../contracts/clients/GemxStaking';
+import { MINER_NFT_ABI } from '../../contracts/clients/MinerNFT';
+import { MINING_EXPEDITION_ABI } from '../../contracts/clients/MiningExpedition';
+import { MINING_MASTERS_STAKING_ABI } from '../../contracts/clients/MiningMastersStaking';
+import { REWARD_SPENDING_BATCH_ABI } from '../../contracts/clients/RewardSpendingBatch';
+
+/**
+ * Broad category of a failed transaction
+ */
+export type TransactionErrorKind = 'rejected' | 'reverted' | 'insufficientFunds' | 'network' | 'unknown';
+
+/**
+ * Decoded transaction failure
+ */
+export interface DecodedTransactionError {
+  kind: TransactionErrorKind;
+  message: string;
+  errorName?: string; // Custom error or 'Error'/'Panic' when revert data was decoded
+}
+
+// Custom errors commonly thrown by OpenZeppelin-based deployments that are not in the project ABIs
+const COMMON_ERRORS = [
+  'error OwnableUnauthorizedAccount(address account)',
+  'error EnforcedPause()',
+  'error ReentrancyGuardReentrantCall()',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC721NonexistentToken(uint256 tokenId)',
+  'error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)',
+  'error ERC721InsufficientApproval(address operator, uint256 tokenId)',
+];
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow',
+  0x12: 'division by zero',
+  0x32: 'array index out of bounds',
+};
+
+let errorInterface: ethers.Interface | null = null;
+
+/**
+ * Builds one Interface holding every error fragment known to the app
+ * @private
+ */
+function getErrorInterface(): ethers.Interface {
+  if (errorInterface) return errorInterface;
+
+  const fragments = new Map<string, ethers.ErrorFragment>();
+  const abis = [
+    BOOST_NFT_ABI, FOOD_SYSTEM_ABI, GEMS_TOKEN_ABI, GEMS_VAULT_ABI, GEMX_STAKING_ABI,
+    MINER_NFT_ABI, MINING_EXPEDITION_ABI, MINING_MASTERS_STAKING_ABI, REWARD_SPENDING_BATCH_ABI, COMMON_ERRORS,
+  ];
+  for (const abi of abis) {
+    for (const fragment of new ethers.Interface(abi).fragments) {
+      if (fragment instanceof ethers.ErrorFragment) {
+        fragments.set(fragment.selector, fragment);
+      }
+    }
+  }
+
+  errorInterface = new ethers.Interface([...fragments.values()]);
+  return errorInterface;
+}
+
+/**
+ * Walks the nested error objects produced by wallets and providers looking for revert data
+ * @private
+ */
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (!error || typeof error !== 'object' || depth > 5) return null;
+  const candidate = error as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+
+  if (typeof candidate.data === 'string' && candidate.data.startsWith('0x') && candidate.data.length >= 10) {
+    return candidate.data;
+  }
+  if (candidate.data && typeof candidate.data === 'object') {
+    const nested = findRevertData(candidate.data, depth + 1);
+    if (nested) return nested;
+  }
+  return findRevertData(candidate.error, depth + 1) ?? findRevertData(candidate.info?.error, depth + 1);
+}
+
+/**
+ * Decodes raw revert data into a readable reason
+ * @param data - Revert data returned by the node
+ * @returns Error name and message, or null if the selector is unknown
+ */
+export function decodeRevertData(data: string): { errorName: string; message: string } | null {
+  try {
+    const parsed = getErrorInterface().parseError(data);
+    if (!parsed) return null;
+
+    if (parsed.name === 'Error') {
+      return { errorName: 'Error', message: String(parsed.args[0]) };
+    }
+    if (parsed.name === 'Panic') {
+      const code = Number(parsed.args[0]);
+      return { errorName: 'Panic', message: `Contract panic: ${PANIC_REASONS[code] ?? `code 0x${code.toString(16)}`}` };
+    }
+    const args = parsed.args.length > 0 ? `(${parsed.args.map(String).join(', ')})` : '';
+    return { errorName: parsed.name, message: `${parsed.name}${args}` };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts any error thrown while sending or waiting for a transaction into a user-facing message
+ * @param error - Error from ethers, the wallet or the RPC
+ * @returns Decoded error
+ */
+export function decodeTransactionError(error: unknown): DecodedTransactionError {
+  if (ethers.isError(error, 'ACTION_REJECTED')) {
+    return { kind: 'rejected', message: 'Transaction was rejected in the wallet' };
+  }
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return { kind: 'insufficientFunds', message: 'You do not have enough RON for gas fees' };
+  }
+  if (ethers.isError(error, 'NETWORK_ERROR') || ethers.isError(error, 'TIMEOUT')) {
+    return { kind: 'network', message: 'Network error. Please check your connection and try again.' };
+  }
+
+  const revertData = findRevertData(error);
+  const decoded = revertData ? decodeRevertData(revertData) : null;
+  if (decoded) {
+    return { kind: 'reverted', message: decoded.message, errorName: decoded.errorName };
+  }
+
+  const { reason, shortMessage, message, code } = (error ?? {}) as { reason?: string; shortMessage?: string; message?: string; code?: string };
+  if (code === 'CALL_EXCEPTION') {
+    return { kind: 'reverted', message: reason || 'Transaction reverted on-chain' };
+  }
+  // Some wallets surface rejections only through the message text
+  if (message && /user (rejected|denied)/i.test(message)) {
+    return { kind: 'rejected', message: 'Transaction was rejected in the wallet' };
+  }
+  return { kind: 'unknown', message: reason || shortMessage || message || 'Transaction failed' };
+}
+
+/**
+ * Re-runs a mined, reverted transaction as an eth_call to recover its revert reason
+ * (receipts do not carry revert data)
+ * @param tx - The reverted transaction
+ * @param blockTag - Block the transaction was mined in
+ * @returns Decoded revert reason, or null if the replay did not revert
+ */
+export async function replayRevertReason(tx: ethers.TransactionResponse, blockTag: number): Promise<DecodedTransactionError | null> {
+  try {
+    await tx.provider.call({ to: tx.to, from: tx.from, data: tx.data, value: tx.value, blockTag });
+    return null;
+  } catch (error) {
+    const decoded = decodeTransactionError(error);
+    return decoded.kind === 'reverted' ? decoded : null;
+  }
+}
+
+/**
+ * Error thrown by the transaction manager when a tracked transaction does not confirm
+ */
+export class TransactionFailedError extends Error {
+  readonly decoded: DecodedTransactionError;
+
+  constructor(decoded: DecodedTransactionError) {
+    super(decoded.message);
+    this.name = 'TransactionFailedError';
+    this.decoded = decoded;
+  }
+}
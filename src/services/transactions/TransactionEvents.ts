@@ -0,0 +1,109 @@
+/**
+ * @title TransactionEvents
+ * @notice Shared transaction types and a typed event bus for transaction outcomes
+ * @dev The TransactionProvider publishes here; hooks subscribe (see useTransactionEvent)
+ * @dev to refresh their data when a relevant transaction confirms instead of polling
+ */
+
+import type { TransactionReceipt } from 'ethers';
+
+/**
+ * Metadata carried by each kind of game transaction
+ */
+export interface TransactionKindMap {
+  approveNFT: { minerId: number };
+  approveAllMiners: { approved: boolean };
+  repairRegistry: { minerId: number };
+  stakeMiner: { minerId: number };
+  unstakeMiner: { minerId: number };
+  claimRewards: { amount: string };
+  purchaseSlots: { count: number };
+  feedMiners: { mealId: number; minerIds: number[] };
+  startExpedition: { minerIds: number[] };
+  completeExpedition: { minerIds: number[] };
+  reduceExpeditionTime: { seconds: number };
+  approveGems: { spender: string; amount: string };
+  stakeGems: { amount: string };
+  unstakeGems: { amount: string };
+  claimGemx: { amount: string };
+  bankDeposit: { amount: string };
+  bankWithdraw: { amount: string };
+  activateBoost: { boostType: string };
+  deactivateBoost: { boostType: string };
+}
+
+export type TransactionKind = keyof TransactionKindMap;
+
+/**
+ * Lifecycle of a tracked transaction
+ * - pendingSignature: waiting for the wallet
+ * - submitted: broadcast, waiting to be mined
+ * - confirmed: mined successfully
+ * - failed: rejected, reverted or dropped
+ * - replaced: superseded by another transaction with the same nonce
+ * - unknown: restored after a reload but sent on a chain the app has no RPC for
+ */
+export type TransactionStatus = 'pendingSignature' | 'submitted' | 'confirmed' | 'failed' | 'replaced' | 'unknown';
+
+export interface TrackedTransaction<K extends TransactionKind = TransactionKind> {
+  id: string;
+  kind: K;
+  meta: TransactionKindMap[K];
+  description: string;
+  status: TransactionStatus;
+  chainId: number;
+  hash?: string;
+  replacementHash?: string;
+  blockNumber?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Payload delivered to completion listeners
+ */
+export interface TransactionCompletedEvent<K extends TransactionKind = TransactionKind> {
+  transaction: TrackedTransaction<K>;
+  receipt: TransactionReceipt | null;
+}
+
+type Listener<K extends TransactionKind> = (event: TransactionCompletedEvent<K>) => void;
+
+const listeners = new Map<TransactionKind, Set<Listener<TransactionKind>>>();
+
+export const transactionEvents = {
+  /**
+   * Subscribes to successful completions of one transaction kind
+   * @param kind - Transaction kind
+   * @param listener - Called with the tracked transaction and its receipt
+   * @returns Unsubscribe function
+   */
+  on<K extends TransactionKind>(kind: K, listener: Listener<K>): () => void {
+    let set = listeners.get(kind);
+    if (!set) {
+      set = new Set();
+      listeners.set(kind, set);
+    }
+    set.add(listener as Listener<TransactionKind>);
+    return () => {
+      set.delete(listener as Listener<TransactionKind>);
+    };
+  },
+
+  /**
+   * Publishes a completed transaction to its listeners
+   * @param event - Completed transaction and receipt
+   */
+  emit<K extends TransactionKind>(event: TransactionCompletedEvent<K>): void {
+    listeners.get(event.transaction.kind)?.forEach((listener) => {
+      try {
+        listener(event as TransactionCompletedEvent<TransactionKind>);
+      } catch (error) {
+        console.error(`Transaction listener for ${event.transaction.kind} failed:`, error);
+      }
+    });
+  },
+};
+
+export default transactionEvents;
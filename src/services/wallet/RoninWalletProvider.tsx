@@ -1,19 +1,43 @@
-import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useEffect, useContext, ReactNode, Fragment } from 'react';
 import {
   ConnectorError,
   ConnectorErrorType,
   requestRoninWalletConnector
 } from '@sky-mavis/tanto-connect';
-import { getChainId } from '../../config/contracts';
+import {
+  getActiveNetwork,
+  getNetworkByChainId,
+  getNetworks,
+  NetworkConfig,
+  onNetworkChange,
+  setActiveNetwork,
+} from '../../config/contracts';
+
+/**
+ * Ronin Wallet connector, or the in-memory mock chain when VITE_USE_MOCK_CHAIN=true.
+ * The mock is exposed as `window.mockRonin` for time travel from the console,
+ * e.g. `mockRonin.provider.increaseTime(4 * 3600)`.
+ */
+const requestConnector = async () => {
+  if (import.meta.env.VITE_USE_MOCK_CHAIN === 'true') {
+    const { createMockRonin } = await import('../mock/MockRonin');
+    const mock = createMockRonin();
+    Object.assign(window, { mockRonin: mock });
+    return mock.connector;
+  }
+  return requestRoninWalletConnector();
+};
 
 // Define interface for wallet context
 interface RoninWalletContextProps {
   connector: any;
   address: string | null;
   chainId: number | null;
+  network: NetworkConfig;        // Network addresses currently resolve against
+  networks: NetworkConfig[];     // Networks offered to the player
   isConnected: boolean;
   isConnecting: boolean;
-  isCorrectNetwork: boolean;
+  isCorrectNetwork: boolean;     // The wallet is on a supported network
   error: string | null;
   connect: () => Promise<void>;
   disconnect: () => void;
@@ -25,6 +49,8 @@ const RoninWalletContext = createContext<RoninWalletContextProps>({
   connector: null,
   address: null,
   chainId: null,
+  network: getActiveNetwork(),
+  networks: getNetworks(),
   isConnected: false,
   isConnecting: false,
   isCorrectNetwork: false,
@@ -42,16 +68,40 @@ export const RoninWalletProvider: React.FC<{children: ReactNode}> = ({ children
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  
-  // Get expected chain ID from config
-  const expectedChainId = getChainId();
-  const isCorrectNetwork = chainId === expectedChainId;
+  const [network, setNetwork] = useState<NetworkConfig>(getActiveNetwork());
+
+  // The wallet is on a supported network once the registry follows its chain
+  const isCorrectNetwork = chainId !== null && chainId === network.chainId;
 
   // Storage keys for persisting connection state
   const STORAGE_KEY_CONNECTED = 'ronin_wallet_connected';
   const STORAGE_KEY_ADDRESS = 'ronin_wallet_address';
   const STORAGE_KEY_CHAIN_ID = 'ronin_wallet_chain_id';
 
+  useEffect(() => onNetworkChange(setNetwork), []);
+
+  // Follow the wallet: resolve addresses on whichever supported chain it is connected to
+  useEffect(() => {
+    if (chainId !== null && getNetworkByChainId(chainId)) {
+      setActiveNetwork(chainId);
+    }
+  }, [chainId]);
+
+  // Track chain changes made in the wallet itself
+  useEffect(() => {
+    const provider = connector?.provider;
+    if (!provider?.on) return;
+    const handleChainChanged = (hexChainId: string) => {
+      const nextChainId = Number(hexChainId);
+      setChainId(nextChainId);
+      if (localStorage.getItem(STORAGE_KEY_CONNECTED) === 'true') {
+        localStorage.setItem(STORAGE_KEY_CHAIN_ID, nextChainId.toString());
+      }
+    };
+    provider.on('chainChanged', handleChainChanged);
+    return () => provider.removeListener?.('chainChanged', handleChainChanged);
+  }, [connector]);
+
   // Initialize connector when component mounts
   useEffect(() => {
     const initConnector = async () => {
@@ -68,7 +118,7 @@ export const RoninWalletProvider: React.FC<{children: ReactNode}> = ({ children
         });
         
         // Get the connector
-        const conn = await requestRoninWalletConnector();
+        const conn = await requestConnector();
         setConnector(conn);
         
         // If we have persisted connection data, try to use it
@@ -143,7 +193,7 @@ export const RoninWalletProvider: React.FC<{children: ReactNode}> = ({ children
   const connect = async () => {
     if (!connector) {
       try {
-        const conn = await requestRoninWalletConnector();
+        const conn = await requestConnector();
         setConnector(conn);
       } catch (error) {
         if (error instanceof ConnectorError) {
@@ -196,15 +246,23 @@ export const RoninWalletProvider: React.FC<{children: ReactNode}> = ({ children
     console.log('Wallet disconnected and removed from local storage');
   };
 
-  // Switch chain
+  // Switch chain: prompts the wallet when connected, otherwise switches the read-only network
   const switchChain = async (chainId: number) => {
     try {
+      if (!getNetworkByChainId(chainId)) {
+        throw new Error(`Unsupported chain ${chainId}`);
+      }
+      if (!isConnected) {
+        setActiveNetwork(chainId);
+        return;
+      }
       if (!connector) {
         throw new Error('Wallet not initialized');
       }
       
       await connector.switchChain(chainId);
       setChainId(chainId);
+      localStorage.setItem(STORAGE_KEY_CHAIN_ID, chainId.toString());
     } catch (error) {
       console.error('Failed to switch chain:', error);
       setError('Failed to switch chain');
@@ -215,6 +273,8 @@ export const RoninWalletProvider: React.FC<{children: ReactNode}> = ({ children
     connector,
     address,
     chainId,
+    network,
+    networks: getNetworks(),
     isConnected,
     isConnecting,
     isCorrectNetwork,
@@ -226,7 +286,8 @@ export const RoninWalletProvider: React.FC<{children: ReactNode}> = ({ children
 
   return (
     <RoninWalletContext.Provider value={contextValue}>
-      {children}
+      {/* Remount on network switches so every hook and service re-resolves its contracts */}
+      <Fragment key={network.chainId}>{children}</Fragment>
     </RoninWalletContext.Provider>
   );
 };
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from "path"
 import tailwindcss from "@tailwindcss/vite"
 import react from "@vitejs/plugin-react"
@@ -41,4 +42,9 @@ export default defineConfig({
     // Increase the warning limit to avoid unnecessary warnings
     chunkSizeWarningLimit: 800
   },
+  test: {
+    // Services run against the in-memory mock chain; hook tests opt into jsdom per file
+    environment: "node",
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
 })